@@ -90,7 +90,7 @@ describe('Admin Dashboard E2E Tests', () => {
         ok: true,
         json: async () => ({
           success: true,
-          user: { id: '1', email: 'admin@example.com', role: 'ADMIN' },
+          user: { id: '1', email: 'admin@example.com', role: 'OWNER' },
         }),
       })
 
@@ -175,7 +175,7 @@ describe('Admin Dashboard E2E Tests', () => {
     beforeEach(() => {
       // Mock authenticated session
       mockAuth.api.getSession.mockResolvedValue({
-        user: { id: '1', email: 'admin@example.com', role: 'ADMIN' },
+        user: { id: '1', email: 'admin@example.com', role: 'OWNER' },
       })
     })
 
@@ -635,7 +635,7 @@ describe('Admin Dashboard E2E Tests', () => {
     it('should validate admin permissions', () => {
       const mockUser = { id: '1', email: 'user@example.com', role: 'USER' }
       
-      const isAdmin = mockUser.role === 'ADMIN'
+      const isAdmin = mockUser.role === 'OWNER'
       
       expect(isAdmin).toBe(false)
     })
@@ -289,7 +289,7 @@ describe('API Routes E2E Tests', () => {
     it('should create new project with authentication', async () => {
       // Mock authenticated session
       mockAuth.api.getSession.mockResolvedValue({
-        user: { id: '1', email: 'admin@example.com', role: 'ADMIN' },
+        user: { id: '1', email: 'admin@example.com', role: 'OWNER' },
       })
 
       const newProjectData = {
@@ -419,7 +419,7 @@ describe('API Routes E2E Tests', () => {
       })
 
       const session = await mockAuth.api.getSession()
-      const isAdmin = session?.user?.role === 'ADMIN'
+      const isAdmin = session?.user?.role === 'OWNER'
 
       expect(isAdmin).toBe(false)
 
@@ -468,7 +468,7 @@ describe('API Routes E2E Tests', () => {
     it('should update profile with authentication', async () => {
       // Mock authenticated admin
       mockAuth.api.getSession.mockResolvedValue({
-        user: { id: '1', email: 'admin@example.com', role: 'ADMIN' },
+        user: { id: '1', email: 'admin@example.com', role: 'OWNER' },
       })
 
       const updatedData = {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/lib/auth"
+import { hasPermission, isAdminRole, pagePermission, PUBLIC_ADMIN_PAGES } from "@/lib/permissions"
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
@@ -17,8 +18,8 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
-  // Allow access to login page
-  if (pathname === "/admin/login") {
+  // Allow access to login and password pages
+  if (PUBLIC_ADMIN_PAGES.includes(pathname)) {
     return NextResponse.next()
   }
 
@@ -35,15 +36,21 @@ export async function middleware(request: NextRequest) {
       return NextResponse.redirect(loginUrl)
     }
 
-    // Check if user has admin role
-    const userRole = (session.user as any).role
-    if (userRole !== "ADMIN") {
+    // Check if user has an admin role
+    const userRole = session.user.role
+    if (!isAdminRole(userRole)) {
       return NextResponse.json(
         { error: "Forbidden - Admin access required" },
         { status: 403 }
       )
     }
 
+    // Send users back to the dashboard when their role cannot open this page
+    const permission = pagePermission(pathname)
+    if (permission && !hasPermission(userRole, permission)) {
+      return NextResponse.redirect(new URL("/admin", request.url))
+    }
+
     return NextResponse.next()
   } catch (error) {
     console.error("Middleware auth error:", error)
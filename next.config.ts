@@ -25,6 +25,15 @@ const nextConfig: NextConfig = {
 
   // Allow importing server-only packages in the server runtime
   serverExternalPackages: ["@prisma/client"],
+
+  // Fonts embedded in generated PDFs are read from disk at runtime
+  outputFileTracingIncludes: {
+    '/api/resume': [
+      './node_modules/dejavu-fonts-ttf/ttf/DejaVuSans.ttf',
+      './node_modules/dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf',
+      './node_modules/dejavu-fonts-ttf/ttf/DejaVuSans-Oblique.ttf',
+    ],
+  },
   
   // Performance optimizations
   compress: true,
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "project_revisions" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "shortDescription" TEXT NOT NULL,
+    "technologies" TEXT[],
+    "images" TEXT[],
+    "liveUrl" TEXT,
+    "githubUrl" TEXT,
+    "status" "ProjectStatus" NOT NULL,
+    "authorId" TEXT,
+    "authorName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_revisions_projectId_createdAt_idx" ON "project_revisions"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "project_revisions" ADD CONSTRAINT "project_revisions_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill an initial revision for every existing project
+INSERT INTO "project_revisions" ("id", "projectId", "title", "description", "shortDescription", "technologies", "images", "liveUrl", "githubUrl", "status", "createdAt")
+SELECT 'rev_' || "id", "id", "title", "description", "shortDescription", "technologies", "images", "liveUrl", "githubUrl", "status", "updatedAt"
+FROM "projects";
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "ProjectStatus" ADD VALUE 'SCHEDULED';
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "unpublishAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "projects_status_publishAt_idx" ON "projects"("status", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "projects_status_unpublishAt_idx" ON "projects"("status", "unpublishAt");
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "project_preview_tokens" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "label" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_preview_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "project_preview_views" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "viewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_preview_views_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_preview_tokens_projectId_idx" ON "project_preview_tokens"("projectId");
+
+-- CreateIndex
+CREATE INDEX "project_preview_views_tokenId_viewedAt_idx" ON "project_preview_views"("tokenId", "viewedAt");
+
+-- AddForeignKey
+ALTER TABLE "project_preview_tokens" ADD CONSTRAINT "project_preview_tokens_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_preview_views" ADD CONSTRAINT "project_preview_views_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "project_preview_tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE;
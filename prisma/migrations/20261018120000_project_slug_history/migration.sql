@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "project_slug_history" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_slug_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_slug_history_slug_key" ON "project_slug_history"("slug");
+
+-- CreateIndex
+CREATE INDEX "project_slug_history_projectId_idx" ON "project_slug_history"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "project_slug_history" ADD CONSTRAINT "project_slug_history_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "contentBlocks" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "project_revisions" ADD COLUMN     "contentBlocks" JSONB NOT NULL DEFAULT '[]';
+
+-- Move each existing description into a single text block, unchanged
+UPDATE "projects"
+SET "contentBlocks" = jsonb_build_array(
+    jsonb_build_object('id', 'block-' || "id", 'type', 'text', 'markdown', "description")
+)
+WHERE "description" <> '';
+
+UPDATE "project_revisions"
+SET "contentBlocks" = jsonb_build_array(
+    jsonb_build_object('id', 'block-' || "projectId", 'type', 'text', 'markdown', "description")
+)
+WHERE "description" <> '';
@@ -0,0 +1,177 @@
+-- CreateEnum
+CREATE TYPE "TechnologyCategory" AS ENUM ('LANGUAGE', 'FRAMEWORK', 'LIBRARY', 'DATABASE', 'TOOL', 'PLATFORM', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "technologies" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "aliases" TEXT[],
+    "category" "TechnologyCategory" NOT NULL DEFAULT 'OTHER',
+    "icon" TEXT,
+    "url" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "technologies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_ProjectToTechnology" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ProjectToTechnology_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateTable
+CREATE TABLE "_ProfileToTechnology" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ProfileToTechnology_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "technologies_name_key" ON "technologies"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "technologies_slug_key" ON "technologies"("slug");
+
+-- CreateIndex
+CREATE INDEX "_ProjectToTechnology_B_index" ON "_ProjectToTechnology"("B");
+
+-- CreateIndex
+CREATE INDEX "_ProfileToTechnology_B_index" ON "_ProfileToTechnology"("B");
+
+-- AddForeignKey
+ALTER TABLE "_ProjectToTechnology" ADD CONSTRAINT "_ProjectToTechnology_A_fkey" FOREIGN KEY ("A") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ProjectToTechnology" ADD CONSTRAINT "_ProjectToTechnology_B_fkey" FOREIGN KEY ("B") REFERENCES "technologies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ProfileToTechnology" ADD CONSTRAINT "_ProfileToTechnology_A_fkey" FOREIGN KEY ("A") REFERENCES "profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ProfileToTechnology" ADD CONSTRAINT "_ProfileToTechnology_B_fkey" FOREIGN KEY ("B") REFERENCES "technologies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Normalise existing technologies and skills.
+-- Names are matched on the same key as technologyKey() in src/lib/utils.ts:
+-- lowercase letters and digits only, with "+" as "plus" and "#" as "sharp".
+
+-- Well-known technologies with the spellings commonly used for them
+INSERT INTO "technologies" ("id", "name", "slug", "aliases", "category", "url", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'Next.js', 'nextjs', ARRAY['NextJS', 'Next'], 'FRAMEWORK', 'https://nextjs.org', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'React', 'react', ARRAY['ReactJS', 'React.js'], 'LIBRARY', 'https://react.dev', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Vue.js', 'vuejs', ARRAY['Vue', 'VueJS'], 'FRAMEWORK', 'https://vuejs.org', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Node.js', 'nodejs', ARRAY['Node', 'NodeJS'], 'PLATFORM', 'https://nodejs.org', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Express', 'express', ARRAY['Express.js', 'ExpressJS'], 'FRAMEWORK', 'https://expressjs.com', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'TypeScript', 'typescript', ARRAY['TS'], 'LANGUAGE', 'https://www.typescriptlang.org', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'JavaScript', 'javascript', ARRAY['JS'], 'LANGUAGE', NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Tailwind CSS', 'tailwindcss', ARRAY['Tailwind'], 'FRAMEWORK', 'https://tailwindcss.com', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'PostgreSQL', 'postgresql', ARRAY['Postgres', 'PSQL'], 'DATABASE', 'https://www.postgresql.org', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'MongoDB', 'mongodb', ARRAY['Mongo'], 'DATABASE', 'https://www.mongodb.com', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Prisma', 'prisma', ARRAY['Prisma ORM'], 'TOOL', 'https://www.prisma.io', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Python', 'python', ARRAY['Python3'], 'LANGUAGE', 'https://www.python.org', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Docker', 'docker', ARRAY[]::TEXT[], 'TOOL', 'https://www.docker.com', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'AWS', 'aws', ARRAY['Amazon Web Services'], 'PLATFORM', 'https://aws.amazon.com', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'GraphQL', 'graphql', ARRAY[]::TEXT[], 'TOOL', 'https://graphql.org', CURRENT_TIMESTAMP);
+
+CREATE TEMPORARY TABLE "technology_keys" (
+    "key" TEXT PRIMARY KEY,
+    "technologyId" TEXT NOT NULL
+);
+
+INSERT INTO "technology_keys" ("key", "technologyId")
+SELECT DISTINCT ON (k."key") k."key", k."id"
+FROM (
+    SELECT t."id", t."slug" AS "key" FROM "technologies" t
+    UNION ALL
+    SELECT t."id", replace(replace(lower(regexp_replace(a."alias", '[^a-zA-Z0-9+#]', '', 'g')), '+', 'plus'), '#', 'sharp')
+    FROM "technologies" t CROSS JOIN LATERAL unnest(t."aliases") AS a("alias")
+) k
+WHERE k."key" <> '';
+
+-- Every spelling currently in use, with how often it appears
+CREATE TEMPORARY TABLE "technology_values" AS
+SELECT
+    v."value",
+    replace(replace(lower(regexp_replace(v."value", '[^a-zA-Z0-9+#]', '', 'g')), '+', 'plus'), '#', 'sharp') AS "key",
+    count(*) AS "uses"
+FROM (
+    SELECT trim(unnest("technologies")) AS "value" FROM "projects"
+    UNION ALL
+    SELECT trim(unnest("skills")) AS "value" FROM "profiles"
+) v
+WHERE v."value" <> ''
+GROUP BY v."value";
+
+-- Unknown technologies take their most used spelling as the canonical name
+-- and keep the other spellings as aliases
+INSERT INTO "technologies" ("id", "name", "slug", "aliases", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    g."value",
+    g."key",
+    ARRAY(
+        SELECT o."value" FROM "technology_values" o
+        WHERE o."key" = g."key" AND o."value" <> g."value"
+        ORDER BY o."uses" DESC, o."value"
+    ),
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT ON (v."key") v."key", v."value"
+    FROM "technology_values" v
+    WHERE v."key" <> ''
+      AND NOT EXISTS (SELECT 1 FROM "technology_keys" k WHERE k."key" = v."key")
+    ORDER BY v."key", v."uses" DESC, v."value"
+) g;
+
+INSERT INTO "technology_keys" ("key", "technologyId")
+SELECT t."slug", t."id"
+FROM "technologies" t
+WHERE NOT EXISTS (SELECT 1 FROM "technology_keys" k WHERE k."key" = t."slug");
+
+-- Rewrite the arrays with canonical names, dropping duplicates but keeping order
+UPDATE "projects" p
+SET "technologies" = COALESCE((
+    SELECT array_agg(m."name" ORDER BY m."position")
+    FROM (
+        SELECT t."name", min(u."position") AS "position"
+        FROM unnest(p."technologies") WITH ORDINALITY AS u("value", "position")
+        JOIN "technology_keys" k
+          ON k."key" = replace(replace(lower(regexp_replace(trim(u."value"), '[^a-zA-Z0-9+#]', '', 'g')), '+', 'plus'), '#', 'sharp')
+        JOIN "technologies" t ON t."id" = k."technologyId"
+        GROUP BY t."name"
+    ) m
+), ARRAY[]::TEXT[]);
+
+UPDATE "profiles" p
+SET "skills" = COALESCE((
+    SELECT array_agg(m."name" ORDER BY m."position")
+    FROM (
+        SELECT t."name", min(u."position") AS "position"
+        FROM unnest(p."skills") WITH ORDINALITY AS u("value", "position")
+        JOIN "technology_keys" k
+          ON k."key" = replace(replace(lower(regexp_replace(trim(u."value"), '[^a-zA-Z0-9+#]', '', 'g')), '+', 'plus'), '#', 'sharp')
+        JOIN "technologies" t ON t."id" = k."technologyId"
+        GROUP BY t."name"
+    ) m
+), ARRAY[]::TEXT[]);
+
+-- Link projects and profiles to the technologies they list
+INSERT INTO "_ProjectToTechnology" ("A", "B")
+SELECT DISTINCT p."id", t."id"
+FROM "projects" p
+CROSS JOIN LATERAL unnest(p."technologies") AS u("name")
+JOIN "technologies" t ON t."name" = u."name";
+
+INSERT INTO "_ProfileToTechnology" ("A", "B")
+SELECT DISTINCT p."id", t."id"
+FROM "profiles" p
+CROSS JOIN LATERAL unnest(p."skills") AS u("name")
+JOIN "technologies" t ON t."name" = u."name";
+
+DROP TABLE "technology_keys";
+DROP TABLE "technology_values";
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "skills" (
+    "id" TEXT NOT NULL,
+    "technologyId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "level" INTEGER NOT NULL DEFAULT 50,
+    "yearsOfExperience" DOUBLE PRECISION,
+    "icon" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "skills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "skills_technologyId_key" ON "skills"("technologyId");
+
+-- CreateIndex
+CREATE INDEX "skills_category_order_idx" ON "skills"("category", "order");
+
+-- AddForeignKey
+ALTER TABLE "skills" ADD CONSTRAINT "skills_technologyId_fkey" FOREIGN KEY ("technologyId") REFERENCES "technologies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Turn the profile's skill list into structured skills, keeping its order.
+-- Categories start out as the technology category and can be regrouped in the admin.
+INSERT INTO "skills" ("id", "technologyId", "category", "order", "updatedAt")
+SELECT gen_random_uuid()::text, t."id", initcap(t."category"::text), s."ord" - 1, CURRENT_TIMESTAMP
+FROM (SELECT "skills" FROM "profiles" ORDER BY "createdAt" LIMIT 1) p
+CROSS JOIN LATERAL unnest(p."skills") WITH ORDINALITY AS s("name", "ord")
+JOIN "technologies" t ON t."name" = s."name"
+ON CONFLICT ("technologyId") DO NOTHING;
@@ -0,0 +1,88 @@
+-- CreateTable
+CREATE TABLE "experience_entries" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "company" TEXT NOT NULL,
+    "position" TEXT NOT NULL,
+    "startDate" TEXT NOT NULL,
+    "endDate" TEXT,
+    "description" TEXT NOT NULL,
+    "technologies" TEXT[],
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "experience_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "education_entries" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "institution" TEXT NOT NULL,
+    "degree" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "startDate" TEXT NOT NULL,
+    "endDate" TEXT,
+    "description" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "education_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "experience_entries_profileId_order_idx" ON "experience_entries"("profileId", "order");
+
+-- CreateIndex
+CREATE INDEX "education_entries_profileId_order_idx" ON "education_entries"("profileId", "order");
+
+-- AddForeignKey
+ALTER TABLE "experience_entries" ADD CONSTRAINT "experience_entries_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "education_entries" ADD CONSTRAINT "education_entries_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move the JSON entries into the new tables, keeping their order.
+-- Blank strings become NULL for the optional fields, and missing required
+-- text becomes an empty string so it can be fixed in the admin.
+INSERT INTO "experience_entries" ("id", "profileId", "company", "position", "startDate", "endDate", "description", "technologies", "order", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    p."id",
+    COALESCE(e."data"->>'company', ''),
+    COALESCE(e."data"->>'position', ''),
+    COALESCE(e."data"->>'startDate', ''),
+    NULLIF(e."data"->>'endDate', ''),
+    COALESCE(e."data"->>'description', ''),
+    CASE
+        WHEN jsonb_typeof(e."data"->'technologies') = 'array'
+            THEN ARRAY(SELECT jsonb_array_elements_text(e."data"->'technologies'))
+        ELSE ARRAY[]::TEXT[]
+    END,
+    e."ord" - 1,
+    CURRENT_TIMESTAMP
+FROM "profiles" p
+CROSS JOIN LATERAL unnest(p."experience") WITH ORDINALITY AS e("data", "ord")
+WHERE jsonb_typeof(e."data") = 'object';
+
+INSERT INTO "education_entries" ("id", "profileId", "institution", "degree", "field", "startDate", "endDate", "description", "order", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    p."id",
+    COALESCE(e."data"->>'institution', ''),
+    COALESCE(e."data"->>'degree', ''),
+    COALESCE(e."data"->>'field', ''),
+    COALESCE(e."data"->>'startDate', ''),
+    NULLIF(e."data"->>'endDate', ''),
+    NULLIF(e."data"->>'description', ''),
+    e."ord" - 1,
+    CURRENT_TIMESTAMP
+FROM "profiles" p
+CROSS JOIN LATERAL unnest(p."education") WITH ORDINALITY AS e("data", "ord")
+WHERE jsonb_typeof(e."data") = 'object';
+
+-- AlterTable
+ALTER TABLE "profiles" DROP COLUMN "education",
+DROP COLUMN "experience";
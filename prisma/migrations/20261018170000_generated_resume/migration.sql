@@ -0,0 +1,5 @@
+-- AlterTable
+-- Resumes are generated from profile data by default. An uploaded PDF only
+-- replaces the generated one once it is switched on as an override.
+ALTER TABLE "profiles" ADD COLUMN     "resumeTemplate" TEXT NOT NULL DEFAULT 'modern',
+ADD COLUMN     "useUploadedResume" BOOLEAN NOT NULL DEFAULT false;
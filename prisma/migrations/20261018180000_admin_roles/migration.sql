@@ -0,0 +1,7 @@
+-- Existing admins become owners
+ALTER TYPE "Role" RENAME VALUE 'ADMIN' TO 'OWNER';
+
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'EDITOR';
+ALTER TYPE "Role" ADD VALUE 'VIEWER';
+
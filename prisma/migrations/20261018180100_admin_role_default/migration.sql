@@ -0,0 +1,2 @@
+-- New users are read-only until an owner gives them more access
+ALTER TABLE "users" ALTER COLUMN "role" SET DEFAULT 'VIEWER';
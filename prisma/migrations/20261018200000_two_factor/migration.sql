@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "twoFactorSecret" TEXT,
+ADD COLUMN     "twoFactorPendingSecret" TEXT,
+ADD COLUMN     "twoFactorEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "twoFactorRecoveryCodes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "twoFactorLastUsedStep" INTEGER;
+
+-- CreateTable
+CREATE TABLE "security_settings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "requireTwoFactor" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "security_settings_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "LoginThrottleScope" AS ENUM ('ACCOUNT', 'IP');
+
+-- CreateTable
+CREATE TABLE "login_throttles" (
+    "id" TEXT NOT NULL,
+    "scope" "LoginThrottleScope" NOT NULL,
+    "key" TEXT NOT NULL,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "lastFailedAt" TIMESTAMP(3),
+    "lockedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "login_throttles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "login_throttles_lockedUntil_idx" ON "login_throttles"("lockedUntil");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "login_throttles_scope_key_key" ON "login_throttles"("scope", "key");
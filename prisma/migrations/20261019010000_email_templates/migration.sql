@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "EmailTemplatePurpose" AS ENUM ('REPLY', 'CONTACT_NOTIFICATION', 'CONTACT_CONFIRMATION');
+
+-- CreateTable
+CREATE TABLE "email_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "purpose" "EmailTemplatePurpose" NOT NULL DEFAULT 'REPLY',
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_templates_purpose_idx" ON "email_templates"("purpose");
@@ -0,0 +1,23 @@
+-- AlterEnum
+ALTER TYPE "ContactStatus" ADD VALUE 'SPAM';
+
+-- CreateEnum
+CREATE TYPE "SpamVerdict" AS ENUM ('SPAM', 'NOT_SPAM');
+
+-- AlterTable
+ALTER TABLE "contacts" ADD COLUMN     "spamReasons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "spamScore" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "spam_feedback" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "verdict" "SpamVerdict" NOT NULL,
+    "contactId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "spam_feedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "spam_feedback_email_createdAt_idx" ON "spam_feedback"("email", "createdAt");
@@ -0,0 +1,53 @@
+-- AlterEnum
+ALTER TYPE "ContactStatus" ADD VALUE 'ARCHIVED';
+
+-- CreateTable
+CREATE TABLE "contact_labels" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contact_labels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "contact_notes" (
+    "id" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "authorName" TEXT,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contact_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_ContactToContactLabel" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ContactToContactLabel_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contact_labels_name_key" ON "contact_labels"("name");
+
+-- CreateIndex
+CREATE INDEX "contact_notes_contactId_createdAt_idx" ON "contact_notes"("contactId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "_ContactToContactLabel_B_index" ON "_ContactToContactLabel"("B");
+
+-- AddForeignKey
+ALTER TABLE "contact_notes" ADD CONSTRAINT "contact_notes_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contact_notes" ADD CONSTRAINT "contact_notes_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ContactToContactLabel" ADD CONSTRAINT "_ContactToContactLabel_A_fkey" FOREIGN KEY ("A") REFERENCES "contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ContactToContactLabel" ADD CONSTRAINT "_ContactToContactLabel_B_fkey" FOREIGN KEY ("B") REFERENCES "contact_labels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
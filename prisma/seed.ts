@@ -6,6 +6,7 @@ config({ path: resolve(__dirname, '../.env') })
 
 import { PrismaClient } from '@prisma/client'
 import { hashPassword } from '../src/lib/password'
+import { technologyKey } from '../src/lib/utils'
 
 const prisma = new PrismaClient({
   datasources: {
@@ -21,7 +22,7 @@ async function main() {
 
   // Create admin user if it doesn't exist
   const existingAdmin = await prisma.user.findFirst({
-    where: { role: 'ADMIN' }
+    where: { role: 'OWNER' }
   })
 
   if (!existingAdmin) {
@@ -33,7 +34,7 @@ async function main() {
         email: process.env.ADMIN_EMAIL || 'admin@portfolio.com',
         passwordHash: hashedPassword,
         name: process.env.ADMIN_NAME || 'Portfolio Admin',
-        role: 'ADMIN',
+        role: 'OWNER',
       },
     })
     console.log('✅ Created admin user:', admin.email)
@@ -45,15 +46,39 @@ async function main() {
   const existingProfile = await prisma.profile.findFirst()
 
   if (!existingProfile) {
+    const skills = [
+      { name: 'JavaScript', category: 'Frontend', level: 90 },
+      { name: 'TypeScript', category: 'Frontend', level: 85 },
+      { name: 'React', category: 'Frontend', level: 90 },
+      { name: 'Next.js', category: 'Frontend', level: 85 },
+      { name: 'Node.js', category: 'Backend', level: 80 },
+    ]
+    const technologies = []
+    for (const [order, skill] of skills.entries()) {
+      const slug = technologyKey(skill.name)
+      const technology = await prisma.technology.upsert({
+        where: { slug },
+        update: {},
+        create: { name: skill.name, slug }
+      })
+      await prisma.skill.upsert({
+        where: { technologyId: technology.id },
+        update: {},
+        create: { technologyId: technology.id, category: skill.category, level: skill.level, order }
+      })
+      technologies.push(technology)
+    }
+
     const profile = await prisma.profile.create({
       data: {
         name: 'Your Name',
         title: 'Full Stack Developer',
         bio: 'Passionate developer with expertise in modern web technologies.',
         email: 'contact@yourportfolio.com',
-        skills: ['JavaScript', 'TypeScript', 'React', 'Next.js', 'Node.js'],
-        experience: [],
-        education: [],
+        skills: technologies.map(technology => technology.name),
+        skillRefs: {
+          connect: technologies.map(technology => ({ id: technology.id }))
+        },
         socialLinks: {
           github: 'https://github.com/yourusername',
           linkedin: 'https://linkedin.com/in/yourusername',
@@ -0,0 +1,77 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { SetPasswordForm } from '@/components/admin/SetPasswordForm'
+
+interface Invitation {
+  name: string
+  email: string
+}
+
+function AcceptInvitationForm() {
+  const token = useSearchParams().get('token')
+  const [invitation, setInvitation] = useState<Invitation | null>(null)
+  const [loading, setLoading] = useState(Boolean(token))
+  const [valid, setValid] = useState(Boolean(token))
+
+  useEffect(() => {
+    if (!token) return
+
+    fetch(`/api/admin/invitations/accept?token=${encodeURIComponent(token)}`)
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) {
+          setInvitation(result.data)
+        } else {
+          setValid(false)
+        }
+      })
+      .catch(() => setValid(false))
+      .finally(() => setLoading(false))
+  }, [token])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {invitation && (
+        <p className="text-center text-sm text-slate-300">
+          Welcome, {invitation.name}. Choose a password for <span className="text-white">{invitation.email}</span>.
+        </p>
+      )}
+      <SetPasswordForm
+        endpoint="/api/admin/invitations/accept"
+        token={valid ? token : null}
+        submitLabel="Accept Invitation"
+      />
+    </div>
+  )
+}
+
+export default function AcceptInvitationPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-4">
+      <div className="w-full max-w-md">
+        <GlassmorphismCard className="p-8">
+          <div className="text-center mb-8">
+            <h1 className="text-2xl font-bold text-white mb-2">Accept Invitation</h1>
+            <p className="text-slate-300">Set a password to finish setting up your admin account</p>
+          </div>
+
+          <Suspense fallback={<LoadingSpinner size="lg" />}>
+            <AcceptInvitationForm />
+          </Suspense>
+        </GlassmorphismCard>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/admin/password/forgot', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to request a password reset')
+      }
+
+      setMessage(result.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-4">
+      <div className="w-full max-w-md">
+        <GlassmorphismCard className="p-8">
+          <div className="text-center mb-8">
+            <h1 className="text-2xl font-bold text-white mb-2">Forgot Password</h1>
+            <p className="text-slate-300">Enter your email and we&apos;ll send you a link to choose a new password</p>
+          </div>
+
+          {message ? (
+            <div className="space-y-6">
+              <div className="bg-green-500/20 border border-green-500/50 rounded-lg p-3">
+                <p className="text-green-200 text-sm">{message}</p>
+              </div>
+              <Link href="/admin/login" className="block text-center text-sm text-slate-300 hover:text-white">
+                Back to sign in
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-slate-200 mb-2">
+                  Email
+                </label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+                  placeholder="admin@example.com"
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+
+              {error && (
+                <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-3">
+                  <p className="text-red-200 text-sm">{error}</p>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <div className="flex items-center justify-center">
+                    <LoadingSpinner size="sm" />
+                    <span className="ml-2">Sending...</span>
+                  </div>
+                ) : (
+                  'Send Reset Link'
+                )}
+              </Button>
+
+              <Link href="/admin/login" className="block text-center text-sm text-slate-300 hover:text-white">
+                Back to sign in
+              </Link>
+            </form>
+          )}
+        </GlassmorphismCard>
+      </div>
+    </div>
+  )
+}
@@ -2,37 +2,87 @@
 
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
 import Button from '@/components/ui/Button'
 import Input from '@/components/ui/Input'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
-import { signIn } from '@/lib/auth-client'
+
+type LoginStep = 'credentials' | 'code' | 'setup' | 'recovery-codes'
+
+interface TwoFactorSetup {
+  secret: string
+  uri: string
+  qrCode: string
+}
+
+const STEP_DESCRIPTIONS: Record<LoginStep, string> = {
+  credentials: 'Sign in to access the dashboard',
+  code: 'Enter the 6-digit code from your authenticator app, or one of your recovery codes',
+  setup: 'Two-factor authentication is required. Scan the QR code with your authenticator app, then enter the code it shows.',
+  'recovery-codes': 'Save these recovery codes somewhere safe. Each one can be used once if you lose your device.',
+}
 
 export default function AdminLoginPage() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [step, setStep] = useState<LoginStep>('credentials')
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
   const router = useRouter()
 
+  const goToDashboard = () => {
+    router.push('/admin')
+    router.refresh()
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
     setError('')
 
     try {
-      const result = await signIn.email({
-        email,
-        password,
+      const response = await fetch('/api/admin/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email,
+          password,
+          code: step === 'credentials' ? undefined : code,
+        }),
       })
+      const result = await response.json()
+
+      if (result.code === 'TWO_FACTOR_REQUIRED') {
+        if (step === 'code') setError(result.error)
+        setStep('code')
+        return
+      }
 
-      if (result.error) {
-        throw new Error(result.error.message || 'Login failed')
+      if (result.code === 'TWO_FACTOR_SETUP_REQUIRED') {
+        if (result.data) setSetup(result.data)
+        if (step === 'setup') setError(result.error)
+        setStep('setup')
+        return
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || 'Login failed')
+      }
+
+      // Enrolling during sign-in returns recovery codes to show once
+      if (result.data?.recoveryCodes?.length) {
+        setRecoveryCodes(result.data.recoveryCodes)
+        setStep('recovery-codes')
+        return
       }
 
       // Redirect to admin dashboard on successful login
-      router.push('/admin')
-      router.refresh()
+      goToDashboard()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
@@ -40,69 +90,149 @@ export default function AdminLoginPage() {
     }
   }
 
+  const startOver = () => {
+    setStep('credentials')
+    setCode('')
+    setSetup(null)
+    setError('')
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-4">
       <div className="w-full max-w-md">
         <GlassmorphismCard className="p-8">
           <div className="text-center mb-8">
-            <h1 className="text-2xl font-bold text-white mb-2">Admin Login</h1>
-            <p className="text-slate-300">Sign in to access the dashboard</p>
+            <h1 className="text-2xl font-bold text-white mb-2">
+              {step === 'credentials' ? 'Admin Login' : 'Two-Factor Authentication'}
+            </h1>
+            <p className="text-slate-300">{STEP_DESCRIPTIONS[step]}</p>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-slate-200 mb-2">
-                Email
-              </label>
-              <Input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
-                placeholder="admin@example.com"
-                required
-                disabled={isLoading}
-              />
+          {step === 'recovery-codes' ? (
+            <div className="space-y-6">
+              <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-white bg-black/20 rounded-lg p-4">
+                {recoveryCodes.map(recoveryCode => (
+                  <li key={recoveryCode}>{recoveryCode}</li>
+                ))}
+              </ul>
+              <Button className="w-full" onClick={goToDashboard}>
+                I&apos;ve saved my recovery codes
+              </Button>
             </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {step === 'credentials' ? (
+                <>
+                  <div>
+                    <label htmlFor="email" className="block text-sm font-medium text-slate-200 mb-2">
+                      Email
+                    </label>
+                    <Input
+                      id="email"
+                      type="email"
+                      value={email}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+                      placeholder="admin@example.com"
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-slate-200 mb-2">
-                Password
-              </label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
-                placeholder="Enter your password"
-                required
-                disabled={isLoading}
-              />
-            </div>
+                  <div>
+                    <label htmlFor="password" className="block text-sm font-medium text-slate-200 mb-2">
+                      Password
+                    </label>
+                    <Input
+                      id="password"
+                      type="password"
+                      value={password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                      placeholder="Enter your password"
+                      required
+                      disabled={isLoading}
+                    />
+                    <Link
+                      href="/admin/forgot-password"
+                      className="inline-block mt-2 text-sm text-slate-300 hover:text-white"
+                    >
+                      Forgot your password?
+                    </Link>
+                  </div>
+                </>
+              ) : (
+                <>
+                  {step === 'setup' && setup && (
+                    <div className="text-center space-y-3">
+                      {/* A data URL, so there is nothing for the image optimizer to do */}
+                      <Image
+                        src={setup.qrCode}
+                        alt="QR code for your authenticator app"
+                        width={192}
+                        height={192}
+                        unoptimized
+                        className="mx-auto w-48 h-48 rounded-lg bg-white p-2"
+                      />
+                      <p className="text-xs text-slate-300">
+                        Can&apos;t scan it? Enter this key instead:
+                        <span className="block font-mono text-white break-all mt-1">{setup.secret}</span>
+                      </p>
+                    </div>
+                  )}
+
+                  <div>
+                    <label htmlFor="code" className="block text-sm font-medium text-slate-200 mb-2">
+                      {step === 'setup' ? 'Authenticator code' : 'Authentication code'}
+                    </label>
+                    <Input
+                      id="code"
+                      value={code}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+                      placeholder={step === 'setup' ? '123456' : '123456 or recovery code'}
+                      autoComplete="one-time-code"
+                      autoFocus
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
+                </>
+              )}
 
-            {error && (
-              <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-3">
-                <p className="text-red-200 text-sm">{error}</p>
-              </div>
-            )}
-
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <div className="flex items-center justify-center">
-                  <LoadingSpinner size="sm" />
-                  <span className="ml-2">Signing in...</span>
+              {error && (
+                <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-3">
+                  <p className="text-red-200 text-sm">{error}</p>
                 </div>
-              ) : (
-                'Sign In'
               )}
-            </Button>
-          </form>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <div className="flex items-center justify-center">
+                    <LoadingSpinner size="sm" />
+                    <span className="ml-2">{step === 'credentials' ? 'Signing in...' : 'Verifying...'}</span>
+                  </div>
+                ) : step === 'credentials' ? (
+                  'Sign In'
+                ) : (
+                  'Verify'
+                )}
+              </Button>
+
+              {step !== 'credentials' && (
+                <button
+                  type="button"
+                  onClick={startOver}
+                  className="w-full text-sm text-slate-300 hover:text-white"
+                >
+                  Use a different account
+                </button>
+              )}
+            </form>
+          )}
         </GlassmorphismCard>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
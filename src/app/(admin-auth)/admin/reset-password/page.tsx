@@ -0,0 +1,38 @@
+'use client'
+
+import { Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { SetPasswordForm } from '@/components/admin/SetPasswordForm'
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams()
+
+  return (
+    <SetPasswordForm
+      endpoint="/api/admin/password/reset"
+      token={searchParams.get('token')}
+      submitLabel="Change Password"
+    />
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-4">
+      <div className="w-full max-w-md">
+        <GlassmorphismCard className="p-8">
+          <div className="text-center mb-8">
+            <h1 className="text-2xl font-bold text-white mb-2">Choose a New Password</h1>
+            <p className="text-slate-300">Reset links work once and expire after an hour</p>
+          </div>
+
+          <Suspense fallback={<LoadingSpinner size="lg" />}>
+            <ResetPasswordForm />
+          </Suspense>
+        </GlassmorphismCard>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { ApiTokenManager } from '@/components/admin/ApiTokenManager'
+
+export default function AdminApiTokensPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          API Tokens
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Personal tokens for scripts and CI. Each token acts as you, limited to the scopes you give it
+        </p>
+      </div>
+
+      <ApiTokenManager />
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { AuditLogViewer } from '@/components/admin/AuditLogViewer'
+
+export default function AdminAuditPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Audit Log
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Every change made in the admin panel, who made it and what it changed
+        </p>
+      </div>
+
+      <AuditLogViewer />
+    </div>
+  )
+}
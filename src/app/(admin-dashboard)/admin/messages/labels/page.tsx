@@ -0,0 +1,19 @@
+import { ContactLabelManager } from '@/components/admin/ContactLabelManager'
+
+export default function AdminContactLabelsPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Message Labels
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Sort contact messages into groups such as job leads or support questions, then filter the inbox by them
+        </p>
+      </div>
+
+      <ContactLabelManager />
+    </div>
+  )
+}
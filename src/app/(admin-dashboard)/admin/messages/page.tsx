@@ -1,13 +1,16 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Contact } from '@prisma/client'
+import Link from 'next/link'
+import { Contact, ContactLabel } from '@prisma/client'
+import { FileText, Tag } from 'lucide-react'
+import Button from '@/components/ui/Button'
 import { ContactsInbox } from '@/components/admin/ContactsInbox'
 import { ContactDetail } from '@/components/admin/ContactDetail'
-import { ApiResponse } from '@/types'
+import { ApiResponse, ContactWithLabels } from '@/types'
 
 interface ContactsData {
-  contacts: Contact[]
+  contacts: ContactWithLabels[]
   pagination: {
     page: number
     limit: number
@@ -21,6 +24,8 @@ interface ContactsData {
     NEW: number
     READ: number
     REPLIED: number
+    SPAM: number
+    ARCHIVED: number
   }
 }
 
@@ -33,6 +38,8 @@ export default function MessagesPage() {
   // Filters and pagination
   const [currentPage, setCurrentPage] = useState(1)
   const [statusFilter, setStatusFilter] = useState('all')
+  const [labelFilter, setLabelFilter] = useState('')
+  const [labels, setLabels] = useState<ContactLabel[]>([])
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedContacts, setSelectedContacts] = useState<string[]>([])
 
@@ -46,6 +53,10 @@ export default function MessagesPage() {
         search: searchQuery
       })
 
+      if (labelFilter) {
+        params.set('label', labelFilter)
+      }
+
       const response = await fetch(`/api/admin/contacts?${params}`)
       const result: ApiResponse<ContactsData> = await response.json()
 
@@ -65,7 +76,25 @@ export default function MessagesPage() {
 
   useEffect(() => {
     fetchContacts()
-  }, [currentPage, statusFilter, searchQuery])
+  }, [currentPage, statusFilter, labelFilter, searchQuery])
+
+  // Labels for the filters and label pickers
+  useEffect(() => {
+    const fetchLabels = async () => {
+      try {
+        const response = await fetch('/api/admin/contact-labels')
+        const result: ApiResponse<ContactLabel[]> = await response.json()
+
+        if (result.success && result.data) {
+          setLabels(result.data)
+        }
+      } catch (err) {
+        console.error('Error fetching labels:', err)
+      }
+    }
+
+    fetchLabels()
+  }, [])
 
   const handleContactSelect = (contact: Contact) => {
     setSelectedContact(contact)
@@ -98,6 +127,20 @@ export default function MessagesPage() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold text-white">Contact Messages</h1>
+        <div className="flex items-center space-x-2">
+          <Link href="/admin/messages/labels">
+            <Button variant="outline" size="sm">
+              <Tag size={16} className="mr-2" />
+              Labels
+            </Button>
+          </Link>
+          <Link href="/admin/messages/templates">
+            <Button variant="outline" size="sm">
+              <FileText size={16} className="mr-2" />
+              Templates
+            </Button>
+          </Link>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[calc(100vh-200px)]">
@@ -110,10 +153,13 @@ export default function MessagesPage() {
             selectedContact={selectedContact}
             selectedContacts={selectedContacts}
             statusFilter={statusFilter}
+            labels={labels}
+            labelFilter={labelFilter}
             searchQuery={searchQuery}
             currentPage={currentPage}
             onContactSelect={handleContactSelect}
             onStatusFilterChange={setStatusFilter}
+            onLabelFilterChange={setLabelFilter}
             onSearchChange={setSearchQuery}
             onPageChange={setCurrentPage}
             onSelectedContactsChange={setSelectedContacts}
@@ -125,7 +171,17 @@ export default function MessagesPage() {
         <div className="lg:col-span-2">
           <ContactDetail
             contact={selectedContact}
+            labels={labels}
             onStatusUpdate={updateContactStatus}
+            onReplied={(contact) => {
+              setSelectedContact(contact)
+              fetchContacts()
+            }}
+            onSpamUpdate={(contact) => {
+              setSelectedContact(contact)
+              fetchContacts()
+            }}
+            onLabelsChange={fetchContacts}
             onDelete={() => {
               setSelectedContact(null)
               fetchContacts()
@@ -0,0 +1,19 @@
+import { EmailTemplateManager } from '@/components/admin/EmailTemplateManager'
+
+export default function AdminEmailTemplatesPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Email Templates
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Reusable replies and the emails the contact form sends, with variables such as {'{{name}}'} filled in when they are used
+        </p>
+      </div>
+
+      <EmailTemplateManager />
+    </div>
+  )
+}
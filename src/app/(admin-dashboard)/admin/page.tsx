@@ -26,11 +26,12 @@ async function getDashboardStats() {
     ] = await Promise.all([
       prisma.project.count(),
       prisma.project.count({ where: { status: 'PUBLISHED' } }),
-      prisma.contact.count(),
+      prisma.contact.count({ where: { status: { not: 'SPAM' } } }),
       prisma.contact.count({ where: { status: 'NEW' } }),
       prisma.pageView.count(),
       prisma.session.count(),
       prisma.contact.findMany({
+        where: { status: { not: 'SPAM' } },
         take: 5,
         orderBy: { createdAt: 'desc' },
         select: {
@@ -6,6 +6,8 @@ import Button from '@/components/ui/Button'
 import Modal from '@/components/ui/Modal'
 import { ProjectForm } from '@/components/admin/ProjectForm'
 import { ProjectsTable } from '@/components/admin/ProjectsTable'
+import { ProjectRevisions } from '@/components/admin/ProjectRevisions'
+import { ProjectPreviewLinks } from '@/components/admin/ProjectPreviewLinks'
 import { Project } from '@prisma/client'
 
 export default function AdminProjectsPage() {
@@ -14,6 +16,8 @@ export default function AdminProjectsPage() {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
   const [editingProject, setEditingProject] = useState<Project | null>(null)
   const [deleteConfirmProject, setDeleteConfirmProject] = useState<Project | null>(null)
+  const [historyProject, setHistoryProject] = useState<Project | null>(null)
+  const [previewProject, setPreviewProject] = useState<Project | null>(null)
 
   const fetchProjects = async () => {
     try {
@@ -46,6 +50,11 @@ export default function AdminProjectsPage() {
     setDeleteConfirmProject(project)
   }
 
+  const handleShowHistory = (project: Project) => {
+    setEditingProject(null)
+    setHistoryProject(project)
+  }
+
   const confirmDelete = async () => {
     if (!deleteConfirmProject) return
 
@@ -101,6 +110,8 @@ export default function AdminProjectsPage() {
           loading={loading}
           onEdit={handleEditProject}
           onDelete={handleDeleteProject}
+          onHistory={handleShowHistory}
+          onPreview={setPreviewProject}
           onRefresh={fetchProjects}
         />
       </motion.div>
@@ -132,10 +143,40 @@ export default function AdminProjectsPage() {
             project={editingProject}
             onSave={handleProjectSaved}
             onCancel={() => setEditingProject(null)}
+            onShowHistory={() => handleShowHistory(editingProject)}
           />
         )}
       </Modal>
 
+      {/* Revision History Modal */}
+      <Modal
+        isOpen={!!historyProject}
+        onClose={() => setHistoryProject(null)}
+        title={historyProject ? `Revision History: ${historyProject.title}` : 'Revision History'}
+        size="xl"
+        variant="glass"
+      >
+        {historyProject && (
+          <ProjectRevisions
+            project={historyProject}
+            onRestored={fetchProjects}
+          />
+        )}
+      </Modal>
+
+      {/* Preview Links Modal */}
+      <Modal
+        isOpen={!!previewProject}
+        onClose={() => setPreviewProject(null)}
+        title={previewProject ? `Preview Links: ${previewProject.title}` : 'Preview Links'}
+        size="lg"
+        variant="glass"
+      >
+        {previewProject && (
+          <ProjectPreviewLinks project={previewProject} />
+        )}
+      </Modal>
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={!!deleteConfirmProject}
@@ -0,0 +1,19 @@
+import { SecuritySettings } from '@/components/admin/SecuritySettings'
+
+export default function AdminSecurityPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Security
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Two-factor authentication, signed-in devices, sign-in requirements and lockouts after failed sign-ins
+        </p>
+      </div>
+
+      <SecuritySettings />
+    </div>
+  )
+}
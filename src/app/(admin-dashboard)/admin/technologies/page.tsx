@@ -0,0 +1,19 @@
+import { TechnologyManager } from '@/components/admin/TechnologyManager'
+
+export default function AdminTechnologiesPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Technologies
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Canonical technology names, aliases and categories used across projects and skills
+        </p>
+      </div>
+
+      <TechnologyManager />
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { UserManager } from '@/components/admin/UserManager'
+
+export default function AdminUsersPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Users
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Invite people to the admin panel and choose what each of them can do
+        </p>
+      </div>
+
+      <UserManager />
+    </div>
+  )
+}
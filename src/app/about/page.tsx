@@ -2,6 +2,7 @@ import { Metadata } from 'next'
 import PublicLayout from '@/components/layouts/PublicLayout'
 import AboutContent from '@/components/sections/AboutContent'
 import { generateMetadata as generateSEOMetadata, generateStructuredData } from '@/lib/seo'
+import { getSkills, toShowcaseSkill } from '@/lib/skills'
 
 export const metadata: Metadata = generateSEOMetadata({
   title: 'About SIRI DEV - Full-Stack Developer',
@@ -11,7 +12,18 @@ export const metadata: Metadata = generateSEOMetadata({
   type: 'profile',
 })
 
-export default function AboutPage() {
+async function getShowcaseSkills() {
+  try {
+    const skills = await getSkills()
+    return skills.map(toShowcaseSkill)
+  } catch (error) {
+    console.error('Error fetching skills:', error)
+    return []
+  }
+}
+
+export default async function AboutPage() {
+  const skills = await getShowcaseSkills()
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://siridev.com'
   
   const personSchema = generateStructuredData('Person', {
@@ -47,7 +59,7 @@ export default function AboutPage() {
 
   return (
     <PublicLayout>
-      <AboutContent />
+      <AboutContent skills={skills} />
       
       {/* JSON-LD Structured Data */}
       <script
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { revokeApiToken } from '@/lib/api-tokens'
+import { ApiResponse } from '@/types'
+
+// DELETE /api/admin/api-tokens/[id] - Revoke an API token straight away
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, session, audit }) => {
+  try {
+    const { id } = await params
+
+    const apiToken = await revokeApiToken(id, session.user)
+
+    await audit({ action: 'api_token.revoke', entityType: 'api_token', entityId: id, before: apiToken })
+
+    return NextResponse.json({
+      success: true,
+      message: 'API token revoked'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error revoking API token:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke API token' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+})
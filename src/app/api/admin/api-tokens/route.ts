@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { apiTokenSchema, createApiToken, listApiTokens } from '@/lib/api-tokens'
+import { hasPermission } from '@/lib/permissions'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/api-tokens - List the signed-in user's API tokens, or everyone's for user managers
+export const GET = withAdmin(async (request, { session }) => {
+  try {
+    const everyone = hasPermission(session.user.role, 'users:manage')
+    const tokens = await listApiTokens(everyone ? null : session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: tokens
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching API tokens:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch API tokens' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/admin/api-tokens - Create an API token; the token is only returned in this response
+export const POST = withAdmin(async (request, { session, audit }) => {
+  try {
+    const parsed = apiTokenSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const { token, apiToken } = await createApiToken(session.user, parsed.data)
+
+    await audit({ action: 'api_token.create', entityType: 'api_token', entityId: apiToken.id, after: apiToken })
+
+    return NextResponse.json({
+      success: true,
+      data: { token, apiToken },
+      message: 'API token created'
+    } as ApiResponse, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error creating API token:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create API token' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+})
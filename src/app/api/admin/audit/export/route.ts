@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { auditLogFilterSchema, auditLogsToCsv, auditLogWhere, MAX_AUDIT_EXPORT_ROWS } from '@/lib/audit-log'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/audit/export - Download the filtered audit log as CSV
+export const GET = withAdmin(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const parsed = auditLogFilterSchema.safeParse(Object.fromEntries(searchParams))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const logs = await prisma.auditLog.findMany({
+      where: auditLogWhere(parsed.data),
+      orderBy: { createdAt: 'desc' },
+      take: MAX_AUDIT_EXPORT_ROWS
+    })
+
+    return new NextResponse(auditLogsToCsv(logs), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().split('T')[0]}.csv"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Error exporting audit log:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to export audit log' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'audit:read' })
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { auditLogFilterSchema, listAuditLogs } from '@/lib/audit-log'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/audit - List audit log entries, newest first, filtered by actor, action, entity and date
+export const GET = withAdmin(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const parsed = auditLogFilterSchema.safeParse(Object.fromEntries(searchParams))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const result = await listAuditLogs(parsed.data)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching audit log:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audit log' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'audit:read' })
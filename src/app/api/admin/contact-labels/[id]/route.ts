@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { contactLabelSchema, deleteContactLabel, updateContactLabel } from '@/lib/contact-labels'
+import { ApiResponse } from '@/types'
+
+// PUT /api/admin/contact-labels/[id] - Rename or recolor a label
+export const PUT = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+    const parsed = contactLabelSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const { before, label } = await updateContactLabel(id, parsed.data)
+
+    await audit({ action: 'contact_label.update', entityType: 'contact_label', entityId: id, before, after: label })
+
+    return NextResponse.json({
+      success: true,
+      data: label,
+      message: 'Label updated'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error updating contact label:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update label' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:write' })
+
+// DELETE /api/admin/contact-labels/[id] - Delete a label and take it off every message
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+
+    const label = await deleteContactLabel(id)
+
+    await audit({ action: 'contact_label.delete', entityType: 'contact_label', entityId: id, before: label })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Label deleted'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error deleting contact label:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete label' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:delete' })
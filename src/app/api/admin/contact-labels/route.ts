@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { contactLabelSchema, createContactLabel, listContactLabels } from '@/lib/contact-labels'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/contact-labels - List labels with how many messages have each
+export const GET = withAdmin(async () => {
+  try {
+    const labels = await listContactLabels()
+
+    return NextResponse.json({
+      success: true,
+      data: labels
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching contact labels:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch labels' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:read' })
+
+// POST /api/admin/contact-labels - Create a label
+export const POST = withAdmin(async (request, { audit }) => {
+  try {
+    const parsed = contactLabelSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const label = await createContactLabel(parsed.data)
+
+    await audit({ action: 'contact_label.create', entityType: 'contact_label', entityId: label.id, after: label })
+
+    return NextResponse.json({
+      success: true,
+      data: label,
+      message: 'Label created'
+    } as ApiResponse, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error creating contact label:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create label' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:write' })
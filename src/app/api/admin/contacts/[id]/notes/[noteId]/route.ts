@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { deleteContactNote } from '@/lib/contact-notes'
+import { ApiResponse } from '@/types'
+
+// DELETE /api/admin/contacts/[id]/notes/[noteId] - Delete an internal note
+export const DELETE = withAdmin<{ id: string; noteId: string }>(async (request, { params, audit }) => {
+  try {
+    const { id, noteId } = await params
+
+    const note = await deleteContactNote(id, noteId)
+
+    await audit({ action: 'contact.note_delete', entityType: 'contact', entityId: id, before: note })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Note deleted'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error deleting note:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete note' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:write' })
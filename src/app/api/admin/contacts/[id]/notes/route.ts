@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { addContactNote, contactNoteSchema } from '@/lib/contact-notes'
+import { ApiResponse } from '@/types'
+
+// POST /api/admin/contacts/[id]/notes - Add an internal note to a message
+export const POST = withAdmin<{ id: string }>(async (request, { params, session, audit }) => {
+  try {
+    const { id } = await params
+    const parsed = contactNoteSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const note = await addContactNote(id, parsed.data, session.user)
+
+    await audit({ action: 'contact.note_add', entityType: 'contact', entityId: id, after: note })
+
+    return NextResponse.json({
+      success: true,
+      data: note,
+      message: 'Note added'
+    } as ApiResponse, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error adding note:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to add note' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:write' })
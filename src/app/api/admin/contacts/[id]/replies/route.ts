@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { contactReplySchema, replyToContact } from '@/lib/contact-replies'
+import { ApiResponse } from '@/types'
+
+// POST /api/admin/contacts/[id]/replies - Email a reply to the sender and add it to the thread
+export const POST = withAdmin<{ id: string }>(async (request, { params, session, audit }) => {
+  try {
+    const { id } = await params
+    const parsed = contactReplySchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const { reply, contact, previousStatus } = await replyToContact(id, parsed.data, session.user)
+
+    await audit({
+      action: 'contact.reply',
+      entityType: 'contact',
+      entityId: id,
+      before: { status: previousStatus },
+      after: { status: contact.status, replyId: reply.id, subject: reply.subject }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { reply, contact },
+      message: `Reply sent to ${contact.email}`
+    } as ApiResponse, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error sending reply:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to send reply' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:write' })
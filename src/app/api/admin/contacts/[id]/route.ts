@@ -1,38 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { auth } from '@/lib/auth'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { getContactThread } from '@/lib/contact-replies'
 import { ApiResponse } from '@/types'
 
-interface RouteParams {
-  params: Promise<{ id: string }>
-}
-
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withAdmin<{ id: string }>(async (request, { params }) => {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' } as ApiResponse,
-        { status: 401 }
-      )
-    }
-
     const { id } = await params
 
-    const contact = await prisma.contact.findUnique({
-      where: { id }
-    })
-
-    if (!contact) {
-      return NextResponse.json(
-        { success: false, error: 'Contact not found' } as ApiResponse,
-        { status: 404 }
-      )
-    }
+    const contact = await getContactThread(id)
 
     return NextResponse.json({
       success: true,
@@ -40,39 +17,36 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     } as ApiResponse)
 
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
     console.error('Error fetching contact:', error)
     return NextResponse.json(
       { success: false, error: 'Failed to fetch contact' } as ApiResponse,
       { status: 500 }
     )
   }
-}
+}, { permission: 'contacts:read' })
 
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
+export const PATCH = withAdmin<{ id: string }>(async (request, { params, audit }) => {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' } as ApiResponse,
-        { status: 401 }
-      )
-    }
-
     const { id } = await params
     const body = await request.json()
 
     // Validate status if provided
-    if (body.status && !['NEW', 'READ', 'REPLIED'].includes(body.status)) {
+    if (body.status && !['NEW', 'READ', 'REPLIED', 'ARCHIVED'].includes(body.status)) {
       return NextResponse.json(
         { success: false, error: 'Invalid status value' } as ApiResponse,
         { status: 400 }
       )
     }
 
+    const before = await prisma.contact.findUnique({ where: { id } })
+
     const contact = await prisma.contact.update({
       where: { id },
       data: {
@@ -81,6 +55,14 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       }
     })
 
+    await audit({
+      action: 'contact.update',
+      entityType: 'contact',
+      entityId: id,
+      before: before && { status: before.status },
+      after: { status: contact.status }
+    })
+
     return NextResponse.json({
       success: true,
       data: contact,
@@ -94,28 +76,18 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+}, { permission: 'contacts:write' })
 
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, audit }) => {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' } as ApiResponse,
-        { status: 401 }
-      )
-    }
-
     const { id } = await params
 
-    await prisma.contact.delete({
+    const contact = await prisma.contact.delete({
       where: { id }
     })
 
+    await audit({ action: 'contact.delete', entityType: 'contact', entityId: id, before: contact })
+
     return NextResponse.json({
       success: true,
       message: 'Contact deleted successfully'
@@ -128,4 +100,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}, { permission: 'contacts:delete' })
\ No newline at end of file
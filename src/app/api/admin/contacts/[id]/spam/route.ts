@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { markContactSpam } from '@/lib/spam'
+import { ApiResponse } from '@/types'
+
+const spamSchema = z.object({
+  spam: z.boolean('spam must be true or false'),
+})
+
+// PUT /api/admin/contacts/[id]/spam - Move a message to spam, or back to the inbox ("Not spam").
+// The decision is remembered for the sender's next message.
+export const PUT = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+    const parsed = spamSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const { spam } = parsed.data
+    const { contact, previousStatus } = await markContactSpam(id, spam)
+
+    await audit({
+      action: spam ? 'contact.spam' : 'contact.not_spam',
+      entityType: 'contact',
+      entityId: id,
+      before: { status: previousStatus },
+      after: { status: contact.status }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: contact,
+      message: spam ? 'Moved to spam' : 'Moved to the inbox'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error updating spam status:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update spam status' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:write' })
@@ -1,25 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { auth } from '@/lib/auth'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { bulkUpdateContacts, contactBulkUpdateSchema } from '@/lib/contact-labels'
 import { ApiResponse } from '@/types'
 
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async (request) => {
     try {
-        // Check authentication
-        const session = await auth.api.getSession({
-            headers: request.headers,
-        })
-
-        if (!session?.user || session.user.role !== 'ADMIN') {
-            return NextResponse.json(
-                { success: false, error: 'Unauthorized' } as ApiResponse,
-                { status: 401 }
-            )
-        }
-
         const { searchParams } = new URL(request.url)
         const status = searchParams.get('status')
         const search = searchParams.get('search')
+        const label = searchParams.get('label')
         const page = parseInt(searchParams.get('page') || '1')
         const limit = parseInt(searchParams.get('limit') || '10')
         const sortBy = searchParams.get('sortBy') || 'createdAt'
@@ -30,6 +21,13 @@ export async function GET(request: NextRequest) {
 
         if (status && status !== 'all') {
             where.status = status.toUpperCase()
+        } else {
+            // Spam and archived messages stay out of the inbox unless asked for
+            where.status = { notIn: ['SPAM', 'ARCHIVED'] }
+        }
+
+        if (label) {
+            where.labels = { some: { id: label } }
         }
 
         if (search) {
@@ -51,6 +49,7 @@ export async function GET(request: NextRequest) {
                 orderBy: { [sortBy]: sortOrder },
                 skip,
                 take: limit,
+                include: { labels: { orderBy: { name: 'asc' } } }
             }),
             prisma.contact.count({ where })
         ])
@@ -62,14 +61,17 @@ export async function GET(request: NextRequest) {
         })
 
         const statusStats = {
-            all: totalCount,
+            all: 0,
             NEW: 0,
             READ: 0,
-            REPLIED: 0
+            REPLIED: 0,
+            SPAM: 0,
+            ARCHIVED: 0
         }
 
         statusCounts.forEach(({ status, _count }) => {
-            statusStats[status as keyof typeof statusStats] = _count.status
+            statusStats[status] = _count.status
+            if (status !== 'SPAM' && status !== 'ARCHIVED') statusStats.all += _count.status
         })
 
         return NextResponse.json({
@@ -95,22 +97,66 @@ export async function GET(request: NextRequest) {
             { status: 500 }
         )
     }
-}
+}, { permission: 'contacts:read' })
 
-export async function DELETE(request: NextRequest) {
+// PATCH /api/admin/contacts?ids=a,b - Archive, set the status of, or add and remove labels on several messages
+export const PATCH = withAdmin(async (request, { audit }) => {
     try {
-        // Check authentication
-        const session = await auth.api.getSession({
-            headers: request.headers,
-        })
+        const { searchParams } = new URL(request.url)
+        const ids = searchParams.get('ids')?.split(',') || []
 
-        if (!session?.user || session.user.role !== 'ADMIN') {
+        if (ids.length === 0) {
             return NextResponse.json(
-                { success: false, error: 'Unauthorized' } as ApiResponse,
-                { status: 401 }
+                { success: false, error: 'No contact IDs provided' } as ApiResponse,
+                { status: 400 }
             )
         }
 
+        const parsed = contactBulkUpdateSchema.safeParse(await request.json())
+
+        if (!parsed.success) {
+            return NextResponse.json(
+                { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+                { status: 400 }
+            )
+        }
+
+        const changes = await bulkUpdateContacts(ids, parsed.data)
+
+        for (const { before, after } of changes) {
+            await audit({
+                action: 'contact.update',
+                entityType: 'contact',
+                entityId: after.id,
+                before: { status: before.status, labels: before.labels.map(label => label.name) },
+                after: { status: after.status, labels: after.labels.map(label => label.name) }
+            })
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: `Updated ${changes.length} contact(s)`,
+            data: { updatedCount: changes.length }
+        } as ApiResponse)
+
+    } catch (error) {
+        if (error instanceof AppError) {
+            return NextResponse.json(
+                { success: false, error: error.message } as ApiResponse,
+                { status: error.statusCode }
+            )
+        }
+
+        console.error('Error updating contacts:', error)
+        return NextResponse.json(
+            { success: false, error: 'Failed to update contacts' } as ApiResponse,
+            { status: 500 }
+        )
+    }
+}, { permission: 'contacts:write' })
+
+export const DELETE = withAdmin(async (request, { audit }) => {
+    try {
         const { searchParams } = new URL(request.url)
         const ids = searchParams.get('ids')?.split(',') || []
 
@@ -121,6 +167,12 @@ export async function DELETE(request: NextRequest) {
             )
         }
 
+        const deletedContacts = await prisma.contact.findMany({
+            where: {
+                id: { in: ids }
+            }
+        })
+
         // Delete contacts
         const result = await prisma.contact.deleteMany({
             where: {
@@ -128,6 +180,10 @@ export async function DELETE(request: NextRequest) {
             }
         })
 
+        for (const contact of deletedContacts) {
+            await audit({ action: 'contact.delete', entityType: 'contact', entityId: contact.id, before: contact })
+        }
+
         return NextResponse.json({
             success: true,
             message: `Deleted ${result.count} contact(s)`,
@@ -141,4 +197,4 @@ export async function DELETE(request: NextRequest) {
             { status: 500 }
         )
     }
-}
\ No newline at end of file
+}, { permission: 'contacts:delete' })
\ No newline at end of file
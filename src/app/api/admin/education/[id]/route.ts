@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { educationEntrySchema, formatSchemaError } from '@/lib/profile-schema'
+import { ApiResponse } from '@/types'
+
+// PUT /api/admin/education/[id] - Update an education entry
+export const PUT = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+    const parsed = educationEntrySchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatSchemaError(parsed.error) } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const existingEntry = await prisma.educationEntry.findUnique({
+      where: { id }
+    })
+
+    if (!existingEntry) {
+      return NextResponse.json(
+        { success: false, error: 'Education entry not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    const entry = await prisma.educationEntry.update({
+      where: { id },
+      data: parsed.data
+    })
+
+    await audit({ action: 'education.update', entityType: 'education', entityId: id, before: existingEntry, after: entry })
+
+    return NextResponse.json({
+      success: true,
+      data: entry
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error updating education:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update education' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
+
+// DELETE /api/admin/education/[id] - Delete an education entry
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+    const entry = await prisma.educationEntry.findUnique({
+      where: { id }
+    })
+    const { count } = await prisma.educationEntry.deleteMany({
+      where: { id }
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Education entry not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    await audit({ action: 'education.delete', entityType: 'education', entityId: id, before: entry })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Education deleted successfully'
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error deleting education:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete education' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { orderEntryIds } from '@/lib/profile-entries'
+import { ApiResponse } from '@/types'
+
+// POST /api/admin/education/reorder - Save the display order of education entries
+export const POST = withAdmin(async (request, { audit }) => {
+  try {
+    const { ids } = await request.json()
+
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'ids must be a list of education entry IDs' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const entries = await prisma.$transaction(async (tx) => {
+      const current = await tx.educationEntry.findMany({
+        orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+        select: { id: true }
+      })
+
+      const orderedIds = orderEntryIds(current.map(entry => entry.id), ids)
+      for (const [order, id] of orderedIds.entries()) {
+        await tx.educationEntry.update({ where: { id }, data: { order } })
+      }
+
+      return tx.educationEntry.findMany({
+        orderBy: [{ order: 'asc' }, { createdAt: 'asc' }]
+      })
+    })
+
+    await audit({ action: 'education.reorder', entityType: 'education', after: entries.map(entry => entry.id) })
+
+    return NextResponse.json({
+      success: true,
+      data: entries
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error reordering education:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to reorder education' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
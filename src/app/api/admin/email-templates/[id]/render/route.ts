@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError, NotFoundError } from '@/lib/error-handler'
+import { getEmailTemplate, renderEmailTemplate, templateValues } from '@/lib/email-templates'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/email-templates/[id]/render?contactId= - Fill in a template for a reply to a contact message
+export const GET = withAdmin<{ id: string }>(async (request, { params, session }) => {
+  try {
+    const { id } = await params
+    const contactId = new URL(request.url).searchParams.get('contactId')
+
+    const [template, contact] = await Promise.all([
+      getEmailTemplate(id),
+      contactId ? prisma.contact.findUnique({ where: { id: contactId } }) : null
+    ])
+
+    if (!contact) {
+      throw new NotFoundError('Contact')
+    }
+
+    const values = await templateValues(contact, { sender: session.user, request })
+    const { subject, text } = renderEmailTemplate(template, values)
+
+    return NextResponse.json({
+      success: true,
+      data: { subject, body: text }
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error rendering email template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to render email template' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:read' })
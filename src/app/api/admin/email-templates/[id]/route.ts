@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { deleteEmailTemplate, emailTemplateSchema, updateEmailTemplate } from '@/lib/email-templates'
+import { ApiResponse } from '@/types'
+
+// PUT /api/admin/email-templates/[id] - Update an email template
+export const PUT = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+    const parsed = emailTemplateSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const { before, template } = await updateEmailTemplate(id, parsed.data)
+
+    await audit({ action: 'email_template.update', entityType: 'email_template', entityId: id, before, after: template })
+
+    return NextResponse.json({
+      success: true,
+      data: template,
+      message: 'Template updated'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error updating email template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update email template' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:write' })
+
+// DELETE /api/admin/email-templates/[id] - Delete an email template; contact form emails fall back to the built-in version
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+
+    const template = await deleteEmailTemplate(id)
+
+    await audit({ action: 'email_template.delete', entityType: 'email_template', entityId: id, before: template })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Template deleted'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error deleting email template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete email template' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:delete' })
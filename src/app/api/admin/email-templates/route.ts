@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { EmailTemplatePurpose } from '@prisma/client'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { createEmailTemplate, emailTemplateSchema, listEmailTemplates } from '@/lib/email-templates'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/email-templates - List email templates, optionally only those with one purpose
+export const GET = withAdmin(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const purpose = z.enum(EmailTemplatePurpose).optional().safeParse(searchParams.get('purpose') || undefined)
+
+    if (!purpose.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid purpose value' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const templates = await listEmailTemplates(purpose.data)
+
+    return NextResponse.json({
+      success: true,
+      data: templates
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching email templates:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch email templates' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:read' })
+
+// POST /api/admin/email-templates - Create an email template
+export const POST = withAdmin(async (request, { audit }) => {
+  try {
+    const parsed = emailTemplateSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const template = await createEmailTemplate(parsed.data)
+
+    await audit({ action: 'email_template.create', entityType: 'email_template', entityId: template.id, after: template })
+
+    return NextResponse.json({
+      success: true,
+      data: template,
+      message: 'Template created'
+    } as ApiResponse, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error creating email template:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create email template' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'contacts:write' })
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { experienceEntrySchema, formatSchemaError } from '@/lib/profile-schema'
+import { ApiResponse } from '@/types'
+
+// PUT /api/admin/experience/[id] - Update an experience entry
+export const PUT = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+    const parsed = experienceEntrySchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatSchemaError(parsed.error) } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const existingEntry = await prisma.experienceEntry.findUnique({
+      where: { id }
+    })
+
+    if (!existingEntry) {
+      return NextResponse.json(
+        { success: false, error: 'Experience entry not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    const entry = await prisma.experienceEntry.update({
+      where: { id },
+      data: parsed.data
+    })
+
+    await audit({ action: 'experience.update', entityType: 'experience', entityId: id, before: existingEntry, after: entry })
+
+    return NextResponse.json({
+      success: true,
+      data: entry
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error updating experience:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update experience' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
+
+// DELETE /api/admin/experience/[id] - Delete an experience entry
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+    const entry = await prisma.experienceEntry.findUnique({
+      where: { id }
+    })
+    const { count } = await prisma.experienceEntry.deleteMany({
+      where: { id }
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Experience entry not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    await audit({ action: 'experience.delete', entityType: 'experience', entityId: id, before: entry })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Experience deleted successfully'
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error deleting experience:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete experience' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { orderEntryIds } from '@/lib/profile-entries'
+import { ApiResponse } from '@/types'
+
+// POST /api/admin/experience/reorder - Save the display order of experience entries
+export const POST = withAdmin(async (request, { audit }) => {
+  try {
+    const { ids } = await request.json()
+
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'ids must be a list of experience entry IDs' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const entries = await prisma.$transaction(async (tx) => {
+      const current = await tx.experienceEntry.findMany({
+        orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+        select: { id: true }
+      })
+
+      const orderedIds = orderEntryIds(current.map(entry => entry.id), ids)
+      for (const [order, id] of orderedIds.entries()) {
+        await tx.experienceEntry.update({ where: { id }, data: { order } })
+      }
+
+      return tx.experienceEntry.findMany({
+        orderBy: [{ order: 'asc' }, { createdAt: 'asc' }]
+      })
+    })
+
+    await audit({ action: 'experience.reorder', entityType: 'experience', after: entries.map(entry => entry.id) })
+
+    return NextResponse.json({
+      success: true,
+      data: entries
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error reordering experience:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to reorder experience' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
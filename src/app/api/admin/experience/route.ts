@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { experienceEntrySchema, formatSchemaError } from '@/lib/profile-schema'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/experience - List experience entries in display order
+export const GET = withAdmin(async () => {
+  try {
+    const entries = await prisma.experienceEntry.findMany({
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }]
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: entries
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching experience:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch experience' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:read' })
+
+// POST /api/admin/experience - Add an experience entry at the end of the list
+export const POST = withAdmin(async (request, { audit }) => {
+  try {
+    const parsed = experienceEntrySchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: formatSchemaError(parsed.error) } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const profile = await prisma.profile.findFirst({ select: { id: true } })
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Save your basic profile information first' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const lastEntry = await prisma.experienceEntry.findFirst({
+      where: { profileId: profile.id },
+      orderBy: { order: 'desc' }
+    })
+
+    const entry = await prisma.experienceEntry.create({
+      data: {
+        ...parsed.data,
+        profileId: profile.id,
+        order: (lastEntry?.order ?? -1) + 1
+      }
+    })
+
+    await audit({ action: 'experience.create', entityType: 'experience', entityId: entry.id, after: entry })
+
+    return NextResponse.json({
+      success: true,
+      data: entry,
+      message: 'Experience added successfully'
+    } as ApiResponse, { status: 201 })
+
+  } catch (error) {
+    console.error('Error creating experience:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create experience' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
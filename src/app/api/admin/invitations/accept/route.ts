@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppError } from '@/lib/error-handler'
+import { auditRequestInfo, recordAudit } from '@/lib/audit-log'
+import { findUserToken } from '@/lib/user-tokens'
+import { resetPasswordSchema, setPasswordWithToken } from '@/lib/password-reset'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/invitations/accept?token= - Who an invitation link is for
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token')
+    const record = token ? await findUserToken(token, 'INVITATION') : null
+
+    if (!record) {
+      return NextResponse.json(
+        { success: false, error: 'This invitation is invalid or has expired' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { name: record.user.name, email: record.user.email }
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching invitation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch invitation' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/invitations/accept - Accept an invitation by choosing a password
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = resetPasswordSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const user = await setPasswordWithToken(parsed.data.token, parsed.data.password, 'INVITATION')
+
+    await recordAudit(
+      { action: 'user.invitation_accept', entityType: 'user', entityId: user.id },
+      user,
+      auditRequestInfo(request)
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: 'Your account is ready. You can now sign in.'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error accepting invitation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to accept invitation' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { clearLoginThrottle } from '@/lib/login-throttle'
+import { ApiResponse } from '@/types'
+
+// DELETE /api/admin/lockouts/[id] - Clear failed attempts and any lockout for an account or IP
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+
+    const throttle = await clearLoginThrottle(id)
+
+    await audit({ action: 'login_lockout.clear', entityType: 'login_throttle', entityId: id, before: throttle })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Lockout cleared'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error clearing lockout:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to clear lockout' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'users:manage' })
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { listLoginThrottles } from '@/lib/login-throttle'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/lockouts - Accounts and IPs that are locked out or have recent failed sign-ins
+export const GET = withAdmin(async () => {
+  try {
+    const throttles = await listLoginThrottles()
+
+    return NextResponse.json({
+      success: true,
+      data: throttles
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching lockouts:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch lockouts' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'users:manage' })
@@ -1,27 +1,90 @@
 import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
 import { auth } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { verifyPassword } from "@/lib/password"
+import { AppError, withErrorHandler } from "@/lib/error-handler"
+import { clientIp, createRateLimiter, tokenBucket, withRateLimitHeaders } from "@/lib/rate-limit"
+import { auditRequestInfo, recordAudit } from "@/lib/audit-log"
+import { getSecuritySettings } from "@/lib/security-settings"
+import {
+  checkLoginThrottle,
+  clearLoginFailures,
+  LoginThrottleStatus,
+  recordLoginFailure,
+} from "@/lib/login-throttle"
+import {
+  confirmTwoFactorEnrolment,
+  isTwoFactorEnabled,
+  startTwoFactorEnrolment,
+  verifySecondFactor,
+} from "@/lib/two-factor"
+
+// Sign-in requests from each IP, on top of the failed-attempt throttle below:
+// bursts of 10, then one every 30 seconds
+const loginRateLimiter = createRateLimiter({
+  name: "admin-login",
+  policy: tokenBucket({ capacity: 10, refillEveryMs: 30 * 1000 }),
+})
+
+const loginSchema = z.object({
+  email: z.email("Please enter a valid email address").transform(email => email.toLowerCase()),
+  password: z.string().min(1, "Email and password are required"),
+  code: z.string().trim().min(1).optional(),
+})
+
+function twoFactorResponse(code: string, error: string, data?: unknown) {
+  return NextResponse.json(
+    { success: false, error, code, data },
+    { status: 401 }
+  )
+}
+
+function tooManyAttemptsResponse({ retryAfterMs, locked }: LoginThrottleStatus) {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000))
+  const error = locked
+    ? `Too many failed attempts. Sign-in is locked for ${Math.ceil(retryAfter / 60)} minutes.`
+    : `Too many failed attempts. Please wait ${retryAfter} seconds and try again.`
+
+  return NextResponse.json(
+    { success: false, error },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  )
+}
+
+// POST /api/admin/login - Sign in with email, password and, when enabled, a two-factor code
+export const POST = withErrorHandler(async (request: NextRequest) => {
+  const rateLimit = await loginRateLimiter.limit(clientIp(request))
 
-export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json()
+    const parsed = loginSchema.safeParse(await request.json())
 
-    if (!email || !password) {
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: "Email and password are required" },
+        { success: false, error: parsed.error.issues[0].message },
         { status: 400 }
       )
     }
 
+    const { email, password, code } = parsed.data
+    const throttleKeys = { email, ipAddress: auditRequestInfo(request).ipAddress }
+
+    // Refuse attempts while this account or IP is delayed or locked out
+    const throttle = await checkLoginThrottle(throttleKeys)
+
+    if (!throttle.allowed) {
+      return tooManyAttemptsResponse(throttle)
+    }
+
     // Find user in database
     const user = await prisma.user.findUnique({
       where: { email },
     })
 
     if (!user) {
+      await recordLoginFailure(throttleKeys)
       return NextResponse.json(
-        { error: "Invalid credentials" },
+        { success: false, error: "Invalid credentials" },
         { status: 401 }
       )
     }
@@ -30,34 +93,94 @@ export async function POST(request: NextRequest) {
     const isValidPassword = await verifyPassword(password, user.passwordHash)
 
     if (!isValidPassword) {
+      await recordLoginFailure(throttleKeys)
       return NextResponse.json(
-        { error: "Invalid credentials" },
+        { success: false, error: "Invalid credentials" },
         { status: 401 }
       )
     }
 
-    // Create session using better-auth
-    const session = await auth.api.signInEmail({
+    // Second step: a TOTP or recovery code, or enrolment when 2FA is required
+    let recoveryCodes: string[] | undefined
+
+    if (isTwoFactorEnabled(user)) {
+      if (!code) {
+        return twoFactorResponse("TWO_FACTOR_REQUIRED", "Enter the code from your authenticator app")
+      }
+
+      if (!(await verifySecondFactor(user, code))) {
+        await recordLoginFailure(throttleKeys)
+        return twoFactorResponse("TWO_FACTOR_REQUIRED", "That code is not valid")
+      }
+    } else if ((await getSecuritySettings()).requireTwoFactor) {
+      if (!code) {
+        return twoFactorResponse(
+          "TWO_FACTOR_SETUP_REQUIRED",
+          "Two-factor authentication is required. Scan the QR code to set it up.",
+          await startTwoFactorEnrolment(user)
+        )
+      }
+
+      try {
+        recoveryCodes = await confirmTwoFactorEnrolment(user.id, code)
+      } catch (error) {
+        if (error instanceof AppError) {
+          await recordLoginFailure(throttleKeys)
+          return twoFactorResponse("TWO_FACTOR_SETUP_REQUIRED", error.message)
+        }
+        throw error
+      }
+
+      await recordAudit(
+        { action: "user.two_factor_enable", entityType: "user", entityId: user.id },
+        user,
+        auditRequestInfo(request)
+      )
+    }
+
+    await clearLoginFailures(email)
+
+    // Create session using better-auth and pass its cookies on
+    const sessionResponse = await auth.api.signInEmail({
       body: {
         email,
         password,
       },
+      headers: request.headers,
+      asResponse: true,
     })
 
-    return NextResponse.json({
+    if (!sessionResponse.ok) {
+      console.error("Login error: session creation failed with status", sessionResponse.status)
+      return NextResponse.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      )
+    }
+
+    const response = NextResponse.json({
       success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+        },
+        recoveryCodes,
       },
     })
+
+    for (const cookie of sessionResponse.headers.getSetCookie()) {
+      response.headers.append("set-cookie", cookie)
+    }
+
+    return withRateLimitHeaders(response, rateLimit)
   } catch (error) {
     console.error("Login error:", error)
     return NextResponse.json(
-      { error: "Internal server error" },
+      { success: false, error: "Internal server error" },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandler } from '@/lib/error-handler'
+import { forgotPasswordSchema, requestPasswordReset } from '@/lib/password-reset'
+import { clientIp, createRateLimiter, slidingWindow, withRateLimitHeaders } from '@/lib/rate-limit'
+import { ApiResponse } from '@/types'
+
+const SENT_MESSAGE = 'If that email belongs to an admin account, a reset link is on its way.'
+
+// Max 5 reset requests per 15 minutes from each IP
+const forgotPasswordRateLimiter = createRateLimiter({
+  name: 'password-forgot',
+  policy: slidingWindow({ limit: 5, windowMs: 15 * 60 * 1000 }),
+})
+
+// Max 3 reset emails an hour to each address, however many IPs ask for them
+const resetEmailRateLimiter = createRateLimiter({
+  name: 'password-reset-email',
+  policy: slidingWindow({ limit: 3, windowMs: 60 * 60 * 1000 }),
+})
+
+// POST /api/admin/password/forgot - Email a password reset link
+export const POST = withErrorHandler(async (request: NextRequest) => {
+  const rateLimit = await forgotPasswordRateLimiter.limit(clientIp(request))
+
+  try {
+    const parsed = forgotPasswordSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    // Over the address limit nothing is sent, but the answer stays the same so
+    // it can't be told apart from an unknown address
+    const emailLimit = await resetEmailRateLimiter.check(parsed.data.email)
+
+    // Failures are only logged so the response never reveals whether the account exists
+    if (emailLimit.allowed) {
+      try {
+        await requestPasswordReset(parsed.data.email)
+      } catch (resetError) {
+        console.error('Failed to send password reset email:', resetError)
+      }
+    }
+
+    return withRateLimitHeaders(NextResponse.json({
+      success: true,
+      message: SENT_MESSAGE
+    } as ApiResponse), rateLimit)
+
+  } catch (error) {
+    console.error('Error requesting password reset:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to request a password reset' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+})
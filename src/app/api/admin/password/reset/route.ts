@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppError } from '@/lib/error-handler'
+import { auditRequestInfo, recordAudit } from '@/lib/audit-log'
+import { resetPasswordSchema, setPasswordWithToken } from '@/lib/password-reset'
+import { ApiResponse } from '@/types'
+
+// POST /api/admin/password/reset - Set a new password with a token from a reset email
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = resetPasswordSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const user = await setPasswordWithToken(parsed.data.token, parsed.data.password, 'PASSWORD_RESET')
+
+    await recordAudit(
+      { action: 'user.password_reset', entityType: 'user', entityId: user.id },
+      user,
+      auditRequestInfo(request)
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: 'Your password has been changed. You can now sign in.'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error resetting password:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to reset password' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withAdmin } from '@/lib/api-auth'
+import { ValidationError } from '@/lib/error-handler'
+import { importJsonResume } from '@/lib/json-resume'
+import { ApiResponse } from '@/types'
+
+const importRequestSchema = z.object({
+  document: z.unknown().refine(document => document !== undefined, 'A JSON Resume document is required'),
+  dryRun: z.boolean().default(false),
+})
+
+// POST /api/admin/profile/import - Import a JSON Resume document, or preview it with dryRun
+export const POST = withAdmin(async (request, { audit }) => {
+  try {
+    const parsed = importRequestSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const result = await importJsonResume(parsed.data.document, { dryRun: parsed.data.dryRun })
+
+    if (!parsed.data.dryRun) {
+      // The preview lists each field's old and new value
+      await audit({ action: 'profile.import', entityType: 'profile', entityId: result.profile?.id, after: result.preview })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: parsed.data.dryRun ? undefined : 'Profile imported successfully'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    console.error('Error importing profile:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to import profile' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { ApiResponse } from '@/types'
+
+// DELETE /api/admin/projects/[id]/previews/[tokenId] - Revoke a preview link
+export const DELETE = withAdmin<{ id: string; tokenId: string }>(async (request, { params, audit }) => {
+  try {
+    const { id, tokenId } = await params
+
+    // Revoked tokens are kept so their view log stays available
+    const result = await prisma.projectPreviewToken.updateMany({
+      where: { id: tokenId, projectId: id, revokedAt: null },
+      data: { revokedAt: new Date() }
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Preview link not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    await audit({ action: 'preview_link.revoke', entityType: 'project', entityId: id, before: { tokenId } })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Preview link revoked'
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error revoking preview link:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke preview link' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:write' })
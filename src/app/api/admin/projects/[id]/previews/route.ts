@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { createPreviewToken, signPreviewToken } from '@/lib/project-preview'
+import { ApiResponse } from '@/types'
+
+function buildPreviewUrl(request: NextRequest, slug: string, token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || new URL(request.url).origin
+  return `${baseUrl}/projects/${slug}?preview=${encodeURIComponent(token)}`
+}
+
+// GET /api/admin/projects/[id]/previews - List preview links with their view logs
+export const GET = withAdmin<{ id: string }>(async (request, { params }) => {
+  try {
+    const { id } = await params
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { slug: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    const tokens = await prisma.projectPreviewToken.findMany({
+      where: { projectId: id },
+      include: {
+        views: {
+          orderBy: { viewedAt: 'desc' },
+          take: 20
+        },
+        _count: { select: { views: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: tokens.map(token => ({
+        ...token,
+        url: buildPreviewUrl(request, project.slug, signPreviewToken(token))
+      }))
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching preview links:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch preview links' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:read' })
+
+// POST /api/admin/projects/[id]/previews - Create a new expiring preview link
+export const POST = withAdmin<{ id: string }>(async (request, { params, session, audit }) => {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const { ttlHours, label } = body
+
+    if (ttlHours !== undefined && (typeof ttlHours !== 'number' || ttlHours <= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Expiry must be a positive number of hours' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { slug: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    const { record, token } = await createPreviewToken(id, {
+      ttlHours,
+      label: typeof label === 'string' ? label.trim().slice(0, 100) : null,
+      author: session.user
+    })
+
+    await audit({ action: 'preview_link.create', entityType: 'project', entityId: id, after: record })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...record,
+        url: buildPreviewUrl(request, project.slug, token)
+      },
+      message: 'Preview link created'
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error creating preview link:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create preview link' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:write' })
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { restoreProjectRevision } from '@/lib/project-revisions'
+import { ApiResponse } from '@/types'
+
+// POST /api/admin/projects/[id]/revisions/[revisionId]/restore - Restore a project to a revision
+export const POST = withAdmin<{ id: string; revisionId: string }>(async (request, { params, session, audit }) => {
+  try {
+    const { id, revisionId } = await params
+
+    const before = await prisma.project.findUnique({ where: { id } })
+    const result = await restoreProjectRevision(revisionId, id, session.user)
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Revision not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    await audit({
+      action: 'project.restore_revision',
+      entityType: 'project',
+      entityId: id,
+      before,
+      after: result.project
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: 'Project restored successfully'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error restoring project revision:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore revision' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:write' })
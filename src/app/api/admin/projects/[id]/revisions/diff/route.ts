@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { diffRevisions, RevisionSnapshot } from '@/lib/project-revisions'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/projects/[id]/revisions/diff?from=<revisionId>&to=<revisionId|current>
+export const GET = withAdmin<{ id: string }>(async (request, { params }) => {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to') || 'current'
+
+    if (!from) {
+      return NextResponse.json(
+        { success: false, error: 'The "from" revision is required' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    // "current" compares against the live project row
+    const loadSnapshot = (revisionId: string): Promise<RevisionSnapshot | null> =>
+      revisionId === 'current'
+        ? prisma.project.findUnique({ where: { id } })
+        : prisma.projectRevision.findFirst({ where: { id: revisionId, projectId: id } })
+
+    const [fromSnapshot, toSnapshot] = await Promise.all([
+      loadSnapshot(from),
+      loadSnapshot(to)
+    ])
+
+    if (!fromSnapshot || !toSnapshot) {
+      return NextResponse.json(
+        { success: false, error: 'Revision not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        from,
+        to,
+        changes: diffRevisions(fromSnapshot, toSnapshot)
+      }
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error comparing project revisions:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to compare revisions' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:read' })
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/projects/[id]/revisions - List revisions for a project, newest first
+export const GET = withAdmin<{ id: string }>(async (request, { params }) => {
+  try {
+    const { id } = await params
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    const revisions = await prisma.projectRevision.findMany({
+      where: { projectId: id },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: revisions
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching project revisions:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch project revisions' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:read' })
@@ -1,27 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { auth } from '@/lib/auth'
+import { withAdmin } from '@/lib/api-auth'
+import { createProjectRevision } from '@/lib/project-revisions'
+import { parseProjectBlocks, projectBlocksToText } from '@/lib/project-blocks'
+import { parseProjectSchedule } from '@/lib/project-schedule'
+import { resolveTechnologies } from '@/lib/technologies'
+import { findSlugConflict, recordSlugChange } from '@/lib/project-slugs'
+import { toProjectSlug } from '@/lib/utils'
+import { Prisma } from '@prisma/client'
 
 // GET /api/admin/projects/[id] - Get single project for admin
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const GET = withAdmin<{ id: string }>(async (request, { params }) => {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const { id } = await params
 
     const project = await prisma.project.findUnique({
-      where: { id: params.id }
+      where: { id }
     })
 
     if (!project) {
@@ -45,51 +39,63 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+}, { permission: 'projects:read' })
 
 // PUT /api/admin/projects/[id] - Update project
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const PUT = withAdmin<{ id: string }>(async (request, { params, session, audit }) => {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const { id } = await params
 
     const body = await request.json()
     const {
       title,
       description,
       shortDescription,
+      contentBlocks,
       technologies,
       images,
       liveUrl,
       githubUrl,
       featured,
       status,
-      order
+      order,
+      publishAt,
+      unpublishAt,
+      slug: requestedSlug
     } = body
 
+    const blocks = parseProjectBlocks(contentBlocks)
+    if (blocks.error) {
+      return NextResponse.json(
+        { success: false, error: blocks.error },
+        { status: 400 }
+      )
+    }
+
+    // Keep the plain description in sync with the content blocks
+    const projectDescription = blocks.blocks.length > 0
+      ? projectBlocksToText(blocks.blocks)
+      : description
+
     // Validate required fields
-    if (!title || !description || !shortDescription) {
+    if (!title || !projectDescription || !shortDescription) {
       return NextResponse.json(
         { success: false, error: 'Title, description, and short description are required' },
         { status: 400 }
       )
     }
 
+    const schedule = parseProjectSchedule({ status, publishAt, unpublishAt })
+    if (schedule.error) {
+      return NextResponse.json(
+        { success: false, error: schedule.error },
+        { status: 400 }
+      )
+    }
+
     // Check if project exists
     const existingProject = await prisma.project.findUnique({
-      where: { id: params.id }
+      where: { id }
     })
 
     if (!existingProject) {
@@ -99,49 +105,75 @@ export async function PUT(
       )
     }
 
-    // Generate new slug if title changed
+    // Use the submitted slug, or generate a new one if the title changed
     let slug = existingProject.slug
-    if (title !== existingProject.title) {
-      const newSlug = title
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/(^-|-$)/g, '')
-
-      // Check if new slug already exists (excluding current project)
-      const slugExists = await prisma.project.findFirst({
-        where: {
-          slug: newSlug,
-          id: { not: params.id }
-        }
-      })
+    if (requestedSlug) {
+      slug = toProjectSlug(requestedSlug)
+    } else if (title !== existingProject.title) {
+      slug = toProjectSlug(title)
+    }
 
-      if (slugExists) {
+    if (!slug) {
+      return NextResponse.json(
+        { success: false, error: 'Slug must contain letters or numbers' },
+        { status: 400 }
+      )
+    }
+
+    if (slug !== existingProject.slug) {
+      // Check the new slug against other projects and their redirecting slugs
+      const conflict = await findSlugConflict(slug, id)
+
+      if (conflict) {
         return NextResponse.json(
-          { success: false, error: 'A project with this title already exists' },
+          {
+            success: false,
+            error: conflict.type === 'history'
+              ? `The slug "${slug}" still redirects to "${conflict.projectTitle}"`
+              : `The slug "${slug}" is already used by "${conflict.projectTitle}"`
+          },
           { status: 400 }
         )
       }
-
-      slug = newSlug
     }
 
-    const project = await prisma.project.update({
-      where: { id: params.id },
-      data: {
-        title,
-        description,
-        shortDescription,
-        technologies: technologies || [],
-        images: images || [],
-        liveUrl: liveUrl || null,
-        githubUrl: githubUrl || null,
-        featured: featured || false,
-        status: status || 'DRAFT',
-        order: order !== undefined ? order : existingProject.order,
-        slug
-      }
+    // Update the project and snapshot the saved content in one transaction
+    const project = await prisma.$transaction(async (tx) => {
+      const projectTechnologies = await resolveTechnologies(technologies || [], tx)
+
+      const updatedProject = await tx.project.update({
+        where: { id },
+        data: {
+          title,
+          description: projectDescription,
+          shortDescription,
+          ...(contentBlocks !== undefined && {
+            contentBlocks: blocks.blocks as unknown as Prisma.InputJsonValue
+          }),
+          technologies: projectTechnologies.map(technology => technology.name),
+          technologyRefs: {
+            set: projectTechnologies.map(technology => ({ id: technology.id }))
+          },
+          images: images || [],
+          liveUrl: liveUrl || null,
+          githubUrl: githubUrl || null,
+          featured: featured || false,
+          status: status || 'DRAFT',
+          order: order !== undefined ? order : existingProject.order,
+          publishAt: schedule.publishAt,
+          unpublishAt: schedule.unpublishAt,
+          slug
+        }
+      })
+
+      await recordSlugChange(tx, id, existingProject.slug, slug)
+      await createProjectRevision(updatedProject, session.user, tx)
+
+      return updatedProject
     })
 
+    await audit({ action: 'project.update', entityType: 'project', entityId: id, before: existingProject, after: project })
+
     return NextResponse.json({
       success: true,
       data: project
@@ -156,29 +188,16 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+}, { permission: 'projects:write' })
 
 // DELETE /api/admin/projects/[id] - Delete project
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, audit }) => {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const { id } = await params
 
     // Check if project exists
     const existingProject = await prisma.project.findUnique({
-      where: { id: params.id }
+      where: { id }
     })
 
     if (!existingProject) {
@@ -189,9 +208,11 @@ export async function DELETE(
     }
 
     await prisma.project.delete({
-      where: { id: params.id }
+      where: { id }
     })
 
+    await audit({ action: 'project.delete', entityType: 'project', entityId: id, before: existingProject })
+
     return NextResponse.json({
       success: true,
       message: 'Project deleted successfully'
@@ -206,4 +227,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}, { permission: 'projects:delete' })
\ No newline at end of file
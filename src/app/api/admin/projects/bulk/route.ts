@@ -1,22 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { auth } from '@/lib/auth'
+import { withAdmin } from '@/lib/api-auth'
+import { parseProjectSchedule } from '@/lib/project-schedule'
+import { createProjectRevision } from '@/lib/project-revisions'
 
 // POST /api/admin/projects/bulk - Bulk operations for projects
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request, { session, can, audit }) => {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const body = await request.json()
     const { action, projectIds, data } = body
 
@@ -40,6 +30,8 @@ export async function POST(request: NextRequest) {
 
         await Promise.all(updatePromises)
 
+        await audit({ action: 'project.reorder', entityType: 'project', after: data })
+
         return NextResponse.json({
           success: true,
           message: 'Project order updated successfully'
@@ -54,15 +46,67 @@ export async function POST(request: NextRequest) {
           )
         }
 
-        await prisma.project.updateMany({
-          where: {
-            id: { in: projectIds }
-          },
-          data: {
-            status: data.status
+        if (!['DRAFT', 'SCHEDULED', 'PUBLISHED'].includes(data.status)) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid status value' },
+            { status: 400 }
+          )
+        }
+
+        // Scheduling in bulk applies the same publish window to every project
+        const schedule = parseProjectSchedule({
+          status: data.status,
+          publishAt: data.publishAt,
+          unpublishAt: data.unpublishAt
+        })
+
+        if (schedule.error) {
+          return NextResponse.json(
+            { success: false, error: schedule.error },
+            { status: 400 }
+          )
+        }
+
+        const previousStatuses = await prisma.project.findMany({
+          where: { id: { in: projectIds } },
+          select: { id: true, status: true, publishAt: true, unpublishAt: true }
+        })
+
+        // Each project is updated on its own so the change shows up in its revisions
+        await prisma.$transaction(async (tx) => {
+          for (const { id } of previousStatuses) {
+            const updatedProject = await tx.project.update({
+              where: { id },
+              data: {
+                status: data.status,
+                ...(data.status === 'SCHEDULED' && {
+                  publishAt: schedule.publishAt,
+                  unpublishAt: schedule.unpublishAt
+                })
+              }
+            })
+
+            await createProjectRevision(updatedProject, session.user, tx)
           }
         })
 
+        // One entry per project so each shows up in its own history
+        for (const { id, ...before } of previousStatuses) {
+          await audit({
+            action: 'project.status_change',
+            entityType: 'project',
+            entityId: id,
+            before,
+            after: {
+              status: data.status,
+              ...(data.status === 'SCHEDULED' && {
+                publishAt: schedule.publishAt,
+                unpublishAt: schedule.unpublishAt
+              })
+            }
+          })
+        }
+
         return NextResponse.json({
           success: true,
           message: `${projectIds.length} projects updated to ${data.status}`
@@ -70,6 +114,13 @@ export async function POST(request: NextRequest) {
 
       case 'delete':
         // Bulk delete
+        if (!can('projects:delete')) {
+          return NextResponse.json(
+            { success: false, error: 'You do not have permission to delete projects' },
+            { status: 403 }
+          )
+        }
+
         if (!projectIds || !Array.isArray(projectIds)) {
           return NextResponse.json(
             { success: false, error: 'Invalid project IDs for deletion' },
@@ -77,12 +128,20 @@ export async function POST(request: NextRequest) {
           )
         }
 
+        const deletedProjects = await prisma.project.findMany({
+          where: { id: { in: projectIds } }
+        })
+
         await prisma.project.deleteMany({
           where: {
             id: { in: projectIds }
           }
         })
 
+        for (const project of deletedProjects) {
+          await audit({ action: 'project.delete', entityType: 'project', entityId: project.id, before: project })
+        }
+
         return NextResponse.json({
           success: true,
           message: `${projectIds.length} projects deleted successfully`
@@ -104,4 +163,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}, { permission: 'projects:write' })
\ No newline at end of file
@@ -1,23 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { auth } from '@/lib/auth'
+import { withAdmin } from '@/lib/api-auth'
+import { createProjectRevision } from '@/lib/project-revisions'
+import { parseProjectBlocks, projectBlocksToText } from '@/lib/project-blocks'
+import { parseProjectSchedule } from '@/lib/project-schedule'
+import { resolveTechnologies } from '@/lib/technologies'
+import { findSlugConflict } from '@/lib/project-slugs'
+import { toProjectSlug } from '@/lib/utils'
 import { Prisma } from '@prisma/client'
 
 // GET /api/admin/projects - Get all projects for admin
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async (request) => {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const { searchParams } = new URL(request.url)
     const status = searchParams.get('status')
     const limit = searchParams.get('limit')
@@ -25,7 +19,7 @@ export async function GET(request: NextRequest) {
 
     const where: Prisma.ProjectWhereInput = {}
 
-    if (status && (status === 'PUBLISHED' || status === 'DRAFT')) {
+    if (status && (status === 'PUBLISHED' || status === 'DRAFT' || status === 'SCHEDULED')) {
       where.status = status
     }
 
@@ -57,59 +51,79 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}, { permission: 'projects:read' })
 
 // POST /api/admin/projects - Create new project
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request, { session, audit }) => {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const body = await request.json()
     const {
       title,
       description,
       shortDescription,
+      contentBlocks,
       technologies,
       images,
       liveUrl,
       githubUrl,
       featured,
       status,
-      order
+      order,
+      publishAt,
+      unpublishAt,
+      slug: requestedSlug
     } = body
 
+    const blocks = parseProjectBlocks(contentBlocks)
+    if (blocks.error) {
+      return NextResponse.json(
+        { success: false, error: blocks.error },
+        { status: 400 }
+      )
+    }
+
+    // Keep the plain description in sync with the content blocks
+    const projectDescription = blocks.blocks.length > 0
+      ? projectBlocksToText(blocks.blocks)
+      : description
+
     // Validate required fields
-    if (!title || !description || !shortDescription) {
+    if (!title || !projectDescription || !shortDescription) {
       return NextResponse.json(
         { success: false, error: 'Title, description, and short description are required' },
         { status: 400 }
       )
     }
 
-    // Generate slug from title
-    const slug = title
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/(^-|-$)/g, '')
+    const schedule = parseProjectSchedule({ status, publishAt, unpublishAt })
+    if (schedule.error) {
+      return NextResponse.json(
+        { success: false, error: schedule.error },
+        { status: 400 }
+      )
+    }
+
+    // Use the submitted slug, falling back to one generated from the title
+    const slug = toProjectSlug(requestedSlug || title)
 
-    // Check if slug already exists
-    const existingProject = await prisma.project.findUnique({
-      where: { slug }
-    })
+    if (!slug) {
+      return NextResponse.json(
+        { success: false, error: 'Slug must contain letters or numbers' },
+        { status: 400 }
+      )
+    }
+
+    // Check the slug against existing projects and their redirecting slugs
+    const conflict = await findSlugConflict(slug)
 
-    if (existingProject) {
+    if (conflict) {
       return NextResponse.json(
-        { success: false, error: 'A project with this title already exists' },
+        {
+          success: false,
+          error: conflict.type === 'history'
+            ? `The slug "${slug}" still redirects to "${conflict.projectTitle}"`
+            : 'A project with this title already exists'
+        },
         { status: 400 }
       )
     }
@@ -123,22 +137,39 @@ export async function POST(request: NextRequest) {
       projectOrder = (lastProject?.order || 0) + 1
     }
 
-    const project = await prisma.project.create({
-      data: {
-        title,
-        description,
-        shortDescription,
-        technologies: technologies || [],
-        images: images || [],
-        liveUrl: liveUrl || null,
-        githubUrl: githubUrl || null,
-        featured: featured || false,
-        status: status || 'DRAFT',
-        order: projectOrder,
-        slug
-      }
+    // Create the project together with its first revision
+    const project = await prisma.$transaction(async (tx) => {
+      const projectTechnologies = await resolveTechnologies(technologies || [], tx)
+
+      const createdProject = await tx.project.create({
+        data: {
+          title,
+          description: projectDescription,
+          shortDescription,
+          contentBlocks: blocks.blocks as unknown as Prisma.InputJsonValue,
+          technologies: projectTechnologies.map(technology => technology.name),
+          technologyRefs: {
+            connect: projectTechnologies.map(technology => ({ id: technology.id }))
+          },
+          images: images || [],
+          liveUrl: liveUrl || null,
+          githubUrl: githubUrl || null,
+          featured: featured || false,
+          status: status || 'DRAFT',
+          order: projectOrder,
+          publishAt: schedule.publishAt,
+          unpublishAt: schedule.unpublishAt,
+          slug
+        }
+      })
+
+      await createProjectRevision(createdProject, session.user, tx)
+
+      return createdProject
     })
 
+    await audit({ action: 'project.create', entityType: 'project', entityId: project.id, after: project })
+
     return NextResponse.json({
       success: true,
       data: project
@@ -153,4 +184,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}, { permission: 'projects:write' })
\ No newline at end of file
@@ -0,0 +1,65 @@
+/**
+ * Project publishing schedule job
+ * Runs every 15 minutes to publish and unpublish scheduled projects
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { getAdminSession } from '@/lib/api-auth'
+import { logger } from '@/lib/monitoring/logger'
+import { runProjectSchedule } from '@/lib/project-schedule'
+
+async function isAuthorized(request: NextRequest): Promise<boolean> {
+  // Vercel cron requests carry the cron secret
+  const authHeader = request.headers.get('authorization')
+  if (process.env.CRON_SECRET && authHeader === `Bearer ${process.env.CRON_SECRET}`) {
+    return true
+  }
+
+  // Admins can also trigger the job manually
+  return !!(await getAdminSession(request, { permission: 'projects:write' }))
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!(await isAuthorized(request))) {
+      logger.warn('Unauthorized project schedule attempt', {
+        userAgent: request.headers.get('user-agent'),
+      })
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await runProjectSchedule()
+    const changed = [...result.published, ...result.unpublished]
+
+    if (changed.length > 0) {
+      revalidatePath('/')
+      revalidatePath('/projects')
+      revalidatePath('/sitemap.xml')
+      changed.forEach(slug => revalidatePath(`/projects/${slug}`))
+    }
+
+    logger.info('Project schedule completed', {
+      published: result.published.length,
+      unpublished: result.unpublished.length,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    logger.error('Project schedule job failed', error as Error)
+
+    return NextResponse.json(
+      { success: false, error: 'Schedule job failed' },
+      { status: 500 }
+    )
+  }
+}
+
+// Also allow POST for manual triggers
+export const POST = GET
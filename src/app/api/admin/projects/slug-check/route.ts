@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { findSlugConflict } from '@/lib/project-slugs'
+import { toProjectSlug } from '@/lib/utils'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/projects/slug-check?slug=<slug>&projectId=<id> - Check a slug before saving
+export const GET = withAdmin(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const slug = toProjectSlug(searchParams.get('slug') || '')
+    const projectId = searchParams.get('projectId') || undefined
+
+    if (!slug) {
+      return NextResponse.json(
+        { success: false, error: 'Slug is required' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const conflict = await findSlugConflict(slug, projectId)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        slug,
+        available: !conflict,
+        conflict
+      }
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error checking project slug:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to check slug' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:read' })
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { revokeActiveSession } from '@/lib/admin-sessions'
+import { ApiResponse } from '@/types'
+
+// DELETE /api/admin/session/active/[id] - Sign out one of the signed-in user's devices
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, session, audit }) => {
+  try {
+    const { id } = await params
+
+    await revokeActiveSession(request.headers, id)
+
+    await audit({ action: 'session.revoke', entityType: 'user', entityId: session.user.id, before: { sessionId: id } })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Session revoked'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error revoking session:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke session' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+})
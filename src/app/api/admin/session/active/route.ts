@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { listActiveSessions } from '@/lib/admin-sessions'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/session/active - Devices the signed-in user is logged in on
+export const GET = withAdmin(async (request, { session }) => {
+  try {
+    const sessions = await listActiveSessions(request.headers, session.session.id)
+
+    return NextResponse.json({
+      success: true,
+      data: sessions
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching active sessions:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch active sessions' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+})
@@ -1,38 +1,44 @@
-import { NextRequest, NextResponse } from "next/server"
-import { auth } from "@/lib/auth"
+import { NextResponse } from "next/server"
+import { permissionsFor } from "@/lib/permissions"
+import { withAdmin } from "@/lib/api-auth"
+import { revokeAllSessions } from "@/lib/admin-sessions"
 
-export async function GET(request: NextRequest) {
+// GET /api/admin/session - The signed-in user, their permissions and this session
+export const GET = withAdmin(async (_request, { session }) => {
+  const { user } = session
+
+  return NextResponse.json({
+    success: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+    },
+    permissions: permissionsFor(user.role),
+    session: {
+      id: session.session.id,
+      expiresAt: session.session.expiresAt,
+    },
+  })
+})
+
+// DELETE /api/admin/session - Sign out everywhere, including this device
+export const DELETE = withAdmin(async (request, { session, audit }) => {
   try {
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
+    await revokeAllSessions(request.headers)
 
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: "No active session" },
-        { status: 401 }
-      )
-    }
+    await audit({ action: "session.revoke_all", entityType: "user", entityId: session.user.id })
 
-    const user = session.user as any
     return NextResponse.json({
       success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-      session: {
-        id: session.session.id,
-        expiresAt: session.session.expiresAt,
-      },
+      message: "Signed out everywhere",
     })
   } catch (error) {
-    console.error("Session check error:", error)
+    console.error("Error revoking sessions:", error)
     return NextResponse.json(
-      { error: "Internal server error" },
+      { success: false, error: "Failed to sign out everywhere" },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
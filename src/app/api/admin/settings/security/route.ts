@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { prisma } from '@/lib/prisma'
+import { getSecuritySettings, securitySettingsSchema, updateSecuritySettings } from '@/lib/security-settings'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/settings/security - Site-wide security settings
+export const GET = withAdmin(async () => {
+  try {
+    const settings = await getSecuritySettings()
+
+    return NextResponse.json({
+      success: true,
+      data: settings
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching security settings:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch security settings' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'users:manage' })
+
+// PUT /api/admin/settings/security - Update site-wide security settings
+export const PUT = withAdmin(async (request, { session, audit }) => {
+  try {
+    const parsed = securitySettingsSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    // Requiring 2FA is only allowed once the owner has it, so they can still sign in
+    if (parsed.data.requireTwoFactor) {
+      const user = await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { twoFactorSecret: true }
+      })
+
+      if (!user?.twoFactorSecret) {
+        return NextResponse.json(
+          { success: false, error: 'Enable two-factor authentication for your own account first' } as ApiResponse,
+          { status: 400 }
+        )
+      }
+    }
+
+    const before = await getSecuritySettings()
+    const settings = await updateSecuritySettings(parsed.data)
+
+    await audit({
+      action: 'settings.security_update',
+      entityType: 'settings',
+      entityId: settings.id,
+      before: { requireTwoFactor: before.requireTwoFactor },
+      after: { requireTwoFactor: settings.requireTwoFactor }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: settings
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error updating security settings:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update security settings' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'users:manage' })
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { ValidationError } from '@/lib/error-handler'
+import { deleteSkill, skillInputSchema, updateSkill } from '@/lib/skills'
+import { ApiResponse } from '@/types'
+
+// PUT /api/admin/skills/[id] - Update a skill
+export const PUT = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+    const parsed = skillInputSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const before = await prisma.skill.findUnique({ where: { id } })
+    const skill = await updateSkill(id, parsed.data)
+
+    if (!skill) {
+      return NextResponse.json(
+        { success: false, error: 'Skill not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    await audit({ action: 'skill.update', entityType: 'skill', entityId: id, before, after: skill })
+
+    return NextResponse.json({
+      success: true,
+      data: skill
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating skill:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update skill' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
+
+// DELETE /api/admin/skills/[id] - Remove a skill
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+    const before = await prisma.skill.findUnique({ where: { id } })
+    const deleted = await deleteSkill(id)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Skill not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    await audit({ action: 'skill.delete', entityType: 'skill', entityId: id, before })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Skill removed successfully'
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error deleting skill:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete skill' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
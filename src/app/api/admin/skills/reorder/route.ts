@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { reorderSkills } from '@/lib/skills'
+import { ApiResponse } from '@/types'
+
+// POST /api/admin/skills/reorder - Save the display order of skills
+export const POST = withAdmin(async (request, { audit }) => {
+  try {
+    const { ids } = await request.json()
+
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'ids must be a list of skill IDs' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const skills = await reorderSkills(ids)
+
+    await audit({ action: 'skill.reorder', entityType: 'skill', after: skills.map(skill => skill.id) })
+
+    return NextResponse.json({
+      success: true,
+      data: skills
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error reordering skills:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to reorder skills' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { ValidationError } from '@/lib/error-handler'
+import { createSkill, getSkills, skillInputSchema } from '@/lib/skills'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/skills - List skills in display order
+export const GET = withAdmin(async () => {
+  try {
+    const skills = await getSkills()
+
+    return NextResponse.json({
+      success: true,
+      data: skills
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching skills:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch skills' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:read' })
+
+// POST /api/admin/skills - Add a skill
+export const POST = withAdmin(async (request, { audit }) => {
+  try {
+    const parsed = skillInputSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const skill = await createSkill(parsed.data)
+
+    await audit({ action: 'skill.create', entityType: 'skill', entityId: skill.id, after: skill })
+
+    return NextResponse.json({
+      success: true,
+      data: skill,
+      message: 'Skill added successfully'
+    } as ApiResponse, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating skill:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create skill' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'profile:write' })
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { findTechnologyConflict, technologyInputSchema, updateTechnology } from '@/lib/technologies'
+import { ApiResponse } from '@/types'
+
+// PUT /api/admin/technologies/[id] - Update a technology, renaming it everywhere it is used
+export const PUT = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+    const parsed = technologyInputSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const conflict = await findTechnologyConflict(parsed.data, id)
+
+    if (conflict) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `"${conflict.name}" already refers to ${conflict.technology.name}. Merge the two instead.`
+        } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const before = await prisma.technology.findUnique({ where: { id } })
+    const technology = await updateTechnology(id, parsed.data)
+
+    if (!technology) {
+      return NextResponse.json(
+        { success: false, error: 'Technology not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    await audit({ action: 'technology.update', entityType: 'technology', entityId: id, before, after: technology })
+
+    return NextResponse.json({
+      success: true,
+      data: technology
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error updating technology:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update technology' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:write' })
+
+// DELETE /api/admin/technologies/[id] - Delete a technology that is no longer used
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+
+    const technology = await prisma.technology.findUnique({
+      where: { id },
+      include: {
+        skill: { select: { id: true } },
+        _count: { select: { projects: true, profiles: true } }
+      }
+    })
+
+    if (!technology) {
+      return NextResponse.json(
+        { success: false, error: 'Technology not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    if (technology.skill || technology._count.projects > 0 || technology._count.profiles > 0) {
+      return NextResponse.json(
+        { success: false, error: `${technology.name} is still in use. Merge it into another technology instead.` } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    await prisma.technology.delete({
+      where: { id }
+    })
+
+    await audit({ action: 'technology.delete', entityType: 'technology', entityId: id, before: technology })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Technology deleted successfully'
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error deleting technology:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete technology' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:delete' })
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { mergeTechnologies } from '@/lib/technologies'
+import { ApiResponse } from '@/types'
+
+// POST /api/admin/technologies/merge - Merge duplicate technologies into one
+export const POST = withAdmin(async (request, { audit }) => {
+  try {
+    const { targetId, sourceIds } = await request.json()
+
+    if (typeof targetId !== 'string' || !Array.isArray(sourceIds) || sourceIds.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'A target and at least one technology to merge are required' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const merged = await prisma.technology.findMany({
+      where: { id: { in: [targetId, ...sourceIds] } }
+    })
+    const technology = await mergeTechnologies(targetId, sourceIds)
+
+    if (!technology) {
+      return NextResponse.json(
+        { success: false, error: 'Technology not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    await audit({ action: 'technology.merge', entityType: 'technology', entityId: targetId, before: merged, after: technology })
+
+    return NextResponse.json({
+      success: true,
+      data: technology,
+      message: `Merged ${sourceIds.length} ${sourceIds.length === 1 ? 'technology' : 'technologies'} into ${technology.name}`
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error merging technologies:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to merge technologies' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:write' })
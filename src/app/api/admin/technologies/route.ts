@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { withAdmin } from '@/lib/api-auth'
+import { createTechnology, findTechnologyConflict, technologyInputSchema } from '@/lib/technologies'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/technologies - List technologies with usage counts
+export const GET = withAdmin(async () => {
+  try {
+    const technologies = await prisma.technology.findMany({
+      include: {
+        _count: { select: { projects: true, profiles: true } }
+      },
+      orderBy: { name: 'asc' }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: technologies
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching technologies:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch technologies' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:read' })
+
+// POST /api/admin/technologies - Create a technology
+export const POST = withAdmin(async (request, { audit }) => {
+  try {
+    const parsed = technologyInputSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const conflict = await findTechnologyConflict(parsed.data)
+
+    if (conflict) {
+      return NextResponse.json(
+        { success: false, error: `"${conflict.name}" already refers to ${conflict.technology.name}` } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const technology = await createTechnology(parsed.data)
+
+    await audit({ action: 'technology.create', entityType: 'technology', entityId: technology.id, after: technology })
+
+    return NextResponse.json({
+      success: true,
+      data: technology
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error creating technology:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create technology' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'projects:write' })
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { regenerateRecoveryCodes, twoFactorCodeSchema } from '@/lib/two-factor'
+import { ApiResponse } from '@/types'
+
+// POST /api/admin/two-factor/recovery-codes - Replace the signed-in user's recovery codes
+export const POST = withAdmin(async (request, { session, audit }) => {
+  try {
+    const parsed = twoFactorCodeSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(session.user.id, parsed.data.code)
+
+    await audit({ action: 'user.recovery_codes_regenerate', entityType: 'user', entityId: session.user.id })
+
+    return NextResponse.json({
+      success: true,
+      data: { recoveryCodes }
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error regenerating recovery codes:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to regenerate recovery codes' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+})
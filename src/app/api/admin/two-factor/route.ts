@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { getSecuritySettings } from '@/lib/security-settings'
+import {
+  confirmTwoFactorEnrolment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  startTwoFactorEnrolment,
+  twoFactorCodeSchema,
+} from '@/lib/two-factor'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/two-factor - Two-factor status for the signed-in user
+export const GET = withAdmin(async (request, { session }) => {
+  try {
+    const [status, settings] = await Promise.all([
+      getTwoFactorStatus(session.user.id),
+      getSecuritySettings(),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: { ...status, required: settings.requireTwoFactor }
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error fetching two-factor status:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch two-factor status' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/admin/two-factor - Start enrolment and return the QR code to scan
+export const POST = withAdmin(async (request, { session }) => {
+  try {
+    const enrolment = await startTwoFactorEnrolment(session.user)
+
+    return NextResponse.json({
+      success: true,
+      data: enrolment
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error starting two-factor setup:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to start two-factor setup' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/admin/two-factor - Confirm enrolment with a first code and return recovery codes
+export const PUT = withAdmin(async (request, { session, audit }) => {
+  try {
+    const parsed = twoFactorCodeSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrolment(session.user.id, parsed.data.code)
+
+    await audit({ action: 'user.two_factor_enable', entityType: 'user', entityId: session.user.id })
+
+    return NextResponse.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Two-factor authentication enabled'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error enabling two-factor authentication:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to enable two-factor authentication' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/admin/two-factor - Turn two-factor off, confirmed with a current code
+export const DELETE = withAdmin(async (request, { session, audit }) => {
+  try {
+    const parsed = twoFactorCodeSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const settings = await getSecuritySettings()
+
+    if (settings.requireTwoFactor) {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is required for all admins' } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    await disableTwoFactor(session.user.id, parsed.data.code)
+
+    await audit({ action: 'user.two_factor_disable', entityType: 'user', entityId: session.user.id })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error disabling two-factor authentication:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to disable two-factor authentication' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+})
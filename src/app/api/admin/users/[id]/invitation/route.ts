@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { sendInvitation } from '@/lib/admin-users'
+import { ApiResponse } from '@/types'
+
+// POST /api/admin/users/[id]/invitation - Email a new invitation link to a user who hasn't accepted yet
+export const POST = withAdmin<{ id: string }>(async (request, { params, session, audit }) => {
+  try {
+    const { id } = await params
+
+    const { expiresAt } = await sendInvitation(id, session.user.name)
+
+    await audit({ action: 'user.invitation_resend', entityType: 'user', entityId: id, after: { expiresAt } })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invitation sent'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error resending invitation:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to send invitation' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'users:manage' })
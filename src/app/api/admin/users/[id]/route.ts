@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { changeUserRole, removeUser, userRoleSchema } from '@/lib/admin-users'
+import { ApiResponse } from '@/types'
+
+// PATCH /api/admin/users/[id] - Change a user's role
+export const PATCH = withAdmin<{ id: string }>(async (request, { params, audit }) => {
+  try {
+    const { id } = await params
+    const parsed = userRoleSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const { previousRole, user } = await changeUserRole(id, parsed.data.role)
+
+    await audit({
+      action: 'user.role_change',
+      entityType: 'user',
+      entityId: id,
+      before: { role: previousRole },
+      after: { role: user.role }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: user
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error updating user role:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update user role' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'users:manage' })
+
+// DELETE /api/admin/users/[id] - Remove a user's access
+export const DELETE = withAdmin<{ id: string }>(async (request, { params, session, audit }) => {
+  try {
+    const { id } = await params
+
+    const user = await removeUser(id, session.user.id)
+
+    await audit({ action: 'user.remove', entityType: 'user', entityId: id, before: user })
+
+    return NextResponse.json({
+      success: true,
+      message: 'User removed successfully'
+    } as ApiResponse)
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error removing user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove user' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'users:manage' })
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { AppError } from '@/lib/error-handler'
+import { inviteUser, listAdminUsers, sendInvitation, userInviteSchema } from '@/lib/admin-users'
+import { ApiResponse } from '@/types'
+
+// GET /api/admin/users - List everyone with access to the admin panel
+export const GET = withAdmin(async () => {
+  try {
+    const users = await listAdminUsers()
+
+    return NextResponse.json({
+      success: true,
+      data: users
+    } as ApiResponse)
+
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch users' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'users:manage' })
+
+// POST /api/admin/users - Invite a user with a role and email them a link to set their password
+export const POST = withAdmin(async (request, { session, audit }) => {
+  try {
+    const parsed = userInviteSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0].message } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const user = await inviteUser(parsed.data)
+
+    await audit({ action: 'user.invite', entityType: 'user', entityId: user.id, after: user })
+
+    // The user exists either way, so a failed email can be retried with "Resend invitation"
+    try {
+      await sendInvitation(user.id, session.user.name)
+    } catch (emailError) {
+      console.error('Failed to send invitation email:', emailError)
+      return NextResponse.json({
+        success: true,
+        data: { ...user, invitationPending: true },
+        message: `${user.name} was added, but the invitation email could not be sent. Try resending it.`
+      } as ApiResponse, { status: 201 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...user, invitationPending: true },
+      message: `Invitation sent to ${user.email}`
+    } as ApiResponse, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message } as ApiResponse,
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error inviting user:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to invite user' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}, { permission: 'users:manage' })
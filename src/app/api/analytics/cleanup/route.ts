@@ -1,31 +1,35 @@
 /**
  * Analytics data cleanup cron job
- * Runs daily at 2 AM to clean up old analytics data
+ * Runs daily at 2 AM to clean up old analytics data and expired rate limit state
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/monitoring/logger';
-import { isProduction } from '@/lib/config/production';
+import { getAdminSession } from '@/lib/api-auth';
+import { auditRequestInfo, recordAudit } from '@/lib/audit-log';
+import { deleteExpiredRateLimits } from '@/lib/rate-limit';
 
 export async function GET(request: NextRequest) {
   try {
-    // Verify this is a cron job request (Vercel adds this header)
+    // Verify this is a cron job request (Vercel adds this header) or an admin triggering it manually
     const authHeader = request.headers.get('authorization');
-    if (isProduction && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    const isCron = !!process.env.CRON_SECRET && authHeader === `Bearer ${process.env.CRON_SECRET}`;
+    const session = isCron ? null : await getAdminSession(request, { permission: 'analytics:manage' });
+    if (!isCron && !session) {
       logger.warn('Unauthorized analytics cleanup attempt', {
         userAgent: request.headers.get('user-agent'),
       });
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
     }
 
     logger.info('Starting analytics cleanup job');
 
-    // Delete analytics data older than 1 year
+    // Delete analytics data older than 1 year, and rate limit state that has expired
     const oneYearAgo = new Date();
     oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
 
-    const [deletedAnalytics, deletedPageViews, deletedSessions] = await Promise.all([
+    const [deletedAnalytics, deletedPageViews, deletedSessions, deletedRateLimits] = await Promise.all([
       prisma.analytics.deleteMany({
         where: {
           timestamp: {
@@ -47,6 +51,7 @@ export async function GET(request: NextRequest) {
           },
         },
       }),
+      deleteExpiredRateLimits(),
     ]);
 
     const totalDeleted = 
@@ -58,15 +63,33 @@ export async function GET(request: NextRequest) {
       deletedAnalytics: deletedAnalytics.count,
       deletedPageViews: deletedPageViews.count,
       deletedSessions: deletedSessions.count,
+      deletedRateLimits,
       totalDeleted,
     });
 
+    // Cron runs are recorded without an actor
+    await recordAudit(
+      {
+        action: 'analytics.cleanup',
+        entityType: 'analytics',
+        after: {
+          analytics: deletedAnalytics.count,
+          pageViews: deletedPageViews.count,
+          sessions: deletedSessions.count,
+          rateLimits: deletedRateLimits,
+        },
+      },
+      session?.user ?? null,
+      auditRequestInfo(request)
+    );
+
     return NextResponse.json({
       success: true,
       deleted: {
         analytics: deletedAnalytics.count,
         pageViews: deletedPageViews.count,
         sessions: deletedSessions.count,
+        rateLimits: deletedRateLimits,
         total: totalDeleted,
       },
     });
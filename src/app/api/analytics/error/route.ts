@@ -1,22 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { withErrorHandler } from '@/lib/error-handler'
+import { clientIp, createRateLimiter, tokenBucket, withRateLimitHeaders } from '@/lib/rate-limit'
 
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for')
-  const realIP = request.headers.get('x-real-ip')
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim()
-  }
-  
-  if (realIP) {
-    return realIP
-  }
-  
-  return 'unknown'
-}
+// A page can report a burst of errors, then one every 3 seconds
+const errorRateLimiter = createRateLimiter({
+  name: 'analytics-error',
+  policy: tokenBucket({ capacity: 20, refillEveryMs: 3000 }),
+})
+
+export const POST = withErrorHandler(async (request: NextRequest) => {
+  const clientIP = clientIp(request)
+  const rateLimit = await errorRateLimiter.limit(clientIP)
 
-export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     
@@ -37,8 +33,6 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const clientIP = getClientIP(request)
-
     // Store error data in analytics table with special prefix
     await prisma.analytics.create({
       data: {
@@ -64,7 +58,7 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    return NextResponse.json({ success: true })
+    return withRateLimitHeaders(NextResponse.json({ success: true }), rateLimit)
   } catch (error) {
     console.error('Error storing error report:', error)
     return NextResponse.json(
@@ -72,4 +66,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
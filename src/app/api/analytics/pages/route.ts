@@ -1,21 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getPopularPages } from '@/lib/analytics'
-import { auth } from '@/lib/auth'
+import { withAdmin } from '@/lib/api-auth'
 
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async (request) => {
   try {
-    // Check authentication for admin routes
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || (session.user as any).role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Unauthorized - Admin access required' },
-        { status: 401 }
-      )
-    }
-
     const { searchParams } = new URL(request.url)
     const days = parseInt(searchParams.get('days') || '30')
     
@@ -46,4 +34,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}, { permission: 'analytics:read' })
\ No newline at end of file
@@ -1,21 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { cleanupOldAnalytics } from '@/lib/analytics'
-import { auth } from '@/lib/auth'
+import { withAdmin } from '@/lib/api-auth'
 
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request) => {
   try {
-    // Check authentication for admin routes
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || (session.user as any).role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Unauthorized - Admin access required' },
-        { status: 401 }
-      )
-    }
-
     const body = await request.json()
     const {
       enabled = true,
@@ -68,22 +56,10 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}, { permission: 'analytics:manage' })
 
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async () => {
   try {
-    // Check authentication for admin routes
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || (session.user as any).role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Unauthorized - Admin access required' },
-        { status: 401 }
-      )
-    }
-    
     // In production, this would fetch from database
     const mockSchedules = [
       {
@@ -110,23 +86,11 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}, { permission: 'analytics:read' })
 
 // Simulate running scheduled cleanup (would be triggered by cron job in production)
-export async function PUT(request: NextRequest) {
+export const PUT = withAdmin(async (request) => {
   try {
-    // Check authentication for admin routes
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || (session.user as any).role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Unauthorized - Admin access required' },
-        { status: 401 }
-      )
-    }
-
     const { searchParams } = new URL(request.url)
     const scheduleId = searchParams.get('id')
     
@@ -179,7 +143,7 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}, { permission: 'analytics:manage' })
 
 function getNextRunDate(schedule: string): string {
   const now = new Date()
@@ -1,18 +1,8 @@
-import { NextRequest } from 'next/server'
 import { getRealTimeAnalytics } from '@/lib/analytics'
-import { auth } from '@/lib/auth'
+import { withAdmin } from '@/lib/api-auth'
 
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async (request) => {
   try {
-    // Check authentication for admin routes
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || (session.user as any).role !== 'ADMIN') {
-      return new Response('Unauthorized', { status: 401 })
-    }
-
     const { searchParams } = new URL(request.url)
     const interval = parseInt(searchParams.get('interval') || '30000') // Default 30 seconds
     
@@ -69,7 +59,7 @@ export async function GET(request: NextRequest) {
     console.error('Analytics stream error:', error)
     return new Response('Internal Server Error', { status: 500 })
   }
-}
+}, { permission: 'analytics:read' })
 
 async function sendAnalyticsUpdate(controller: ReadableStreamDefaultController) {
   try {
@@ -103,20 +93,8 @@ async function sendAnalyticsUpdate(controller: ReadableStreamDefaultController)
 }
 
 // Optional: Handle POST requests for configuration updates
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request) => {
   try {
-    // Check authentication for admin routes
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || (session.user as any).role !== 'ADMIN') {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), { 
-        status: 401,
-        headers: { 'Content-Type': 'application/json' }
-      })
-    }
-
     const body = await request.json()
     const { action, config } = body
     
@@ -155,4 +133,4 @@ export async function POST(request: NextRequest) {
       headers: { 'Content-Type': 'application/json' }
     })
   }
-}
\ No newline at end of file
+}, { permission: 'analytics:manage' })
\ No newline at end of file
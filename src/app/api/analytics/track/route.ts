@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { trackPageView, generateSessionId, getVisitorInfo } from '@/lib/analytics'
-import { isRateLimited } from '@/lib/analytics-middleware'
+import { withErrorHandler } from '@/lib/error-handler'
+import { createRateLimiter, slidingWindow, withRateLimitHeaders } from '@/lib/rate-limit'
 import { z } from 'zod'
 
+// Max 100 page views a minute from each IP
+const trackRateLimiter = createRateLimiter({
+  name: 'analytics-track',
+  policy: slidingWindow({ limit: 100, windowMs: 60 * 1000 }),
+})
+
 const trackingSchema = z.object({
   pageUrl: z.string().min(1),
   pageTitle: z.string().optional(),
@@ -10,19 +17,14 @@ const trackingSchema = z.object({
   sessionId: z.string().optional(),
 })
 
-export async function POST(request: NextRequest) {
+export const POST = withErrorHandler(async (request: NextRequest) => {
+  // Get visitor information first for rate limiting
+  const visitorInfo = await getVisitorInfo()
+
+  // Check rate limiting
+  const rateLimit = await trackRateLimiter.limit(visitorInfo.ipAddress)
+
   try {
-    // Get visitor information first for rate limiting
-    const visitorInfo = await getVisitorInfo()
-    
-    // Check rate limiting
-    if (isRateLimited(visitorInfo.ipAddress)) {
-      return NextResponse.json(
-        { error: 'Rate limit exceeded' },
-        { status: 429 }
-      )
-    }
-    
     const body = await request.json()
     const { pageUrl, pageTitle, referrer, sessionId: providedSessionId } = trackingSchema.parse(body)
     
@@ -37,10 +39,10 @@ export async function POST(request: NextRequest) {
       sessionId
     })
     
-    return NextResponse.json({ 
+    return withRateLimitHeaders(NextResponse.json({ 
       success: true,
       sessionId 
-    })
+    }), rateLimit)
     
   } catch (error) {
     console.error('Analytics tracking error:', error)
@@ -57,7 +59,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Handle preflight requests
 export async function OPTIONS() {
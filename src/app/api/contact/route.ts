@@ -1,44 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { Resend } from 'resend'
 import { prisma } from '@/lib/prisma'
 import { ContactFormData, ApiResponse } from '@/types'
-import { headers } from 'next/headers'
-
-const resend = new Resend(process.env.RESEND_API_KEY)
-
-// Rate limiting storage (in production, use Redis or similar)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
-
-// Rate limiting configuration
-const RATE_LIMIT_WINDOW = 15 * 60 * 1000 // 15 minutes
-const RATE_LIMIT_MAX_REQUESTS = 5 // Max 5 requests per window
-
-function getRateLimitKey(ip: string, userAgent: string): string {
-  // Combine IP and user agent for more accurate rate limiting
-  return `${ip}-${userAgent.slice(0, 50)}`
-}
-
-function checkRateLimit(key: string): { allowed: boolean; resetTime?: number } {
-  const now = Date.now()
-  const record = rateLimitMap.get(key)
-
-  if (!record || now > record.resetTime) {
-    // First request or window expired
-    rateLimitMap.set(key, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    })
-    return { allowed: true }
-  }
-
-  if (record.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return { allowed: false, resetTime: record.resetTime }
-  }
-
-  // Increment count
-  record.count++
-  return { allowed: true }
-}
+import { sendContactConfirmation, sendContactNotification } from '@/lib/email-templates'
+import { getSpamScorer } from '@/lib/spam'
+import { withErrorHandler } from '@/lib/error-handler'
+import { clientIp, createRateLimiter, slidingWindow, withRateLimitHeaders } from '@/lib/rate-limit'
+
+// Max 5 messages per 15 minutes from each IP. The user agent is left out of
+// the key since a sender can change it on every request.
+const contactRateLimiter = createRateLimiter({
+  name: 'contact',
+  policy: slidingWindow({ limit: 5, windowMs: 15 * 60 * 1000 })
+})
 
 function validateContactForm(data: any): { isValid: boolean; errors: Record<string, string> } {
   const errors: Record<string, string> = {}
@@ -89,125 +62,25 @@ function sanitizeInput(input: string): string {
     .slice(0, 10000) // Limit length as extra safety
 }
 
-async function sendNotificationEmail(contactData: ContactFormData): Promise<void> {
-  const fromEmail = process.env.FROM_EMAIL || 'onboarding@resend.dev'
-  const toEmail = process.env.TO_EMAIL
-
-  if (!toEmail) {
-    throw new Error('TO_EMAIL environment variable is not configured')
-  }
-
-  const subject = contactData.subject 
-    ? `Portfolio Contact: ${contactData.subject}` 
-    : 'New Portfolio Contact Message'
-
-  const htmlContent = `
-    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-      <h2 style="color: #333; border-bottom: 2px solid #007bff; padding-bottom: 10px;">
-        New Contact Message
-      </h2>
-      
-      <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
-        <p><strong>Name:</strong> ${contactData.name}</p>
-        <p><strong>Email:</strong> ${contactData.email}</p>
-        ${contactData.subject ? `<p><strong>Subject:</strong> ${contactData.subject}</p>` : ''}
-        <p><strong>Sent:</strong> ${new Date().toLocaleString()}</p>
-      </div>
-      
-      <div style="margin: 20px 0;">
-        <h3 style="color: #333;">Message:</h3>
-        <div style="background-color: #ffffff; padding: 15px; border-left: 4px solid #007bff; border-radius: 4px;">
-          ${contactData.message.replace(/\n/g, '<br>')}
-        </div>
-      </div>
-      
-      <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #dee2e6; color: #6c757d; font-size: 12px;">
-        <p>This message was sent through your portfolio contact form.</p>
-        <p>Reply directly to this email to respond to ${contactData.name}.</p>
-      </div>
-    </div>
-  `
-
-  const textContent = `
-New Contact Message
+export const POST = withErrorHandler(async (request: NextRequest) => {
+  // Check rate limiting
+  const rateLimit = await contactRateLimiter.limit(clientIp(request))
 
-Name: ${contactData.name}
-Email: ${contactData.email}
-${contactData.subject ? `Subject: ${contactData.subject}` : ''}
-Sent: ${new Date().toLocaleString()}
-
-Message:
-${contactData.message}
-
----
-This message was sent through your portfolio contact form.
-Reply directly to this email to respond to ${contactData.name}.
-  `
-
-  await resend.emails.send({
-    from: fromEmail,
-    to: toEmail,
-    replyTo: contactData.email,
-    subject,
-    html: htmlContent,
-    text: textContent,
-  })
-}
-
-export async function POST(request: NextRequest) {
   try {
-    // Get client information for rate limiting
-    const headersList = await headers()
-    const forwarded = headersList.get('x-forwarded-for')
-    const realIp = headersList.get('x-real-ip')
-    const ip = forwarded?.split(',')[0] || realIp || 'unknown'
-    const userAgent = headersList.get('user-agent') || 'unknown'
-
-    // Check rate limiting
-    const rateLimitKey = getRateLimitKey(ip, userAgent)
-    const rateLimitResult = checkRateLimit(rateLimitKey)
-
-    if (!rateLimitResult.allowed) {
-      const resetTime = rateLimitResult.resetTime || Date.now()
-      const waitTime = Math.ceil((resetTime - Date.now()) / 1000 / 60) // minutes
-
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Too many requests. Please try again in ${waitTime} minutes.`
-        } as ApiResponse,
-        { 
-          status: 429,
-          headers: {
-            'Retry-After': String(Math.ceil((resetTime - Date.now()) / 1000))
-          }
-        }
-      )
-    }
-
     // Parse and validate request body
     const body = await request.json()
 
-    // Honeypot check - if 'website' field is filled, it's likely a bot
-    if (body.website && body.website.trim() !== '') {
-      // Silently reject bot submissions
-      return NextResponse.json(
-        { success: true, message: 'Message sent successfully' } as ApiResponse,
-        { status: 200 }
-      )
-    }
-
     // Validate form data
     const validation = validateContactForm(body)
     if (!validation.isValid) {
-      return NextResponse.json(
+      return withRateLimitHeaders(NextResponse.json(
         {
           success: false,
           error: 'Validation failed',
           data: validation.errors
         } as ApiResponse,
         { status: 400 }
-      )
+      ), rateLimit)
     }
 
     // Sanitize input data
@@ -218,34 +91,58 @@ export async function POST(request: NextRequest) {
       message: sanitizeInput(body.message)
     }
 
-    // Save to database
+    // Score for spam. The 'website' field is a honeypot hidden from people
+    const spam = await getSpamScorer().score({
+      ...contactData,
+      honeypot: typeof body.website === 'string' ? body.website : null,
+      elapsedMs: typeof body.elapsedMs === 'number' ? body.elapsedMs : null
+    })
+
+    // Save to database, quarantining spam
     const contact = await prisma.contact.create({
       data: {
         name: contactData.name,
         email: contactData.email,
         subject: contactData.subject || null,
         message: contactData.message,
-        status: 'NEW'
+        status: spam.isSpam ? 'SPAM' : 'NEW',
+        spamScore: spam.score,
+        spamReasons: spam.reasons
       }
     })
 
+    // Spam gets the same response as a real message, but no emails
+    if (spam.isSpam) {
+      return withRateLimitHeaders(NextResponse.json(
+        { success: true, message: 'Message sent successfully' } as ApiResponse,
+        { status: 200 }
+      ), rateLimit)
+    }
+
     // Send email notification
     try {
-      await sendNotificationEmail(contactData)
+      await sendContactNotification(contact, request)
     } catch (emailError) {
       console.error('Failed to send email notification:', emailError)
       // Don't fail the entire request if email fails
       // The contact is still saved in the database
     }
 
-    return NextResponse.json(
+    // Let the sender know the message arrived, if an admin has turned that on
+    try {
+      await sendContactConfirmation(contact, request)
+    } catch (emailError) {
+      console.error('Failed to send confirmation email:', emailError)
+    }
+
+    return withRateLimitHeaders(NextResponse.json(
       {
         success: true,
         message: 'Message sent successfully',
         data: { id: contact.id }
       } as ApiResponse,
       { status: 200 }
-    )
+    ), rateLimit)
 
   } catch (error) {
     console.error('Contact form error:', error)
@@ -258,7 +155,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Handle unsupported methods
 export async function GET() {
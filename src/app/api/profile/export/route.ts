@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { toJsonResume } from '@/lib/json-resume'
+import { getProfileWithEntries } from '@/lib/profile-entries'
+import { getSkills, toShowcaseSkill } from '@/lib/skills'
+import { ApiResponse } from '@/types'
+
+// GET /api/profile/export?format=jsonresume - Download the profile as a JSON Resume document
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'jsonresume'
+
+    if (format !== 'jsonresume') {
+      return NextResponse.json(
+        { success: false, error: `Unsupported export format: ${format}` } as ApiResponse,
+        { status: 400 }
+      )
+    }
+
+    const [profile, skills] = await Promise.all([getProfileWithEntries(), getSkills()])
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Profile not found' } as ApiResponse,
+        { status: 404 }
+      )
+    }
+
+    const resume = {
+      $schema: 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json',
+      ...toJsonResume(profile, skills.map(toShowcaseSkill)),
+    }
+
+    return new NextResponse(JSON.stringify(resume, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': 'attachment; filename="resume.json"',
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting profile:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to export profile' } as ApiResponse,
+      { status: 500 }
+    )
+  }
+}
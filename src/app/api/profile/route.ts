@@ -1,9 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
+import { getSkills } from '@/lib/skills'
+import { getProfileWithEntries, profileEntriesInclude, replaceProfileEntries } from '@/lib/profile-entries'
+import { formatSchemaError, profileUpdateSchema, schemaFieldErrors } from '@/lib/profile-schema'
+import { ApiResponse } from '@/types'
 
+// GET /api/profile - Get the public profile with its experience and education
 export async function GET() {
   try {
-    const profile = await prisma.profile.findFirst()
+    const profile = await getProfileWithEntries()
     
     if (!profile) {
       return NextResponse.json(
@@ -25,72 +31,72 @@ export async function GET() {
   }
 }
 
-export async function PUT(request: NextRequest) {
+// PUT /api/profile - Update the profile (admin only)
+export const PUT = withAdmin(async (request, { audit }) => {
   try {
-    const body = await request.json()
-    
-    // Validate required fields
-    const requiredFields = ['name', 'title', 'bio', 'email']
-    for (const field of requiredFields) {
-      if (!body[field] || !body[field].trim()) {
-        return NextResponse.json(
-          { success: false, error: `${field} is required` },
-          { status: 400 }
-        )
-      }
-    }
+    const body = await request.json().catch(() => null)
+    const parsed = profileUpdateSchema.safeParse(body)
 
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-    if (!emailRegex.test(body.email)) {
+    // Field errors go in data, keyed by path, the same way the contact form reports them
+    if (!parsed.success) {
       return NextResponse.json(
-        { success: false, error: 'Invalid email format' },
+        {
+          success: false,
+          error: formatSchemaError(parsed.error),
+          data: schemaFieldErrors(parsed.error)
+        } as ApiResponse<Record<string, string>>,
         { status: 400 }
       )
     }
 
+    const { experience, education, ...fields } = parsed.data
+
     // Check if profile exists
-    const existingProfile = await prisma.profile.findFirst()
+    const existingProfile = await prisma.profile.findFirst({ include: profileEntriesInclude })
     
-    let profile
-    if (existingProfile) {
-      // Update existing profile
-      profile = await prisma.profile.update({
-        where: { id: existingProfile.id },
-        data: {
-          name: body.name.trim(),
-          title: body.title.trim(),
-          bio: body.bio.trim(),
-          email: body.email.trim(),
-          phone: body.phone?.trim() || null,
-          location: body.location?.trim() || null,
-          profileImage: body.profileImage || null,
-          skills: body.skills || [],
-          experience: body.experience || [],
-          education: body.education || [],
-          socialLinks: body.socialLinks || {},
-          resumeUrl: body.resumeUrl || null,
-        }
-      })
-    } else {
-      // Create new profile
-      profile = await prisma.profile.create({
+    const profile = await prisma.$transaction(async (tx) => {
+      if (existingProfile) {
+        // Update existing profile; experience and education are only replaced when sent
+        await tx.profile.update({
+          where: { id: existingProfile.id },
+          data: fields
+        })
+        await replaceProfileEntries(tx, existingProfile.id, { experience, education })
+
+        return tx.profile.findUniqueOrThrow({
+          where: { id: existingProfile.id },
+          include: profileEntriesInclude
+        })
+      }
+
+      // Create new profile, picking up skills added before it existed.
+      // Skills are managed through /api/admin/skills from then on.
+      const skills = await getSkills(tx)
+
+      return tx.profile.create({
         data: {
-          name: body.name.trim(),
-          title: body.title.trim(),
-          bio: body.bio.trim(),
-          email: body.email.trim(),
-          phone: body.phone?.trim() || null,
-          location: body.location?.trim() || null,
-          profileImage: body.profileImage || null,
-          skills: body.skills || [],
-          experience: body.experience || [],
-          education: body.education || [],
-          socialLinks: body.socialLinks || {},
-          resumeUrl: body.resumeUrl || null,
-        }
+          ...fields,
+          socialLinks: fields.socialLinks ?? {},
+          skills: skills.map(skill => skill.technology.name),
+          skillRefs: { connect: skills.map(skill => ({ id: skill.technologyId })) },
+          experience: {
+            create: (experience ?? []).map((entry, order) => ({ ...entry, order }))
+          },
+          education: {
+            create: (education ?? []).map((entry, order) => ({ ...entry, order }))
+          },
+        },
+        include: profileEntriesInclude
       })
-    }
+    })
+
+    await audit({
+      action: existingProfile ? 'profile.update' : 'profile.create',
+      entityType: 'profile',
+      entityId: profile.id,
+      before: existingProfile,
+      after: profile
+    })
 
     return NextResponse.json({
       success: true,
@@ -103,4 +109,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}, { permission: 'profile:write' })
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { publicProjectWhere } from '@/lib/project-visibility'
+import { getPreviewProject } from '@/lib/project-preview'
+import { resolveHistoricalSlug } from '@/lib/project-slugs'
 
 interface RouteParams {
   params: {
@@ -12,14 +15,44 @@ export async function GET(
   { params }: RouteParams
 ) {
   try {
+    const previewToken = new URL(request.url).searchParams.get('preview')
+
+    // A valid preview token unlocks the project regardless of its status
+    if (previewToken) {
+      const previewProject = await getPreviewProject(previewToken, params.slug, {
+        ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0] || request.headers.get('x-real-ip'),
+        userAgent: request.headers.get('user-agent')
+      })
+
+      if (previewProject) {
+        return NextResponse.json(
+          {
+            success: true,
+            data: previewProject,
+            preview: true
+          },
+          { headers: { 'Cache-Control': 'private, no-store' } }
+        )
+      }
+    }
+
     const project = await prisma.project.findFirst({
       where: {
         slug: params.slug,
-        status: 'PUBLISHED'
+        ...publicProjectWhere()
       }
     })
 
     if (!project) {
+      // Permanently redirect slugs the project used before it was renamed,
+      // as long as the project is public or the preview token is valid for it
+      const currentSlug = await resolveHistoricalSlug(params.slug, previewToken)
+      if (currentSlug) {
+        const redirectUrl = new URL(request.url)
+        redirectUrl.pathname = `/api/projects/${currentSlug}`
+        return NextResponse.redirect(redirectUrl, 301)
+      }
+
       return NextResponse.json(
         {
           success: false,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { Prisma } from '@prisma/client'
 import { handleApiError, withErrorHandler, ValidationError, DatabaseError } from '@/lib/error-handler'
+import { publicProjectWhere } from '@/lib/project-visibility'
+import { findTechnology } from '@/lib/technologies'
 import { ApiResponse } from '@/types'
 
 export const GET = withErrorHandler(async (request: NextRequest) => {
@@ -12,9 +14,9 @@ export const GET = withErrorHandler(async (request: NextRequest) => {
   const limit = searchParams.get('limit')
   const offset = searchParams.get('offset')
 
-  // Validate status parameter
-  if (status && !['PUBLISHED', 'DRAFT'].includes(status)) {
-    throw new ValidationError('Invalid status parameter. Must be PUBLISHED or DRAFT')
+  // Drafts are only shown to admins and through preview links
+  if (status !== 'PUBLISHED') {
+    throw new ValidationError('Invalid status parameter. Only PUBLISHED projects are listed')
   }
 
   // Validate numeric parameters
@@ -29,22 +31,22 @@ export const GET = withErrorHandler(async (request: NextRequest) => {
     throw new ValidationError('Offset must be a non-negative number')
   }
 
-  // Build query conditions
-  const where: Prisma.ProjectWhereInput = {
-    status: status as 'PUBLISHED' | 'DRAFT'
-  }
+  // Build query conditions, honouring publish schedules
+  const where: Prisma.ProjectWhereInput = publicProjectWhere()
 
   if (featured === 'true') {
     where.featured = true
   }
 
-  if (technology) {
-    where.technologies = {
-      has: technology
+  try {
+    if (technology) {
+      // Accept any alias or spelling, e.g. "nextjs" or "next" for "Next.js"
+      const canonical = await findTechnology(technology)
+      where.technologies = {
+        has: canonical?.name ?? technology
+      }
     }
-  }
 
-  try {
     // Get total count and projects in parallel for better performance
     const [totalCount, projects] = await Promise.all([
       prisma.project.count({ where }),
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProfileWithEntries } from '@/lib/profile-entries'
+import { resumeTemplateSchema } from '@/lib/profile-schema'
+import { renderResumePdf, resumeFileName } from '@/lib/resume-pdf'
+import { getSkills, toShowcaseSkill } from '@/lib/skills'
+
+// GET /api/resume - Generate the resume PDF from the current profile data
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const [profile, skills] = await Promise.all([getProfileWithEntries(), getSkills()])
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Profile not found' },
+        { status: 404 }
+      )
+    }
+
+    // An uploaded PDF replaces the generated one unless a template is asked for explicitly
+    if (profile.useUploadedResume && profile.resumeUrl && !searchParams.has('template')) {
+      return NextResponse.redirect(profile.resumeUrl)
+    }
+
+    const requestedTemplate = resumeTemplateSchema.safeParse(searchParams.get('template'))
+    const fallbackTemplate = resumeTemplateSchema.safeParse(profile.resumeTemplate)
+    const template = requestedTemplate.success
+      ? requestedTemplate.data
+      : fallbackTemplate.success ? fallbackTemplate.data : 'modern'
+
+    const pdf = await renderResumePdf(profile, skills.map(toShowcaseSkill), template)
+    const disposition = searchParams.get('download') === '1' ? 'attachment' : 'inline'
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${disposition}; filename="${resumeFileName(profile.name)}"`,
+        'Content-Length': pdf.length.toString(),
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error generating resume:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate resume' },
+      { status: 500 }
+    )
+  }
+}
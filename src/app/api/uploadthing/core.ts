@@ -1,6 +1,7 @@
 import { createUploadthing, type FileRouter } from "uploadthing/next";
 import { UploadThingError } from "uploadthing/server";
 import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
 import { UTApi } from "uploadthing/server";
 
 const f = createUploadthing();
@@ -13,7 +14,7 @@ const getUser = async (req: Request) => {
       headers: req.headers,
     });
 
-    if (!session?.user || session.user.role !== 'ADMIN') {
+    if (!session?.user || !hasPermission(session.user.role, 'files:write')) {
       return null;
     }
 
@@ -1,23 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { UTApi } from 'uploadthing/server'
-import { auth } from '@/lib/auth'
+import { withAdmin } from '@/lib/api-auth'
 
 const utapi = new UTApi()
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAdmin(async (request, { audit }) => {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    })
-
-    if (!session?.user || session.user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const { fileKeys } = await request.json()
 
     if (!fileKeys || !Array.isArray(fileKeys) || fileKeys.length === 0) {
@@ -30,6 +18,10 @@ export async function DELETE(request: NextRequest) {
     // Delete files from UploadThing
     const result = await utapi.deleteFiles(fileKeys)
 
+    for (const fileKey of fileKeys) {
+      await audit({ action: 'file.delete', entityType: 'file', entityId: fileKey })
+    }
+
     return NextResponse.json({
       success: true,
       deletedFiles: fileKeys,
@@ -43,9 +35,7 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}, { permission: 'files:delete' })
 
-export async function POST(request: NextRequest) {
-  // Support POST method as well for compatibility
-  return DELETE(request)
-}
\ No newline at end of file
+// Support POST method as well for compatibility
+export const POST = DELETE
\ No newline at end of file
@@ -2,6 +2,8 @@ import { Metadata } from 'next'
 import PublicLayout from '@/components/layouts/PublicLayout'
 import { HeroSection, SkillsShowcase, FeaturedProjects } from '@/components/sections'
 import { prisma } from '@/lib/prisma'
+import { publicProjectWhere } from '@/lib/project-visibility'
+import { getSkills, toShowcaseSkill } from '@/lib/skills'
 import { generateMetadata as generateSEOMetadata, generateStructuredData } from '@/lib/seo'
 
 export const metadata: Metadata = generateSEOMetadata({
@@ -16,7 +18,7 @@ async function getFeaturedProjects() {
   try {
     const projects = await prisma.project.findMany({
       where: {
-        status: 'PUBLISHED',
+        ...publicProjectWhere(),
         featured: true
       },
       orderBy: [{ order: 'asc' }, { createdAt: 'desc' }],
@@ -29,8 +31,18 @@ async function getFeaturedProjects() {
   }
 }
 
+async function getShowcaseSkills() {
+  try {
+    const skills = await getSkills()
+    return skills.map(toShowcaseSkill)
+  } catch (error) {
+    console.error('Error fetching skills:', error)
+    return []
+  }
+}
+
 export default async function Home() {
-  const featuredProjects = await getFeaturedProjects()
+  const [featuredProjects, skills] = await Promise.all([getFeaturedProjects(), getShowcaseSkills()])
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "https://siridev.com"
 
   const portfolioSchema = generateStructuredData('CreativeWork', {
@@ -57,7 +69,7 @@ export default async function Home() {
   return (
     <PublicLayout>
       <HeroSection />
-      <SkillsShowcase />
+      <SkillsShowcase skills={skills} />
       <FeaturedProjects projects={featuredProjects} />
       
       {/* JSON-LD Structured Data */}
@@ -1,12 +1,17 @@
 import { Metadata } from 'next'
-import { notFound } from 'next/navigation'
+import { notFound, permanentRedirect } from 'next/navigation'
+import { headers } from 'next/headers'
 import Image from 'next/image'
 import Link from 'next/link'
 import { prisma } from '@/lib/prisma'
+import { publicProjectWhere } from '@/lib/project-visibility'
+import { getPreviewProject, verifyPreviewToken } from '@/lib/project-preview'
+import { resolveHistoricalSlug } from '@/lib/project-slugs'
+import { getProjectBlocks } from '@/lib/project-blocks'
 import PublicLayout from '@/components/layouts/PublicLayout'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
 import Button from '@/components/ui/Button'
-import { ProjectGallery } from '@/components/projects'
+import { ProjectBlocks, ProjectGallery } from '@/components/projects'
 import Breadcrumb from '@/components/seo/Breadcrumb'
 import { generateMetadata as generateSEOMetadata, generateProjectSchema } from '@/lib/seo'
 
@@ -14,14 +19,17 @@ interface ProjectPageProps {
   params: {
     slug: string
   }
+  searchParams: {
+    preview?: string
+  }
 }
 
 async function getProject(slug: string) {
   try {
-    const project = await prisma.project.findUnique({
+    const project = await prisma.project.findFirst({
       where: {
         slug,
-        status: 'PUBLISHED'
+        ...publicProjectWhere()
       }
     })
     return project
@@ -31,17 +39,36 @@ async function getProject(slug: string) {
   }
 }
 
+async function getPreview(slug: string, token: string) {
+  try {
+    const headersList = await headers()
+    const forwarded = headersList.get('x-forwarded-for')
+
+    return await getPreviewProject(token, slug, {
+      ipAddress: forwarded?.split(',')[0] || headersList.get('x-real-ip'),
+      userAgent: headersList.get('user-agent')
+    })
+  } catch (error) {
+    console.error('Error fetching project preview:', error)
+    return null
+  }
+}
+
 async function getRelatedProjects(currentProjectId: string, technologies: string[]) {
   try {
     const relatedProjects = await prisma.project.findMany({
       where: {
         id: { not: currentProjectId },
-        status: 'PUBLISHED',
-        OR: technologies.map(tech => ({
-          technologies: {
-            has: tech
+        AND: [
+          publicProjectWhere(),
+          {
+            OR: technologies.map(tech => ({
+              technologies: {
+                has: tech
+              }
+            }))
           }
-        }))
+        ]
       },
       take: 3,
       orderBy: { createdAt: 'desc' }
@@ -53,7 +80,20 @@ async function getRelatedProjects(currentProjectId: string, technologies: string
   }
 }
 
-export async function generateMetadata({ params }: ProjectPageProps): Promise<Metadata> {
+export async function generateMetadata({ params, searchParams }: ProjectPageProps): Promise<Metadata> {
+  if (searchParams.preview) {
+    const previewToken = await verifyPreviewToken(searchParams.preview, params.slug).catch(() => null)
+
+    if (previewToken) {
+      // Previews must never be indexed
+      return generateSEOMetadata({
+        title: `Preview: ${previewToken.project.title}`,
+        description: previewToken.project.shortDescription,
+        noIndex: true,
+      })
+    }
+  }
+
   const project = await getProject(params.slug)
   
   if (!project) {
@@ -81,7 +121,7 @@ export async function generateMetadata({ params }: ProjectPageProps): Promise<Me
 export async function generateStaticParams() {
   try {
     const projects = await prisma.project.findMany({
-      where: { status: 'PUBLISHED' },
+      where: publicProjectWhere(),
       select: { slug: true }
     })
     
@@ -94,10 +134,22 @@ export async function generateStaticParams() {
   }
 }
 
-export default async function ProjectPage({ params }: ProjectPageProps) {
-  const project = await getProject(params.slug)
+export default async function ProjectPage({ params, searchParams }: ProjectPageProps) {
+  const previewProject = searchParams.preview
+    ? await getPreview(params.slug, searchParams.preview)
+    : null
+  const project = previewProject || await getProject(params.slug)
+  const isPreview = !!previewProject
   
   if (!project) {
+    // Renamed projects keep their old URLs working, unless they aren't public yet.
+    // permanentRedirect answers with a 308, which search engines treat like a 301.
+    const currentSlug = await resolveHistoricalSlug(params.slug, searchParams.preview).catch(() => null)
+    if (currentSlug) {
+      const query = searchParams.preview ? `?preview=${encodeURIComponent(searchParams.preview)}` : ''
+      permanentRedirect(`/projects/${currentSlug}${query}`)
+    }
+
     notFound()
   }
 
@@ -107,6 +159,18 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
     <PublicLayout>
       <div className="min-h-screen py-20 px-4 sm:px-6 lg:px-8">
         <div className="max-w-7xl mx-auto">
+          {/* Preview Banner */}
+          {isPreview && (
+            <div className="mb-8 rounded-lg border border-yellow-400/50 bg-yellow-100/80 dark:bg-yellow-900/30 px-4 py-3 text-center">
+              <span className="text-sm font-semibold text-yellow-800 dark:text-yellow-200">
+                Preview
+              </span>
+              <span className="ml-2 text-sm text-yellow-800 dark:text-yellow-200">
+                You are viewing a {project.status.toLowerCase()} version of this project. Please do not share this link.
+              </span>
+            </div>
+          )}
+
           {/* Breadcrumb */}
           <Breadcrumb 
             items={[
@@ -237,9 +301,7 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
                 About This Project
               </h2>
               <div className="prose prose-lg dark:prose-invert max-w-none">
-                <p className="text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-line">
-                  {project.description}
-                </p>
+                <ProjectBlocks blocks={getProjectBlocks(project)} projectTitle={project.title} />
               </div>
             </GlassmorphismCard>
           </div>
@@ -1,5 +1,6 @@
 import { Metadata } from 'next'
 import { prisma } from '@/lib/prisma'
+import { publicProjectWhere } from '@/lib/project-visibility'
 import PublicLayout from '@/components/layouts/PublicLayout'
 import { ProjectGallery } from '@/components/projects'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
@@ -16,9 +17,7 @@ export const metadata: Metadata = generateSEOMetadata({
 async function getProjects() {
   try {
     const projects = await prisma.project.findMany({
-      where: {
-        status: 'PUBLISHED'
-      },
+      where: publicProjectWhere(),
       orderBy: [
         { featured: 'desc' },
         { createdAt: 'desc' }
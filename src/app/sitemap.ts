@@ -1,12 +1,13 @@
 import { MetadataRoute } from 'next'
 import { prisma } from '@/lib/prisma'
+import { publicProjectWhere } from '@/lib/project-visibility'
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://siridev.com'
   
   // Get all published projects with more detailed information
   const projects = await prisma.project.findMany({
-    where: { status: 'PUBLISHED' },
+    where: publicProjectWhere(),
     select: { 
       slug: true, 
       updatedAt: true, 
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { motion } from 'framer-motion'
 import Button from '@/components/ui/Button'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
@@ -33,6 +33,12 @@ export default function ContactForm({ className }: ContactFormProps) {
     const [errors, setErrors] = useState<FormErrors>({})
     const [isSubmitted, setIsSubmitted] = useState(false)
     const [honeypot, setHoneypot] = useState('')
+    // When the form was shown, so the spam check knows how long it took to fill in
+    const openedAt = useRef(0)
+
+    useEffect(() => {
+        openedAt.current = Date.now()
+    }, [])
 
     // Form submission with built-in error handling and toasts
     const { state, submitToApi } = useApiFormSubmission('/api/contact', {
@@ -97,18 +103,23 @@ export default function ContactForm({ className }: ContactFormProps) {
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault()
 
-        // Honeypot check - if filled, it's likely a bot
-        if (honeypot) {
-            return
-        }
-
         if (!validateForm()) {
             return
         }
 
         setErrors({})
 
-        await submitToApi(formData)
+        // The honeypot goes to the server too, which quarantines the message as spam
+        await submitToApi({
+            ...formData,
+            website: honeypot,
+            elapsedMs: Date.now() - openedAt.current
+        })
+    }
+
+    const startNewMessage = () => {
+        openedAt.current = Date.now()
+        setIsSubmitted(false)
     }
 
     if (isSubmitted) {
@@ -142,7 +153,7 @@ export default function ContactForm({ className }: ContactFormProps) {
                     </p>
                     <Button
                         variant="glass"
-                        onClick={() => setIsSubmitted(false)}
+                        onClick={startNewMessage}
                     >
                         Send Another Message
                     </Button>
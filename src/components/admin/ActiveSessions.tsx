@@ -0,0 +1,189 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Monitor, Smartphone, Tablet } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import Modal from '@/components/ui/Modal'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { signOut } from '@/lib/auth-client'
+import { formatDateTime } from '@/lib/utils'
+import { ActiveSession, ApiResponse } from '@/types'
+
+const DEVICE_ICONS: Record<string, typeof Monitor> = {
+  mobile: Smartphone,
+  tablet: Tablet,
+}
+
+export function ActiveSessions() {
+  const router = useRouter()
+  const [sessions, setSessions] = useState<ActiveSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [confirmAll, setConfirmAll] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/session/active')
+      const result: ApiResponse<ActiveSession[]> = await response.json()
+
+      if (result.success && result.data) {
+        setSessions(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load sessions')
+      }
+    } catch (err) {
+      console.error('Error fetching sessions:', err)
+      setError('Failed to load sessions')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  // Once this device's session is gone, clear its cookie and go to the login page
+  const leave = async () => {
+    await signOut()
+    router.push('/admin/login')
+    router.refresh()
+  }
+
+  const handleRevoke = async (session: ActiveSession) => {
+    try {
+      setRevokingId(session.id)
+      const response = await fetch(`/api/admin/session/active/${session.id}`, {
+        method: 'DELETE'
+      })
+      const result: ApiResponse = await response.json()
+
+      if (!result.success) {
+        setError(result.error || 'Failed to revoke session')
+        return
+      }
+
+      if (session.current) {
+        await leave()
+        return
+      }
+
+      setSessions(prev => prev.filter(existing => existing.id !== session.id))
+      setError(null)
+    } catch (err) {
+      console.error('Error revoking session:', err)
+      setError('Failed to revoke session')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const handleRevokeAll = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch('/api/admin/session', { method: 'DELETE' })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        await leave()
+      } else {
+        setError(result.error || 'Failed to sign out everywhere')
+      }
+    } catch (err) {
+      console.error('Error signing out everywhere:', err)
+      setError('Failed to sign out everywhere')
+    } finally {
+      setSaving(false)
+      setConfirmAll(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Active sessions</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Devices where you are signed in. Revoked devices are signed out within 5 minutes.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setConfirmAll(true)} disabled={sessions.length === 0}>
+          Sign Out Everywhere
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {loading && sessions.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          {sessions.map(session => {
+            const DeviceIcon = DEVICE_ICONS[session.device] || Monitor
+
+            return (
+              <li key={session.id} className="flex items-center gap-4 px-4 py-3">
+                <DeviceIcon size={20} className="text-gray-500 dark:text-gray-400 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {session.browser} on {session.os}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {session.ipAddress || 'Unknown IP'} · Last active {formatDateTime(session.lastActiveAt)} · Signed in {formatDateTime(session.createdAt)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevoke(session)}
+                  loading={revokingId === session.id}
+                >
+                  {session.current ? 'Sign Out' : 'Revoke'}
+                </Button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {/* Sign Out Everywhere Modal */}
+      <Modal
+        isOpen={confirmAll}
+        onClose={() => setConfirmAll(false)}
+        title="Sign Out Everywhere"
+        size="sm"
+        variant="glass"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            This signs you out on every device, including this one. You will need to sign in again.
+          </p>
+          <div className="flex justify-end space-x-3">
+            <Button variant="ghost" onClick={() => setConfirmAll(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleRevokeAll} loading={saving}>
+              Sign Out Everywhere
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,363 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import Modal from '@/components/ui/Modal'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { useSession } from '@/lib/auth-client'
+import { API_TOKEN_SCOPES, Permission, permissionsFor } from '@/lib/permissions'
+import { formatDateTime } from '@/lib/utils'
+import { ApiResponse, ApiTokenSummary } from '@/types'
+
+interface TokenFormData {
+  name: string
+  scopes: Permission[]
+  expiresInDays: number
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+]
+
+const emptyForm: TokenFormData = {
+  name: '',
+  scopes: [],
+  expiresInDays: 30,
+}
+
+const selectClasses = 'w-full px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500'
+
+export function ApiTokenManager() {
+  const { data: session } = useSession()
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [createOpen, setCreateOpen] = useState(false)
+  const [formData, setFormData] = useState<TokenFormData>(emptyForm)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [createdToken, setCreatedToken] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [revoking, setRevoking] = useState<ApiTokenSummary | null>(null)
+
+  // Scopes the signed-in user's role can hand out
+  const grantableScopes = permissionsFor(session?.user.role).filter(scope => API_TOKEN_SCOPES.includes(scope))
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/api-tokens')
+      const result: ApiResponse<ApiTokenSummary[]> = await response.json()
+
+      if (result.success && result.data) {
+        setTokens(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load API tokens')
+      }
+    } catch (err) {
+      console.error('Error fetching API tokens:', err)
+      setError('Failed to load API tokens')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTokens()
+  }, [fetchTokens])
+
+  const toggleScope = (scope: Permission) => {
+    setFormData(prev => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter(existing => existing !== scope)
+        : [...prev.scopes, scope],
+    }))
+  }
+
+  const handleCreate = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch('/api/admin/api-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData)
+      })
+      const result: ApiResponse<{ token: string; apiToken: ApiTokenSummary }> = await response.json()
+
+      if (result.success && result.data) {
+        setCreateOpen(false)
+        setCreatedToken(result.data.token)
+        setCopied(false)
+        await fetchTokens()
+      } else {
+        setFormError(result.error || 'Failed to create API token')
+      }
+    } catch (err) {
+      console.error('Error creating API token:', err)
+      setFormError('Failed to create API token')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!createdToken) return
+
+    try {
+      await navigator.clipboard.writeText(createdToken)
+      setCopied(true)
+    } catch (err) {
+      console.error('Failed to copy token:', err)
+    }
+  }
+
+  const handleRevoke = async () => {
+    if (!revoking) return
+
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/admin/api-tokens/${revoking.id}`, {
+        method: 'DELETE'
+      })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setTokens(prev => prev.filter(token => token.id !== revoking.id))
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to revoke API token')
+      }
+    } catch (err) {
+      console.error('Error revoking API token:', err)
+      setError('Failed to revoke API token')
+    } finally {
+      setSaving(false)
+      setRevoking(null)
+    }
+  }
+
+  const showOwner = tokens.some(token => token.userId !== session?.user.id)
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {createdToken && (
+        <div className="p-4 rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20 space-y-3">
+          <p className="text-sm text-green-700 dark:text-green-400">
+            Copy your new token now. It won&apos;t be shown again.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <code className="flex-1 px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white break-all">
+              {createdToken}
+            </code>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {copied ? 'Copied' : 'Copy'}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setCreatedToken(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Send it as <code>Authorization: Bearer &lt;token&gt;</code> to the admin and analytics APIs.
+          </p>
+        </div>
+      )}
+
+      {/* Toolbar */}
+      <div className="flex justify-end">
+        <Button
+          variant="primary"
+          onClick={() => {
+            setFormData(emptyForm)
+            setFormError(null)
+            setCreateOpen(true)
+          }}
+        >
+          Create Token
+        </Button>
+      </div>
+
+      {/* Tokens */}
+      {loading && tokens.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+          No API tokens yet.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Name</th>
+                {showOwner && (
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Owner</th>
+                )}
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Scopes</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Last Used</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Expires</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {tokens.map(token => {
+                const expired = new Date(token.expiresAt) <= new Date()
+
+                return (
+                  <tr key={token.id}>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">
+                      {token.name}
+                      <span className="block text-xs font-mono text-gray-500 dark:text-gray-400">{token.prefix}…</span>
+                    </td>
+                    {showOwner && (
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                        {token.user?.name}
+                        <span className="block text-xs">{token.user?.email}</span>
+                      </td>
+                    )}
+                    <td className="px-4 py-3 text-sm">
+                      <div className="flex flex-wrap gap-1">
+                        {token.scopes.map(scope => (
+                          <span
+                            key={scope}
+                            className="px-2 py-0.5 text-xs font-mono rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                          >
+                            {scope}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {token.lastUsedAt ? formatDateTime(token.lastUsedAt) : 'Never'}
+                    </td>
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">
+                      {expired ? (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+                          Expired
+                        </span>
+                      ) : (
+                        <span className="text-gray-600 dark:text-gray-400">{formatDateTime(token.expiresAt)}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRevoking(token)}
+                        className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      >
+                        Revoke
+                      </Button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Create Modal */}
+      <Modal
+        isOpen={createOpen}
+        onClose={() => setCreateOpen(false)}
+        title="Create API Token"
+        size="md"
+        variant="glass"
+      >
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. CI publish"
+            required
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Scopes
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {grantableScopes.map(scope => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={formData.scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="rounded border-gray-300 dark:border-gray-600"
+                  />
+                  <span className="font-mono">{scope}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Expires after
+            </label>
+            <select
+              value={formData.expiresInDays}
+              onChange={(e) => setFormData(prev => ({ ...prev, expiresInDays: Number(e.target.value) }))}
+              className={selectClasses}
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {formError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+          )}
+          <div className="flex justify-end space-x-3">
+            <Button variant="ghost" onClick={() => setCreateOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleCreate} loading={saving}>
+              Create Token
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Revoke Modal */}
+      <Modal
+        isOpen={!!revoking}
+        onClose={() => setRevoking(null)}
+        title="Revoke API Token"
+        size="sm"
+        variant="glass"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Anything using {revoking?.name} will stop working straight away.
+          </p>
+          <div className="flex justify-end space-x-3">
+            <Button variant="ghost" onClick={() => setRevoking(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleRevoke} loading={saving}>
+              Revoke
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,290 @@
+'use client'
+
+import { Fragment, useState, useEffect, useCallback } from 'react'
+import { AuditLog } from '@prisma/client'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { formatDateTime } from '@/lib/utils'
+import { ApiResponse } from '@/types'
+
+interface AuditLogResult {
+  logs: AuditLog[]
+  pagination: {
+    page: number
+    totalCount: number
+    totalPages: number
+    hasNext: boolean
+    hasPrev: boolean
+  }
+  options: {
+    actors: Array<{ id: string; name: string | null; email: string | null }>
+    actions: string[]
+    entityTypes: string[]
+  }
+}
+
+interface AuditFilters {
+  actorId: string
+  action: string
+  entityType: string
+  entityId: string
+  from: string
+  to: string
+}
+
+const emptyFilters: AuditFilters = {
+  actorId: '',
+  action: '',
+  entityType: '',
+  entityId: '',
+  from: '',
+  to: '',
+}
+
+const selectClasses = 'w-full px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500'
+
+// Date inputs give whole days, so the end date covers the day it names
+function filterQuery(filters: AuditFilters, page?: number): string {
+  const params = new URLSearchParams()
+  if (filters.actorId) params.set('actorId', filters.actorId)
+  if (filters.action) params.set('action', filters.action)
+  if (filters.entityType) params.set('entityType', filters.entityType)
+  if (filters.entityId.trim()) params.set('entityId', filters.entityId.trim())
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString())
+  if (page) params.set('page', String(page))
+  return params.toString()
+}
+
+function formatSnapshot(value: unknown): string {
+  return value === null || value === undefined ? '—' : JSON.stringify(value, null, 2)
+}
+
+export function AuditLogViewer() {
+  const [result, setResult] = useState<AuditLogResult | null>(null)
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters)
+  const [page, setPage] = useState(1)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const fetchLogs = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/audit?${filterQuery(filters, page)}`)
+      const data: ApiResponse<AuditLogResult> = await response.json()
+
+      if (data.success && data.data) {
+        setResult(data.data)
+        setError(null)
+      } else {
+        setError(data.error || 'Failed to load audit log')
+      }
+    } catch (err) {
+      console.error('Error fetching audit log:', err)
+      setError('Failed to load audit log')
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, page])
+
+  useEffect(() => {
+    fetchLogs()
+  }, [fetchLogs])
+
+  const updateFilter = (field: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value }))
+    setPage(1)
+  }
+
+  const handleExport = () => {
+    window.open(`/api/admin/audit/export?${filterQuery(filters)}`, '_blank')
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-3">
+        <select
+          value={filters.actorId}
+          onChange={(e) => updateFilter('actorId', e.target.value)}
+          className={selectClasses}
+        >
+          <option value="">All users</option>
+          {result?.options.actors.map(actor => (
+            <option key={actor.id} value={actor.id}>
+              {actor.name || actor.email || actor.id}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.action}
+          onChange={(e) => updateFilter('action', e.target.value)}
+          className={selectClasses}
+        >
+          <option value="">All actions</option>
+          {result?.options.actions.map(action => (
+            <option key={action} value={action}>
+              {action}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.entityType}
+          onChange={(e) => updateFilter('entityType', e.target.value)}
+          className={selectClasses}
+        >
+          <option value="">All entities</option>
+          {result?.options.entityTypes.map(entityType => (
+            <option key={entityType} value={entityType}>
+              {entityType}
+            </option>
+          ))}
+        </select>
+        <Input
+          value={filters.entityId}
+          onChange={(e) => updateFilter('entityId', e.target.value)}
+          placeholder="Entity ID"
+        />
+        <Input
+          type="date"
+          value={filters.from}
+          onChange={(e) => updateFilter('from', e.target.value)}
+          aria-label="From"
+        />
+        <Input
+          type="date"
+          value={filters.to}
+          onChange={(e) => updateFilter('to', e.target.value)}
+          aria-label="To"
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {result ? `${result.pagination.totalCount} entries` : ''}
+        </p>
+        <div className="space-x-3">
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setFilters(emptyFilters)
+              setPage(1)
+            }}
+          >
+            Clear Filters
+          </Button>
+          <Button variant="outline" onClick={handleExport}>
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      {loading && !result ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : !result || result.logs.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-12">
+          No audit log entries found.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Time</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">User</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Action</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Entity</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">IP Address</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {result.logs.map(log => (
+                <Fragment key={log.id}>
+                  <tr>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {formatDateTime(log.createdAt)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                      {log.actorName || log.actorEmail || 'System'}
+                    </td>
+                    <td className="px-4 py-3 text-sm font-mono text-gray-900 dark:text-white">
+                      {log.action}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                      {log.entityType}
+                      {log.entityId && <span className="block font-mono text-xs">{log.entityId}</span>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400" title={log.userAgent || undefined}>
+                      {log.ipAddress || '—'}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                      >
+                        {expandedId === log.id ? 'Hide' : 'Details'}
+                      </Button>
+                    </td>
+                  </tr>
+                  {expandedId === log.id && (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-3 bg-gray-50 dark:bg-gray-900">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div>
+                            <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-1">Before</p>
+                            <pre className="text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-all max-h-80 overflow-auto">
+                              {formatSnapshot(log.before)}
+                            </pre>
+                          </div>
+                          <div>
+                            <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-1">After</p>
+                            <pre className="text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-all max-h-80 overflow-auto">
+                              {formatSnapshot(log.after)}
+                            </pre>
+                          </div>
+                        </div>
+                        {log.userAgent && (
+                          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">{log.userAgent}</p>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {result && result.pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Page {result.pagination.page} of {result.pagination.totalPages}
+          </p>
+          <div className="space-x-3">
+            <Button variant="outline" size="sm" onClick={() => setPage(prev => prev - 1)} disabled={!result.pagination.hasPrev}>
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(prev => prev + 1)} disabled={!result.pagination.hasNext}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,36 +1,114 @@
 'use client'
 
-import { useState } from 'react'
-import { Contact } from '@prisma/client'
+import { useState, useEffect } from 'react'
+import { Contact, ContactLabel, ContactNote, EmailTemplate } from '@prisma/client'
 import { 
   Mail, 
   MailOpen, 
   Reply, 
   Trash2, 
-  ExternalLink,
+  Send,
   Calendar,
   User,
-  MessageSquare
+  MessageSquare,
+  ShieldAlert,
+  ShieldCheck,
+  Archive,
+  StickyNote
 } from 'lucide-react'
 import Button from '@/components/ui/Button'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
+import { ContactLabelBadge } from './ContactLabelBadge'
+import { ApiResponse, ContactReply, ContactWithReplies } from '@/types'
 
 interface ContactDetailProps {
   contact: Contact | null
+  labels: ContactLabel[]
   onStatusUpdate: (contactId: string, status: string) => void
+  onReplied: (contact: Contact) => void
+  onSpamUpdate: (contact: Contact) => void
+  onLabelsChange: () => void
   onDelete: () => void
 }
 
 const statusConfig = {
   NEW: { label: 'New', icon: Mail, color: 'text-blue-400', bgColor: 'bg-blue-400/10' },
   READ: { label: 'Read', icon: MailOpen, color: 'text-yellow-400', bgColor: 'bg-yellow-400/10' },
-  REPLIED: { label: 'Replied', icon: Reply, color: 'text-green-400', bgColor: 'bg-green-400/10' }
+  REPLIED: { label: 'Replied', icon: Reply, color: 'text-green-400', bgColor: 'bg-green-400/10' },
+  SPAM: { label: 'Spam', icon: ShieldAlert, color: 'text-red-400', bgColor: 'bg-red-400/10' },
+  ARCHIVED: { label: 'Archived', icon: Archive, color: 'text-slate-400', bgColor: 'bg-slate-400/10' }
 }
 
-export function ContactDetail({ contact, onStatusUpdate, onDelete }: ContactDetailProps) {
+// Spam is set with the spam buttons, which also teach the spam check
+const markableStatuses = Object.entries(statusConfig).filter(([status]) => status !== 'SPAM')
+
+const replySubject = (contact: Contact) =>
+  contact.subject ? `Re: ${contact.subject}` : 'Re: Your message from my portfolio website'
+
+export function ContactDetail({
+  contact,
+  labels,
+  onStatusUpdate,
+  onReplied,
+  onSpamUpdate,
+  onLabelsChange,
+  onDelete
+}: ContactDetailProps) {
   const [updating, setUpdating] = useState(false)
+  const [markingSpam, setMarkingSpam] = useState(false)
   const [deleting, setDeleting] = useState(false)
+  const [replies, setReplies] = useState<ContactReply[]>([])
+  const [composing, setComposing] = useState(false)
+  const [subject, setSubject] = useState('')
+  const [body, setBody] = useState('')
+  const [sending, setSending] = useState(false)
+  const [replyError, setReplyError] = useState<string | null>(null)
+  const [templates, setTemplates] = useState<EmailTemplate[] | null>(null)
+  const [applyingTemplate, setApplyingTemplate] = useState(false)
+  const [contactLabels, setContactLabels] = useState<ContactLabel[]>([])
+  const [notes, setNotes] = useState<ContactNote[]>([])
+  const [noteDraft, setNoteDraft] = useState('')
+  const [savingNote, setSavingNote] = useState(false)
+  const [noteError, setNoteError] = useState<string | null>(null)
+
+  const contactId = contact?.id
+
+  // Load the replies, notes and labels whenever another message is opened
+  useEffect(() => {
+    setReplies([])
+    setNotes([])
+    setContactLabels([])
+    setComposing(false)
+    setReplyError(null)
+    setNoteDraft('')
+    setNoteError(null)
+
+    if (!contactId) return
+
+    let cancelled = false
+
+    const fetchThread = async () => {
+      try {
+        const response = await fetch(`/api/admin/contacts/${contactId}`)
+        const result: ApiResponse<ContactWithReplies> = await response.json()
+
+        if (!cancelled && result.success && result.data) {
+          setReplies(result.data.replies)
+          setNotes(result.data.notes)
+          setContactLabels(result.data.labels)
+        }
+      } catch (error) {
+        console.error('Error fetching conversation:', error)
+      }
+    }
+
+    fetchThread()
+
+    return () => {
+      cancelled = true
+    }
+  }, [contactId])
 
   if (!contact) {
     return (
@@ -52,6 +130,86 @@ export function ContactDetail({ contact, onStatusUpdate, onDelete }: ContactDeta
     }
   }
 
+  const handleSpamUpdate = async (spam: boolean) => {
+    setMarkingSpam(true)
+    try {
+      const response = await fetch(`/api/admin/contacts/${contact.id}/spam`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ spam })
+      })
+      const result: ApiResponse<Contact> = await response.json()
+
+      if (result.success && result.data) {
+        onSpamUpdate(result.data)
+      }
+    } catch (error) {
+      console.error('Error updating spam status:', error)
+    } finally {
+      setMarkingSpam(false)
+    }
+  }
+
+  // Labels are changed through the bulk update, for just this message
+  const handleLabelChange = async (update: { addLabelIds?: string[]; removeLabelIds?: string[] }) => {
+    try {
+      const response = await fetch(`/api/admin/contacts?ids=${contact.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      })
+
+      if (response.ok) {
+        setContactLabels(prev => [
+          ...prev.filter(label => !update.removeLabelIds?.includes(label.id)),
+          ...labels.filter(label => update.addLabelIds?.includes(label.id))
+        ].sort((a, b) => a.name.localeCompare(b.name)))
+        onLabelsChange()
+      }
+    } catch (error) {
+      console.error('Error updating labels:', error)
+    }
+  }
+
+  const handleAddNote = async () => {
+    setSavingNote(true)
+    try {
+      const response = await fetch(`/api/admin/contacts/${contact.id}/notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: noteDraft })
+      })
+      const result: ApiResponse<ContactNote> = await response.json()
+
+      if (result.success && result.data) {
+        setNotes(prev => [...prev, result.data!])
+        setNoteDraft('')
+        setNoteError(null)
+      } else {
+        setNoteError(result.error || 'Failed to add note')
+      }
+    } catch (error) {
+      console.error('Error adding note:', error)
+      setNoteError('Failed to add note')
+    } finally {
+      setSavingNote(false)
+    }
+  }
+
+  const handleDeleteNote = async (noteId: string) => {
+    try {
+      const response = await fetch(`/api/admin/contacts/${contact.id}/notes/${noteId}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        setNotes(prev => prev.filter(note => note.id !== noteId))
+      }
+    } catch (error) {
+      console.error('Error deleting note:', error)
+    }
+  }
+
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this message? This action cannot be undone.')) {
       return
@@ -73,19 +231,73 @@ export function ContactDetail({ contact, onStatusUpdate, onDelete }: ContactDeta
     }
   }
 
-  const handleReply = () => {
-    const subject = contact.subject 
-      ? `Re: ${contact.subject}` 
-      : 'Re: Your message from portfolio website'
-    
-    const body = `Hi ${contact.name},\n\nThank you for your message.\n\n---\nOriginal message:\n${contact.message}`
-    
-    const mailtoUrl = `mailto:${contact.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`
-    window.open(mailtoUrl, '_blank')
-    
-    // Mark as replied
-    if (contact.status !== 'REPLIED') {
-      handleStatusUpdate('REPLIED')
+  const handleCompose = async () => {
+    setSubject(replySubject(contact))
+    setBody(`Hi ${contact.name},\n\nThank you for your message.\n\n`)
+    setReplyError(null)
+    setComposing(true)
+
+    if (templates) return
+
+    try {
+      const response = await fetch('/api/admin/email-templates?purpose=REPLY')
+      const result: ApiResponse<EmailTemplate[]> = await response.json()
+
+      if (result.success && result.data) {
+        setTemplates(result.data)
+      }
+    } catch (error) {
+      console.error('Error fetching templates:', error)
+    }
+  }
+
+  // Replaces the draft with the template, filled in for this message
+  const handleTemplateSelect = async (templateId: string) => {
+    if (!templateId) return
+
+    setApplyingTemplate(true)
+    try {
+      const response = await fetch(`/api/admin/email-templates/${templateId}/render?contactId=${contact.id}`)
+      const result: ApiResponse<{ subject: string; body: string }> = await response.json()
+
+      if (result.success && result.data) {
+        setSubject(result.data.subject)
+        setBody(result.data.body)
+        setReplyError(null)
+      } else {
+        setReplyError(result.error || 'Failed to use template')
+      }
+    } catch (error) {
+      console.error('Error applying template:', error)
+      setReplyError('Failed to use template')
+    } finally {
+      setApplyingTemplate(false)
+    }
+  }
+
+  const handleSendReply = async () => {
+    setSending(true)
+    try {
+      const response = await fetch(`/api/admin/contacts/${contact.id}/replies`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subject, body })
+      })
+      const result: ApiResponse<{ reply: ContactReply; contact: Contact }> = await response.json()
+
+      if (result.success && result.data) {
+        setReplies(prev => [...prev, result.data!.reply])
+        setComposing(false)
+        setReplyError(null)
+        onReplied(result.data.contact)
+      } else {
+        setReplyError(result.error || 'Failed to send reply')
+      }
+    } catch (error) {
+      console.error('Error sending reply:', error)
+      setReplyError('Failed to send reply')
+    } finally {
+      setSending(false)
     }
   }
 
@@ -145,10 +357,54 @@ export function ContactDetail({ contact, onStatusUpdate, onDelete }: ContactDeta
             </div>
           )}
         </div>
+
+        {/* Labels */}
+        {(contactLabels.length > 0 || labels.length > 0) && (
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            {contactLabels.map(label => (
+              <ContactLabelBadge
+                key={label.id}
+                label={label}
+                onRemove={() => handleLabelChange({ removeLabelIds: [label.id] })}
+              />
+            ))}
+            {labels.some(label => !contactLabels.some(applied => applied.id === label.id)) && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && handleLabelChange({ addLabelIds: [e.target.value] })}
+                className="px-2 py-0.5 text-xs rounded-lg bg-slate-900/50 border border-slate-700 text-slate-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Add label…</option>
+                {labels
+                  .filter(label => !contactLabels.some(applied => applied.id === label.id))
+                  .map(label => (
+                    <option key={label.id} value={label.id}>
+                      {label.name}
+                    </option>
+                  ))}
+              </select>
+            )}
+          </div>
+        )}
       </div>
 
-      {/* Message Content */}
-      <div className="flex-1 p-6 overflow-y-auto">
+      {/* Conversation */}
+      <div className="flex-1 p-6 overflow-y-auto space-y-4">
+        {/* Spam Check */}
+        {contact.spamReasons.length > 0 && (
+          <div className={`rounded-lg p-4 border ${contact.status === 'SPAM' ? 'bg-red-500/10 border-red-400/20' : 'bg-slate-800/30 border-slate-700/50'}`}>
+            <div className="flex items-center space-x-2 mb-2 text-sm text-slate-400">
+              <ShieldAlert size={16} className={contact.status === 'SPAM' ? 'text-red-400' : undefined} />
+              <span>Spam score {contact.spamScore}</span>
+            </div>
+            <ul className="list-disc list-inside text-sm text-slate-300 space-y-1">
+              {contact.spamReasons.map(reason => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="bg-slate-800/30 rounded-lg p-4 border border-slate-700/50">
           <div className="flex items-center space-x-2 mb-3">
             <User size={16} className="text-slate-400" />
@@ -160,6 +416,118 @@ export function ContactDetail({ contact, onStatusUpdate, onDelete }: ContactDeta
             </p>
           </div>
         </div>
+
+        {replies.map(reply => (
+          <div key={reply.id} className="ml-8 bg-blue-500/10 rounded-lg p-4 border border-blue-400/20">
+            <div className="flex items-center justify-between mb-3 text-sm text-slate-400">
+              <div className="flex items-center space-x-2">
+                <Reply size={16} />
+                <span>{reply.authorName || 'Admin'} replied</span>
+              </div>
+              <span>{formatDate(reply.sentAt)}</span>
+            </div>
+            <p className="text-sm font-medium text-white mb-2">{reply.subject}</p>
+            <p className="text-slate-200 whitespace-pre-wrap leading-relaxed">
+              {reply.body}
+            </p>
+          </div>
+        ))}
+
+        {/* Reply Composer */}
+        {composing && (
+          <div className="ml-8 space-y-3 bg-slate-800/30 rounded-lg p-4 border border-slate-700/50">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-slate-400">To {contact.email}</p>
+              {templates && templates.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => handleTemplateSelect(e.target.value)}
+                  disabled={applyingTemplate}
+                  className="px-3 py-1.5 text-sm rounded-lg bg-slate-900/50 border border-slate-700 text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Use a template…</option>
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <input
+              type="text"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="Subject"
+              className="w-full px-3 py-2 text-sm rounded-lg bg-slate-900/50 border border-slate-700 text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={8}
+              placeholder="Write your reply..."
+              className="w-full px-3 py-2 text-sm rounded-lg bg-slate-900/50 border border-slate-700 text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="text-xs text-slate-500">Their original message is quoted below your reply.</p>
+            {replyError && (
+              <p className="text-sm text-red-400">{replyError}</p>
+            )}
+            <div className="flex justify-end space-x-2">
+              <Button variant="ghost" size="sm" onClick={() => setComposing(false)} disabled={sending}>
+                Cancel
+              </Button>
+              <Button variant="primary" size="sm" onClick={handleSendReply} loading={sending}>
+                <Send size={14} className="mr-2" />
+                Send Reply
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Internal Notes */}
+        <div className="bg-amber-500/5 rounded-lg p-4 border border-amber-400/20 space-y-3">
+          <div className="flex items-center space-x-2 text-sm text-slate-400">
+            <StickyNote size={16} className="text-amber-400" />
+            <span>Internal notes, never sent to {contact.name}</span>
+          </div>
+          {notes.map(note => (
+            <div key={note.id} className="group border-t border-amber-400/10 pt-3">
+              <div className="flex items-center justify-between mb-1 text-xs text-slate-400">
+                <span>{note.authorName || 'Admin'} · {formatDate(note.createdAt)}</span>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteNote(note.id)}
+                  className="opacity-0 group-hover:opacity-100 hover:text-red-400 transition-opacity"
+                  aria-label="Delete note"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              <p className="text-sm text-slate-200 whitespace-pre-wrap">{note.body}</p>
+            </div>
+          ))}
+          <textarea
+            value={noteDraft}
+            onChange={(e) => setNoteDraft(e.target.value)}
+            rows={2}
+            placeholder="Add a note..."
+            className="w-full px-3 py-2 text-sm rounded-lg bg-slate-900/50 border border-slate-700 text-white focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+          />
+          {noteError && (
+            <p className="text-sm text-red-400">{noteError}</p>
+          )}
+          <div className="flex justify-end">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleAddNote}
+              loading={savingNote}
+              disabled={!noteDraft.trim()}
+            >
+              Add Note
+            </Button>
+          </div>
+        </div>
       </div>
 
       {/* Actions */}
@@ -168,7 +536,7 @@ export function ContactDetail({ contact, onStatusUpdate, onDelete }: ContactDeta
           {/* Status Actions */}
           <div className="flex items-center space-x-2">
             <span className="text-sm text-slate-400 mr-2">Mark as:</span>
-            {Object.entries(statusConfig).map(([status, config]) => (
+            {markableStatuses.map(([status, config]) => (
               <Button
                 key={status}
                 onClick={() => handleStatusUpdate(status)}
@@ -190,14 +558,36 @@ export function ContactDetail({ contact, onStatusUpdate, onDelete }: ContactDeta
 
           {/* Primary Actions */}
           <div className="flex items-center space-x-2">
+            {contact.status === 'SPAM' ? (
+              <Button
+                onClick={() => handleSpamUpdate(false)}
+                loading={markingSpam}
+                variant="outline"
+                size="sm"
+              >
+                <ShieldCheck size={16} className="mr-2" />
+                Not spam
+              </Button>
+            ) : (
+              <Button
+                onClick={() => handleSpamUpdate(true)}
+                loading={markingSpam}
+                variant="ghost"
+                size="sm"
+                title="Mark as spam"
+              >
+                <ShieldAlert size={16} />
+              </Button>
+            )}
+
             <Button
-              onClick={handleReply}
+              onClick={handleCompose}
+              disabled={composing}
               variant="primary"
               size="sm"
             >
               <Reply size={16} className="mr-2" />
               Reply
-              <ExternalLink size={12} className="ml-1" />
             </Button>
             
             <Button
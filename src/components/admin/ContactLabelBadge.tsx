@@ -0,0 +1,31 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { ContactLabel } from '@prisma/client'
+
+interface ContactLabelBadgeProps {
+  label: Pick<ContactLabel, 'name' | 'color'>
+  onRemove?: () => void
+}
+
+// A label in its own color, tinted for the dark inbox
+export function ContactLabelBadge({ label, onRemove }: ContactLabelBadgeProps) {
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium"
+      style={{ backgroundColor: `${label.color}33`, color: label.color }}
+    >
+      {label.name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="ml-1 hover:opacity-70"
+          aria-label={`Remove ${label.name}`}
+        >
+          <X size={12} />
+        </button>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,239 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import Modal from '@/components/ui/Modal'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { ContactLabelBadge } from './ContactLabelBadge'
+import { ApiResponse, ContactLabelWithCount } from '@/types'
+
+interface LabelFormData {
+  name: string
+  color: string
+}
+
+const LABEL_COLORS = ['#6366f1', '#3b82f6', '#06b6d4', '#10b981', '#84cc16', '#f59e0b', '#f97316', '#ef4444', '#ec4899', '#a855f7']
+
+const emptyForm: LabelFormData = {
+  name: '',
+  color: LABEL_COLORS[0],
+}
+
+export function ContactLabelManager() {
+  const [labels, setLabels] = useState<ContactLabelWithCount[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<ContactLabelWithCount | 'new' | null>(null)
+  const [formData, setFormData] = useState<LabelFormData>(emptyForm)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [deleting, setDeleting] = useState<ContactLabelWithCount | null>(null)
+
+  const fetchLabels = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/contact-labels')
+      const result: ApiResponse<ContactLabelWithCount[]> = await response.json()
+
+      if (result.success && result.data) {
+        setLabels(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load labels')
+      }
+    } catch (err) {
+      console.error('Error fetching labels:', err)
+      setError('Failed to load labels')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchLabels()
+  }, [fetchLabels])
+
+  const openEditor = (label: ContactLabelWithCount | 'new') => {
+    setFormData(label === 'new' ? emptyForm : { name: label.name, color: label.color })
+    setFormError(null)
+    setEditing(label)
+  }
+
+  const handleSave = async () => {
+    if (!editing) return
+
+    try {
+      setSaving(true)
+      const response = await fetch(
+        editing === 'new' ? '/api/admin/contact-labels' : `/api/admin/contact-labels/${editing.id}`,
+        {
+          method: editing === 'new' ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(formData)
+        }
+      )
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setEditing(null)
+        await fetchLabels()
+      } else {
+        setFormError(result.error || 'Failed to save label')
+      }
+    } catch (err) {
+      console.error('Error saving label:', err)
+      setFormError('Failed to save label')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/admin/contact-labels/${deleting.id}`, {
+        method: 'DELETE'
+      })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setLabels(prev => prev.filter(label => label.id !== deleting.id))
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to delete label')
+      }
+    } catch (err) {
+      console.error('Error deleting label:', err)
+      setError('Failed to delete label')
+    } finally {
+      setSaving(false)
+      setDeleting(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Toolbar */}
+      <div className="flex justify-end">
+        <Button variant="primary" onClick={() => openEditor('new')}>
+          New Label
+        </Button>
+      </div>
+
+      {/* Labels */}
+      {loading && labels.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : labels.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+          No labels yet.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          {labels.map(label => (
+            <li key={label.id} className="flex items-center gap-4 px-4 py-3">
+              <div className="flex-1 min-w-0">
+                <ContactLabelBadge label={label} />
+              </div>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {label._count.contacts} message{label._count.contacts === 1 ? '' : 's'}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => openEditor(label)}>
+                Edit
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDeleting(label)}
+                className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+              >
+                Delete
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Editor Modal */}
+      <Modal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing === 'new' ? 'New Label' : 'Edit Label'}
+        size="sm"
+        variant="glass"
+      >
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Job lead"
+            required
+          />
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Color</p>
+            <div className="flex flex-wrap gap-2">
+              {LABEL_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, color }))}
+                  className={`w-7 h-7 rounded-full ${formData.color === color ? 'ring-2 ring-offset-2 ring-gray-400 dark:ring-offset-gray-800' : ''}`}
+                  style={{ backgroundColor: color }}
+                  aria-label={color}
+                />
+              ))}
+            </div>
+          </div>
+          {formData.name.trim() && (
+            <ContactLabelBadge label={formData} />
+          )}
+          {formError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+          )}
+          <div className="flex justify-end space-x-3">
+            <Button variant="ghost" onClick={() => setEditing(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleSave} loading={saving}>
+              Save Label
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Delete Modal */}
+      <Modal
+        isOpen={!!deleting}
+        onClose={() => setDeleting(null)}
+        title="Delete Label"
+        size="sm"
+        variant="glass"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {deleting?.name} will be deleted and taken off {deleting?._count.contacts ?? 0} message(s). The messages are kept.
+          </p>
+          <div className="flex justify-end space-x-3">
+            <Button variant="ghost" onClick={() => setDeleting(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleDelete} loading={saving}>
+              Delete
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
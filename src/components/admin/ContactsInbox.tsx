@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Contact } from '@prisma/client'
+import { Contact, ContactLabel } from '@prisma/client'
 import { 
   Search, 
   Filter, 
@@ -10,15 +10,20 @@ import {
   Mail, 
   MailOpen, 
   Reply,
+  ShieldAlert,
+  Archive,
+  Inbox,
   ChevronLeft,
   ChevronRight
 } from 'lucide-react'
 import Button from '@/components/ui/Button'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
+import { ContactLabelBadge } from './ContactLabelBadge'
+import { ContactWithLabels } from '@/types'
 
 interface ContactsData {
-  contacts: Contact[]
+  contacts: ContactWithLabels[]
   pagination: {
     page: number
     limit: number
@@ -32,6 +37,8 @@ interface ContactsData {
     NEW: number
     READ: number
     REPLIED: number
+    SPAM: number
+    ARCHIVED: number
   }
 }
 
@@ -42,10 +49,13 @@ interface ContactsInboxProps {
   selectedContact: Contact | null
   selectedContacts: string[]
   statusFilter: string
+  labels: ContactLabel[]
+  labelFilter: string
   searchQuery: string
   currentPage: number
   onContactSelect: (contact: Contact) => void
   onStatusFilterChange: (status: string) => void
+  onLabelFilterChange: (labelId: string) => void
   onSearchChange: (query: string) => void
   onPageChange: (page: number) => void
   onSelectedContactsChange: (ids: string[]) => void
@@ -56,7 +66,9 @@ const statusConfig = {
   all: { label: 'All', icon: Mail, color: 'text-slate-400' },
   NEW: { label: 'New', icon: Mail, color: 'text-blue-400' },
   READ: { label: 'Read', icon: MailOpen, color: 'text-yellow-400' },
-  REPLIED: { label: 'Replied', icon: Reply, color: 'text-green-400' }
+  REPLIED: { label: 'Replied', icon: Reply, color: 'text-green-400' },
+  SPAM: { label: 'Spam', icon: ShieldAlert, color: 'text-red-400' },
+  ARCHIVED: { label: 'Archived', icon: Archive, color: 'text-slate-400' }
 }
 
 export function ContactsInbox({
@@ -66,16 +78,20 @@ export function ContactsInbox({
   selectedContact,
   selectedContacts,
   statusFilter,
+  labels,
+  labelFilter,
   searchQuery,
   currentPage,
   onContactSelect,
   onStatusFilterChange,
+  onLabelFilterChange,
   onSearchChange,
   onPageChange,
   onSelectedContactsChange,
   onRefresh
 }: ContactsInboxProps) {
   const [bulkDeleteLoading, setBulkDeleteLoading] = useState(false)
+  const [bulkUpdateLoading, setBulkUpdateLoading] = useState(false)
 
   const handleBulkDelete = async () => {
     if (selectedContacts.length === 0) return
@@ -97,6 +113,29 @@ export function ContactsInbox({
     }
   }
 
+  // Archives, restores or labels the selected messages
+  const handleBulkUpdate = async (update: { status?: string; addLabelIds?: string[] }) => {
+    if (selectedContacts.length === 0) return
+
+    setBulkUpdateLoading(true)
+    try {
+      const response = await fetch(`/api/admin/contacts?ids=${selectedContacts.join(',')}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      })
+
+      if (response.ok) {
+        onSelectedContactsChange([])
+        onRefresh()
+      }
+    } catch (error) {
+      console.error('Error updating contacts:', error)
+    } finally {
+      setBulkUpdateLoading(false)
+    }
+  }
+
   const toggleContactSelection = (contactId: string) => {
     if (selectedContacts.includes(contactId)) {
       onSelectedContactsChange(selectedContacts.filter(id => id !== contactId))
@@ -177,25 +216,82 @@ export function ContactsInbox({
           })}
         </div>
 
+        {/* Label Filters */}
+        {labels.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <button
+              onClick={() => onLabelFilterChange('')}
+              className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                labelFilter ? 'text-slate-400 hover:text-slate-200' : 'bg-purple-600/20 text-purple-300'
+              }`}
+            >
+              All labels
+            </button>
+            {labels.map(label => (
+              <button
+                key={label.id}
+                onClick={() => onLabelFilterChange(labelFilter === label.id ? '' : label.id)}
+                className={`rounded-full transition-opacity ${
+                  labelFilter && labelFilter !== label.id ? 'opacity-50 hover:opacity-100' : ''
+                } ${labelFilter === label.id ? 'ring-1 ring-purple-400' : ''}`}
+              >
+                <ContactLabelBadge label={label} />
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Bulk Actions */}
         {selectedContacts.length > 0 && (
           <div className="flex items-center justify-between p-2 bg-slate-700/30 rounded-lg">
             <span className="text-sm text-slate-300">
               {selectedContacts.length} selected
             </span>
-            <Button
-              onClick={handleBulkDelete}
-              variant="outline"
-              size="sm"
-              disabled={bulkDeleteLoading}
-              className="text-red-400 border-red-400/30 hover:bg-red-400/10"
-            >
-              {bulkDeleteLoading ? (
-                <LoadingSpinner size="sm" />
-              ) : (
-                <Trash2 size={14} />
+            <div className="flex items-center space-x-2">
+              {labels.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && handleBulkUpdate({ addLabelIds: [e.target.value] })}
+                  disabled={bulkUpdateLoading}
+                  className="px-2 py-1 text-sm rounded-lg bg-slate-800/50 border border-slate-600 text-white focus:outline-none focus:border-purple-500"
+                >
+                  <option value="">Add label…</option>
+                  {labels.map(label => (
+                    <option key={label.id} value={label.id}>
+                      {label.name}
+                    </option>
+                  ))}
+                </select>
               )}
-            </Button>
+              <Button
+                onClick={() => handleBulkUpdate({ status: statusFilter === 'ARCHIVED' ? 'READ' : 'ARCHIVED' })}
+                variant="outline"
+                size="sm"
+                disabled={bulkUpdateLoading}
+                title={statusFilter === 'ARCHIVED' ? 'Move to inbox' : 'Archive'}
+              >
+                {bulkUpdateLoading ? (
+                  <LoadingSpinner size="sm" />
+                ) : statusFilter === 'ARCHIVED' ? (
+                  <Inbox size={14} />
+                ) : (
+                  <Archive size={14} />
+                )}
+              </Button>
+              <Button
+                onClick={handleBulkDelete}
+                variant="outline"
+                size="sm"
+                disabled={bulkDeleteLoading}
+                className="text-red-400 border-red-400/30 hover:bg-red-400/10"
+              >
+                {bulkDeleteLoading ? (
+                  <LoadingSpinner size="sm" />
+                ) : (
+                  <Trash2 size={14} />
+                )}
+              </Button>
+            </div>
           </div>
         )}
       </div>
@@ -271,6 +367,14 @@ export function ContactsInbox({
                       </div>
                       
                       <p className="text-xs text-slate-400 mb-1">{contact.email}</p>
+
+                      {contact.labels.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-1">
+                          {contact.labels.map(label => (
+                            <ContactLabelBadge key={label.id} label={label} />
+                          ))}
+                        </div>
+                      )}
                       
                       {contact.subject && (
                         <p className="text-sm text-slate-300 truncate mb-1">
@@ -1,66 +1,116 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { Education } from '@/types'
+import { useState, useEffect, useCallback } from 'react'
+import { ApiResponse, EducationEntry } from '@/types'
+import type { EducationEntryInput } from '@/lib/profile-schema'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
 import Button from '@/components/ui/Button'
-import { Plus, Edit, Trash2, GraduationCap, Calendar, School } from 'lucide-react'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { Plus, Edit, Trash2, GraduationCap, Calendar, School, ArrowUp, ArrowDown } from 'lucide-react'
 
-interface EducationManagerProps {
-  education: Education[]
-  onUpdate: (education: Education[]) => Promise<{ success: boolean; error?: string }>
-  saving: boolean
-}
-
-export function EducationManager({ education, onUpdate, saving }: EducationManagerProps) {
-  const [educationList, setEducationList] = useState<Education[]>([])
+export function EducationManager() {
+  const [educationList, setEducationList] = useState<EducationEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [showForm, setShowForm] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
-  useEffect(() => {
-    setEducationList(education || [])
-  }, [education])
-
-  const handleSave = async () => {
-    const result = await onUpdate(educationList)
-    
-    if (result.success) {
-      setMessage({ type: 'success', text: 'Education updated successfully!' })
-      setShowForm(false)
-      setEditingId(null)
-    } else {
-      setMessage({ type: 'error', text: result.error || 'Failed to update education' })
-    }
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text })
 
     // Clear message after 3 seconds
     setTimeout(() => setMessage(null), 3000)
   }
 
-  const handleAddEducation = (newEducation: Omit<Education, 'id'>) => {
-    const education: Education = {
-      ...newEducation,
-      id: Date.now().toString(),
+  const fetchEducation = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/education')
+      const result: ApiResponse<EducationEntry[]> = await response.json()
+
+      if (result.success && result.data) {
+        setEducationList(result.data)
+      } else {
+        showMessage('error', result.error || 'Failed to load education')
+      }
+    } catch (error) {
+      console.error('Error fetching education:', error)
+      showMessage('error', 'Failed to load education')
+    } finally {
+      setLoading(false)
     }
-    setEducationList(prev => [...prev, education])
-  }
+  }, [])
 
-  const handleEditEducation = (id: string, updatedEducation: Omit<Education, 'id'>) => {
-    setEducationList(prev => 
-      prev.map(edu => 
-        edu.id === id 
-          ? { ...updatedEducation, id }
-          : edu
-      )
-    )
-    setEditingId(null)
+  useEffect(() => {
+    fetchEducation()
+  }, [fetchEducation])
+
+  const handleSaveEducation = async (data: EducationEntryInput) => {
+    setSaving(true)
+    try {
+      const response = await fetch(editingId ? `/api/admin/education/${editingId}` : '/api/admin/education', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      })
+      const result: ApiResponse<EducationEntry> = await response.json()
+
+      if (result.success) {
+        showMessage('success', editingId ? 'Education updated successfully!' : 'Education added successfully!')
+        setShowForm(false)
+        setEditingId(null)
+        await fetchEducation()
+      } else {
+        showMessage('error', result.error || 'Failed to save education')
+      }
+    } catch (error) {
+      console.error('Error saving education:', error)
+      showMessage('error', 'Failed to save education')
+    } finally {
+      setSaving(false)
+    }
   }
 
-  const handleDeleteEducation = (id: string) => {
-    setEducationList(prev => prev.filter(edu => edu.id !== id))
+  const handleDeleteEducation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/admin/education/${id}`, { method: 'DELETE' })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setEducationList(prev => prev.filter(edu => edu.id !== id))
+      } else {
+        showMessage('error', result.error || 'Failed to delete education')
+      }
+    } catch (error) {
+      console.error('Error deleting education:', error)
+      showMessage('error', 'Failed to delete education')
+    }
   }
 
-  const hasChanges = JSON.stringify(educationList) !== JSON.stringify(education)
+  const handleMoveEducation = async (index: number, direction: -1 | 1) => {
+    const reordered = [...educationList]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(index + direction, 0, moved)
+    setEducationList(reordered)
+
+    try {
+      const response = await fetch('/api/admin/education/reorder', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: reordered.map(edu => edu.id) })
+      })
+      const result: ApiResponse<EducationEntry[]> = await response.json()
+
+      if (!result.success) {
+        showMessage('error', result.error || 'Failed to reorder education')
+        await fetchEducation()
+      }
+    } catch (error) {
+      console.error('Error reordering education:', error)
+      showMessage('error', 'Failed to reorder education')
+      await fetchEducation()
+    }
+  }
 
   return (
     <GlassmorphismCard className="p-6">
@@ -87,7 +137,10 @@ export function EducationManager({ education, onUpdate, saving }: EducationManag
       {/* Add New Education Button */}
       <div className="mb-6">
         <Button
-          onClick={() => setShowForm(true)}
+          onClick={() => {
+            setEditingId(null)
+            setShowForm(true)
+          }}
           className="flex items-center"
         >
           <Plus size={16} className="mr-2" />
@@ -98,27 +151,32 @@ export function EducationManager({ education, onUpdate, saving }: EducationManag
       {/* Education Form */}
       {(showForm || editingId) && (
         <EducationForm
+          key={editingId ?? 'new'}
           education={editingId ? educationList.find(edu => edu.id === editingId) : undefined}
-          onSave={editingId ? 
-            (data) => handleEditEducation(editingId, data) : 
-            handleAddEducation
-          }
+          onSave={handleSaveEducation}
           onCancel={() => {
             setShowForm(false)
             setEditingId(null)
           }}
+          saving={saving}
         />
       )}
 
       {/* Education List */}
       <div className="space-y-4">
-        {educationList.length > 0 ? (
-          educationList.map((edu) => (
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : educationList.length > 0 ? (
+          educationList.map((edu, index) => (
             <EducationCard
               key={edu.id}
               education={edu}
               onEdit={() => setEditingId(edu.id)}
               onDelete={() => handleDeleteEducation(edu.id)}
+              onMoveUp={index > 0 ? () => handleMoveEducation(index, -1) : undefined}
+              onMoveDown={index < educationList.length - 1 ? () => handleMoveEducation(index, 1) : undefined}
             />
           ))
         ) : (
@@ -131,30 +189,18 @@ export function EducationManager({ education, onUpdate, saving }: EducationManag
           </div>
         )}
       </div>
-
-      {/* Save Button */}
-      {hasChanges && (
-        <div className="flex justify-end mt-6">
-          <Button
-            onClick={handleSave}
-            disabled={saving}
-            className="px-6 py-3"
-          >
-            {saving ? 'Saving...' : 'Save Changes'}
-          </Button>
-        </div>
-      )}
     </GlassmorphismCard>
   )
 }
 
 interface EducationFormProps {
-  education?: Education
-  onSave: (education: Omit<Education, 'id'>) => void
+  education?: EducationEntry
+  onSave: (education: EducationEntryInput) => void
   onCancel: () => void
+  saving: boolean
 }
 
-function EducationForm({ education, onSave, onCancel }: EducationFormProps) {
+function EducationForm({ education, onSave, onCancel, saving }: EducationFormProps) {
   const [formData, setFormData] = useState({
     institution: education?.institution || '',
     degree: education?.degree || '',
@@ -172,6 +218,7 @@ function EducationForm({ education, onSave, onCancel }: EducationFormProps) {
     if (!formData.degree.trim()) newErrors.degree = 'Degree is required'
     if (!formData.field.trim()) newErrors.field = 'Field of study is required'
     if (!formData.startDate) newErrors.startDate = 'Start date is required'
+    if (formData.endDate && formData.endDate < formData.startDate) newErrors.endDate = 'End date must be after the start date'
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -182,13 +229,13 @@ function EducationForm({ education, onSave, onCancel }: EducationFormProps) {
     
     if (!validateForm()) return
 
-    const educationData: Omit<Education, 'id'> = {
+    const educationData: EducationEntryInput = {
       institution: formData.institution.trim(),
       degree: formData.degree.trim(),
       field: formData.field.trim(),
       startDate: formData.startDate,
-      endDate: formData.endDate || undefined,
-      description: formData.description.trim() || undefined,
+      endDate: formData.endDate || null,
+      description: formData.description.trim() || null,
     }
 
     onSave(educationData)
@@ -276,7 +323,9 @@ function EducationForm({ education, onSave, onCancel }: EducationFormProps) {
               className="w-full px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-lg text-white
                          focus:outline-none focus:ring-2 focus:ring-purple-500/50"
             />
-            <p className="mt-1 text-xs text-slate-400">Leave empty if currently studying</p>
+            {errors.endDate
+              ? <p className="mt-1 text-sm text-red-400">{errors.endDate}</p>
+              : <p className="mt-1 text-xs text-slate-400">Leave empty if currently studying</p>}
           </div>
         </div>
 
@@ -302,8 +351,8 @@ function EducationForm({ education, onSave, onCancel }: EducationFormProps) {
           >
             Cancel
           </Button>
-          <Button type="submit">
-            {education ? 'Update' : 'Add'} Education
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Saving...' : `${education ? 'Update' : 'Add'} Education`}
           </Button>
         </div>
       </form>
@@ -312,12 +361,14 @@ function EducationForm({ education, onSave, onCancel }: EducationFormProps) {
 }
 
 interface EducationCardProps {
-  education: Education
+  education: EducationEntry
   onEdit: () => void
   onDelete: () => void
+  onMoveUp?: () => void
+  onMoveDown?: () => void
 }
 
-function EducationCard({ education, onEdit, onDelete }: EducationCardProps) {
+function EducationCard({ education, onEdit, onDelete, onMoveUp, onMoveDown }: EducationCardProps) {
   const formatDate = (dateString: string) => {
     const date = new Date(dateString + '-01')
     return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long' })
@@ -344,6 +395,22 @@ function EducationCard({ education, onEdit, onDelete }: EducationCardProps) {
           </div>
         </div>
         <div className="flex space-x-2">
+          <button
+            onClick={onMoveUp}
+            disabled={!onMoveUp}
+            className="p-2 text-slate-400 hover:text-white disabled:opacity-30 transition-colors"
+            title="Move up"
+          >
+            <ArrowUp size={16} />
+          </button>
+          <button
+            onClick={onMoveDown}
+            disabled={!onMoveDown}
+            className="p-2 text-slate-400 hover:text-white disabled:opacity-30 transition-colors"
+            title="Move down"
+          >
+            <ArrowDown size={16} />
+          </button>
           <button
             onClick={onEdit}
             className="p-2 text-slate-400 hover:text-purple-400 transition-colors"
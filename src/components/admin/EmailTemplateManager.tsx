@@ -0,0 +1,342 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { EmailTemplate, EmailTemplatePurpose } from '@prisma/client'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import Modal from '@/components/ui/Modal'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { DEFAULT_CONTACT_TEMPLATES, PURPOSE_LABELS, templateVariablesFor } from '@/lib/template-render'
+import { ApiResponse } from '@/types'
+
+interface TemplateFormData {
+  name: string
+  purpose: EmailTemplatePurpose
+  subject: string
+  body: string
+}
+
+const CONTACT_PURPOSES = Object.keys(DEFAULT_CONTACT_TEMPLATES) as Array<keyof typeof DEFAULT_CONTACT_TEMPLATES>
+
+const emptyForm: TemplateFormData = {
+  name: '',
+  purpose: 'REPLY',
+  subject: 'Re: {{subject}}',
+  body: 'Hi {{name}},\n\n\n\n{{sender.name}}',
+}
+
+const selectClasses = 'w-full px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500'
+
+export function EmailTemplateManager() {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<EmailTemplate | 'new' | null>(null)
+  const [formData, setFormData] = useState<TemplateFormData>(emptyForm)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [deleting, setDeleting] = useState<EmailTemplate | null>(null)
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/email-templates')
+      const result: ApiResponse<EmailTemplate[]> = await response.json()
+
+      if (result.success && result.data) {
+        setTemplates(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load templates')
+      }
+    } catch (err) {
+      console.error('Error fetching templates:', err)
+      setError('Failed to load templates')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [fetchTemplates])
+
+  const openEditor = (template: EmailTemplate | 'new', initial: TemplateFormData) => {
+    setFormData(initial)
+    setFormError(null)
+    setEditing(template)
+  }
+
+  const handleSave = async () => {
+    if (!editing) return
+
+    try {
+      setSaving(true)
+      const response = await fetch(
+        editing === 'new' ? '/api/admin/email-templates' : `/api/admin/email-templates/${editing.id}`,
+        {
+          method: editing === 'new' ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(formData)
+        }
+      )
+      const result: ApiResponse<EmailTemplate> = await response.json()
+
+      if (result.success) {
+        setEditing(null)
+        await fetchTemplates()
+      } else {
+        setFormError(result.error || 'Failed to save template')
+      }
+    } catch (err) {
+      console.error('Error saving template:', err)
+      setFormError('Failed to save template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/admin/email-templates/${deleting.id}`, {
+        method: 'DELETE'
+      })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setTemplates(prev => prev.filter(template => template.id !== deleting.id))
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to delete template')
+      }
+    } catch (err) {
+      console.error('Error deleting template:', err)
+      setError('Failed to delete template')
+    } finally {
+      setSaving(false)
+      setDeleting(null)
+    }
+  }
+
+  const insertVariable = (name: string) => {
+    setFormData(prev => ({ ...prev, body: `${prev.body}{{${name}}}` }))
+  }
+
+  const replyTemplates = templates.filter(template => template.purpose === 'REPLY')
+
+  const renderRow = (template: EmailTemplate) => (
+    <li key={template.id} className="flex items-center gap-4 px-4 py-3">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-900 dark:text-white">{template.name}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{template.subject}</p>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => openEditor(template, {
+          name: template.name,
+          purpose: template.purpose,
+          subject: template.subject,
+          body: template.body,
+        })}
+      >
+        Edit
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setDeleting(template)}
+        className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+      >
+        {template.purpose === 'REPLY' ? 'Delete' : 'Reset'}
+      </Button>
+    </li>
+  )
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {loading && templates.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <>
+          {/* Reply Templates */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Reply templates</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Starting points for replies, picked in the message composer.
+                </p>
+              </div>
+              <Button variant="primary" onClick={() => openEditor('new', emptyForm)}>
+                New Template
+              </Button>
+            </div>
+
+            {replyTemplates.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+                No reply templates yet.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                {replyTemplates.map(renderRow)}
+              </ul>
+            )}
+          </div>
+
+          {/* Contact Form Emails */}
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Contact form emails</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Sent when someone uses the contact form. Resetting goes back to the built-in email.
+                The confirmation to the sender is only sent once you customize it.
+              </p>
+            </div>
+
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+              {CONTACT_PURPOSES.map(purpose => {
+                const saved = templates.find(template => template.purpose === purpose)
+
+                return saved ? renderRow(saved) : (
+                  <li key={purpose} className="flex items-center gap-4 px-4 py-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{PURPOSE_LABELS[purpose]}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {purpose === 'CONTACT_CONFIRMATION' ? 'Not sent' : 'Using the built-in email'}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openEditor('new', { ...DEFAULT_CONTACT_TEMPLATES[purpose], purpose })}
+                    >
+                      Customize
+                    </Button>
+                  </li>
+                )
+              })}
+            </ul>
+          </div>
+        </>
+      )}
+
+      {/* Editor Modal */}
+      <Modal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing === 'new' ? 'New Template' : 'Edit Template'}
+        size="lg"
+        variant="glass"
+      >
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Freelance availability"
+            required
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Used for
+            </label>
+            <select
+              value={formData.purpose}
+              onChange={(e) => setFormData(prev => ({ ...prev, purpose: e.target.value as EmailTemplatePurpose }))}
+              className={selectClasses}
+            >
+              {(Object.keys(PURPOSE_LABELS) as EmailTemplatePurpose[]).map(purpose => (
+                <option key={purpose} value={purpose}>
+                  {PURPOSE_LABELS[purpose]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label="Subject"
+            value={formData.subject}
+            onChange={(e) => setFormData(prev => ({ ...prev, subject: e.target.value }))}
+            required
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Body
+            </label>
+            <textarea
+              value={formData.body}
+              onChange={(e) => setFormData(prev => ({ ...prev, body: e.target.value }))}
+              rows={12}
+              className={`${selectClasses} font-mono`}
+            />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Variables</p>
+            <div className="flex flex-wrap gap-2">
+              {templateVariablesFor(formData.purpose).map(variable => (
+                <button
+                  key={variable.name}
+                  type="button"
+                  onClick={() => insertVariable(variable.name)}
+                  title={variable.description}
+                  className="px-2 py-1 text-xs font-mono rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                >
+                  {`{{${variable.name}}}`}
+                </button>
+              ))}
+            </div>
+          </div>
+          {formError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+          )}
+          <div className="flex justify-end space-x-3">
+            <Button variant="ghost" onClick={() => setEditing(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleSave} loading={saving}>
+              Save Template
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Delete Modal */}
+      <Modal
+        isOpen={!!deleting}
+        onClose={() => setDeleting(null)}
+        title={deleting?.purpose === 'REPLY' ? 'Delete Template' : 'Reset Template'}
+        size="sm"
+        variant="glass"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {deleting?.purpose === 'REPLY'
+              ? `${deleting?.name} will be deleted.`
+              : deleting?.purpose === 'CONTACT_CONFIRMATION'
+                ? `${deleting?.name} will be deleted and the contact form will stop sending confirmations.`
+                : `${deleting?.name} will be deleted and the contact form will send the built-in email again.`}
+          </p>
+          <div className="flex justify-end space-x-3">
+            <Button variant="ghost" onClick={() => setDeleting(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleDelete} loading={saving}>
+              {deleting?.purpose === 'REPLY' ? 'Delete' : 'Reset'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
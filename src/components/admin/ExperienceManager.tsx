@@ -1,66 +1,116 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { Experience } from '@/types'
+import { useState, useEffect, useCallback } from 'react'
+import { ApiResponse, ExperienceEntry } from '@/types'
+import type { ExperienceEntryInput } from '@/lib/profile-schema'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
 import Button from '@/components/ui/Button'
-import { Plus, Edit, Trash2, Briefcase, Calendar, Building } from 'lucide-react'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { Plus, Edit, Trash2, Briefcase, Calendar, Building, ArrowUp, ArrowDown } from 'lucide-react'
 
-interface ExperienceManagerProps {
-  experience: Experience[]
-  onUpdate: (experience: Experience[]) => Promise<{ success: boolean; error?: string }>
-  saving: boolean
-}
-
-export function ExperienceManager({ experience, onUpdate, saving }: ExperienceManagerProps) {
-  const [experienceList, setExperienceList] = useState<Experience[]>([])
+export function ExperienceManager() {
+  const [experienceList, setExperienceList] = useState<ExperienceEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [showForm, setShowForm] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
-  useEffect(() => {
-    setExperienceList(experience || [])
-  }, [experience])
-
-  const handleSave = async () => {
-    const result = await onUpdate(experienceList)
-    
-    if (result.success) {
-      setMessage({ type: 'success', text: 'Experience updated successfully!' })
-      setShowForm(false)
-      setEditingId(null)
-    } else {
-      setMessage({ type: 'error', text: result.error || 'Failed to update experience' })
-    }
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text })
 
     // Clear message after 3 seconds
     setTimeout(() => setMessage(null), 3000)
   }
 
-  const handleAddExperience = (newExperience: Omit<Experience, 'id'>) => {
-    const experience: Experience = {
-      ...newExperience,
-      id: Date.now().toString(),
+  const fetchExperience = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/experience')
+      const result: ApiResponse<ExperienceEntry[]> = await response.json()
+
+      if (result.success && result.data) {
+        setExperienceList(result.data)
+      } else {
+        showMessage('error', result.error || 'Failed to load experience')
+      }
+    } catch (error) {
+      console.error('Error fetching experience:', error)
+      showMessage('error', 'Failed to load experience')
+    } finally {
+      setLoading(false)
     }
-    setExperienceList(prev => [...prev, experience])
-  }
+  }, [])
 
-  const handleEditExperience = (id: string, updatedExperience: Omit<Experience, 'id'>) => {
-    setExperienceList(prev => 
-      prev.map(exp => 
-        exp.id === id 
-          ? { ...updatedExperience, id }
-          : exp
-      )
-    )
-    setEditingId(null)
+  useEffect(() => {
+    fetchExperience()
+  }, [fetchExperience])
+
+  const handleSaveExperience = async (data: ExperienceEntryInput) => {
+    setSaving(true)
+    try {
+      const response = await fetch(editingId ? `/api/admin/experience/${editingId}` : '/api/admin/experience', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      })
+      const result: ApiResponse<ExperienceEntry> = await response.json()
+
+      if (result.success) {
+        showMessage('success', editingId ? 'Experience updated successfully!' : 'Experience added successfully!')
+        setShowForm(false)
+        setEditingId(null)
+        await fetchExperience()
+      } else {
+        showMessage('error', result.error || 'Failed to save experience')
+      }
+    } catch (error) {
+      console.error('Error saving experience:', error)
+      showMessage('error', 'Failed to save experience')
+    } finally {
+      setSaving(false)
+    }
   }
 
-  const handleDeleteExperience = (id: string) => {
-    setExperienceList(prev => prev.filter(exp => exp.id !== id))
+  const handleDeleteExperience = async (id: string) => {
+    try {
+      const response = await fetch(`/api/admin/experience/${id}`, { method: 'DELETE' })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setExperienceList(prev => prev.filter(exp => exp.id !== id))
+      } else {
+        showMessage('error', result.error || 'Failed to delete experience')
+      }
+    } catch (error) {
+      console.error('Error deleting experience:', error)
+      showMessage('error', 'Failed to delete experience')
+    }
   }
 
-  const hasChanges = JSON.stringify(experienceList) !== JSON.stringify(experience)
+  const handleMoveExperience = async (index: number, direction: -1 | 1) => {
+    const reordered = [...experienceList]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(index + direction, 0, moved)
+    setExperienceList(reordered)
+
+    try {
+      const response = await fetch('/api/admin/experience/reorder', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: reordered.map(exp => exp.id) })
+      })
+      const result: ApiResponse<ExperienceEntry[]> = await response.json()
+
+      if (!result.success) {
+        showMessage('error', result.error || 'Failed to reorder experience')
+        await fetchExperience()
+      }
+    } catch (error) {
+      console.error('Error reordering experience:', error)
+      showMessage('error', 'Failed to reorder experience')
+      await fetchExperience()
+    }
+  }
 
   return (
     <GlassmorphismCard className="p-6">
@@ -87,7 +137,10 @@ export function ExperienceManager({ experience, onUpdate, saving }: ExperienceMa
       {/* Add New Experience Button */}
       <div className="mb-6">
         <Button
-          onClick={() => setShowForm(true)}
+          onClick={() => {
+            setEditingId(null)
+            setShowForm(true)
+          }}
           className="flex items-center"
         >
           <Plus size={16} className="mr-2" />
@@ -98,27 +151,32 @@ export function ExperienceManager({ experience, onUpdate, saving }: ExperienceMa
       {/* Experience Form */}
       {(showForm || editingId) && (
         <ExperienceForm
+          key={editingId ?? 'new'}
           experience={editingId ? experienceList.find(exp => exp.id === editingId) : undefined}
-          onSave={editingId ? 
-            (data) => handleEditExperience(editingId, data) : 
-            handleAddExperience
-          }
+          onSave={handleSaveExperience}
           onCancel={() => {
             setShowForm(false)
             setEditingId(null)
           }}
+          saving={saving}
         />
       )}
 
       {/* Experience List */}
       <div className="space-y-4">
-        {experienceList.length > 0 ? (
-          experienceList.map((exp) => (
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : experienceList.length > 0 ? (
+          experienceList.map((exp, index) => (
             <ExperienceCard
               key={exp.id}
               experience={exp}
               onEdit={() => setEditingId(exp.id)}
               onDelete={() => handleDeleteExperience(exp.id)}
+              onMoveUp={index > 0 ? () => handleMoveExperience(index, -1) : undefined}
+              onMoveDown={index < experienceList.length - 1 ? () => handleMoveExperience(index, 1) : undefined}
             />
           ))
         ) : (
@@ -131,30 +189,18 @@ export function ExperienceManager({ experience, onUpdate, saving }: ExperienceMa
           </div>
         )}
       </div>
-
-      {/* Save Button */}
-      {hasChanges && (
-        <div className="flex justify-end mt-6">
-          <Button
-            onClick={handleSave}
-            disabled={saving}
-            className="px-6 py-3"
-          >
-            {saving ? 'Saving...' : 'Save Changes'}
-          </Button>
-        </div>
-      )}
     </GlassmorphismCard>
   )
 }
 
 interface ExperienceFormProps {
-  experience?: Experience
-  onSave: (experience: Omit<Experience, 'id'>) => void
+  experience?: ExperienceEntry
+  onSave: (experience: ExperienceEntryInput) => void
   onCancel: () => void
+  saving: boolean
 }
 
-function ExperienceForm({ experience, onSave, onCancel }: ExperienceFormProps) {
+function ExperienceForm({ experience, onSave, onCancel, saving }: ExperienceFormProps) {
   const [formData, setFormData] = useState({
     company: experience?.company || '',
     position: experience?.position || '',
@@ -172,6 +218,7 @@ function ExperienceForm({ experience, onSave, onCancel }: ExperienceFormProps) {
     if (!formData.position.trim()) newErrors.position = 'Position is required'
     if (!formData.startDate) newErrors.startDate = 'Start date is required'
     if (!formData.description.trim()) newErrors.description = 'Description is required'
+    if (formData.endDate && formData.endDate < formData.startDate) newErrors.endDate = 'End date must be after the start date'
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -182,15 +229,13 @@ function ExperienceForm({ experience, onSave, onCancel }: ExperienceFormProps) {
     
     if (!validateForm()) return
 
-    const experienceData: Omit<Experience, 'id'> = {
+    const experienceData: ExperienceEntryInput = {
       company: formData.company.trim(),
       position: formData.position.trim(),
       startDate: formData.startDate,
-      endDate: formData.endDate || undefined,
+      endDate: formData.endDate || null,
       description: formData.description.trim(),
-      technologies: formData.technologies 
-        ? formData.technologies.split(',').map(tech => tech.trim()).filter(Boolean)
-        : undefined,
+      technologies: formData.technologies.split(',').map(tech => tech.trim()).filter(Boolean),
     }
 
     onSave(experienceData)
@@ -262,7 +307,9 @@ function ExperienceForm({ experience, onSave, onCancel }: ExperienceFormProps) {
               className="w-full px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-lg text-white
                          focus:outline-none focus:ring-2 focus:ring-purple-500/50"
             />
-            <p className="mt-1 text-xs text-slate-400">Leave empty if current position</p>
+            {errors.endDate
+              ? <p className="mt-1 text-sm text-red-400">{errors.endDate}</p>
+              : <p className="mt-1 text-xs text-slate-400">Leave empty if current position</p>}
           </div>
         </div>
 
@@ -304,8 +351,8 @@ function ExperienceForm({ experience, onSave, onCancel }: ExperienceFormProps) {
           >
             Cancel
           </Button>
-          <Button type="submit">
-            {experience ? 'Update' : 'Add'} Experience
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Saving...' : `${experience ? 'Update' : 'Add'} Experience`}
           </Button>
         </div>
       </form>
@@ -314,12 +361,14 @@ function ExperienceForm({ experience, onSave, onCancel }: ExperienceFormProps) {
 }
 
 interface ExperienceCardProps {
-  experience: Experience
+  experience: ExperienceEntry
   onEdit: () => void
   onDelete: () => void
+  onMoveUp?: () => void
+  onMoveDown?: () => void
 }
 
-function ExperienceCard({ experience, onEdit, onDelete }: ExperienceCardProps) {
+function ExperienceCard({ experience, onEdit, onDelete, onMoveUp, onMoveDown }: ExperienceCardProps) {
   const formatDate = (dateString: string) => {
     const date = new Date(dateString + '-01')
     return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long' })
@@ -344,6 +393,22 @@ function ExperienceCard({ experience, onEdit, onDelete }: ExperienceCardProps) {
           </div>
         </div>
         <div className="flex space-x-2">
+          <button
+            onClick={onMoveUp}
+            disabled={!onMoveUp}
+            className="p-2 text-slate-400 hover:text-white disabled:opacity-30 transition-colors"
+            title="Move up"
+          >
+            <ArrowUp size={16} />
+          </button>
+          <button
+            onClick={onMoveDown}
+            disabled={!onMoveDown}
+            className="p-2 text-slate-400 hover:text-white disabled:opacity-30 transition-colors"
+            title="Move down"
+          >
+            <ArrowDown size={16} />
+          </button>
           <button
             onClick={onEdit}
             className="p-2 text-slate-400 hover:text-purple-400 transition-colors"
@@ -365,7 +430,7 @@ function ExperienceCard({ experience, onEdit, onDelete }: ExperienceCardProps) {
         {experience.description}
       </p>
 
-      {experience.technologies && experience.technologies.length > 0 && (
+      {experience.technologies.length > 0 && (
         <div className="flex flex-wrap gap-2">
           {experience.technologies.map((tech, index) => (
             <span
@@ -0,0 +1,284 @@
+'use client'
+
+import { useState } from 'react'
+import type { JsonResumePreview } from '@/lib/json-resume'
+import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
+import Button from '@/components/ui/Button'
+import {
+  FileJson,
+  Download,
+  Upload,
+  Eye,
+  AlertCircle,
+  CheckCircle,
+  ArrowRight
+} from 'lucide-react'
+
+interface JsonResumeManagerProps {
+  onImported: () => void
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  title: 'Title',
+  bio: 'Bio',
+  email: 'Email',
+  phone: 'Phone',
+  location: 'Location',
+  profileImage: 'Profile image',
+}
+
+function fieldLabel(field: string) {
+  if (field.startsWith('socialLinks.')) return `Social link: ${field.slice('socialLinks.'.length)}`
+  return FIELD_LABELS[field] ?? field
+}
+
+export function JsonResumeManager({ onImported }: JsonResumeManagerProps) {
+  const [source, setSource] = useState('')
+  const [preview, setPreview] = useState<JsonResumePreview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text })
+
+    // Clear message after 3 seconds
+    setTimeout(() => setMessage(null), 3000)
+  }
+
+  const handleFile = async (file?: File) => {
+    if (!file) return
+    setSource(await file.text())
+    setPreview(null)
+  }
+
+  const submit = async (dryRun: boolean) => {
+    let document: unknown
+    try {
+      document = JSON.parse(source)
+    } catch {
+      showMessage('error', 'The document is not valid JSON')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/profile/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ document, dryRun }),
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        showMessage('error', data.error || 'Failed to import resume')
+        return
+      }
+
+      if (dryRun) {
+        setPreview(data.data.preview)
+      } else {
+        setPreview(null)
+        setSource('')
+        showMessage('success', data.message || 'Profile imported successfully')
+        onImported()
+      }
+    } catch (error) {
+      console.error('Error importing resume:', error)
+      showMessage('error', 'Failed to import resume')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const hasChanges = preview && (
+    preview.fields.length > 0 ||
+    preview.experience ||
+    preview.education ||
+    preview.skills.added.length > 0 ||
+    preview.skills.updated.length > 0
+  )
+
+  return (
+    <GlassmorphismCard className="p-6">
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white mb-2 flex items-center">
+            <FileJson size={20} className="mr-2" />
+            JSON Resume
+          </h2>
+          <p className="text-slate-400">
+            Import your profile, experience, education and skills from a JSON Resume document, or export them as one
+          </p>
+        </div>
+        <Button
+          onClick={() => window.open('/api/profile/export?format=jsonresume', '_blank')}
+          variant="outline"
+          size="sm"
+          className="flex items-center flex-shrink-0"
+        >
+          <Download size={16} className="mr-2" />
+          Export
+        </Button>
+      </div>
+
+      {message && (
+        <div className={`
+          mb-6 p-4 rounded-lg border flex items-center
+          ${message.type === 'success'
+            ? 'bg-green-500/10 border-green-500/30 text-green-400'
+            : 'bg-red-500/10 border-red-500/30 text-red-400'
+          }
+        `}>
+          {message.type === 'success' ? (
+            <CheckCircle size={20} className="mr-3 flex-shrink-0" />
+          ) : (
+            <AlertCircle size={20} className="mr-3 flex-shrink-0" />
+          )}
+          {message.text}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            resume.json
+          </label>
+          <textarea
+            value={source}
+            onChange={(e) => {
+              setSource(e.target.value)
+              setPreview(null)
+            }}
+            rows={12}
+            placeholder='{ "basics": { "name": "..." }, "work": [], "education": [], "skills": [] }'
+            className="w-full px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-lg text-white font-mono text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-500/50"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="inline-flex items-center px-3 py-1.5 text-sm rounded-lg border border-slate-600/50 text-slate-300 hover:bg-slate-700/50 cursor-pointer transition-colors">
+            <Upload size={16} className="mr-2" />
+            Choose file
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+          <Button
+            onClick={() => submit(true)}
+            disabled={!source.trim() || loading}
+            variant="outline"
+            size="sm"
+            className="flex items-center"
+          >
+            <Eye size={16} className="mr-2" />
+            Preview changes
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="p-6 bg-slate-800/30 rounded-lg border border-slate-600/30 space-y-6">
+            <h3 className="text-lg font-medium text-white">Preview</h3>
+
+            {preview.warnings.length > 0 && (
+              <div className="p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-yellow-300 text-sm space-y-1">
+                {preview.warnings.map((warning) => (
+                  <p key={warning} className="flex items-start">
+                    <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {!hasChanges && (
+              <p className="text-slate-400">This document matches your current profile.</p>
+            )}
+
+            {preview.fields.length > 0 && (
+              <div>
+                <h4 className="text-purple-300 font-medium mb-3">Profile</h4>
+                <div className="space-y-2">
+                  {preview.fields.map((change) => (
+                    <div key={change.field} className="text-sm grid grid-cols-1 md:grid-cols-[10rem_1fr_auto_1fr] gap-2 items-start">
+                      <span className="text-slate-300 font-medium">{fieldLabel(change.field)}</span>
+                      <span className="text-slate-500 line-through break-words line-clamp-2">{change.current || '—'}</span>
+                      <ArrowRight size={14} className="text-slate-500 mt-1 hidden md:block" />
+                      <span className="text-white break-words line-clamp-2">{change.imported || '—'}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {preview.experience && (
+              <div>
+                <h4 className="text-purple-300 font-medium mb-3">
+                  Experience: {preview.experience.current} → {preview.experience.imported.length} entries
+                </h4>
+                <ul className="text-sm text-slate-400 space-y-1">
+                  {preview.experience.imported.map((entry, index) => (
+                    <li key={index}>
+                      • {entry.position} at {entry.company} ({entry.startDate} – {entry.endDate || 'Present'})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {preview.education && (
+              <div>
+                <h4 className="text-purple-300 font-medium mb-3">
+                  Education: {preview.education.current} → {preview.education.imported.length} entries
+                </h4>
+                <ul className="text-sm text-slate-400 space-y-1">
+                  {preview.education.imported.map((entry, index) => (
+                    <li key={index}>
+                      • {entry.degree} in {entry.field}, {entry.institution}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {(preview.skills.added.length > 0 || preview.skills.updated.length > 0) && (
+              <div>
+                <h4 className="text-purple-300 font-medium mb-3">Skills</h4>
+                {preview.skills.added.length > 0 && (
+                  <p className="text-sm text-slate-400">
+                    <span className="text-green-400">Added:</span> {preview.skills.added.join(', ')}
+                  </p>
+                )}
+                {preview.skills.updated.length > 0 && (
+                  <p className="text-sm text-slate-400">
+                    <span className="text-blue-400">Updated:</span> {preview.skills.updated.join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {hasChanges && (
+              <div className="flex items-center justify-between pt-4 border-t border-slate-600/30">
+                <p className="text-sm text-slate-400">
+                  Experience and education in the document replace your current entries.
+                </p>
+                <Button
+                  onClick={() => submit(false)}
+                  disabled={loading}
+                  size="sm"
+                  className="flex items-center"
+                >
+                  <Upload size={16} className="mr-2" />
+                  Apply import
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </GlassmorphismCard>
+  )
+}
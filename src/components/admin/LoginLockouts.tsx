@@ -0,0 +1,149 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { LoginThrottle } from '@prisma/client'
+import Button from '@/components/ui/Button'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { formatDateTime } from '@/lib/utils'
+import { ApiResponse } from '@/types'
+
+type LockoutRow = LoginThrottle & { locked: boolean }
+
+const SCOPE_LABELS: Record<LoginThrottle['scope'], string> = {
+  ACCOUNT: 'Account',
+  IP: 'IP address',
+}
+
+export function LoginLockouts() {
+  const [throttles, setThrottles] = useState<LockoutRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [clearingId, setClearingId] = useState<string | null>(null)
+
+  const fetchLockouts = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/lockouts')
+      const result: ApiResponse<LockoutRow[]> = await response.json()
+
+      if (result.success && result.data) {
+        setThrottles(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load lockouts')
+      }
+    } catch (err) {
+      console.error('Error fetching lockouts:', err)
+      setError('Failed to load lockouts')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchLockouts()
+  }, [fetchLockouts])
+
+  const handleClear = async (throttle: LockoutRow) => {
+    try {
+      setClearingId(throttle.id)
+      const response = await fetch(`/api/admin/lockouts/${throttle.id}`, {
+        method: 'DELETE'
+      })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setThrottles(prev => prev.filter(existing => existing.id !== throttle.id))
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to clear lockout')
+      }
+    } catch (err) {
+      console.error('Error clearing lockout:', err)
+      setError('Failed to clear lockout')
+    } finally {
+      setClearingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Failed sign-ins</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Accounts and IP addresses with recent failed attempts. Repeated failures are slowed down and then locked out for a while.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchLockouts}>
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {loading && throttles.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : throttles.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+          No recent failed sign-ins.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Account / IP</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Failed Attempts</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Last Failure</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {throttles.map(throttle => (
+                <tr key={throttle.id}>
+                  <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                    {throttle.key}
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{SCOPE_LABELS[throttle.scope]}</span>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                    {throttle.failedCount}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                    {throttle.lastFailedAt ? formatDateTime(throttle.lastFailedAt) : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {throttle.locked && throttle.lockedUntil ? (
+                      <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400">
+                        Locked until {formatDateTime(throttle.lockedUntil)}
+                      </span>
+                    ) : (
+                      <span className="text-gray-600 dark:text-gray-400">Not locked</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleClear(throttle)}
+                      loading={clearingId === throttle.id}
+                    >
+                      {throttle.locked ? 'Unlock' : 'Clear'}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { Profile } from '@/types'
+import { profileUpdateSchema, schemaFieldErrors } from '@/lib/profile-schema'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
 import Button from '@/components/ui/Button'
 import { ProfileImageUpload } from './ProfileImageUpload'
@@ -9,7 +10,7 @@ import { User, Mail, Phone, MapPin, Briefcase, FileText } from 'lucide-react'
 
 interface ProfileFormProps {
   profile: Profile | null
-  onUpdate: (updates: Partial<Profile>) => Promise<{ success: boolean; error?: string }>
+  onUpdate: (updates: Partial<Profile>) => Promise<{ success: boolean; error?: string; fieldErrors?: Record<string, string> }>
   saving: boolean
 }
 
@@ -40,29 +41,13 @@ export function ProfileForm({ profile, onUpdate, saving }: ProfileFormProps) {
     }
   }, [profile])
 
+  // Same schema the API validates with, so errors show before the round trip
   const validateForm = () => {
-    const newErrors: Record<string, string> = {}
-
-    if (!formData.name.trim()) {
-      newErrors.name = 'Name is required'
-    }
-
-    if (!formData.title.trim()) {
-      newErrors.title = 'Title is required'
-    }
-
-    if (!formData.bio.trim()) {
-      newErrors.bio = 'Bio is required'
-    }
-
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email is required'
-    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address'
-    }
+    const result = profileUpdateSchema.safeParse(formData)
+    const newErrors = result.success ? {} : schemaFieldErrors(result.error)
 
     setErrors(newErrors)
-    return Object.keys(newErrors).length === 0
+    return result.success
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -77,6 +62,7 @@ export function ProfileForm({ profile, onUpdate, saving }: ProfileFormProps) {
     if (result.success) {
       setMessage({ type: 'success', text: 'Profile updated successfully!' })
     } else {
+      setErrors(result.fieldErrors || {})
       setMessage({ type: 'error', text: result.error || 'Failed to update profile' })
     }
 
@@ -207,11 +193,17 @@ export function ProfileForm({ profile, onUpdate, saving }: ProfileFormProps) {
               type="tel"
               value={formData.phone}
               onChange={(e) => handleInputChange('phone', e.target.value)}
-              className="w-full px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-lg
-                         text-white placeholder-slate-400
-                         focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+              className={`
+                w-full px-4 py-3 bg-slate-800/50 border rounded-lg
+                text-white placeholder-slate-400
+                focus:outline-none focus:ring-2 focus:ring-purple-500/50
+                ${errors.phone ? 'border-red-500/50' : 'border-slate-600/50'}
+              `}
               placeholder="+1 (555) 123-4567"
             />
+            {errors.phone && (
+              <p className="mt-1 text-sm text-red-400">{errors.phone}</p>
+            )}
           </div>
 
           {/* Location */}
@@ -224,11 +216,17 @@ export function ProfileForm({ profile, onUpdate, saving }: ProfileFormProps) {
               type="text"
               value={formData.location}
               onChange={(e) => handleInputChange('location', e.target.value)}
-              className="w-full px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-lg
-                         text-white placeholder-slate-400
-                         focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+              className={`
+                w-full px-4 py-3 bg-slate-800/50 border rounded-lg
+                text-white placeholder-slate-400
+                focus:outline-none focus:ring-2 focus:ring-purple-500/50
+                ${errors.location ? 'border-red-500/50' : 'border-slate-600/50'}
+              `}
               placeholder="City, State, Country"
             />
+            {errors.location && (
+              <p className="mt-1 text-sm text-red-400">{errors.location}</p>
+            )}
           </div>
         </div>
 
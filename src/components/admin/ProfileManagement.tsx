@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Profile, SocialLinks, Experience, Education } from '@/types'
+import { Profile, SocialLinks } from '@/types'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
 import Button from '@/components/ui/Button'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
@@ -11,7 +11,9 @@ import { ExperienceManager } from './ExperienceManager'
 import { EducationManager } from './EducationManager'
 import { SocialLinksManager } from './SocialLinksManager'
 import { ResumeManager } from './ResumeManager'
-import { User, Briefcase, GraduationCap, Link, FileText, Award } from 'lucide-react'
+import { JsonResumeManager } from './JsonResumeManager'
+import { ResumeTemplate } from '@/lib/profile-schema'
+import { User, Briefcase, GraduationCap, Link, FileText, Award, FileJson } from 'lucide-react'
 
 interface ProfileManagementProps {}
 
@@ -28,6 +30,7 @@ export function ProfileManagement({}: ProfileManagementProps) {
     { id: 'education', label: 'Education', icon: GraduationCap },
     { id: 'social', label: 'Social Links', icon: Link },
     { id: 'resume', label: 'Resume', icon: FileText },
+    { id: 'import', label: 'Import / Export', icon: FileJson },
   ]
 
   useEffect(() => {
@@ -59,7 +62,14 @@ export function ProfileManagement({}: ProfileManagementProps) {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(updates),
+        // The basic fields are required on every save, so send them along with tab updates
+        body: JSON.stringify({
+          name: profile?.name,
+          title: profile?.title,
+          bio: profile?.bio,
+          email: profile?.email,
+          ...updates,
+        }),
       })
 
       const data = await response.json()
@@ -68,7 +78,7 @@ export function ProfileManagement({}: ProfileManagementProps) {
         setProfile(data.data)
         return { success: true }
       } else {
-        return { success: false, error: data.error }
+        return { success: false, error: data.error, fieldErrors: data.data }
       }
     } catch (error) {
       console.error('Error updating profile:', error)
@@ -126,27 +136,15 @@ export function ProfileManagement({}: ProfileManagementProps) {
         )}
         
         {activeTab === 'skills' && (
-          <SkillsManager
-            skills={profile?.skills || []}
-            onUpdate={(skills) => updateProfile({ skills })}
-            saving={saving}
-          />
+          <SkillsManager />
         )}
         
         {activeTab === 'experience' && (
-          <ExperienceManager
-            experience={(profile?.experience as unknown as Experience[]) || []}
-            onUpdate={(experience) => updateProfile({ experience: experience as any })}
-            saving={saving}
-          />
+          <ExperienceManager />
         )}
         
         {activeTab === 'education' && (
-          <EducationManager
-            education={(profile?.education as unknown as Education[]) || []}
-            onUpdate={(education) => updateProfile({ education: education as any })}
-            saving={saving}
-          />
+          <EducationManager />
         )}
         
         {activeTab === 'social' && (
@@ -160,10 +158,16 @@ export function ProfileManagement({}: ProfileManagementProps) {
         {activeTab === 'resume' && (
           <ResumeManager
             resumeUrl={profile?.resumeUrl || undefined}
-            onUpdate={(resumeUrl) => updateProfile({ resumeUrl })}
+            resumeTemplate={(profile?.resumeTemplate as ResumeTemplate) || 'modern'}
+            useUploadedResume={profile?.useUploadedResume ?? false}
+            onUpdate={updateProfile}
             saving={saving}
           />
         )}
+
+        {activeTab === 'import' && (
+          <JsonResumeManager onImported={fetchProfile} />
+        )}
       </div>
     </div>
   )
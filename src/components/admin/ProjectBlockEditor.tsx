@@ -0,0 +1,295 @@
+'use client'
+
+import { useState } from 'react'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import { ImageUpload } from './ImageUpload'
+import { RichTextEditor } from './RichTextEditor'
+import { PROJECT_BLOCK_TYPES, createProjectBlock } from '@/lib/project-blocks'
+import { ProjectBlock, ProjectBlockType, ProjectMetric } from '@/types'
+
+interface ProjectBlockEditorProps {
+  blocks: ProjectBlock[]
+  onChange: (blocks: ProjectBlock[]) => void
+}
+
+const BLOCK_LABELS = Object.fromEntries(
+  PROJECT_BLOCK_TYPES.map(({ type, label }) => [type, label])
+) as Record<ProjectBlockType, string>
+
+const textareaClasses = 'w-full px-4 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500'
+
+export function ProjectBlockEditor({ blocks, onChange }: ProjectBlockEditorProps) {
+  const [newBlockType, setNewBlockType] = useState<ProjectBlockType>('text')
+
+  const updateBlock = (index: number, block: ProjectBlock) => {
+    onChange(blocks.map((current, i) => (i === index ? block : current)))
+  }
+
+  const moveBlock = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= blocks.length) return
+
+    const newBlocks = [...blocks]
+    const [moved] = newBlocks.splice(index, 1)
+    newBlocks.splice(target, 0, moved)
+    onChange(newBlocks)
+  }
+
+  const removeBlock = (index: number) => {
+    onChange(blocks.filter((_, i) => i !== index))
+  }
+
+  const addBlock = () => {
+    onChange([...blocks, createProjectBlock(newBlockType)])
+  }
+
+  const renderFields = (block: ProjectBlock, index: number) => {
+    switch (block.type) {
+      case 'text':
+        return (
+          <RichTextEditor
+            value={block.markdown}
+            onChange={(markdown) => updateBlock(index, { ...block, markdown })}
+            placeholder="Write about the project..."
+          />
+        )
+
+      case 'problem':
+      case 'solution':
+        return (
+          <div className="space-y-3">
+            <Input
+              value={block.heading || ''}
+              onChange={(e) => updateBlock(index, { ...block, heading: e.target.value })}
+              placeholder={block.type === 'problem' ? 'The Problem' : 'The Solution'}
+            />
+            <RichTextEditor
+              value={block.markdown}
+              onChange={(markdown) => updateBlock(index, { ...block, markdown })}
+              placeholder={block.type === 'problem' ? 'What needed solving?' : 'How was it solved?'}
+            />
+          </div>
+        )
+
+      case 'architecture':
+        return (
+          <div className="space-y-3">
+            <ImageUpload
+              images={block.imageUrl ? [block.imageUrl] : []}
+              onChange={(images) => updateBlock(index, { ...block, imageUrl: images[0] || '' })}
+              maxImages={1}
+            />
+            <Input
+              value={block.alt || ''}
+              onChange={(e) => updateBlock(index, { ...block, alt: e.target.value })}
+              placeholder="Alt text"
+            />
+            <Input
+              value={block.caption || ''}
+              onChange={(e) => updateBlock(index, { ...block, caption: e.target.value })}
+              placeholder="Caption (optional)"
+            />
+          </div>
+        )
+
+      case 'metrics': {
+        const updateMetric = (metricIndex: number, metric: ProjectMetric) => {
+          updateBlock(index, {
+            ...block,
+            items: block.items.map((item, i) => (i === metricIndex ? metric : item))
+          })
+        }
+
+        return (
+          <div className="space-y-3">
+            {block.items.map((item, metricIndex) => (
+              <div key={metricIndex} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr_auto] gap-2">
+                <Input
+                  value={item.value}
+                  onChange={(e) => updateMetric(metricIndex, { ...item, value: e.target.value })}
+                  placeholder="Value (e.g. 40%)"
+                />
+                <Input
+                  value={item.label}
+                  onChange={(e) => updateMetric(metricIndex, { ...item, label: e.target.value })}
+                  placeholder="Label (e.g. Faster load)"
+                />
+                <Input
+                  value={item.description || ''}
+                  onChange={(e) => updateMetric(metricIndex, { ...item, description: e.target.value })}
+                  placeholder="Details (optional)"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateBlock(index, {
+                    ...block,
+                    items: block.items.filter((_, i) => i !== metricIndex)
+                  })}
+                  disabled={block.items.length === 1}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => updateBlock(index, {
+                ...block,
+                items: [...block.items, { label: '', value: '' }]
+              })}
+            >
+              Add Metric
+            </Button>
+          </div>
+        )
+      }
+
+      case 'quote':
+        return (
+          <div className="space-y-3">
+            <textarea
+              value={block.text}
+              onChange={(e) => updateBlock(index, { ...block, text: e.target.value })}
+              placeholder="Quote"
+              rows={3}
+              className={textareaClasses}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <Input
+                value={block.author || ''}
+                onChange={(e) => updateBlock(index, { ...block, author: e.target.value })}
+                placeholder="Author"
+              />
+              <Input
+                value={block.role || ''}
+                onChange={(e) => updateBlock(index, { ...block, role: e.target.value })}
+                placeholder="Role or company"
+              />
+            </div>
+          </div>
+        )
+
+      case 'code':
+        return (
+          <div className="space-y-3">
+            <Input
+              value={block.language}
+              onChange={(e) => updateBlock(index, { ...block, language: e.target.value })}
+              placeholder="Language (e.g. typescript)"
+            />
+            <textarea
+              value={block.code}
+              onChange={(e) => updateBlock(index, { ...block, code: e.target.value })}
+              placeholder="Paste code here..."
+              rows={8}
+              spellCheck={false}
+              className={`${textareaClasses} font-mono`}
+            />
+            <Input
+              value={block.caption || ''}
+              onChange={(e) => updateBlock(index, { ...block, caption: e.target.value })}
+              placeholder="Caption (optional)"
+            />
+          </div>
+        )
+
+      case 'gallery':
+        return (
+          <div className="space-y-3">
+            <ImageUpload
+              images={block.images}
+              onChange={(images) => updateBlock(index, { ...block, images })}
+              maxImages={20}
+            />
+            <Input
+              value={block.caption || ''}
+              onChange={(e) => updateBlock(index, { ...block, caption: e.target.value })}
+              placeholder="Caption (optional)"
+            />
+          </div>
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {blocks.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No content yet. Add a block to start the case study.
+        </p>
+      )}
+
+      {blocks.map((block, index) => (
+        <div
+          key={block.id}
+          className="rounded-lg border border-gray-200 dark:border-gray-700"
+        >
+          <div className="flex items-center justify-between px-4 py-2 bg-gray-50 dark:bg-gray-900 rounded-t-lg">
+            <span className="text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              {BLOCK_LABELS[block.type]}
+            </span>
+            <div className="flex items-center space-x-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveBlock(index, -1)}
+                disabled={index === 0}
+              >
+                ↑
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => moveBlock(index, 1)}
+                disabled={index === blocks.length - 1}
+              >
+                ↓
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeBlock(index)}
+                className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+              >
+                Remove
+              </Button>
+            </div>
+          </div>
+          <div className="p-4">
+            {renderFields(block, index)}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex space-x-2">
+        <select
+          value={newBlockType}
+          onChange={(e) => setNewBlockType(e.target.value as ProjectBlockType)}
+          className="px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        >
+          {PROJECT_BLOCK_TYPES.map(({ type, label }) => (
+            <option key={type} value={type}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <Button
+          type="button"
+          variant="outline"
+          size="md"
+          onClick={addBlock}
+        >
+          Add Block
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,66 +1,126 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Project } from '@prisma/client'
+import { Project, ProjectStatus } from '@prisma/client'
 import Button from '@/components/ui/Button'
 import Input from '@/components/ui/Input'
 import Form from '@/components/ui/Form'
 import { ImageUpload } from './ImageUpload'
-import { RichTextEditor } from './RichTextEditor'
+import { ProjectBlockEditor } from './ProjectBlockEditor'
+import { toProjectSlug } from '@/lib/utils'
+import { getProjectBlocks, parseProjectBlocks } from '@/lib/project-blocks'
+import type { SlugConflict } from '@/lib/project-slugs'
+import { ApiResponse, ProjectBlock } from '@/types'
 
 interface ProjectFormProps {
   project?: Project
   onSave: () => void
   onCancel: () => void
+  onShowHistory?: () => void
 }
 
 interface FormData {
   title: string
+  slug: string
   shortDescription: string
-  description: string
+  contentBlocks: ProjectBlock[]
   technologies: string[]
   images: string[]
   liveUrl: string
   githubUrl: string
   featured: boolean
-  status: 'DRAFT' | 'PUBLISHED'
+  status: ProjectStatus
   order: number
+  publishAt: string
+  unpublishAt: string
 }
 
-export function ProjectForm({ project, onSave, onCancel }: ProjectFormProps) {
+// datetime-local inputs expect local time without a timezone suffix
+const toDateTimeLocal = (date: Date | string | null) => {
+  if (!date) return ''
+  const value = new Date(date)
+  const offset = value.getTimezoneOffset() * 60000
+  return new Date(value.getTime() - offset).toISOString().slice(0, 16)
+}
+
+export function ProjectForm({ project, onSave, onCancel, onShowHistory }: ProjectFormProps) {
   const [formData, setFormData] = useState<FormData>({
     title: '',
+    slug: '',
     shortDescription: '',
-    description: '',
+    contentBlocks: [],
     technologies: [],
     images: [],
     liveUrl: '',
     githubUrl: '',
     featured: false,
     status: 'DRAFT',
-    order: 0
+    order: 0,
+    publishAt: '',
+    unpublishAt: ''
   })
   const [techInput, setTechInput] = useState('')
   const [loading, setSaving] = useState(false)
   const [errors, setErrors] = useState<Record<string, string>>({})
+  const [slugTouched, setSlugTouched] = useState(false)
+  const [slugConflict, setSlugConflict] = useState<SlugConflict | null>(null)
 
   useEffect(() => {
     if (project) {
       setFormData({
         title: project.title,
+        slug: project.slug,
         shortDescription: project.shortDescription,
-        description: project.description,
+        contentBlocks: getProjectBlocks(project),
         technologies: project.technologies,
         images: project.images,
         liveUrl: project.liveUrl || '',
         githubUrl: project.githubUrl || '',
         featured: project.featured,
         status: project.status,
-        order: project.order
+        order: project.order,
+        publishAt: toDateTimeLocal(project.publishAt),
+        unpublishAt: toDateTimeLocal(project.unpublishAt)
       })
     }
   }, [project])
 
+  // Check the slug against other projects and historical slugs while typing
+  useEffect(() => {
+    const slug = toProjectSlug(formData.slug)
+    if (!slug || slug === project?.slug) {
+      setSlugConflict(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ slug })
+        if (project) params.set('projectId', project.id)
+
+        const response = await fetch(`/api/admin/projects/slug-check?${params}`)
+        const result: ApiResponse<{ conflict: SlugConflict | null }> = await response.json()
+
+        if (result.success && result.data) {
+          setSlugConflict(result.data.conflict)
+        }
+      } catch (error) {
+        console.error('Error checking slug:', error)
+      }
+    }, 400)
+
+    return () => clearTimeout(timeout)
+  }, [formData.slug, project])
+
+  const handleTitleChange = (title: string) => {
+    setFormData(prev => ({
+      ...prev,
+      title,
+      // New projects follow the title until the slug is edited by hand
+      slug: !project && !slugTouched ? toProjectSlug(title) : prev.slug
+    }))
+  }
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {}
 
@@ -68,12 +128,23 @@ export function ProjectForm({ project, onSave, onCancel }: ProjectFormProps) {
       newErrors.title = 'Title is required'
     }
 
+    if (!toProjectSlug(formData.slug)) {
+      newErrors.slug = 'Slug is required'
+    } else if (slugConflict) {
+      newErrors.slug = slugConflict.type === 'history'
+        ? `This slug still redirects to "${slugConflict.projectTitle}"`
+        : `This slug is already used by "${slugConflict.projectTitle}"`
+    }
+
     if (!formData.shortDescription.trim()) {
       newErrors.shortDescription = 'Short description is required'
     }
 
-    if (!formData.description.trim()) {
-      newErrors.description = 'Description is required'
+    const blocks = parseProjectBlocks(formData.contentBlocks)
+    if (formData.contentBlocks.length === 0) {
+      newErrors.contentBlocks = 'Add at least one content block'
+    } else if (blocks.error) {
+      newErrors.contentBlocks = blocks.error
     }
 
     if (formData.liveUrl && !isValidUrl(formData.liveUrl)) {
@@ -84,6 +155,18 @@ export function ProjectForm({ project, onSave, onCancel }: ProjectFormProps) {
       newErrors.githubUrl = 'Please enter a valid URL'
     }
 
+    if (formData.status === 'SCHEDULED' && !formData.publishAt) {
+      newErrors.publishAt = 'Scheduled projects need a publish date'
+    }
+
+    if (
+      formData.publishAt &&
+      formData.unpublishAt &&
+      new Date(formData.unpublishAt) <= new Date(formData.publishAt)
+    ) {
+      newErrors.unpublishAt = 'Unpublish date must be after the publish date'
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -118,7 +201,12 @@ export function ProjectForm({ project, onSave, onCancel }: ProjectFormProps) {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          slug: toProjectSlug(formData.slug),
+          publishAt: formData.publishAt ? new Date(formData.publishAt).toISOString() : null,
+          unpublishAt: formData.unpublishAt ? new Date(formData.unpublishAt).toISOString() : null
+        }),
       })
 
       if (response.ok) {
@@ -167,7 +255,7 @@ export function ProjectForm({ project, onSave, onCancel }: ProjectFormProps) {
             <Input
               label="Project Title"
               value={formData.title}
-              onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+              onChange={(e) => handleTitleChange(e.target.value)}
               error={!!errors.title}
               helperText={errors.title}
               placeholder="Enter project title"
@@ -175,6 +263,31 @@ export function ProjectForm({ project, onSave, onCancel }: ProjectFormProps) {
             />
           </Form.Field>
 
+          <Form.Field>
+            <Input
+              label="URL Slug"
+              value={formData.slug}
+              onChange={(e) => {
+                setSlugTouched(true)
+                setFormData(prev => ({ ...prev, slug: e.target.value }))
+              }}
+              onBlur={() => setFormData(prev => ({ ...prev, slug: toProjectSlug(prev.slug) }))}
+              error={!!errors.slug || !!slugConflict}
+              helperText={
+                errors.slug ||
+                (slugConflict
+                  ? slugConflict.type === 'history'
+                    ? `Warning: /projects/${toProjectSlug(formData.slug)} still redirects to "${slugConflict.projectTitle}"`
+                    : `Warning: this slug is already used by "${slugConflict.projectTitle}"`
+                  : project && toProjectSlug(formData.slug) !== project.slug
+                    ? `/projects/${project.slug} will permanently redirect to the new URL`
+                    : `/projects/${toProjectSlug(formData.slug) || '...'}`)
+              }
+              placeholder="my-project"
+              required
+            />
+          </Form.Field>
+
           <Form.Field>
             <Input
               label="Short Description"
@@ -189,16 +302,15 @@ export function ProjectForm({ project, onSave, onCancel }: ProjectFormProps) {
 
           <Form.Field>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Full Description
+              Case Study
             </label>
-            <RichTextEditor
-              value={formData.description}
-              onChange={(value) => setFormData(prev => ({ ...prev, description: value }))}
-              placeholder="Detailed project description..."
+            <ProjectBlockEditor
+              blocks={formData.contentBlocks}
+              onChange={(contentBlocks) => setFormData(prev => ({ ...prev, contentBlocks }))}
             />
-            {errors.description && (
+            {errors.contentBlocks && (
               <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                {errors.description}
+                {errors.contentBlocks}
               </p>
             )}
           </Form.Field>
@@ -296,10 +408,11 @@ export function ProjectForm({ project, onSave, onCancel }: ProjectFormProps) {
             </label>
             <select
               value={formData.status}
-              onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as 'DRAFT' | 'PUBLISHED' }))}
+              onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as ProjectStatus }))}
               className="w-full px-4 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
             >
               <option value="DRAFT">Draft</option>
+              <option value="SCHEDULED">Scheduled</option>
               <option value="PUBLISHED">Published</option>
             </select>
           </Form.Field>
@@ -330,6 +443,33 @@ export function ProjectForm({ project, onSave, onCancel }: ProjectFormProps) {
           </Form.Field>
         </div>
 
+        {/* Schedule */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Form.Field>
+            <Input
+              label="Publish At"
+              type="datetime-local"
+              value={formData.publishAt}
+              onChange={(e) => setFormData(prev => ({ ...prev, publishAt: e.target.value }))}
+              error={!!errors.publishAt}
+              helperText={errors.publishAt || 'Used when the status is Scheduled'}
+              disabled={formData.status !== 'SCHEDULED'}
+            />
+          </Form.Field>
+
+          <Form.Field>
+            <Input
+              label="Unpublish At"
+              type="datetime-local"
+              value={formData.unpublishAt}
+              onChange={(e) => setFormData(prev => ({ ...prev, unpublishAt: e.target.value }))}
+              error={!!errors.unpublishAt}
+              helperText={errors.unpublishAt || 'Optional: return the project to draft at this time'}
+              disabled={formData.status === 'DRAFT'}
+            />
+          </Form.Field>
+        </div>
+
         {/* Error Message */}
         {errors.submit && (
           <Form.Error message={errors.submit} />
@@ -337,6 +477,17 @@ export function ProjectForm({ project, onSave, onCancel }: ProjectFormProps) {
 
         {/* Actions */}
         <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200 dark:border-gray-700">
+          {project && onShowHistory && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={onShowHistory}
+              disabled={loading}
+              className="mr-auto"
+            >
+              Revision History
+            </Button>
+          )}
           <Button
             type="button"
             variant="ghost"
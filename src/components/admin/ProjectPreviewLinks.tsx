@@ -0,0 +1,249 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Project, ProjectPreviewToken, ProjectPreviewView } from '@prisma/client'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { ApiResponse } from '@/types'
+
+interface ProjectPreviewLinksProps {
+  project: Project
+}
+
+interface PreviewLink extends ProjectPreviewToken {
+  url: string
+  views?: ProjectPreviewView[]
+  _count?: { views: number }
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '24 hours', hours: 24 },
+  { label: '3 days', hours: 72 },
+  { label: '7 days', hours: 168 },
+  { label: '30 days', hours: 720 },
+]
+
+export function ProjectPreviewLinks({ project }: ProjectPreviewLinksProps) {
+  const [links, setLinks] = useState<PreviewLink[]>([])
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [label, setLabel] = useState('')
+  const [ttlHours, setTtlHours] = useState(72)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/projects/${project.id}/previews`)
+      const result: ApiResponse<PreviewLink[]> = await response.json()
+
+      if (result.success && result.data) {
+        setLinks(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load preview links')
+      }
+    } catch (err) {
+      console.error('Error fetching preview links:', err)
+      setError('Failed to load preview links')
+    } finally {
+      setLoading(false)
+    }
+  }, [project.id])
+
+  useEffect(() => {
+    fetchLinks()
+  }, [fetchLinks])
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true)
+      const response = await fetch(`/api/admin/projects/${project.id}/previews`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ttlHours, label: label.trim() || undefined })
+      })
+      const result: ApiResponse<PreviewLink> = await response.json()
+
+      if (result.success) {
+        setLabel('')
+        await fetchLinks()
+      } else {
+        setError(result.error || 'Failed to create preview link')
+      }
+    } catch (err) {
+      console.error('Error creating preview link:', err)
+      setError('Failed to create preview link')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (link: PreviewLink) => {
+    try {
+      const response = await fetch(`/api/admin/projects/${project.id}/previews/${link.id}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        await fetchLinks()
+      } else {
+        const result: ApiResponse = await response.json()
+        setError(result.error || 'Failed to revoke preview link')
+      }
+    } catch (err) {
+      console.error('Error revoking preview link:', err)
+      setError('Failed to revoke preview link')
+    }
+  }
+
+  const handleCopy = async (link: PreviewLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url)
+      setCopiedId(link.id)
+      setTimeout(() => setCopiedId(null), 2000)
+    } catch (err) {
+      console.error('Failed to copy link:', err)
+    }
+  }
+
+  const formatDateTime = (date: Date | string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(new Date(date))
+  }
+
+  const getLinkState = (link: PreviewLink) => {
+    if (link.revokedAt) return { label: 'Revoked', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' }
+    if (new Date(link.expiresAt) <= new Date()) return { label: 'Expired', className: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200' }
+    return { label: 'Active', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' }
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Create Link */}
+      <div className="flex flex-col md:flex-row md:items-end gap-3">
+        <div className="flex-1">
+          <Input
+            label="Label"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="e.g. Client review"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Expires after
+          </label>
+          <select
+            value={ttlHours}
+            onChange={(e) => setTtlHours(parseInt(e.target.value))}
+            className="px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.hours} value={option.hours}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button
+          variant="primary"
+          onClick={handleCreate}
+          loading={creating}
+        >
+          Create Link
+        </Button>
+      </div>
+
+      {/* Existing Links */}
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : links.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-6">
+          No preview links yet.
+        </p>
+      ) : (
+        <div className="rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+          {links.map(link => {
+            const state = getLinkState(link)
+            const isActive = state.label === 'Active'
+
+            return (
+              <div key={link.id} className="px-4 py-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">
+                        {link.label || 'Untitled link'}
+                      </span>
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${state.className}`}>
+                        {state.label}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Expires {formatDateTime(link.expiresAt)} · {link._count?.views ?? 0} view{link._count?.views === 1 ? '' : 's'}
+                      {link.createdByName && ` · by ${link.createdByName}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {isActive && (
+                      <Button variant="ghost" size="sm" onClick={() => handleCopy(link)}>
+                        {copiedId === link.id ? 'Copied!' : 'Copy Link'}
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandedId(expandedId === link.id ? null : link.id)}
+                    >
+                      Views
+                    </Button>
+                    {isActive && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(link)}
+                        className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {expandedId === link.id && (
+                  <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-1 pl-2">
+                    {link.views && link.views.length > 0 ? (
+                      link.views.map(view => (
+                        <li key={view.id}>
+                          {formatDateTime(view.viewedAt)} · {view.ipAddress || 'Unknown IP'} · {view.userAgent?.slice(0, 60) || 'Unknown browser'}
+                        </li>
+                      ))
+                    ) : (
+                      <li>Not viewed yet.</li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,301 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Project, ProjectRevision } from '@prisma/client'
+import Button from '@/components/ui/Button'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import type { RevisionFieldDiff } from '@/lib/project-revisions'
+import { ApiResponse } from '@/types'
+
+interface ProjectRevisionsProps {
+  project: Project
+  onRestored: () => void
+}
+
+const FIELD_LABELS: Record<RevisionFieldDiff['field'], string> = {
+  title: 'Title',
+  description: 'Description',
+  shortDescription: 'Short Description',
+  contentBlocks: 'Content Blocks',
+  technologies: 'Technologies',
+  images: 'Images',
+  liveUrl: 'Live URL',
+  githubUrl: 'GitHub URL',
+  status: 'Status',
+}
+
+export function ProjectRevisions({ project, onRestored }: ProjectRevisionsProps) {
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [compareFrom, setCompareFrom] = useState<string | null>(null)
+  const [compareTo, setCompareTo] = useState<string>('current')
+  const [changes, setChanges] = useState<RevisionFieldDiff[] | null>(null)
+  const [diffLoading, setDiffLoading] = useState(false)
+  const [confirmRestore, setConfirmRestore] = useState<ProjectRevision | null>(null)
+  const [restoring, setRestoring] = useState(false)
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/projects/${project.id}/revisions`)
+      const result: ApiResponse<ProjectRevision[]> = await response.json()
+
+      if (result.success && result.data) {
+        setRevisions(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load revisions')
+      }
+    } catch (err) {
+      console.error('Error fetching revisions:', err)
+      setError('Failed to load revisions')
+    } finally {
+      setLoading(false)
+    }
+  }, [project.id])
+
+  useEffect(() => {
+    fetchRevisions()
+  }, [fetchRevisions])
+
+  useEffect(() => {
+    if (!compareFrom) {
+      setChanges(null)
+      return
+    }
+
+    const fetchDiff = async () => {
+      try {
+        setDiffLoading(true)
+        const params = new URLSearchParams({ from: compareFrom, to: compareTo })
+        const response = await fetch(`/api/admin/projects/${project.id}/revisions/diff?${params}`)
+        const result: ApiResponse<{ changes: RevisionFieldDiff[] }> = await response.json()
+
+        if (result.success && result.data) {
+          setChanges(result.data.changes)
+        } else {
+          setError(result.error || 'Failed to compare revisions')
+        }
+      } catch (err) {
+        console.error('Error comparing revisions:', err)
+        setError('Failed to compare revisions')
+      } finally {
+        setDiffLoading(false)
+      }
+    }
+
+    fetchDiff()
+  }, [compareFrom, compareTo, project.id])
+
+  const handleRestore = async () => {
+    if (!confirmRestore) return
+
+    try {
+      setRestoring(true)
+      const response = await fetch(
+        `/api/admin/projects/${project.id}/revisions/${confirmRestore.id}/restore`,
+        { method: 'POST' }
+      )
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setConfirmRestore(null)
+        setCompareFrom(null)
+        await fetchRevisions()
+        onRestored()
+      } else {
+        setError(result.error || 'Failed to restore revision')
+      }
+    } catch (err) {
+      console.error('Error restoring revision:', err)
+      setError('Failed to restore revision')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const formatDateTime = (date: Date | string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(new Date(date))
+  }
+
+  const formatValue = (value: RevisionFieldDiff['before']) => {
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+      return value.length > 0 ? value.join(', ') : '—'
+    }
+    if (value && typeof value === 'object') {
+      return JSON.stringify(value, null, 2)
+    }
+    return value ? String(value) : '—'
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Revision List */}
+      <div className="max-h-72 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+        {revisions.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            No revisions recorded yet.
+          </p>
+        ) : (
+          revisions.map((revision, index) => (
+            <div
+              key={revision.id}
+              className={`flex items-center justify-between px-4 py-3 ${
+                compareFrom === revision.id ? 'bg-primary-50 dark:bg-primary-900/20' : ''
+              }`}
+            >
+              <div>
+                <div className="text-sm font-medium text-gray-900 dark:text-white">
+                  {formatDateTime(revision.createdAt)}
+                  {index === 0 && (
+                    <span className="ml-2 inline-flex px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                      Latest
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {revision.authorName || 'Unknown author'} · {revision.status} · {revision.title}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCompareFrom(compareFrom === revision.id ? null : revision.id)}
+                >
+                  {compareFrom === revision.id ? 'Hide Diff' : 'Compare'}
+                </Button>
+                {index > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setConfirmRestore(revision)}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Diff */}
+      {compareFrom && (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-3">
+            <span className="text-sm text-gray-700 dark:text-gray-300">Compare with</span>
+            <select
+              value={compareTo}
+              onChange={(e) => setCompareTo(e.target.value)}
+              className="px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="current">Current version</option>
+              {revisions
+                .filter(revision => revision.id !== compareFrom)
+                .map(revision => (
+                  <option key={revision.id} value={revision.id}>
+                    {formatDateTime(revision.createdAt)}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          {diffLoading ? (
+            <div className="flex justify-center py-6">
+              <LoadingSpinner size="md" />
+            </div>
+          ) : changes && changes.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No differences.</p>
+          ) : (
+            changes?.map((change) => (
+              <div
+                key={change.field}
+                className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden"
+              >
+                <div className="px-4 py-2 text-xs font-medium uppercase tracking-wider bg-gray-50 dark:bg-gray-900 text-gray-500 dark:text-gray-400">
+                  {FIELD_LABELS[change.field]}
+                </div>
+                {change.added || change.removed ? (
+                  <div className="px-4 py-3 flex flex-wrap gap-2 text-xs">
+                    {change.removed?.map(value => (
+                      <span key={`removed-${value}`} className="px-2 py-1 rounded bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200 line-through">
+                        {value}
+                      </span>
+                    ))}
+                    {change.added?.map(value => (
+                      <span key={`added-${value}`} className="px-2 py-1 rounded bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200">
+                        {value}
+                      </span>
+                    ))}
+                    {change.added?.length === 0 && change.removed?.length === 0 && (
+                      <span className="text-gray-500 dark:text-gray-400">Order changed</span>
+                    )}
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-gray-200 dark:divide-gray-700 text-sm">
+                    <pre className="px-4 py-3 whitespace-pre-wrap break-words bg-red-50 dark:bg-red-900/10 text-gray-800 dark:text-gray-200">
+                      {formatValue(change.before)}
+                    </pre>
+                    <pre className="px-4 py-3 whitespace-pre-wrap break-words bg-green-50 dark:bg-green-900/10 text-gray-800 dark:text-gray-200">
+                      {formatValue(change.after)}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {/* Restore Confirmation */}
+      {confirmRestore && (
+        <div className="p-4 rounded-lg border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20 space-y-3">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Restore &quot;{project.title}&quot; to the version from {formatDateTime(confirmRestore.createdAt)}?
+            The current content will stay available in the history.
+          </p>
+          <div className="flex justify-end space-x-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setConfirmRestore(null)}
+              disabled={restoring}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={handleRestore}
+              loading={restoring}
+            >
+              Restore
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
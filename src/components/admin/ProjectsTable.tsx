@@ -2,7 +2,7 @@
 
 import { useState } from 'react'
 import { motion } from 'framer-motion'
-import { Project } from '@prisma/client'
+import { Project, ProjectStatus } from '@prisma/client'
 import Button from '@/components/ui/Button'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 
@@ -11,13 +11,15 @@ interface ProjectsTableProps {
   loading: boolean
   onEdit: (project: Project) => void
   onDelete: (project: Project) => void
+  onHistory: (project: Project) => void
+  onPreview: (project: Project) => void
   onRefresh: () => void
 }
 
-export function ProjectsTable({ projects, loading, onEdit, onDelete, onRefresh }: ProjectsTableProps) {
+export function ProjectsTable({ projects, loading, onEdit, onDelete, onHistory, onPreview, onRefresh }: ProjectsTableProps) {
   const [sortField, setSortField] = useState<keyof Project>('order')
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc')
-  const [statusFilter, setStatusFilter] = useState<'ALL' | 'PUBLISHED' | 'DRAFT'>('ALL')
+  const [statusFilter, setStatusFilter] = useState<'ALL' | ProjectStatus>('ALL')
 
   const handleSort = (field: keyof Project) => {
     if (sortField === field) {
@@ -59,6 +61,36 @@ export function ProjectsTable({ projects, loading, onEdit, onDelete, onRefresh }
     return 0
   })
 
+  // Upcoming publish and unpublish events, soonest first
+  const now = new Date()
+  const upcomingEvents = projects
+    .flatMap(project => {
+      const events: { project: Project; type: 'publish' | 'unpublish'; at: Date }[] = []
+      if (project.status === 'SCHEDULED' && project.publishAt && new Date(project.publishAt) > now) {
+        events.push({ project, type: 'publish', at: new Date(project.publishAt) })
+      }
+      if (project.status !== 'DRAFT' && project.unpublishAt && new Date(project.unpublishAt) > now) {
+        events.push({ project, type: 'unpublish', at: new Date(project.unpublishAt) })
+      }
+      return events
+    })
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+
+  const statusBadgeClasses: Record<ProjectStatus, string> = {
+    PUBLISHED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+    SCHEDULED: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+    DRAFT: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  }
+
+  const formatDateTime = (date: Date) => {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(new Date(date))
+  }
+
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
       year: 'numeric',
@@ -102,11 +134,12 @@ export function ProjectsTable({ projects, loading, onEdit, onDelete, onRefresh }
         <div className="flex items-center space-x-4">
           <select
             value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value as 'ALL' | 'PUBLISHED' | 'DRAFT')}
+            onChange={(e) => setStatusFilter(e.target.value as 'ALL' | ProjectStatus)}
             className="px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
           >
             <option value="ALL">All Status</option>
             <option value="PUBLISHED">Published</option>
+            <option value="SCHEDULED">Scheduled</option>
             <option value="DRAFT">Draft</option>
           </select>
           
@@ -127,6 +160,43 @@ export function ProjectsTable({ projects, loading, onEdit, onDelete, onRefresh }
         </Button>
       </div>
 
+      {/* Upcoming Publications */}
+      {upcomingEvents.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+            Upcoming Publications
+          </h3>
+          <ul className="space-y-2">
+            {upcomingEvents.map(({ project, type, at }) => (
+              <li
+                key={`${project.id}-${type}`}
+                className="flex items-center justify-between text-sm"
+              >
+                <div className="flex items-center space-x-2">
+                  <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                    type === 'publish'
+                      ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+                      : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+                  }`}>
+                    {type === 'publish' ? 'Publish' : 'Unpublish'}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => onEdit(project)}
+                    className="text-gray-900 dark:text-white hover:text-primary-600 dark:hover:text-primary-400"
+                  >
+                    {project.title}
+                  </button>
+                </div>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {formatDateTime(at)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Table */}
       <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
         <div className="overflow-x-auto">
@@ -206,13 +276,14 @@ export function ProjectsTable({ projects, loading, onEdit, onDelete, onRefresh }
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                      project.status === 'PUBLISHED'
-                        ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                        : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
-                    }`}>
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusBadgeClasses[project.status]}`}>
                       {project.status}
                     </span>
+                    {project.status === 'SCHEDULED' && project.publishAt && (
+                      <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {formatDateTime(project.publishAt)}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                     {project.featured ? (
@@ -250,6 +321,20 @@ export function ProjectsTable({ projects, loading, onEdit, onDelete, onRefresh }
                       >
                         Edit
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onHistory(project)}
+                      >
+                        History
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onPreview(project)}
+                      >
+                        Share
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
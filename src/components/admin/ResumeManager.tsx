@@ -5,6 +5,7 @@ import { UploadButton } from '@/lib/uploadthing'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
 import Button from '@/components/ui/Button'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { RESUME_TEMPLATES, ResumeTemplate } from '@/lib/profile-schema'
 import { 
   FileText, 
   Download, 
@@ -12,23 +13,67 @@ import {
   X, 
   Eye,
   AlertCircle,
-  CheckCircle 
+  CheckCircle,
+  RefreshCw
 } from 'lucide-react'
 
+interface ResumeSettings {
+  resumeUrl?: string
+  resumeTemplate?: ResumeTemplate
+  useUploadedResume?: boolean
+}
+
 interface ResumeManagerProps {
   resumeUrl?: string
-  onUpdate: (resumeUrl?: string) => Promise<{ success: boolean; error?: string }>
+  resumeTemplate: ResumeTemplate
+  useUploadedResume: boolean
+  onUpdate: (updates: ResumeSettings) => Promise<{ success: boolean; error?: string }>
   saving: boolean
 }
 
-export function ResumeManager({ resumeUrl, onUpdate, saving }: ResumeManagerProps) {
+export function ResumeManager({ resumeUrl, resumeTemplate, useUploadedResume, onUpdate, saving }: ResumeManagerProps) {
   const [uploading, setUploading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [template, setTemplate] = useState<ResumeTemplate>(resumeTemplate)
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text })
+
+    // Clear message after 3 seconds
+    setTimeout(() => setMessage(null), 3000)
+  }
+
+  // Saves the template choice, then opens a freshly generated PDF
+  const handleRegenerate = async () => {
+    if (template !== resumeTemplate) {
+      const result = await onUpdate({ resumeTemplate: template })
+
+      if (!result.success) {
+        showMessage('error', result.error || 'Failed to save template')
+        return
+      }
+    }
+
+    window.open(`/api/resume?template=${template}`, '_blank')
+    showMessage('success', 'Resume regenerated from your profile')
+  }
+
+  const handleToggleUploaded = async () => {
+    const result = await onUpdate({ useUploadedResume: !useUploadedResume })
+
+    if (result.success) {
+      showMessage('success', useUploadedResume
+        ? 'Visitors will now download the generated resume'
+        : 'Visitors will now download your uploaded PDF')
+    } else {
+      showMessage('error', result.error || 'Failed to update resume settings')
+    }
+  }
 
   const handleUploadComplete = async (res: any) => {
     if (res && res[0]) {
-      const result = await onUpdate(res[0].url)
+      const result = await onUpdate({ resumeUrl: res[0].url })
       
       if (result.success) {
         setMessage({ type: 'success', text: 'Resume uploaded successfully!' })
@@ -50,7 +95,7 @@ export function ResumeManager({ resumeUrl, onUpdate, saving }: ResumeManagerProp
   }
 
   const handleRemoveResume = async () => {
-    const result = await onUpdate('')
+    const result = await onUpdate({ resumeUrl: '', useUploadedResume: false })
     
     if (result.success) {
       setMessage({ type: 'success', text: 'Resume removed successfully!' })
@@ -82,7 +127,7 @@ export function ResumeManager({ resumeUrl, onUpdate, saving }: ResumeManagerProp
           Resume Management
         </h2>
         <p className="text-slate-400">
-          Upload and manage your resume PDF for visitors to download
+          Generate your resume from your profile, or upload your own PDF for visitors to download
         </p>
       </div>
 
@@ -110,10 +155,66 @@ export function ResumeManager({ resumeUrl, onUpdate, saving }: ResumeManagerProp
         </div>
       )}
 
+      {/* Generated Resume */}
+      <div className="mb-6">
+        <h3 className="text-lg font-medium text-white mb-4">Generated Resume</h3>
+        <div className="p-6 bg-slate-800/30 rounded-lg border border-slate-600/30 space-y-4">
+          <p className="text-slate-400 text-sm">
+            Built from your basic info, experience, education and skills each time it is downloaded,
+            so it always matches your profile.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {RESUME_TEMPLATES.map((option) => (
+              <label
+                key={option.id}
+                className={`
+                  p-4 rounded-lg border cursor-pointer transition-colors
+                  ${template === option.id
+                    ? 'bg-purple-600/20 border-purple-500/50'
+                    : 'bg-slate-800/30 border-slate-600/30 hover:border-slate-500/50'
+                  }
+                `}
+              >
+                <input
+                  type="radio"
+                  name="resumeTemplate"
+                  value={option.id}
+                  checked={template === option.id}
+                  onChange={() => setTemplate(option.id)}
+                  className="sr-only"
+                />
+                <span className="block text-white font-medium">{option.label}</span>
+                <span className="block text-slate-400 text-sm">{option.description}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button
+              onClick={handleRegenerate}
+              disabled={saving}
+              size="sm"
+              className="flex items-center"
+            >
+              <RefreshCw size={16} className="mr-2" />
+              Regenerate
+            </Button>
+            <Button
+              onClick={() => window.open('/api/resume?download=1', '_blank')}
+              variant="outline"
+              size="sm"
+              className="flex items-center"
+            >
+              <Download size={16} className="mr-2" />
+              Download latest
+            </Button>
+          </div>
+        </div>
+      </div>
+
       {/* Current Resume Display */}
       {resumeUrl ? (
         <div className="mb-6">
-          <h3 className="text-lg font-medium text-white mb-4">Current Resume</h3>
+          <h3 className="text-lg font-medium text-white mb-4">Uploaded Resume</h3>
           <div className="p-6 bg-slate-800/30 rounded-lg border border-slate-600/30">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-4">
@@ -159,6 +260,18 @@ export function ResumeManager({ resumeUrl, onUpdate, saving }: ResumeManagerProp
                 </button>
               </div>
             </div>
+            <label className="mt-4 pt-4 border-t border-slate-600/30 flex items-center space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useUploadedResume}
+                onChange={handleToggleUploaded}
+                disabled={saving}
+                className="rounded border-slate-600 bg-slate-800 text-purple-600 focus:ring-purple-500"
+              />
+              <span className="text-sm text-slate-300">
+                Use uploaded PDF instead of the generated resume
+              </span>
+            </label>
           </div>
         </div>
       ) : (
@@ -167,7 +280,7 @@ export function ResumeManager({ resumeUrl, onUpdate, saving }: ResumeManagerProp
             <FileText size={48} className="mx-auto text-slate-500 mb-4" />
             <p className="text-slate-400 mb-2">No resume uploaded</p>
             <p className="text-sm text-slate-500">
-              Upload your resume PDF to make it available for download
+              Upload a PDF if you would rather offer your own design than the generated resume
             </p>
           </div>
         </div>
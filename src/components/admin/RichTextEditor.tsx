@@ -2,6 +2,7 @@
 
 import { useState, useRef } from 'react'
 import Button from '@/components/ui/Button'
+import { renderMarkdown } from '@/lib/markdown'
 
 interface RichTextEditorProps {
   value: string
@@ -34,20 +35,6 @@ export function RichTextEditor({ value, onChange, placeholder }: RichTextEditorP
     }, 0)
   }
 
-  const formatMarkdown = (text: string) => {
-    return text
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/`(.*?)`/g, '<code class="bg-gray-100 dark:bg-gray-800 px-1 py-0.5 rounded text-sm">$1</code>')
-      .replace(/^### (.*$)/gm, '<h3 class="text-lg font-semibold mt-4 mb-2">$1</h3>')
-      .replace(/^## (.*$)/gm, '<h2 class="text-xl font-semibold mt-4 mb-2">$1</h2>')
-      .replace(/^# (.*$)/gm, '<h1 class="text-2xl font-bold mt-4 mb-2">$1</h1>')
-      .replace(/^\- (.*$)/gm, '<li class="ml-4">• $1</li>')
-      .replace(/^\d+\. (.*$)/gm, '<li class="ml-4">$1</li>')
-      .replace(/\n\n/g, '</p><p class="mb-4">')
-      .replace(/\n/g, '<br>')
-  }
-
   const toolbarButtons = [
     { label: 'Bold', action: () => insertMarkdown('**', '**'), icon: 'B' },
     { label: 'Italic', action: () => insertMarkdown('*', '*'), icon: 'I' },
@@ -56,6 +43,7 @@ export function RichTextEditor({ value, onChange, placeholder }: RichTextEditorP
     { label: 'Heading 2', action: () => insertMarkdown('## '), icon: 'H2' },
     { label: 'Heading 3', action: () => insertMarkdown('### '), icon: 'H3' },
     { label: 'List', action: () => insertMarkdown('- '), icon: '•' },
+    { label: 'Link', action: () => insertMarkdown('[', '](https://)'), icon: '🔗' },
   ]
 
   return (
@@ -114,9 +102,9 @@ export function RichTextEditor({ value, onChange, placeholder }: RichTextEditorP
           <div className="h-64 p-4 bg-white dark:bg-gray-900 text-gray-900 dark:text-white overflow-y-auto">
             {value ? (
               <div
-                className="prose prose-sm dark:prose-invert max-w-none"
+                className="markdown-body text-sm max-w-none"
                 dangerouslySetInnerHTML={{
-                  __html: `<p class="mb-4">${formatMarkdown(value)}</p>`
+                  __html: renderMarkdown(value)
                 }}
               />
             ) : (
@@ -131,7 +119,7 @@ export function RichTextEditor({ value, onChange, placeholder }: RichTextEditorP
       {/* Help Text */}
       <div className="px-3 py-2 bg-gray-50 dark:bg-gray-800 border-t border-gray-300 dark:border-gray-600">
         <p className="text-xs text-gray-500 dark:text-gray-400">
-          Supports Markdown: **bold**, *italic*, `code`, # headings, - lists
+          Supports Markdown: **bold**, *italic*, `code`, # headings, - lists, [links](url), tables and ``` code blocks
         </p>
       </div>
     </div>
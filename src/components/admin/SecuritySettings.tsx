@@ -0,0 +1,399 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Image from 'next/image'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import Modal from '@/components/ui/Modal'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { useAuth } from '@/hooks/use-auth'
+import { ActiveSessions } from './ActiveSessions'
+import { LoginLockouts } from './LoginLockouts'
+import { formatDateTime } from '@/lib/utils'
+import { ApiResponse } from '@/types'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+  required: boolean
+}
+
+interface TwoFactorSetup {
+  secret: string
+  uri: string
+  qrCode: string
+}
+
+// Actions on an enabled second factor, each confirmed with a current code
+type CodeAction = 'disable' | 'regenerate'
+
+const CODE_ACTIONS: Record<CodeAction, { title: string; description: string; confirm: string }> = {
+  disable: {
+    title: 'Disable Two-Factor Authentication',
+    description: 'Enter a code from your authenticator app or a recovery code to turn two-factor off.',
+    confirm: 'Disable',
+  },
+  regenerate: {
+    title: 'New Recovery Codes',
+    description: 'Enter a code from your authenticator app. Your old recovery codes will stop working.',
+    confirm: 'Generate',
+  },
+}
+
+export function SecuritySettings() {
+  const { can } = useAuth()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null)
+  const [code, setCode] = useState('')
+  const [formError, setFormError] = useState<string | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/two-factor')
+      const result: ApiResponse<TwoFactorStatus> = await response.json()
+
+      if (result.success && result.data) {
+        setStatus(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load security settings')
+      }
+    } catch (err) {
+      console.error('Error fetching two-factor status:', err)
+      setError('Failed to load security settings')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  const openForm = () => {
+    setCode('')
+    setFormError(null)
+  }
+
+  const handleStartSetup = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch('/api/admin/two-factor', { method: 'POST' })
+      const result: ApiResponse<TwoFactorSetup> = await response.json()
+
+      if (result.success && result.data) {
+        openForm()
+        setSetup(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to start two-factor setup')
+      }
+    } catch (err) {
+      console.error('Error starting two-factor setup:', err)
+      setError('Failed to start two-factor setup')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleConfirmSetup = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch('/api/admin/two-factor', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code })
+      })
+      const result: ApiResponse<{ recoveryCodes: string[] }> = await response.json()
+
+      if (result.success && result.data) {
+        setSetup(null)
+        setRecoveryCodes(result.data.recoveryCodes)
+        await fetchStatus()
+      } else {
+        setFormError(result.error || 'Failed to enable two-factor authentication')
+      }
+    } catch (err) {
+      console.error('Error enabling two-factor authentication:', err)
+      setFormError('Failed to enable two-factor authentication')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCodeAction = async () => {
+    if (!codeAction) return
+
+    try {
+      setSaving(true)
+      const response = await fetch(
+        codeAction === 'disable' ? '/api/admin/two-factor' : '/api/admin/two-factor/recovery-codes',
+        {
+          method: codeAction === 'disable' ? 'DELETE' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code })
+        }
+      )
+      const result: ApiResponse<{ recoveryCodes: string[] }> = await response.json()
+
+      if (result.success) {
+        setCodeAction(null)
+        if (result.data?.recoveryCodes) setRecoveryCodes(result.data.recoveryCodes)
+        await fetchStatus()
+      } else {
+        setFormError(result.error || 'That code is not valid')
+      }
+    } catch (err) {
+      console.error('Error updating two-factor authentication:', err)
+      setFormError('Failed to update two-factor authentication')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRequireToggle = async (requireTwoFactor: boolean) => {
+    try {
+      setSaving(true)
+      const response = await fetch('/api/admin/settings/security', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requireTwoFactor })
+      })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setStatus(prev => (prev ? { ...prev, required: requireTwoFactor } : prev))
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to update security settings')
+      }
+    } catch (err) {
+      console.error('Error updating security settings:', err)
+      setError('Failed to update security settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading && !status) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Your two-factor authentication */}
+      {status && (
+        <div className="p-6 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Two-factor authentication</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {status.enabled
+                  ? `Enabled${status.enabledAt ? ` since ${formatDateTime(status.enabledAt)}` : ''}. ${status.recoveryCodesRemaining} recovery codes left.`
+                  : 'Ask for a code from an authenticator app as well as your password when you sign in.'}
+              </p>
+            </div>
+            <span
+              className={`px-2 py-1 text-xs font-medium rounded-full ${
+                status.enabled
+                  ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400'
+                  : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {status.enabled ? 'On' : 'Off'}
+            </span>
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            {status.enabled ? (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    openForm()
+                    setCodeAction('regenerate')
+                  }}
+                >
+                  New Recovery Codes
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => {
+                    openForm()
+                    setCodeAction('disable')
+                  }}
+                  disabled={status.required}
+                  title={status.required ? 'Two-factor authentication is required for all admins' : undefined}
+                >
+                  Disable
+                </Button>
+              </>
+            ) : (
+              <Button variant="primary" onClick={handleStartSetup} loading={saving}>
+                Set Up Two-Factor
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Devices signed in to this account */}
+      <ActiveSessions />
+
+      {/* Site-wide requirement, for owners */}
+      {status && can('users:manage') && (
+        <div className="p-6 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={status.required}
+              onChange={(e) => handleRequireToggle(e.target.checked)}
+              disabled={saving || (!status.enabled && !status.required)}
+              className="mt-1 rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-900 dark:text-white">
+                Require two-factor authentication for all admins
+              </span>
+              <span className="block text-sm text-gray-600 dark:text-gray-400">
+                {status.enabled
+                  ? 'Admins without it will be asked to set it up the next time they sign in.'
+                  : 'Set up two-factor for your own account before requiring it.'}
+              </span>
+            </span>
+          </label>
+        </div>
+      )}
+
+      {/* Failed sign-ins and lockouts, for owners */}
+      {can('users:manage') && <LoginLockouts />}
+
+      {/* Setup Modal */}
+      <Modal
+        isOpen={!!setup}
+        onClose={() => setSetup(null)}
+        title="Set Up Two-Factor Authentication"
+        size="md"
+        variant="glass"
+      >
+        {setup && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            {/* A data URL, so there is nothing for the image optimizer to do */}
+            <Image
+              src={setup.qrCode}
+              alt="QR code for your authenticator app"
+              width={192}
+              height={192}
+              unoptimized
+              className="mx-auto w-48 h-48 rounded-lg bg-white p-2"
+            />
+            <p className="text-xs text-gray-600 dark:text-gray-400 text-center">
+              Can&apos;t scan it? Enter this key instead:
+              <span className="block font-mono text-gray-900 dark:text-white break-all mt-1">{setup.secret}</span>
+            </p>
+            <Input
+              label="Authenticator code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+              required
+            />
+            {formError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+            )}
+            <div className="flex justify-end space-x-3">
+              <Button variant="ghost" onClick={() => setSetup(null)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button variant="primary" onClick={handleConfirmSetup} loading={saving}>
+                Enable
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Code Confirmation Modal */}
+      <Modal
+        isOpen={!!codeAction}
+        onClose={() => setCodeAction(null)}
+        title={codeAction ? CODE_ACTIONS[codeAction].title : ''}
+        size="sm"
+        variant="glass"
+      >
+        {codeAction && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {CODE_ACTIONS[codeAction].description}
+            </p>
+            <Input
+              label="Code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+              required
+            />
+            {formError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+            )}
+            <div className="flex justify-end space-x-3">
+              <Button variant="ghost" onClick={() => setCodeAction(null)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button variant="primary" onClick={handleCodeAction} loading={saving}>
+                {CODE_ACTIONS[codeAction].confirm}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Recovery Codes Modal */}
+      <Modal
+        isOpen={!!recoveryCodes}
+        onClose={() => setRecoveryCodes(null)}
+        title="Recovery Codes"
+        size="md"
+        variant="glass"
+      >
+        {recoveryCodes && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Save these codes somewhere safe. Each one can be used once to sign in if you lose your device, and they won&apos;t be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 dark:text-white bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+              {recoveryCodes.map(recoveryCode => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <div className="flex justify-end">
+              <Button variant="primary" onClick={() => setRecoveryCodes(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+
+interface SetPasswordFormProps {
+  // API route that takes { token, password }
+  endpoint: string
+  token: string | null
+  submitLabel: string
+}
+
+/**
+ * Chooses a password from an emailed link, for both password resets and
+ * accepted invitations
+ */
+export function SetPasswordForm({ endpoint, token, submitLabel }: SetPasswordFormProps) {
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to set password')
+      }
+
+      setMessage(result.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!token) {
+    return (
+      <div className="space-y-6">
+        <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-3">
+          <p className="text-red-200 text-sm">This link is invalid or has expired.</p>
+        </div>
+        <Link href="/admin/login" className="block text-center text-sm text-slate-300 hover:text-white">
+          Back to sign in
+        </Link>
+      </div>
+    )
+  }
+
+  if (message) {
+    return (
+      <div className="space-y-6">
+        <div className="bg-green-500/20 border border-green-500/50 rounded-lg p-3">
+          <p className="text-green-200 text-sm">{message}</p>
+        </div>
+        <Link href="/admin/login" className="block">
+          <Button className="w-full">Sign In</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <label htmlFor="password" className="block text-sm font-medium text-slate-200 mb-2">
+          New password
+        </label>
+        <Input
+          id="password"
+          type="password"
+          value={password}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+          autoComplete="new-password"
+          required
+          disabled={isLoading}
+        />
+        <p className="mt-1 text-xs text-slate-400">
+          At least 8 characters with upper and lower case letters, a number and a special character
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-medium text-slate-200 mb-2">
+          Confirm password
+        </label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          value={confirmPassword}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmPassword(e.target.value)}
+          autoComplete="new-password"
+          required
+          disabled={isLoading}
+        />
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-3">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <div className="flex items-center justify-center">
+            <LoadingSpinner size="sm" />
+            <span className="ml-2">Saving...</span>
+          </div>
+        ) : (
+          submitLabel
+        )}
+      </Button>
+    </form>
+  )
+}
@@ -1,58 +1,164 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
 import Button from '@/components/ui/Button'
-import { Plus, X, Award } from 'lucide-react'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import SkillIcon, { SKILL_ICONS } from '@/components/sections/SkillIcon'
+import { Plus, X, Award, ArrowUp, ArrowDown, Pencil } from 'lucide-react'
+import { ApiResponse } from '@/types'
+import type { SkillWithTechnology } from '@/lib/skills'
 
-interface SkillsManagerProps {
-  skills: string[]
-  onUpdate: (skills: string[]) => Promise<{ success: boolean; error?: string }>
-  saving: boolean
+interface SkillFormData {
+  name: string
+  category: string
+  level: number
+  yearsOfExperience: string
+  icon: string
 }
 
-export function SkillsManager({ skills, onUpdate, saving }: SkillsManagerProps) {
-  const [skillsList, setSkillsList] = useState<string[]>([])
-  const [newSkill, setNewSkill] = useState('')
+const emptyForm: SkillFormData = {
+  name: '',
+  category: '',
+  level: 75,
+  yearsOfExperience: '',
+  icon: '',
+}
+
+const inputClasses = `w-full px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-lg
+                      text-white placeholder-slate-400
+                      focus:outline-none focus:ring-2 focus:ring-purple-500/50`
+
+export function SkillsManager() {
+  const [skills, setSkills] = useState<SkillWithTechnology[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState<SkillFormData>(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
-  useEffect(() => {
-    setSkillsList(skills || [])
-  }, [skills])
-
-  const handleAddSkill = () => {
-    const trimmedSkill = newSkill.trim()
-    if (trimmedSkill && !skillsList.includes(trimmedSkill)) {
-      setSkillsList(prev => [...prev, trimmedSkill])
-      setNewSkill('')
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text })
+
+    // Clear message after 3 seconds
+    setTimeout(() => setMessage(null), 3000)
+  }
+
+  const fetchSkills = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/skills')
+      const result: ApiResponse<SkillWithTechnology[]> = await response.json()
+
+      if (result.success && result.data) {
+        setSkills(result.data)
+      } else {
+        showMessage('error', result.error || 'Failed to load skills')
+      }
+    } catch (error) {
+      console.error('Error fetching skills:', error)
+      showMessage('error', 'Failed to load skills')
+    } finally {
+      setLoading(false)
     }
+  }, [])
+
+  useEffect(() => {
+    fetchSkills()
+  }, [fetchSkills])
+
+  const resetForm = () => {
+    setFormData(emptyForm)
+    setEditingId(null)
   }
 
-  const handleRemoveSkill = (skillToRemove: string) => {
-    setSkillsList(prev => prev.filter(skill => skill !== skillToRemove))
+  const handleEdit = (skill: SkillWithTechnology) => {
+    setEditingId(skill.id)
+    setFormData({
+      name: skill.technology.name,
+      category: skill.category,
+      level: skill.level,
+      yearsOfExperience: skill.yearsOfExperience?.toString() ?? '',
+      icon: skill.icon ?? '',
+    })
   }
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      e.preventDefault()
-      handleAddSkill()
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(editingId ? `/api/admin/skills/${editingId}` : '/api/admin/skills', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          category: formData.category,
+          level: formData.level,
+          yearsOfExperience: formData.yearsOfExperience === '' ? null : Number(formData.yearsOfExperience),
+          icon: formData.icon || null,
+        })
+      })
+      const result: ApiResponse<SkillWithTechnology> = await response.json()
+
+      if (result.success) {
+        showMessage('success', editingId ? 'Skill updated successfully!' : 'Skill added successfully!')
+        resetForm()
+        await fetchSkills()
+      } else {
+        showMessage('error', result.error || 'Failed to save skill')
+      }
+    } catch (error) {
+      console.error('Error saving skill:', error)
+      showMessage('error', 'Failed to save skill')
+    } finally {
+      setSaving(false)
     }
   }
 
-  const handleSave = async () => {
-    const result = await onUpdate(skillsList)
-    
-    if (result.success) {
-      setMessage({ type: 'success', text: 'Skills updated successfully!' })
-    } else {
-      setMessage({ type: 'error', text: result.error || 'Failed to update skills' })
+  const handleRemove = async (skill: SkillWithTechnology) => {
+    try {
+      const response = await fetch(`/api/admin/skills/${skill.id}`, { method: 'DELETE' })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        if (editingId === skill.id) resetForm()
+        setSkills(prev => prev.filter(existing => existing.id !== skill.id))
+      } else {
+        showMessage('error', result.error || 'Failed to remove skill')
+      }
+    } catch (error) {
+      console.error('Error removing skill:', error)
+      showMessage('error', 'Failed to remove skill')
     }
+  }
 
-    // Clear message after 3 seconds
-    setTimeout(() => setMessage(null), 3000)
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...skills]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(index + direction, 0, moved)
+    setSkills(reordered)
+
+    try {
+      const response = await fetch('/api/admin/skills/reorder', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: reordered.map(skill => skill.id) })
+      })
+      const result: ApiResponse<SkillWithTechnology[]> = await response.json()
+
+      if (result.success && result.data) {
+        setSkills(result.data)
+      } else {
+        showMessage('error', result.error || 'Failed to reorder skills')
+        await fetchSkills()
+      }
+    } catch (error) {
+      console.error('Error reordering skills:', error)
+      showMessage('error', 'Failed to reorder skills')
+      await fetchSkills()
+    }
   }
 
-  const hasChanges = JSON.stringify(skillsList) !== JSON.stringify(skills)
+  const categories = Array.from(new Set(skills.map(skill => skill.category)))
+  const canSave = formData.name.trim() !== '' && formData.category.trim() !== ''
 
   return (
     <GlassmorphismCard className="p-6">
@@ -61,14 +167,16 @@ export function SkillsManager({ skills, onUpdate, saving }: SkillsManagerProps)
           <Award size={20} className="mr-2" />
           Skills Management
         </h2>
-        <p className="text-slate-400">Add and organize your technical and professional skills</p>
+        <p className="text-slate-400">
+          Skills are shown on the homepage and about page, grouped by category in the order below
+        </p>
       </div>
 
       {message && (
         <div className={`
           mb-6 p-4 rounded-lg border
-          ${message.type === 'success' 
-            ? 'bg-green-500/10 border-green-500/30 text-green-400' 
+          ${message.type === 'success'
+            ? 'bg-green-500/10 border-green-500/30 text-green-400'
             : 'bg-red-500/10 border-red-500/30 text-red-400'
           }
         `}>
@@ -76,65 +184,168 @@ export function SkillsManager({ skills, onUpdate, saving }: SkillsManagerProps)
         </div>
       )}
 
-      {/* Add New Skill */}
-      <div className="mb-6">
-        <label className="block text-sm font-medium text-slate-300 mb-3">
-          Add New Skill
-        </label>
-        <div className="flex space-x-3">
-          <input
-            type="text"
-            value={newSkill}
-            onChange={(e) => setNewSkill(e.target.value)}
-            onKeyPress={handleKeyPress}
-            className="flex-1 px-4 py-3 bg-slate-800/50 border border-slate-600/50 rounded-lg
-                       text-white placeholder-slate-400
-                       focus:outline-none focus:ring-2 focus:ring-purple-500/50"
-            placeholder="e.g., React, Node.js, Python, UI/UX Design..."
-          />
-          <Button
-            onClick={handleAddSkill}
-            disabled={!newSkill.trim() || skillsList.includes(newSkill.trim())}
-            className="px-4 py-3"
-          >
-            <Plus size={16} className="mr-2" />
-            Add
+      {/* Add / Edit Skill */}
+      <div className="mb-6 bg-slate-800/20 rounded-lg p-4 border border-slate-600/30">
+        <h3 className="text-white font-medium mb-4">
+          {editingId ? 'Edit Skill' : 'Add New Skill'}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Name</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              className={inputClasses}
+              placeholder="e.g., React, Node.js, Figma..."
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Category</label>
+            <input
+              type="text"
+              list="skill-categories"
+              value={formData.category}
+              onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
+              className={inputClasses}
+              placeholder="e.g., Frontend, Backend, Tools..."
+            />
+            <datalist id="skill-categories">
+              {categories.map(category => (
+                <option key={category} value={category} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Proficiency ({formData.level}%)
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              value={formData.level}
+              onChange={(e) => setFormData(prev => ({ ...prev, level: Number(e.target.value) }))}
+              className="w-full accent-purple-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Years of Experience</label>
+            <input
+              type="number"
+              min={0}
+              max={60}
+              step={0.5}
+              value={formData.yearsOfExperience}
+              onChange={(e) => setFormData(prev => ({ ...prev, yearsOfExperience: e.target.value }))}
+              className={inputClasses}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-slate-300 mb-2">Icon</label>
+            <div className="flex items-center space-x-3">
+              <input
+                type="text"
+                list="skill-icons"
+                value={formData.icon}
+                onChange={(e) => setFormData(prev => ({ ...prev, icon: e.target.value }))}
+                className={inputClasses}
+                placeholder="Icon name, image URL or emoji (defaults to the technology icon)"
+              />
+              <span className="text-white">
+                <SkillIcon icon={formData.icon || null} name={formData.name} className="w-6 h-6" />
+              </span>
+            </div>
+            <datalist id="skill-icons">
+              {Object.keys(SKILL_ICONS).map(icon => (
+                <option key={icon} value={icon} />
+              ))}
+            </datalist>
+          </div>
+        </div>
+        <div className="flex justify-end space-x-3 mt-4">
+          {editingId && (
+            <Button variant="ghost" onClick={resetForm} disabled={saving}>
+              Cancel
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={!canSave || saving} className="px-4 py-3">
+            {editingId ? (
+              saving ? 'Saving...' : 'Save Skill'
+            ) : (
+              <>
+                <Plus size={16} className="mr-2" />
+                {saving ? 'Adding...' : 'Add'}
+              </>
+            )}
           </Button>
         </div>
-        {newSkill.trim() && skillsList.includes(newSkill.trim()) && (
-          <p className="mt-2 text-sm text-yellow-400">This skill is already in your list</p>
-        )}
       </div>
 
       {/* Skills List */}
-      <div className="mb-6">
-        <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-medium text-white">
-            Your Skills ({skillsList.length})
-          </h3>
-          {skillsList.length > 0 && (
-            <p className="text-sm text-slate-400">
-              Click the × to remove a skill
-            </p>
-          )}
-        </div>
+      <div>
+        <h3 className="text-lg font-medium text-white mb-4">
+          Your Skills ({skills.length})
+        </h3>
 
-        {skillsList.length > 0 ? (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-            {skillsList.map((skill, index) => (
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : skills.length > 0 ? (
+          <div className="space-y-2">
+            {skills.map((skill, index) => (
               <div
-                key={index}
+                key={skill.id}
                 className="flex items-center justify-between p-3 bg-slate-800/30 rounded-lg
                           border border-slate-600/30 hover:border-slate-500/50 transition-colors"
               >
-                <span className="text-white font-medium">{skill}</span>
-                <button
-                  onClick={() => handleRemoveSkill(skill)}
-                  className="p-1 text-slate-400 hover:text-red-400 transition-colors"
-                  title="Remove skill"
-                >
-                  <X size={16} />
-                </button>
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className="text-white">
+                    <SkillIcon icon={skill.icon ?? skill.technology.icon} name={skill.technology.name} />
+                  </span>
+                  <div className="min-w-0">
+                    <p className="text-white font-medium truncate">{skill.technology.name}</p>
+                    <p className="text-xs text-slate-400">
+                      {skill.category} · {skill.level}%
+                      {skill.yearsOfExperience ? ` · ${skill.yearsOfExperience} yrs` : ''}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-slate-400 hover:text-white disabled:opacity-30 transition-colors"
+                    title="Move up"
+                  >
+                    <ArrowUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === skills.length - 1}
+                    className="p-1 text-slate-400 hover:text-white disabled:opacity-30 transition-colors"
+                    title="Move down"
+                  >
+                    <ArrowDown size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleEdit(skill)}
+                    className="p-1 text-slate-400 hover:text-purple-400 transition-colors"
+                    title="Edit skill"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(skill)}
+                    className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+                    title="Remove skill"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
               </div>
             ))}
           </div>
@@ -148,44 +359,6 @@ export function SkillsManager({ skills, onUpdate, saving }: SkillsManagerProps)
           </div>
         )}
       </div>
-
-      {/* Skill Categories Suggestion */}
-      <div className="mb-6 bg-slate-800/20 rounded-lg p-4 border border-slate-600/30">
-        <h4 className="text-white font-medium mb-3">Skill Categories to Consider</h4>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-          <div>
-            <h5 className="text-purple-300 font-medium mb-2">Technical Skills</h5>
-            <ul className="text-slate-400 space-y-1">
-              <li>• Programming Languages (JavaScript, Python, etc.)</li>
-              <li>• Frameworks & Libraries (React, Vue, Angular, etc.)</li>
-              <li>• Databases (PostgreSQL, MongoDB, etc.)</li>
-              <li>• Tools & Platforms (Docker, AWS, Git, etc.)</li>
-            </ul>
-          </div>
-          <div>
-            <h5 className="text-purple-300 font-medium mb-2">Soft Skills</h5>
-            <ul className="text-slate-400 space-y-1">
-              <li>• Communication & Collaboration</li>
-              <li>• Problem Solving & Critical Thinking</li>
-              <li>• Project Management</li>
-              <li>• Leadership & Mentoring</li>
-            </ul>
-          </div>
-        </div>
-      </div>
-
-      {/* Save Button */}
-      {hasChanges && (
-        <div className="flex justify-end">
-          <Button
-            onClick={handleSave}
-            disabled={saving}
-            className="px-6 py-3"
-          >
-            {saving ? 'Saving...' : 'Save Skills'}
-          </Button>
-        </div>
-      )}
     </GlassmorphismCard>
   )
-}
\ No newline at end of file
+}
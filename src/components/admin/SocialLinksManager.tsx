@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { SocialLinks } from '@/types'
+import { schemaFieldErrors, socialLinksSchema } from '@/lib/profile-schema'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
 import Button from '@/components/ui/Button'
 import { 
@@ -67,39 +68,12 @@ export function SocialLinksManager({ socialLinks, onUpdate, saving }: SocialLink
     setLinks(socialLinks || {})
   }, [socialLinks])
 
-  const validateUrl = (url: string, platform: string) => {
-    if (!url) return true // Empty URLs are allowed
-
-    // Email validation
-    if (platform === 'email') {
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-      return emailRegex.test(url)
-    }
-
-    // URL validation
-    try {
-      new URL(url)
-      return true
-    } catch {
-      return false
-    }
-  }
-
   const validateForm = () => {
-    const newErrors: Record<string, string> = {}
-
-    Object.entries(links).forEach(([platform, url]) => {
-      if (url && !validateUrl(url, platform)) {
-        if (platform === 'email') {
-          newErrors[platform] = 'Please enter a valid email address'
-        } else {
-          newErrors[platform] = 'Please enter a valid URL'
-        }
-      }
-    })
+    const result = socialLinksSchema.safeParse(links)
+    const newErrors = result.success ? {} : schemaFieldErrors(result.error)
 
     setErrors(newErrors)
-    return Object.keys(newErrors).length === 0
+    return result.success
   }
 
   const handleInputChange = (platform: keyof SocialLinks, value: string) => {
@@ -0,0 +1,410 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Technology, TechnologyCategory } from '@prisma/client'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import Modal from '@/components/ui/Modal'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { ApiResponse } from '@/types'
+
+interface TechnologyWithUsage extends Technology {
+  _count: { projects: number; profiles: number }
+}
+
+interface TechnologyFormData {
+  name: string
+  aliases: string
+  category: TechnologyCategory
+  icon: string
+  url: string
+}
+
+const CATEGORY_LABELS: Record<TechnologyCategory, string> = {
+  LANGUAGE: 'Language',
+  FRAMEWORK: 'Framework',
+  LIBRARY: 'Library',
+  DATABASE: 'Database',
+  TOOL: 'Tool',
+  PLATFORM: 'Platform',
+  OTHER: 'Other',
+}
+
+const emptyForm: TechnologyFormData = {
+  name: '',
+  aliases: '',
+  category: 'OTHER',
+  icon: '',
+  url: '',
+}
+
+const selectClasses = 'w-full px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500'
+
+export function TechnologyManager() {
+  const [technologies, setTechnologies] = useState<TechnologyWithUsage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [editing, setEditing] = useState<TechnologyWithUsage | 'new' | null>(null)
+  const [formData, setFormData] = useState<TechnologyFormData>(emptyForm)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [mergeOpen, setMergeOpen] = useState(false)
+  const [mergeTargetId, setMergeTargetId] = useState('')
+  const [merging, setMerging] = useState(false)
+
+  const fetchTechnologies = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/technologies')
+      const result: ApiResponse<TechnologyWithUsage[]> = await response.json()
+
+      if (result.success && result.data) {
+        setTechnologies(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load technologies')
+      }
+    } catch (err) {
+      console.error('Error fetching technologies:', err)
+      setError('Failed to load technologies')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTechnologies()
+  }, [fetchTechnologies])
+
+  const openEditor = (technology: TechnologyWithUsage | 'new') => {
+    setFormData(technology === 'new'
+      ? emptyForm
+      : {
+          name: technology.name,
+          aliases: technology.aliases.join(', '),
+          category: technology.category,
+          icon: technology.icon || '',
+          url: technology.url || '',
+        })
+    setFormError(null)
+    setEditing(technology)
+  }
+
+  const handleSave = async () => {
+    if (!editing) return
+
+    try {
+      setSaving(true)
+      const response = await fetch(
+        editing === 'new' ? '/api/admin/technologies' : `/api/admin/technologies/${editing.id}`,
+        {
+          method: editing === 'new' ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...formData,
+            aliases: formData.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+          })
+        }
+      )
+      const result: ApiResponse<Technology> = await response.json()
+
+      if (result.success) {
+        setEditing(null)
+        await fetchTechnologies()
+      } else {
+        setFormError(result.error || 'Failed to save technology')
+      }
+    } catch (err) {
+      console.error('Error saving technology:', err)
+      setFormError('Failed to save technology')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (technology: TechnologyWithUsage) => {
+    try {
+      const response = await fetch(`/api/admin/technologies/${technology.id}`, {
+        method: 'DELETE'
+      })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setSelectedIds(prev => prev.filter(id => id !== technology.id))
+        await fetchTechnologies()
+      } else {
+        setError(result.error || 'Failed to delete technology')
+      }
+    } catch (err) {
+      console.error('Error deleting technology:', err)
+      setError('Failed to delete technology')
+    }
+  }
+
+  const handleMerge = async () => {
+    if (!mergeTargetId) return
+
+    try {
+      setMerging(true)
+      const response = await fetch('/api/admin/technologies/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targetId: mergeTargetId,
+          sourceIds: selectedIds.filter(id => id !== mergeTargetId)
+        })
+      })
+      const result: ApiResponse<Technology> = await response.json()
+
+      if (result.success) {
+        setMergeOpen(false)
+        setSelectedIds([])
+        await fetchTechnologies()
+      } else {
+        setError(result.error || 'Failed to merge technologies')
+      }
+    } catch (err) {
+      console.error('Error merging technologies:', err)
+      setError('Failed to merge technologies')
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]))
+  }
+
+  const query = search.trim().toLowerCase()
+  const visibleTechnologies = query
+    ? technologies.filter(technology =>
+        [technology.name, ...technology.aliases].some(name => name.toLowerCase().includes(query))
+      )
+    : technologies
+  const selectedTechnologies = technologies.filter(technology => selectedIds.includes(technology.id))
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Toolbar */}
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <div className="flex-1">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or alias..."
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => {
+            setMergeTargetId(selectedTechnologies[0]?.id || '')
+            setMergeOpen(true)
+          }}
+          disabled={selectedIds.length < 2}
+        >
+          Merge Selected ({selectedIds.length})
+        </Button>
+        <Button variant="primary" onClick={() => openEditor('new')}>
+          Add Technology
+        </Button>
+      </div>
+
+      {/* Technologies */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : visibleTechnologies.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-12">
+          No technologies found.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-4 py-3" />
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Category</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Aliases</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Used By</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {visibleTechnologies.map(technology => {
+                const inUse = technology._count.projects > 0 || technology._count.profiles > 0
+
+                return (
+                  <tr key={technology.id}>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(technology.id)}
+                        onChange={() => toggleSelected(technology.id)}
+                        className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">
+                      {technology.url ? (
+                        <a href={technology.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                          {technology.name}
+                        </a>
+                      ) : (
+                        technology.name
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                      {CATEGORY_LABELS[technology.category]}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                      {technology.aliases.length > 0 ? technology.aliases.join(', ') : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                      {technology._count.projects} project{technology._count.projects === 1 ? '' : 's'}
+                      {technology._count.profiles > 0 && ' · profile'}
+                    </td>
+                    <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => openEditor(technology)}>
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(technology)}
+                        disabled={inUse}
+                        title={inUse ? 'Merge technologies that are still in use' : undefined}
+                        className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      >
+                        Delete
+                      </Button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Create / Edit Modal */}
+      <Modal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing === 'new' ? 'Add Technology' : 'Edit Technology'}
+        size="md"
+        variant="glass"
+      >
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Next.js"
+            required
+          />
+          <Input
+            label="Aliases"
+            value={formData.aliases}
+            onChange={(e) => setFormData(prev => ({ ...prev, aliases: e.target.value }))}
+            helperText="Comma separated spellings that should map to this technology"
+            placeholder="NextJS, Next"
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Category
+            </label>
+            <select
+              value={formData.category}
+              onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value as TechnologyCategory }))}
+              className={selectClasses}
+            >
+              {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label="Icon"
+            value={formData.icon}
+            onChange={(e) => setFormData(prev => ({ ...prev, icon: e.target.value }))}
+            helperText="Image URL or emoji"
+          />
+          <Input
+            label="Website"
+            type="url"
+            value={formData.url}
+            onChange={(e) => setFormData(prev => ({ ...prev, url: e.target.value }))}
+            placeholder="https://nextjs.org"
+          />
+          {editing && editing !== 'new' && formData.name.trim() !== editing.name && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Renaming updates every project and skill using {editing.name}, and keeps the old name as an alias.
+            </p>
+          )}
+          {formError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+          )}
+          <div className="flex justify-end space-x-3">
+            <Button variant="ghost" onClick={() => setEditing(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleSave} loading={saving}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Merge Modal */}
+      <Modal
+        isOpen={mergeOpen}
+        onClose={() => setMergeOpen(false)}
+        title="Merge Technologies"
+        size="md"
+        variant="glass"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Choose the technology to keep. The others are removed, their names become aliases,
+            and every project and skill using them is relinked.
+          </p>
+          <div className="space-y-2">
+            {selectedTechnologies.map(technology => (
+              <label key={technology.id} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="radio"
+                  name="merge-target"
+                  checked={mergeTargetId === technology.id}
+                  onChange={() => setMergeTargetId(technology.id)}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                <span>
+                  {technology.name} ({technology._count.projects} project{technology._count.projects === 1 ? '' : 's'})
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end space-x-3">
+            <Button variant="ghost" onClick={() => setMergeOpen(false)} disabled={merging}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleMerge} loading={merging} disabled={!mergeTargetId}>
+              Merge
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,359 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import Modal from '@/components/ui/Modal'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { useSession } from '@/lib/auth-client'
+import { AdminRole, ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/lib/permissions'
+import { AdminUser, ApiResponse } from '@/types'
+
+interface InviteFormData {
+  name: string
+  email: string
+  role: AdminRole
+}
+
+const emptyForm: InviteFormData = {
+  name: '',
+  email: '',
+  role: 'EDITOR',
+}
+
+const selectClasses = 'w-full px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-primary-500'
+
+export function UserManager() {
+  const { data: session } = useSession()
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [inviteOpen, setInviteOpen] = useState(false)
+  const [formData, setFormData] = useState<InviteFormData>(emptyForm)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [removing, setRemoving] = useState<AdminUser | null>(null)
+  const [resendingId, setResendingId] = useState<string | null>(null)
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/users')
+      const result: ApiResponse<AdminUser[]> = await response.json()
+
+      if (result.success && result.data) {
+        setUsers(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load users')
+      }
+    } catch (err) {
+      console.error('Error fetching users:', err)
+      setError('Failed to load users')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchUsers()
+  }, [fetchUsers])
+
+  const handleInvite = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch('/api/admin/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData)
+      })
+      const result: ApiResponse<AdminUser> = await response.json()
+
+      if (result.success) {
+        setInviteOpen(false)
+        setNotice(result.message || null)
+        await fetchUsers()
+      } else {
+        setFormError(result.error || 'Failed to invite user')
+      }
+    } catch (err) {
+      console.error('Error inviting user:', err)
+      setFormError('Failed to invite user')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRoleChange = async (user: AdminUser, role: AdminRole) => {
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role })
+      })
+      const result: ApiResponse<AdminUser> = await response.json()
+
+      if (result.success && result.data) {
+        setUsers(prev => prev.map(existing => (existing.id === user.id ? result.data! : existing)))
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to update role')
+      }
+    } catch (err) {
+      console.error('Error updating role:', err)
+      setError('Failed to update role')
+    }
+  }
+
+  const handleResendInvitation = async (user: AdminUser) => {
+    try {
+      setResendingId(user.id)
+      const response = await fetch(`/api/admin/users/${user.id}/invitation`, {
+        method: 'POST'
+      })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setNotice(`Invitation sent to ${user.email}`)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to send invitation')
+      }
+    } catch (err) {
+      console.error('Error resending invitation:', err)
+      setError('Failed to send invitation')
+    } finally {
+      setResendingId(null)
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!removing) return
+
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/admin/users/${removing.id}`, {
+        method: 'DELETE'
+      })
+      const result: ApiResponse = await response.json()
+
+      if (result.success) {
+        setUsers(prev => prev.filter(user => user.id !== removing.id))
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to remove user')
+      }
+    } catch (err) {
+      console.error('Error removing user:', err)
+      setError('Failed to remove user')
+    } finally {
+      setSaving(false)
+      setRemoving(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-400">
+          {notice}
+        </div>
+      )}
+
+      {/* Roles */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {ROLES.map(role => (
+          <div key={role} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">{ROLE_LABELS[role]}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{ROLE_DESCRIPTIONS[role]}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex justify-end">
+        <Button
+          variant="primary"
+          onClick={() => {
+            setFormData(emptyForm)
+            setFormError(null)
+            setInviteOpen(true)
+          }}
+        >
+          Invite User
+        </Button>
+      </div>
+
+      {/* Users */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Email</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Role</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">2FA</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Added</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {users.map(user => {
+                const isCurrentUser = user.id === session?.user.id
+
+                return (
+                  <tr key={user.id}>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">
+                      {user.name}
+                      {isCurrentUser && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(you)</span>}
+                      {user.invitationPending && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400">
+                          Invitation pending
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                      {user.email}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <select
+                        value={user.role}
+                        onChange={(e) => handleRoleChange(user, e.target.value as AdminRole)}
+                        className={selectClasses}
+                      >
+                        {ROLES.map(role => (
+                          <option key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                      {user.twoFactorEnabledAt ? 'Enabled' : 'Off'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                      {new Date(user.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {user.invitationPending && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleResendInvitation(user)}
+                          loading={resendingId === user.id}
+                        >
+                          Resend Invitation
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRemoving(user)}
+                        disabled={isCurrentUser}
+                        title={isCurrentUser ? 'You cannot remove yourself' : undefined}
+                        className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      >
+                        Remove
+                      </Button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Invite Modal */}
+      <Modal
+        isOpen={inviteOpen}
+        onClose={() => setInviteOpen(false)}
+        title="Invite User"
+        size="md"
+        variant="glass"
+      >
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            required
+          />
+          <Input
+            label="Email"
+            type="email"
+            value={formData.email}
+            onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+            required
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Role
+            </label>
+            <select
+              value={formData.role}
+              onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as AdminRole }))}
+              className={selectClasses}
+            >
+              {ROLES.map(role => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">{ROLE_DESCRIPTIONS[formData.role]}</p>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            They&apos;ll get an email with a link to choose their password. The link expires after 7 days.
+          </p>
+          {formError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+          )}
+          <div className="flex justify-end space-x-3">
+            <Button variant="ghost" onClick={() => setInviteOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleInvite} loading={saving}>
+              Send Invitation
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Remove Modal */}
+      <Modal
+        isOpen={!!removing}
+        onClose={() => setRemoving(null)}
+        title="Remove User"
+        size="sm"
+        variant="glass"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {removing?.name} ({removing?.email}) will no longer be able to sign in to the admin panel.
+          </p>
+          <div className="flex justify-end space-x-3">
+            <Button variant="ghost" onClick={() => setRemoving(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleRemove} loading={saving}>
+              Remove
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
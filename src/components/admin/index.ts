@@ -1,7 +1,21 @@
 export { ProjectForm } from './ProjectForm'
+export { ProjectBlockEditor } from './ProjectBlockEditor'
 export { ProjectsTable } from './ProjectsTable'
+export { ProjectRevisions } from './ProjectRevisions'
+export { ProjectPreviewLinks } from './ProjectPreviewLinks'
 export { ImageUpload } from './ImageUpload'
 export { RichTextEditor } from './RichTextEditor'
 export { default as FileManager } from './FileManager'
 export { ProfileImageUpload } from './ProfileImageUpload'
-export { ResumeManager } from './ResumeManager'
\ No newline at end of file
+export { ResumeManager } from './ResumeManager'
+export { JsonResumeManager } from './JsonResumeManager'
+export { TechnologyManager } from './TechnologyManager'
+export { UserManager } from './UserManager'
+export { AuditLogViewer } from './AuditLogViewer'
+export { SecuritySettings } from './SecuritySettings'
+export { LoginLockouts } from './LoginLockouts'
+export { ActiveSessions } from './ActiveSessions'
+export { SetPasswordForm } from './SetPasswordForm'
+export { ApiTokenManager } from './ApiTokenManager'
+export { EmailTemplateManager } from './EmailTemplateManager'
+export { ContactLabelManager } from './ContactLabelManager'
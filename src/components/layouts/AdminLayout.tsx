@@ -6,9 +6,14 @@ import Link from 'next/link'
 import { 
   LayoutDashboard, 
   FolderOpen, 
+  Tags,
   User, 
   MessageSquare, 
   BarChart3, 
+  Users,
+  ScrollText,
+  Shield,
+  KeyRound,
   LogOut,
   Menu,
   X
@@ -16,6 +21,7 @@ import {
 import Button from '@/components/ui/Button'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 import { useSession, signOut } from '@/lib/auth-client'
+import { hasPermission, pagePermission, ROLE_LABELS, isAdminRole } from '@/lib/permissions'
 
 interface AdminLayoutProps {
   children: React.ReactNode
@@ -24,9 +30,14 @@ interface AdminLayoutProps {
 const navigation = [
   { name: 'Dashboard', href: '/admin', icon: LayoutDashboard },
   { name: 'Projects', href: '/admin/projects', icon: FolderOpen },
+  { name: 'Technologies', href: '/admin/technologies', icon: Tags },
   { name: 'Profile', href: '/admin/profile', icon: User },
   { name: 'Messages', href: '/admin/messages', icon: MessageSquare },
   { name: 'Analytics', href: '/admin/analytics', icon: BarChart3 },
+  { name: 'Users', href: '/admin/users', icon: Users },
+  { name: 'Audit Log', href: '/admin/audit', icon: ScrollText },
+  { name: 'Security', href: '/admin/security', icon: Shield },
+  { name: 'API Tokens', href: '/admin/api-tokens', icon: KeyRound },
 ]
 
 export function AdminLayout({ children }: AdminLayoutProps) {
@@ -93,7 +104,10 @@ export function AdminLayout({ children }: AdminLayoutProps) {
 
           {/* Navigation */}
           <nav className="flex-1 p-4 space-y-2">
-            {navigation.map((item) => {
+            {navigation.filter((item) => {
+              const permission = pagePermission(item.href)
+              return !permission || hasPermission(session.user.role, permission)
+            }).map((item) => {
               const isActive = pathname === item.href
               return (
                 <Link
@@ -121,6 +135,9 @@ export function AdminLayout({ children }: AdminLayoutProps) {
               <p className="text-sm text-slate-400">Signed in as</p>
               <p className="text-white font-medium">{session.user.name}</p>
               <p className="text-sm text-slate-400">{session.user.email}</p>
+              {isAdminRole(session.user.role) && (
+                <p className="text-xs text-purple-300 mt-1">{ROLE_LABELS[session.user.role]}</p>
+              )}
             </div>
             <Button
               onClick={handleLogout}
@@ -0,0 +1,147 @@
+import Image from 'next/image'
+import { highlightCode, renderMarkdown } from '@/lib/markdown'
+import { ProjectBlock } from '@/types'
+
+interface ProjectBlocksProps {
+  blocks: ProjectBlock[]
+  projectTitle: string
+}
+
+const markdownClasses = 'markdown-body text-gray-700 dark:text-gray-300'
+
+const ProjectBlocks = ({ blocks, projectTitle }: ProjectBlocksProps) => {
+  const renderBlock = (block: ProjectBlock) => {
+    switch (block.type) {
+      case 'text':
+        return (
+          <div
+            className={markdownClasses}
+            dangerouslySetInnerHTML={{ __html: renderMarkdown(block.markdown) }}
+          />
+        )
+
+      case 'problem':
+      case 'solution':
+        return (
+          <section>
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-3">
+              {block.heading || (block.type === 'problem' ? 'The Problem' : 'The Solution')}
+            </h3>
+            <div
+              className={markdownClasses}
+              dangerouslySetInnerHTML={{ __html: renderMarkdown(block.markdown) }}
+            />
+          </section>
+        )
+
+      case 'architecture':
+        return (
+          <figure>
+            <div className="relative aspect-video rounded-lg overflow-hidden bg-white/50 dark:bg-gray-900/50">
+              <Image
+                src={block.imageUrl}
+                alt={block.alt || `${projectTitle} architecture diagram`}
+                fill
+                className="object-contain"
+              />
+            </div>
+            {block.caption && (
+              <figcaption className="mt-2 text-sm text-center text-gray-600 dark:text-gray-400">
+                {block.caption}
+              </figcaption>
+            )}
+          </figure>
+        )
+
+      case 'metrics':
+        return (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {block.items.map((item, index) => (
+              <div
+                key={index}
+                className="rounded-lg p-4 text-center bg-primary-50 dark:bg-primary-900/20"
+              >
+                <div className="text-3xl font-bold text-primary-600 dark:text-primary-400">
+                  {item.value}
+                </div>
+                <div className="mt-1 text-sm font-medium text-gray-900 dark:text-white">
+                  {item.label}
+                </div>
+                {item.description && (
+                  <div className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                    {item.description}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+
+      case 'quote':
+        return (
+          <blockquote className="border-l-4 border-primary-500 pl-6 py-2">
+            <p className="text-lg italic text-gray-800 dark:text-gray-200">
+              &ldquo;{block.text}&rdquo;
+            </p>
+            {(block.author || block.role) && (
+              <footer className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+                — {[block.author, block.role].filter(Boolean).join(', ')}
+              </footer>
+            )}
+          </blockquote>
+        )
+
+      case 'code':
+        return (
+          <figure>
+            <pre className="rounded-lg p-4 overflow-x-auto bg-gray-900 text-gray-100 text-sm">
+              <code
+                className={block.language ? `language-${block.language}` : undefined}
+                dangerouslySetInnerHTML={{ __html: highlightCode(block.code, block.language) }}
+              />
+            </pre>
+            {block.caption && (
+              <figcaption className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                {block.caption}
+              </figcaption>
+            )}
+          </figure>
+        )
+
+      case 'gallery':
+        return (
+          <figure>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {block.images.map((image, index) => (
+                <div key={image} className="relative aspect-video">
+                  <Image
+                    src={image}
+                    alt={`${projectTitle} gallery image ${index + 1}`}
+                    fill
+                    className="object-cover rounded-lg"
+                  />
+                </div>
+              ))}
+            </div>
+            {block.caption && (
+              <figcaption className="mt-2 text-sm text-center text-gray-600 dark:text-gray-400">
+                {block.caption}
+              </figcaption>
+            )}
+          </figure>
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-10">
+      {blocks.map(block => (
+        <div key={block.id}>
+          {renderBlock(block)}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default ProjectBlocks
@@ -6,6 +6,8 @@ import { Project } from '@prisma/client'
 import ProjectCard from './ProjectCard'
 import GlassmorphismCard from '../glassmorphism/GlassmorphismCard'
 import Button from '../ui/Button'
+import { isProjectPublic } from '@/lib/project-visibility'
+import { technologyKey } from '@/lib/utils'
 
 interface ProjectGalleryProps {
   projects: Project[]
@@ -14,7 +16,10 @@ interface ProjectGalleryProps {
 }
 
 type SortOption = 'newest' | 'oldest' | 'title' | 'featured'
-type FilterOption = 'all' | string // technology name
+type FilterOption = 'all' | string // technology key
+
+const hasTechnology = (project: Project, key: string) =>
+  project.technologies.some(tech => technologyKey(tech) === key)
 
 const ProjectGallery = ({ 
   projects, 
@@ -25,18 +30,22 @@ const ProjectGallery = ({
   const [filterBy, setFilterBy] = useState<FilterOption>('all')
   const [searchQuery, setSearchQuery] = useState('')
 
-  // Get all unique technologies for filtering
+  // Get all unique technologies for filtering, treating spelling variants as one
   const allTechnologies = useMemo(() => {
-    const techSet = new Set<string>()
+    const techMap = new Map<string, string>()
     projects.forEach(project => {
-      project.technologies.forEach(tech => techSet.add(tech))
+      project.technologies.forEach(tech => {
+        const key = technologyKey(tech)
+        if (key && !techMap.has(key)) techMap.set(key, tech)
+      })
     })
-    return Array.from(techSet).sort()
+    return Array.from(techMap, ([key, name]) => ({ key, name }))
+      .sort((a, b) => a.name.localeCompare(b.name))
   }, [projects])
 
   // Filter and sort projects
   const filteredAndSortedProjects = useMemo(() => {
-    let filtered = projects.filter(project => project.status === 'PUBLISHED')
+    let filtered = projects.filter(project => isProjectPublic(project))
 
     // Apply search filter
     if (searchQuery) {
@@ -51,9 +60,7 @@ const ProjectGallery = ({
 
     // Apply technology filter
     if (filterBy !== 'all') {
-      filtered = filtered.filter(project =>
-        project.technologies.includes(filterBy)
-      )
+      filtered = filtered.filter(project => hasTechnology(project, filterBy))
     }
 
     // Apply sorting
@@ -137,21 +144,21 @@ const ProjectGallery = ({
                         onClick={() => setFilterBy('all')}
                         className="touch-manipulation"
                       >
-                        All ({projects.filter(p => p.status === 'PUBLISHED').length})
+                        All ({projects.filter(p => isProjectPublic(p)).length})
                       </Button>
                       {allTechnologies.map(tech => {
                         const count = projects.filter(p => 
-                          p.status === 'PUBLISHED' && p.technologies.includes(tech)
+                          isProjectPublic(p) && hasTechnology(p, tech.key)
                         ).length
                         return (
                           <Button
-                            key={tech}
-                            variant={filterBy === tech ? 'primary' : 'ghost'}
+                            key={tech.key}
+                            variant={filterBy === tech.key ? 'primary' : 'ghost'}
                             size="sm"
-                            onClick={() => setFilterBy(tech)}
+                            onClick={() => setFilterBy(tech.key)}
                             className="touch-manipulation"
                           >
-                            {tech} ({count})
+                            {tech.name} ({count})
                           </Button>
                         )
                       })}
@@ -192,8 +199,8 @@ const ProjectGallery = ({
         className="text-center"
       >
         <p className="text-gray-600 dark:text-gray-400">
-          Showing {filteredAndSortedProjects.length} of {projects.filter(p => p.status === 'PUBLISHED').length} projects
-          {filterBy !== 'all' && ` filtered by ${filterBy}`}
+          Showing {filteredAndSortedProjects.length} of {projects.filter(p => isProjectPublic(p)).length} projects
+          {filterBy !== 'all' && ` filtered by ${allTechnologies.find(tech => tech.key === filterBy)?.name ?? filterBy}`}
           {searchQuery && ` matching "${searchQuery}"`}
         </p>
       </motion.div>
@@ -1,3 +1,4 @@
 export { default as ProjectCard } from './ProjectCard'
 export { default as ProjectGallery } from './ProjectGallery'
+export { default as ProjectBlocks } from './ProjectBlocks'
 export { default as ProjectsWithErrorHandling } from './ProjectsWithErrorHandling'
\ No newline at end of file
@@ -5,10 +5,16 @@ import Image from 'next/image'
 import { motion } from 'framer-motion'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
-import { Profile, SocialLinks } from '@/types'
+import SkillIcon from './SkillIcon'
+import { groupSkillsByCategory } from '@/lib/utils'
+import { Profile, ShowcaseSkill, SocialLinks } from '@/types'
 // Using emoji icons to match project style
 
-const AboutContent = () => {
+interface AboutContentProps {
+  skills: ShowcaseSkill[]
+}
+
+const AboutContent = ({ skills }: AboutContentProps) => {
   const [profile, setProfile] = useState<Profile | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -201,22 +207,47 @@ const AboutContent = () => {
           </GlassmorphismCard>
 
           {/* Skills Section */}
-          {profile.skills && profile.skills.length > 0 && (
+          {skills.length > 0 && (
             <GlassmorphismCard className="p-8">
               <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
                 Skills & Technologies
               </h3>
-              <div className="flex flex-wrap gap-3">
-                {profile.skills.map((skill, index) => (
-                  <motion.span
-                    key={skill}
-                    initial={{ opacity: 0, scale: 0.8 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    transition={{ duration: 0.3, delay: index * 0.1 }}
-                    className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-full text-sm font-medium shadow-lg"
-                  >
-                    {skill}
-                  </motion.span>
+              <div className="space-y-8">
+                {groupSkillsByCategory(skills).map(({ category, skills: categorySkills }) => (
+                  <div key={category}>
+                    <h4 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-4">
+                      {category}
+                    </h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      {categorySkills.map((skill, index) => (
+                        <motion.div
+                          key={skill.id}
+                          initial={{ opacity: 0, scale: 0.8 }}
+                          animate={{ opacity: 1, scale: 1 }}
+                          transition={{ duration: 0.3, delay: index * 0.1 }}
+                          className="space-y-2"
+                        >
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="flex items-center gap-2 font-medium text-gray-900 dark:text-white">
+                              <SkillIcon icon={skill.icon} name={skill.name} />
+                              {skill.name}
+                            </span>
+                            <span className="text-gray-500 dark:text-gray-400">
+                              {skill.yearsOfExperience
+                                ? `${skill.yearsOfExperience} yr${skill.yearsOfExperience === 1 ? '' : 's'}`
+                                : `${skill.level}%`}
+                            </span>
+                          </div>
+                          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                            <div
+                              className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full"
+                              style={{ width: `${skill.level}%` }}
+                            />
+                          </div>
+                        </motion.div>
+                      ))}
+                    </div>
+                  </div>
                 ))}
               </div>
             </GlassmorphismCard>
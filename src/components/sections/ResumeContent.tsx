@@ -5,11 +5,11 @@ import { motion } from 'framer-motion'
 import GlassmorphismCard from '@/components/glassmorphism/GlassmorphismCard'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 import Button from '@/components/ui/Button'
-import { Profile, Experience, Education } from '@/types'
+import { ProfileWithEntries } from '@/types'
 // Using emoji icons to match project style
 
 const ResumeContent = () => {
-  const [profile, setProfile] = useState<Profile | null>(null)
+  const [profile, setProfile] = useState<ProfileWithEntries | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -35,10 +35,9 @@ const ResumeContent = () => {
     fetchProfile()
   }, [])
 
+  // Generated from the current profile, or the uploaded PDF when the admin chose to use it
   const handleDownloadResume = () => {
-    if (profile?.resumeUrl) {
-      window.open(profile.resumeUrl, '_blank')
-    }
+    window.open('/api/resume?download=1', '_blank')
   }
 
   if (loading) {
@@ -59,8 +58,7 @@ const ResumeContent = () => {
     )
   }
 
-  const experience = (profile.experience as unknown) as Experience[]
-  const education = (profile.education as unknown) as Education[]
+  const { experience, education } = profile
 
   return (
     <div className="container mx-auto px-4 py-12 max-w-6xl">
@@ -78,17 +76,15 @@ const ResumeContent = () => {
           My professional experience, education, and skills
         </p>
         
-        {profile.resumeUrl && (
-          <Button
-            onClick={handleDownloadResume}
-            variant="primary"
-            size="lg"
-            className="inline-flex items-center gap-2"
-          >
-            <span className="text-lg">📄</span>
-            Download PDF Resume
-          </Button>
-        )}
+        <Button
+          onClick={handleDownloadResume}
+          variant="primary"
+          size="lg"
+          className="inline-flex items-center gap-2"
+        >
+          <span className="text-lg">📄</span>
+          Download latest
+        </Button>
       </motion.div>
 
       <div className="grid lg:grid-cols-3 gap-8">
@@ -161,7 +157,7 @@ const ResumeContent = () => {
           className="lg:col-span-2 space-y-8"
         >
           {/* Professional Experience */}
-          {experience && experience.length > 0 && (
+          {experience.length > 0 && (
             <GlassmorphismCard className="p-8">
               <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-6 flex items-center gap-2">
                 <span className="text-2xl">🏢</span>
@@ -196,7 +192,7 @@ const ResumeContent = () => {
                       {exp.description}
                     </p>
                     
-                    {exp.technologies && exp.technologies.length > 0 && (
+                    {exp.technologies.length > 0 && (
                       <div className="flex flex-wrap gap-2">
                         {exp.technologies.map((tech) => (
                           <span
@@ -215,7 +211,7 @@ const ResumeContent = () => {
           )}
 
           {/* Education */}
-          {education && education.length > 0 && (
+          {education.length > 0 && (
             <GlassmorphismCard className="p-8">
               <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-6 flex items-center gap-2">
                 <span className="text-2xl">🎓</span>
@@ -0,0 +1,47 @@
+import Image from 'next/image'
+import {
+  Atom, Boxes, Brush, Cloud, Code, Cpu, Database, GitBranch, Globe, Layers, Link,
+  Palette, Server, Shapes, Smartphone, Terminal, Triangle, Type, Wrench,
+  type LucideIcon,
+} from 'lucide-react'
+
+// Icons that can be picked by name in the skills admin
+export const SKILL_ICONS: Record<string, LucideIcon> = {
+  Atom, Boxes, Brush, Cloud, Code, Cpu, Database, GitBranch, Globe, Layers, Link,
+  Palette, Server, Shapes, Smartphone, Terminal, Triangle, Type, Wrench,
+}
+
+interface SkillIconProps {
+  icon?: string | null
+  name: string
+  className?: string
+}
+
+/**
+ * Renders a skill icon given as a lucide icon name, an image URL or an emoji
+ */
+const SkillIcon = ({ icon, name, className = 'w-4 h-4' }: SkillIconProps) => {
+  const value = icon?.trim()
+
+  if (value && /^(https?:\/\/|\/)/.test(value)) {
+    return (
+      <Image
+        src={value}
+        alt={`${name} icon`}
+        width={32}
+        height={32}
+        className={`${className} inline-block object-contain`}
+        unoptimized
+      />
+    )
+  }
+
+  const Icon = value ? SKILL_ICONS[value] : Code
+  if (Icon) {
+    return <Icon className={`${className} inline-block`} />
+  }
+
+  return <span aria-hidden="true">{value}</span>
+}
+
+export default SkillIcon
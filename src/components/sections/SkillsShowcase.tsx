@@ -2,40 +2,18 @@
 
 import { motion } from 'framer-motion'
 import GlassmorphismCard from '../glassmorphism/GlassmorphismCard'
-import { Laptop, Atom, Code, Type, Palette, Shapes, Server, Database, Link, GitBranch, Boxes, Triangle, Brush } from 'lucide-react'
-import type { ReactNode } from 'react'
-
-interface Skill {
-  name: string
-  category: string
-  level: number
-  icon: ReactNode
+import SkillIcon from './SkillIcon'
+import { Laptop } from 'lucide-react'
+import { groupSkillsByCategory } from '@/lib/utils'
+import { ShowcaseSkill } from '@/types'
+
+interface SkillsShowcaseProps {
+  skills: ShowcaseSkill[]
 }
 
-const skills: Skill[] = [
-  // Frontend
-  { name: 'React', category: 'Frontend', level: 95, icon: <Atom className="w-4 h-4" /> },
-  { name: 'Next.js', category: 'Frontend', level: 90, icon: <Code className="w-4 h-4" /> },
-  { name: 'TypeScript', category: 'Frontend', level: 88, icon: <Type className="w-4 h-4" /> },
-  { name: 'Tailwind CSS', category: 'Frontend', level: 92, icon: <Palette className="w-4 h-4" /> },
-  { name: 'Framer Motion', category: 'Frontend', level: 85, icon: <Shapes className="w-4 h-4" /> },
-
-  // Backend
-  { name: 'Node.js', category: 'Backend', level: 87, icon: <Server className="w-4 h-4" /> },
-  { name: 'PostgreSQL', category: 'Backend', level: 83, icon: <Database className="w-4 h-4" /> },
-  { name: 'Prisma', category: 'Backend', level: 89, icon: <Shapes className="w-4 h-4" /> },
-  { name: 'REST APIs', category: 'Backend', level: 91, icon: <Link className="w-4 h-4" /> },
-
-  // Tools & Others
-  { name: 'Git', category: 'Tools', level: 93, icon: <GitBranch className="w-4 h-4" /> },
-  { name: 'Docker', category: 'Tools', level: 78, icon: <Boxes className="w-4 h-4" /> },
-  { name: 'Vercel', category: 'Tools', level: 86, icon: <Triangle className="w-4 h-4" /> },
-  { name: 'Figma', category: 'Design', level: 82, icon: <Brush className="w-4 h-4" /> },
-]
-
-const categories = ['Frontend', 'Backend', 'Tools', 'Design']
-
-const SkillsShowcase = () => {
+const SkillsShowcase = ({ skills }: SkillsShowcaseProps) => {
+  const categories = groupSkillsByCategory(skills)
+
   const containerVariants = {
     hidden: { opacity: 0 },
     visible: {
@@ -72,6 +50,10 @@ const SkillsShowcase = () => {
     },
   }
 
+  if (categories.length === 0) {
+    return null
+  }
+
   return (
     <section className="py-20 px-4 sm:px-6 lg:px-8">
       <div className="max-w-7xl mx-auto">
@@ -111,9 +93,7 @@ const SkillsShowcase = () => {
 
           {/* Skills Grid by Category */}
           <div className="space-y-12">
-            {categories.map((category, categoryIndex) => {
-              const categorySkills = skills.filter(skill => skill.category === category)
-
+            {categories.map(({ category, skills: categorySkills }, categoryIndex) => {
               return (
                 <motion.div
                   key={category}
@@ -130,7 +110,7 @@ const SkillsShowcase = () => {
                   >
                     {categorySkills.map((skill, index) => (
                       <motion.div
-                        key={skill.name}
+                        key={skill.id}
                         variants={skillVariants}
                         whileHover={{
                           scale: 1.05,
@@ -152,7 +132,7 @@ const SkillsShowcase = () => {
                                 transition: { duration: 0.5 }
                               }}
                             >
-                              {skill.icon}
+                              <SkillIcon icon={skill.icon} name={skill.name} />
                             </motion.div>
 
                             {/* Skill Name */}
@@ -177,6 +157,7 @@ const SkillsShowcase = () => {
                               </div>
                               <span className="text-xs text-gray-500 dark:text-gray-400 font-medium">
                                 {skill.level}%
+                                {skill.yearsOfExperience ? ` · ${skill.yearsOfExperience} yr${skill.yearsOfExperience === 1 ? '' : 's'}` : ''}
                               </span>
                             </div>
                           </div>
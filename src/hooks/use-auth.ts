@@ -3,14 +3,20 @@
 import { useSession } from "@/lib/auth-client"
 import { useRouter } from "next/navigation"
 import { useCallback } from "react"
+import { hasPermission, isAdminRole, Permission } from "@/lib/permissions"
 
 export function useAuth() {
   const { data: session, isPending, error } = useSession()
   const router = useRouter()
 
   const isAuthenticated = !!session?.user
-  const isAdmin = (session?.user as any)?.role === "ADMIN"
   const user = session?.user
+  const isAdmin = isAdminRole(user?.role)
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(user?.role, permission),
+    [user?.role]
+  )
 
   const redirectToLogin = useCallback((redirectTo?: string) => {
     const loginUrl = redirectTo 
@@ -28,6 +34,7 @@ export function useAuth() {
     session,
     isAuthenticated,
     isAdmin,
+    can,
     isPending,
     error,
     redirectToLogin,
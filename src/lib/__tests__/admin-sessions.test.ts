@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for listing and revoking the signed-in admin's sessions
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+
+jest.mock('../auth', () => ({
+  auth: { api: { listSessions: jest.fn(), revokeSession: jest.fn(), revokeSessions: jest.fn() } },
+}))
+jest.mock('../prisma', () => ({ prisma: {} }))
+
+import { auth } from '../auth'
+import { listActiveSessions, revokeActiveSession } from '../admin-sessions'
+import { NotFoundError } from '../error-handler'
+
+const listSessions = auth.api.listSessions as unknown as jest.Mock
+const revokeSession = auth.api.revokeSession as unknown as jest.Mock
+
+const CHROME_MAC = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36'
+const SAFARI_IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'
+
+const headers = new Headers()
+
+describe('admin sessions', () => {
+  beforeEach(() => {
+    listSessions.mockReset()
+    revokeSession.mockReset()
+    listSessions.mockResolvedValue([
+      {
+        id: 'session-1',
+        token: 'secret-1',
+        userAgent: CHROME_MAC,
+        ipAddress: '203.0.113.1',
+        createdAt: new Date('2026-10-10T09:00:00Z'),
+        updatedAt: new Date('2026-10-17T09:00:00Z'),
+        expiresAt: new Date('2026-10-24T09:00:00Z'),
+      },
+      {
+        id: 'session-2',
+        token: 'secret-2',
+        userAgent: SAFARI_IPHONE,
+        ipAddress: null,
+        createdAt: new Date('2026-10-12T09:00:00Z'),
+        updatedAt: new Date('2026-10-18T09:00:00Z'),
+        expiresAt: new Date('2026-10-25T09:00:00Z'),
+      },
+    ])
+  })
+
+  it('lists sessions with device details, most recently active first, without tokens', async () => {
+    const sessions = await listActiveSessions(headers, 'session-1')
+
+    expect(sessions.map(session => session.id)).toEqual(['session-2', 'session-1'])
+    expect(sessions[0]).toMatchObject({ device: 'mobile', ipAddress: null, current: false })
+    expect(sessions[0].browser).toMatch(/Safari/)
+    expect(sessions[1]).toMatchObject({ device: 'desktop', ipAddress: '203.0.113.1', current: true })
+    expect(sessions[1].browser).toMatch(/Chrome/)
+    expect(JSON.stringify(sessions)).not.toContain('secret')
+  })
+
+  it('revokes a session by id using its token', async () => {
+    await revokeActiveSession(headers, 'session-2')
+
+    expect(revokeSession).toHaveBeenCalledWith({ body: { token: 'secret-2' }, headers })
+  })
+
+  it('refuses to revoke sessions that are not the user\'s', async () => {
+    await expect(revokeActiveSession(headers, 'someone-else')).rejects.toBeInstanceOf(NotFoundError)
+    expect(revokeSession).not.toHaveBeenCalled()
+  })
+})
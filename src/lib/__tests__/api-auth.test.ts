@@ -0,0 +1,278 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the admin route guard, and that every admin and analytics route
+ * is behind it
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { NextRequest } from 'next/server'
+
+// Every request is anonymous unless a test says otherwise
+jest.mock('../auth', () => ({
+  auth: { api: { getSession: jest.fn(async () => null) } },
+}))
+jest.mock('../prisma', () => ({
+  prisma: {
+    auditLog: { create: jest.fn() },
+    apiToken: { findUnique: jest.fn(async () => null), update: jest.fn() },
+  },
+}))
+
+import { withAdmin } from '../api-auth'
+import { POST as bulkProjects } from '../../app/api/admin/projects/bulk/route'
+import { hashApiToken } from '../api-tokens'
+import { auth } from '../auth'
+import { prisma } from '../prisma'
+
+const getSession = auth.api.getSession as unknown as jest.Mock
+const findApiToken = prisma.apiToken.findUnique as unknown as jest.Mock
+
+const SRC_DIR = path.join(__dirname, '../..')
+const API_DIR = path.join(SRC_DIR, 'app/api')
+
+// Routes that have to answer anonymous callers
+const PUBLIC_ROUTES: Record<string, string> = {
+  'admin/login': 'signs the admin in',
+  'admin/logout': 'clears whatever session cookie is sent',
+  'admin/password/forgot': 'emails a reset link to signed-out admins',
+  'admin/password/reset': 'sets a new password from a reset link',
+  'admin/invitations/accept': 'lets invited users choose their password',
+  'analytics/track': 'receives page views from visitors',
+  'analytics/error': 'receives client error reports from visitors',
+  'analytics/performance': 'receives performance metrics from visitors',
+  'analytics/session': 'receives session updates from visitors',
+  'analytics/web-vitals': 'receives web vitals from visitors',
+}
+
+// The modules the guard is made of; everything else a route imports from the app is stubbed
+const GUARD_MODULES = ['@/lib/api-auth', '@/lib/api-tokens', '@/lib/auth', '@/lib/error-handler']
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const
+
+function findRoutes(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) return findRoutes(fullPath)
+    return entry.name === 'route.ts' ? [fullPath] : []
+  })
+}
+
+// Stands in for any value: property reads, calls and constructors all return the stub again
+function createStub(): unknown {
+  const stub: unknown = new Proxy(function () {}, {
+    get: (_target, property) => {
+      if (property === '__esModule') return true
+      if (property === 'then') return undefined
+      return stub
+    },
+    apply: () => stub,
+    construct: () => stub as object,
+  })
+  return stub
+}
+
+function loadRoute(file: string): Record<string, unknown> {
+  const source = fs.readFileSync(file, 'utf8')
+  const specifiers = new Set(
+    Array.from(source.matchAll(/from\s+['"](@\/[^'"]+)['"]/g), (match) => match[1])
+  )
+
+  let routeModule: Record<string, unknown> = {}
+  jest.isolateModules(() => {
+    for (const specifier of specifiers) {
+      // Route imports are compiled to paths under src, so mock those
+      if (!GUARD_MODULES.includes(specifier)) jest.doMock(path.join(SRC_DIR, specifier.slice(2)), createStub)
+    }
+    routeModule = jest.requireActual(file)
+  })
+  return routeModule
+}
+
+const routes = findRoutes(path.join(API_DIR, 'admin'))
+  .concat(findRoutes(path.join(API_DIR, 'analytics')))
+  .map((file) => ({
+    file,
+    route: path.relative(API_DIR, path.dirname(file)).split(path.sep).join('/'),
+  }))
+  .filter(({ route }) => !(route in PUBLIC_ROUTES))
+
+// The guard logs every error it turns into a response
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('withAdmin', () => {
+  const handler = withAdmin<{ id: string }>(async (_request, { params, session }) => {
+    const { id } = await params
+    return Response.json({ id, userId: session.user.id })
+  })
+
+  const call = () =>
+    handler(new NextRequest('http://localhost/api/admin/test'), {
+      params: Promise.resolve({ id: 'abc' }),
+    })
+
+  it('rejects anonymous requests with 401', async () => {
+    const response = await call()
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toMatchObject({ success: false, code: 'UNAUTHORIZED' })
+  })
+
+  it('rejects users without an allowed role with 403', async () => {
+    getSession.mockResolvedValueOnce({ user: { id: 'user-1', role: 'USER' } })
+
+    const response = await call()
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ success: false, code: 'FORBIDDEN' })
+  })
+
+  it('rejects roles without the permission with 403', async () => {
+    const exportHandler = withAdmin(async () => Response.json({ success: true }), {
+      permission: 'analytics:export',
+    })
+    getSession.mockResolvedValueOnce({ user: { id: 'user-1', role: 'EDITOR' } })
+
+    const response = await exportHandler(new NextRequest('http://localhost/api/analytics/export'), {
+      params: Promise.resolve({}),
+    })
+
+    expect(response.status).toBe(403)
+  })
+
+  it('passes params and the session to the handler', async () => {
+    getSession.mockResolvedValueOnce({ user: { id: 'user-1', role: 'VIEWER' } })
+
+    const response = await call()
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ id: 'abc', userId: 'user-1' })
+  })
+})
+
+describe('withAdmin with API tokens', () => {
+  const TOKEN = 'pat_test-token'
+
+  const storedToken = (overrides: Record<string, unknown> = {}) => ({
+    id: 'token-1',
+    userId: 'user-1',
+    name: 'CI',
+    prefix: 'pat_test',
+    tokenHash: hashApiToken(TOKEN),
+    scopes: ['projects:write'],
+    expiresAt: new Date(Date.now() + 60000),
+    lastUsedAt: null,
+    createdAt: new Date(),
+    user: { id: 'user-1', email: 'ci@example.com', name: 'CI', role: 'EDITOR', createdAt: new Date(), updatedAt: new Date() },
+    ...overrides,
+  })
+
+  const call = (permission?: 'projects:write' | 'analytics:read') =>
+    withAdmin(async (_request, { session, apiToken }) => Response.json({ userId: session.user.id, tokenId: apiToken?.id }), {
+      permission,
+    })(new NextRequest('http://localhost/api/admin/test', { headers: { authorization: `Bearer ${TOKEN}` } }), {
+      params: Promise.resolve({}),
+    })
+
+  it('acts as the token owner for a scope the token has', async () => {
+    findApiToken.mockResolvedValueOnce(storedToken())
+
+    const response = await call('projects:write')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ userId: 'user-1', tokenId: 'token-1' })
+    expect(findApiToken).toHaveBeenCalledWith(expect.objectContaining({ where: { tokenHash: hashApiToken(TOKEN) } }))
+  })
+
+  it('rejects permissions outside the token scopes with 403', async () => {
+    findApiToken.mockResolvedValueOnce(storedToken())
+    expect((await call('analytics:read')).status).toBe(403)
+  })
+
+  it('rejects scopes the owner role no longer has with 403', async () => {
+    findApiToken.mockResolvedValueOnce(storedToken({ scopes: ['projects:write'], user: { ...storedToken().user, role: 'VIEWER' } }))
+    expect((await call('projects:write')).status).toBe(403)
+  })
+
+  it('keeps tokens out of routes without a permission', async () => {
+    findApiToken.mockResolvedValueOnce(storedToken())
+    expect((await call()).status).toBe(403)
+  })
+
+  it('checks other permissions against the token scopes as well as the role', async () => {
+    findApiToken.mockResolvedValueOnce(storedToken({ user: { ...storedToken().user, role: 'OWNER' } }))
+
+    const response = await withAdmin(
+      async (_request, { can }) => Response.json({ write: can('projects:write'), remove: can('projects:delete') }),
+      { permission: 'projects:write' }
+    )(new NextRequest('http://localhost/api/admin/test', { headers: { authorization: `Bearer ${TOKEN}` } }), {
+      params: Promise.resolve({}),
+    })
+
+    expect(await response.json()).toEqual({ write: true, remove: false })
+  })
+
+  it('keeps write-only tokens from bulk deleting projects', async () => {
+    findApiToken.mockResolvedValueOnce(storedToken({ user: { ...storedToken().user, role: 'OWNER' } }))
+
+    const response = await bulkProjects(
+      new NextRequest('http://localhost/api/admin/projects/bulk', {
+        method: 'POST',
+        headers: { authorization: `Bearer ${TOKEN}` },
+        body: JSON.stringify({ action: 'delete', projectIds: ['project-1'] }),
+      }),
+      { params: Promise.resolve({}) }
+    )
+
+    expect(response.status).toBe(403)
+  })
+
+  it('rejects unknown and expired tokens with 401', async () => {
+    expect((await call('projects:write')).status).toBe(401)
+
+    findApiToken.mockResolvedValueOnce(storedToken({ expiresAt: new Date(Date.now() - 1000) }))
+    const response = await call('projects:write')
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toMatchObject({ error: 'Invalid or expired API token' })
+  })
+})
+
+describe('admin and analytics routes', () => {
+  it('finds the routes to check', () => {
+    expect(routes.length).toBeGreaterThan(20)
+  })
+
+  it.each(routes)('$route rejects anonymous callers', async ({ file, route }) => {
+    const routeModule = loadRoute(file)
+    const handlers = METHODS.filter((method) => typeof routeModule[method] === 'function')
+
+    expect(handlers.length).toBeGreaterThan(0)
+
+    for (const method of handlers) {
+      const handler = routeModule[method] as (
+        request: NextRequest,
+        context: { params: Promise<Record<string, string>> }
+      ) => Promise<Response>
+      const response = await handler(
+        new NextRequest(`http://localhost/api/${route.replace(/\[(\w+)\]/g, 'x')}`, { method }),
+        { params: Promise.resolve({ id: 'x', tokenId: 'x', revisionId: 'x' }) }
+      )
+
+      expect({ method, status: response.status }).toEqual({ method, status: 401 })
+      const body = await response.json()
+      expect(body.success).toBe(false)
+      expect(typeof body.error).toBe('string')
+    }
+  })
+})
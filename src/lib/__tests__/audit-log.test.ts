@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for recording and exporting the admin audit log
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: { auditLog: { create: jest.fn() } },
+}))
+
+import { AuditLog } from '@prisma/client'
+import { auditLogsToCsv, auditLogWhere, auditRequestInfo, recordAudit } from '../audit-log'
+import { prisma } from '../prisma'
+
+const create = prisma.auditLog.create as unknown as jest.Mock
+
+const log: AuditLog = {
+  id: 'log-1',
+  actorId: 'user-1',
+  actorName: 'Siri',
+  actorEmail: 'me@example.com',
+  action: 'contact.update',
+  entityType: 'contact',
+  entityId: 'contact-1',
+  before: { status: 'NEW' },
+  after: { status: 'READ' },
+  ipAddress: '203.0.113.7',
+  userAgent: 'Mozilla/5.0 (X11, Linux)',
+  createdAt: new Date('2026-01-01T12:00:00Z'),
+}
+
+describe('recordAudit', () => {
+  beforeEach(() => {
+    create.mockReset()
+  })
+
+  it('stores the actor, request details and JSON snapshots', async () => {
+    create.mockResolvedValueOnce(log)
+
+    await recordAudit(
+      { action: 'project.update', entityType: 'project', entityId: 'p1', after: { publishAt: new Date('2026-02-01T00:00:00Z') } },
+      { id: 'user-1', name: 'Siri', email: 'me@example.com' },
+      { ipAddress: '203.0.113.7', userAgent: 'test' }
+    )
+
+    expect(create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        actorId: 'user-1',
+        actorName: 'Siri',
+        action: 'project.update',
+        entityId: 'p1',
+        after: { publishAt: '2026-02-01T00:00:00.000Z' },
+        ipAddress: '203.0.113.7',
+        userAgent: 'test',
+      }),
+    })
+  })
+
+  it('does not throw when the entry cannot be stored', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    create.mockRejectedValueOnce(new Error('database is down'))
+
+    await expect(recordAudit({ action: 'file.delete', entityType: 'file' }, null)).resolves.toBeUndefined()
+  })
+})
+
+describe('auditRequestInfo', () => {
+  it('takes the first forwarded address', () => {
+    const request = new Request('http://localhost/api/admin/projects', {
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'test' },
+    })
+
+    expect(auditRequestInfo(request)).toEqual({ ipAddress: '203.0.113.7', userAgent: 'test' })
+  })
+})
+
+describe('auditLogWhere', () => {
+  it('only filters on dates when one is given', () => {
+    expect(auditLogWhere({ entityType: 'project' }).createdAt).toBeUndefined()
+
+    const from = new Date('2026-01-01T00:00:00Z')
+    expect(auditLogWhere({ from }).createdAt).toEqual({ gte: from, lte: undefined })
+  })
+})
+
+describe('auditLogsToCsv', () => {
+  it('writes a header and quotes values containing commas or quotes', () => {
+    const [header, row] = auditLogsToCsv([log]).split('\n')
+
+    expect(header).toBe('Time,Actor,Actor Email,Action,Entity Type,Entity ID,Before,After,IP Address,User Agent')
+    expect(row).toBe(
+      '2026-01-01T12:00:00.000Z,Siri,me@example.com,contact.update,contact,contact-1,' +
+      '"{""status"":""NEW""}","{""status"":""READ""}",203.0.113.7,"Mozilla/5.0 (X11, Linux)"'
+    )
+  })
+})
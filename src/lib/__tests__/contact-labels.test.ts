@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for contact labels and bulk updates from the admin inbox
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    contact: { findMany: jest.fn(), update: jest.fn() },
+    contactLabel: { findFirst: jest.fn(), findUnique: jest.fn(), count: jest.fn(), create: jest.fn(), update: jest.fn() },
+  },
+}))
+
+import {
+  bulkUpdateContacts,
+  contactBulkUpdateSchema,
+  contactLabelSchema,
+  createContactLabel,
+  updateContactLabel,
+} from '../contact-labels'
+import { NotFoundError, ValidationError } from '../error-handler'
+import { prisma } from '../prisma'
+
+const findContacts = prisma.contact.findMany as unknown as jest.Mock
+const updateContact = prisma.contact.update as unknown as jest.Mock
+const findLabel = prisma.contactLabel.findFirst as unknown as jest.Mock
+const findLabelById = prisma.contactLabel.findUnique as unknown as jest.Mock
+const countLabels = prisma.contactLabel.count as unknown as jest.Mock
+const createLabel = prisma.contactLabel.create as unknown as jest.Mock
+const updateLabel = prisma.contactLabel.update as unknown as jest.Mock
+const transaction = prisma.$transaction as unknown as jest.Mock
+
+const jobLead = { id: 'label-1', name: 'Job lead', color: '#10b981' }
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  findLabel.mockResolvedValue(null)
+  transaction.mockImplementation(async (operations: unknown) => operations)
+})
+
+describe('contact label schemas', () => {
+  it('only accepts hex colors', () => {
+    expect(contactLabelSchema.safeParse({ name: 'Support', color: '#3B82F6' }).success).toBe(true)
+    expect(contactLabelSchema.safeParse({ name: 'Support', color: 'blue' }).success).toBe(false)
+  })
+
+  it('needs something to change, and leaves spam to the spam route', () => {
+    expect(contactBulkUpdateSchema.safeParse({}).error?.issues[0].message).toBe('Nothing to update')
+    expect(contactBulkUpdateSchema.safeParse({ status: 'SPAM' }).success).toBe(false)
+    expect(contactBulkUpdateSchema.parse({ status: 'ARCHIVED' })).toEqual({
+      status: 'ARCHIVED',
+      addLabelIds: [],
+      removeLabelIds: [],
+    })
+  })
+})
+
+describe('createContactLabel', () => {
+  it('refuses a name that only differs in case', async () => {
+    findLabel.mockResolvedValue(jobLead)
+
+    await expect(createContactLabel({ name: 'job lead', color: '#000000' })).rejects.toThrow(ValidationError)
+    expect(findLabel).toHaveBeenCalledWith({
+      where: { name: { equals: 'job lead', mode: 'insensitive' }, id: undefined },
+    })
+    expect(createLabel).not.toHaveBeenCalled()
+  })
+})
+
+describe('updateContactLabel', () => {
+  it('allows keeping the same name', async () => {
+    findLabelById.mockResolvedValue(jobLead)
+    updateLabel.mockResolvedValue({ ...jobLead, color: '#ef4444' })
+
+    const result = await updateContactLabel('label-1', { name: 'Job lead', color: '#ef4444' })
+
+    expect(findLabel).toHaveBeenCalledWith({
+      where: { name: { equals: 'Job lead', mode: 'insensitive' }, id: { not: 'label-1' } },
+    })
+    expect(result).toEqual({ before: jobLead, label: { ...jobLead, color: '#ef4444' } })
+  })
+})
+
+describe('bulkUpdateContacts', () => {
+  it('archives and labels each message, returning before and after', async () => {
+    const contacts = [
+      { id: 'contact-1', status: 'READ', labels: [] },
+      { id: 'contact-2', status: 'NEW', labels: [] },
+    ]
+    countLabels.mockResolvedValue(1)
+    findContacts.mockResolvedValue(contacts)
+    updateContact.mockImplementation(({ where }: { where: { id: string } }) => ({
+      id: where.id,
+      status: 'ARCHIVED',
+      labels: [{ id: jobLead.id, name: jobLead.name }],
+    }))
+
+    const changes = await bulkUpdateContacts(['contact-1', 'contact-2'], {
+      status: 'ARCHIVED',
+      addLabelIds: ['label-1'],
+      removeLabelIds: [],
+    })
+
+    expect(updateContact).toHaveBeenCalledWith({
+      where: { id: 'contact-1' },
+      data: { status: 'ARCHIVED', labels: { connect: [{ id: 'label-1' }], disconnect: [] } },
+      include: { labels: { select: { id: true, name: true } } },
+    })
+    expect(changes).toHaveLength(2)
+    expect(changes[1]).toEqual({
+      before: contacts[1],
+      after: { id: 'contact-2', status: 'ARCHIVED', labels: [{ id: 'label-1', name: 'Job lead' }] },
+    })
+  })
+
+  it('throws NotFoundError for unknown labels', async () => {
+    countLabels.mockResolvedValue(0)
+
+    await expect(
+      bulkUpdateContacts(['contact-1'], { addLabelIds: ['missing'], removeLabelIds: [] })
+    ).rejects.toThrow(NotFoundError)
+    expect(transaction).not.toHaveBeenCalled()
+  })
+})
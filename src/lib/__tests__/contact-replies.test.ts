@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for replying to contact messages from the admin inbox
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    contact: { findUnique: jest.fn(), update: jest.fn() },
+    contactReply: { create: jest.fn() },
+  },
+}))
+
+import { Contact } from '@prisma/client'
+import { createMemoryTransport, MailTransport, setMailTransport } from '../mail'
+import { replyToContact } from '../contact-replies'
+import { NotFoundError } from '../error-handler'
+import { prisma } from '../prisma'
+
+const findContact = prisma.contact.findUnique as unknown as jest.Mock
+const updateContact = prisma.contact.update as unknown as jest.Mock
+const createReply = prisma.contactReply.create as unknown as jest.Mock
+const transaction = prisma.$transaction as unknown as jest.Mock
+
+const contact: Contact = {
+  id: 'contact-1',
+  name: 'Ada',
+  email: 'ada@example.com',
+  subject: 'Project question',
+  message: 'Do you take freelance work?\nThanks!',
+  status: 'READ',
+  spamScore: 0,
+  spamReasons: [],
+  createdAt: new Date('2026-10-01T09:00:00Z'),
+  updatedAt: new Date('2026-10-01T09:00:00Z'),
+}
+
+const input = { subject: 'Re: Project question', body: 'Hi Ada,\n\nI do. <Let us talk>' }
+const author = { id: 'user-1', name: 'Site Owner' }
+
+let mail: ReturnType<typeof createMemoryTransport>
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  mail = createMemoryTransport()
+  setMailTransport(mail)
+  findContact.mockResolvedValue(contact)
+  createReply.mockReturnValue({ id: 'reply-1', contactId: contact.id, ...input })
+  updateContact.mockReturnValue({ ...contact, status: 'REPLIED' })
+  transaction.mockImplementation(async (operations: unknown) => operations)
+  process.env.TO_EMAIL = 'inbox@example.com'
+})
+
+afterEach(() => {
+  setMailTransport(null)
+  delete process.env.TO_EMAIL
+})
+
+describe('replyToContact', () => {
+  it('emails the sender with the original message quoted', async () => {
+    await replyToContact(contact.id, input, author)
+
+    expect(mail.messages).toHaveLength(1)
+    const [message] = mail.messages
+    expect(message).toMatchObject({ to: 'ada@example.com', subject: 'Re: Project question', replyTo: 'inbox@example.com' })
+    expect(message.text).toContain('I do. <Let us talk>')
+    expect(message.text).toContain('> Do you take freelance work?\n> Thanks!')
+    expect(message.html).toContain('I do. &lt;Let us talk&gt;')
+    expect(message.html).not.toContain('<Let us talk>')
+  })
+
+  it('stores the reply in the thread and marks the message replied', async () => {
+    const result = await replyToContact(contact.id, input, author)
+
+    expect(createReply).toHaveBeenCalledWith({
+      data: { contactId: contact.id, authorId: 'user-1', authorName: 'Site Owner', ...input },
+    })
+    expect(updateContact).toHaveBeenCalledWith({ where: { id: contact.id }, data: { status: 'REPLIED' } })
+    expect(result.previousStatus).toBe('READ')
+    expect(result.contact.status).toBe('REPLIED')
+  })
+
+  it('stores nothing when the email cannot be sent', async () => {
+    const failing: MailTransport = {
+      send: async () => {
+        throw new Error('Resend is down')
+      },
+    }
+    setMailTransport(failing)
+
+    await expect(replyToContact(contact.id, input, author)).rejects.toThrow('Resend is down')
+    expect(transaction).not.toHaveBeenCalled()
+  })
+
+  it('throws NotFoundError for an unknown message', async () => {
+    findContact.mockResolvedValue(null)
+
+    await expect(replyToContact('missing', input, author)).rejects.toBeInstanceOf(NotFoundError)
+    expect(mail.messages).toHaveLength(0)
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for email templates: filling in variables, validation and the
+ * contact form emails
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    emailTemplate: { findFirst: jest.fn() },
+    profile: { findFirst: jest.fn() },
+  },
+}))
+
+import { Contact } from '@prisma/client'
+import { createMemoryTransport, setMailTransport } from '../mail'
+import { emailTemplateSchema, sendContactConfirmation, sendContactNotification } from '../email-templates'
+import { renderTemplate, unknownTemplateVariables } from '../template-render'
+import { prisma } from '../prisma'
+
+const findTemplate = prisma.emailTemplate.findFirst as unknown as jest.Mock
+const findProfile = prisma.profile.findFirst as unknown as jest.Mock
+
+const contact: Contact = {
+  id: 'contact-1',
+  name: 'Ada <script>',
+  email: 'ada@example.com',
+  subject: null,
+  message: 'Are you available in November?',
+  status: 'NEW',
+  spamScore: 0,
+  spamReasons: [],
+  createdAt: new Date('2026-10-01T09:00:00Z'),
+  updatedAt: new Date('2026-10-01T09:00:00Z'),
+}
+
+describe('renderTemplate', () => {
+  it('fills in plain and nested variables', () => {
+    expect(renderTemplate('Hi {{name}}, from {{ profile.title }}', { name: 'Ada', profile: { title: 'Engineer' } }))
+      .toBe('Hi Ada, from Engineer')
+  })
+
+  it('leaves unknown and missing values empty', () => {
+    expect(renderTemplate('[{{missing}}][{{profile.location}}][{{name.first}}]', { name: 'Ada', profile: { location: null } }))
+      .toBe('[][][]')
+  })
+})
+
+describe('emailTemplateSchema', () => {
+  it('rejects variables that do not exist', () => {
+    expect(unknownTemplateVariables('{{name}} {{nmae}} {{profile.title}}')).toEqual(['nmae'])
+
+    const parsed = emailTemplateSchema.safeParse({ name: 'Typo', subject: 'Hi', body: 'Hi {{nmae}}' })
+    expect(parsed.success).toBe(false)
+    expect(parsed.error?.issues[0].message).toBe('Unknown variable {{nmae}}')
+  })
+
+  it("keeps what the sender typed out of the confirmation", () => {
+    const body = 'Thanks!\n\nYou wrote: {{message}}'
+
+    expect(emailTemplateSchema.safeParse({ name: 'Reply', subject: 'Re: {{subject}}', body }).success).toBe(true)
+
+    const parsed = emailTemplateSchema.safeParse({ name: 'Confirmation', purpose: 'CONTACT_CONFIRMATION', subject: 'Thanks', body })
+    expect(parsed.error?.issues[0]).toMatchObject({
+      path: ['body'],
+      message: "The confirmation can't include {{message}}, since anyone can have it sent to any address",
+    })
+  })
+
+  it('defaults to a reply template', () => {
+    const parsed = emailTemplateSchema.parse({ name: 'Freelance', subject: 'Re: {{subject}}', body: 'Hi {{name}}' })
+    expect(parsed.purpose).toBe('REPLY')
+  })
+})
+
+describe('contact form emails', () => {
+  let mail: ReturnType<typeof createMemoryTransport>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mail = createMemoryTransport()
+    setMailTransport(mail)
+    findProfile.mockResolvedValue({ name: 'Site Owner', title: 'Engineer', email: 'owner@example.com', location: null })
+    findTemplate.mockResolvedValue(null)
+    process.env.TO_EMAIL = 'inbox@example.com'
+  })
+
+  afterEach(() => {
+    setMailTransport(null)
+    delete process.env.TO_EMAIL
+  })
+
+  it('uses the built-in notification until one is saved, escaping values in the HTML', async () => {
+    await sendContactNotification(contact)
+
+    expect(findTemplate).toHaveBeenCalledWith({ where: { purpose: 'CONTACT_NOTIFICATION' } })
+    const [message] = mail.messages
+    expect(message).toMatchObject({ to: 'inbox@example.com', replyTo: 'ada@example.com', subject: 'Portfolio Contact: Your message' })
+    expect(message.text).toContain('Name: Ada <script>')
+    expect(message.html).toContain('Ada &lt;script&gt;')
+    expect(message.html).not.toContain('<script>')
+  })
+
+  it('sends the saved confirmation template to the sender', async () => {
+    findTemplate.mockResolvedValue({ subject: 'Thanks for your message', body: 'Talk soon.\n{{profile.name}}, {{profile.title}}' })
+
+    await sendContactConfirmation(contact)
+
+    expect(findTemplate).toHaveBeenCalledWith({ where: { purpose: 'CONTACT_CONFIRMATION' } })
+    const [message] = mail.messages
+    expect(message).toMatchObject({ to: 'ada@example.com', replyTo: 'inbox@example.com', subject: 'Thanks for your message' })
+    expect(message.text).toBe('Talk soon.\nSite Owner, Engineer')
+  })
+
+  it('sends no confirmation until an admin saves one', async () => {
+    await sendContactConfirmation(contact)
+
+    expect(mail.messages).toHaveLength(0)
+  })
+
+  it('leaves sender values out of confirmations saved before they were disallowed', async () => {
+    findTemplate.mockResolvedValue({ subject: 'Thanks, {{name}}', body: '[{{name}}][{{email}}][{{subject}}][{{message}}]' })
+
+    await sendContactConfirmation(contact)
+
+    const [message] = mail.messages
+    expect(message.subject).toBe('Thanks,')
+    expect(message.text).toBe('[][][][]')
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Tests for JSON Resume import and export
+ */
+
+import { describe, it, expect } from '@jest/globals'
+
+// Only the pure mapping functions are tested, so the database and Next.js runtime are not needed
+jest.mock('../prisma', () => ({ prisma: {} }))
+jest.mock('next/server', () => ({ NextResponse: {} }))
+
+import { parseJsonResume, previewJsonResume, toJsonResume } from '../json-resume'
+import { ValidationError } from '../error-handler'
+import { ProfileWithEntries } from '@/types'
+
+const now = new Date('2026-01-01T00:00:00Z')
+
+const current = {
+  id: 'profile-1',
+  name: 'Siri',
+  title: 'Developer',
+  bio: 'Hello',
+  email: 'me@example.com',
+  phone: null,
+  location: null,
+  profileImage: null,
+  socialLinks: { github: 'https://github.com/siri' },
+  resumeUrl: null,
+  resumeTemplate: 'modern',
+  useUploadedResume: false,
+  skills: [],
+  createdAt: now,
+  updatedAt: now,
+  experience: [{
+    id: 'exp-1',
+    profileId: 'profile-1',
+    company: 'Acme',
+    position: 'Engineer',
+    startDate: '2021-03',
+    endDate: null,
+    description: 'Built things',
+    technologies: ['React'],
+    order: 0,
+    createdAt: now,
+    updatedAt: now,
+  }],
+  education: [],
+} as ProfileWithEntries
+
+describe('JSON Resume', () => {
+  it('should import basics, profiles, work and skills', () => {
+    const parsed = parseJsonResume({
+      basics: {
+        label: 'Staff Engineer',
+        location: { city: 'Berlin', countryCode: 'DE' },
+        profiles: [{ network: 'LinkedIn', url: 'https://linkedin.com/in/siri' }],
+      },
+      work: [{
+        name: 'Globex',
+        position: 'Lead',
+        startDate: '2019-05-01',
+        summary: 'Led the team',
+        highlights: ['Shipped v2'],
+      }],
+      skills: [{ name: 'Frontend', level: 'Advanced', keywords: ['React', 'Vue'] }],
+    }, current)
+
+    expect(parsed.profile).toMatchObject({
+      name: 'Siri',
+      title: 'Staff Engineer',
+      location: 'Berlin, DE',
+      socialLinks: { github: 'https://github.com/siri', linkedin: 'https://linkedin.com/in/siri' },
+    })
+    expect(parsed.experience).toEqual([{
+      company: 'Globex',
+      position: 'Lead',
+      startDate: '2019-05',
+      endDate: null,
+      description: 'Led the team\n- Shipped v2',
+      technologies: [],
+    }])
+    expect(parsed.education).toBeUndefined()
+    expect(parsed.skills).toEqual([
+      { name: 'React', category: 'Frontend', level: 80 },
+      { name: 'Vue', category: 'Frontend', level: 80 },
+    ])
+  })
+
+  it('should skip entries that cannot be imported with a warning', () => {
+    const parsed = parseJsonResume({ work: [{ name: 'Globex', summary: 'No position or dates' }] }, current)
+
+    expect(parsed.experience).toEqual([])
+    expect(parsed.warnings).toHaveLength(1)
+    expect(parsed.warnings[0]).toMatch(/^Work entry 1 was skipped/)
+  })
+
+  it('should reject documents without the required basics when there is no profile', () => {
+    expect(() => parseJsonResume({ basics: { name: 'Siri' } }, null)).toThrow(ValidationError)
+    expect(() => parseJsonResume([], current)).toThrow(ValidationError)
+  })
+
+  it('should preview only what would change', () => {
+    const parsed = parseJsonResume({
+      basics: { name: 'Siri', label: 'Staff Engineer' },
+      skills: [{ name: 'Frontend', level: '50', keywords: ['reactjs', 'Vue'] }],
+    }, current)
+
+    const preview = previewJsonResume(parsed, current, [{
+      id: 'skill-1',
+      technologyId: 'tech-1',
+      category: 'Frontend',
+      level: 90,
+      yearsOfExperience: null,
+      icon: null,
+      order: 0,
+      createdAt: now,
+      updatedAt: now,
+      technology: {
+        id: 'tech-1',
+        name: 'React',
+        slug: 'react',
+        aliases: ['ReactJS'],
+        category: 'FRAMEWORK',
+        icon: null,
+        url: null,
+        createdAt: now,
+        updatedAt: now,
+      },
+    }])
+
+    expect(preview.fields).toEqual([{ field: 'title', current: 'Developer', imported: 'Staff Engineer' }])
+    expect(preview.experience).toBeNull()
+    expect(preview.skills).toEqual({ added: ['Vue'], updated: ['React'] })
+  })
+
+  it('should export entries that import back unchanged', () => {
+    const exported = toJsonResume(current, [
+      { id: 'skill-1', name: 'React', category: 'Frontend', level: 80, yearsOfExperience: null, icon: null },
+    ])
+
+    expect(exported.basics?.profiles).toEqual([
+      { network: 'GitHub', url: 'https://github.com/siri', username: 'siri' },
+    ])
+    expect(exported.skills).toEqual([{ name: 'Frontend', level: 'Advanced', keywords: ['React'] }])
+
+    const parsed = parseJsonResume(exported, current)
+    expect(parsed.experience).toEqual([{
+      company: 'Acme',
+      position: 'Engineer',
+      startDate: '2021-03',
+      endDate: null,
+      description: 'Built things',
+      technologies: ['React'],
+    }])
+  })
+})
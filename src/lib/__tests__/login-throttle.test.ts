@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for login delays and lockouts after failed sign-in attempts
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    loginThrottle: { findMany: jest.fn(), updateMany: jest.fn(), upsert: jest.fn(), update: jest.fn() },
+    user: { findUnique: jest.fn() },
+  },
+}))
+
+import { LoginThrottle } from '@prisma/client'
+import {
+  checkLoginThrottle,
+  FAILURE_WINDOW_MS,
+  LOCKOUT_DURATION_MS,
+  LOCKOUT_THRESHOLDS,
+  loginDelayMs,
+  recordLoginFailure,
+  throttleStatus,
+} from '../login-throttle'
+import { prisma } from '../prisma'
+
+const findMany = prisma.loginThrottle.findMany as unknown as jest.Mock
+const updateMany = prisma.loginThrottle.updateMany as unknown as jest.Mock
+const upsert = prisma.loginThrottle.upsert as unknown as jest.Mock
+const update = prisma.loginThrottle.update as unknown as jest.Mock
+
+const NOW = Date.parse('2026-10-18T12:00:00Z')
+
+function throttle(overrides: Partial<LoginThrottle> = {}): LoginThrottle {
+  return {
+    id: 'throttle-1',
+    scope: 'ACCOUNT',
+    key: 'me@example.com',
+    failedCount: 1,
+    lastFailedAt: new Date(NOW - 1000),
+    lockedUntil: null,
+    createdAt: new Date(NOW - 60000),
+    updatedAt: new Date(NOW - 1000),
+    ...overrides,
+  }
+}
+
+describe('loginDelayMs', () => {
+  it('lets the first few attempts through, then doubles the wait up to a cap', () => {
+    expect([0, 1, 2].map(loginDelayMs)).toEqual([0, 0, 0])
+    expect([3, 4, 5, 6].map(loginDelayMs)).toEqual([1000, 2000, 4000, 8000])
+    expect(loginDelayMs(20)).toBe(30000)
+  })
+})
+
+describe('throttleStatus', () => {
+  it('allows attempts without earlier failures', () => {
+    expect(throttleStatus(null, NOW)).toEqual({ allowed: true, retryAfterMs: 0, locked: false })
+  })
+
+  it('makes attempts wait after repeated failures', () => {
+    expect(throttleStatus(throttle({ failedCount: 4 }), NOW)).toEqual({
+      allowed: false,
+      retryAfterMs: 1000,
+      locked: false,
+    })
+    expect(throttleStatus(throttle({ failedCount: 4, lastFailedAt: new Date(NOW - 2000) }), NOW).allowed).toBe(true)
+  })
+
+  it('forgets failures outside the window', () => {
+    const stale = throttle({ failedCount: 9, lastFailedAt: new Date(NOW - FAILURE_WINDOW_MS - 1) })
+    expect(throttleStatus(stale, NOW).allowed).toBe(true)
+  })
+
+  it('reports lockouts until they expire', () => {
+    const locked = throttle({ failedCount: 10, lockedUntil: new Date(NOW + 60000) })
+
+    expect(throttleStatus(locked, NOW)).toEqual({ allowed: false, retryAfterMs: 60000, locked: true })
+    expect(throttleStatus(locked, NOW + 60000).allowed).toBe(true)
+  })
+})
+
+describe('checkLoginThrottle', () => {
+  beforeEach(() => {
+    findMany.mockReset()
+  })
+
+  it('combines the account and IP limits', async () => {
+    findMany.mockResolvedValue([
+      throttle({ failedCount: 3 }),
+      throttle({ scope: 'IP', key: '203.0.113.1', failedCount: 25, lockedUntil: new Date(NOW + 5000) }),
+    ])
+
+    await expect(checkLoginThrottle({ email: 'Me@Example.com', ipAddress: '203.0.113.1' }, NOW)).resolves.toEqual({
+      allowed: false,
+      retryAfterMs: 5000,
+      locked: true,
+    })
+    expect(findMany).toHaveBeenCalledWith({
+      where: {
+        OR: [
+          { scope: 'ACCOUNT', key: 'me@example.com' },
+          { scope: 'IP', key: '203.0.113.1' },
+        ],
+      },
+    })
+  })
+})
+
+describe('recordLoginFailure', () => {
+  beforeEach(() => {
+    updateMany.mockReset()
+    upsert.mockReset()
+    update.mockReset()
+    update.mockImplementation(async (args: unknown) => {
+      const { data } = args as { data: Partial<LoginThrottle> }
+      return throttle({ failedCount: LOCKOUT_THRESHOLDS.ACCOUNT, ...data })
+    })
+  })
+
+  it('counts failures with an atomic increment', async () => {
+    upsert.mockResolvedValue(throttle({ failedCount: 1 }))
+
+    await expect(recordLoginFailure({ email: 'me@example.com' }, NOW)).resolves.toEqual([])
+    expect(upsert).toHaveBeenCalledWith({
+      where: { scope_key: { scope: 'ACCOUNT', key: 'me@example.com' } },
+      update: { failedCount: { increment: 1 }, lastFailedAt: new Date(NOW) },
+      create: { scope: 'ACCOUNT', key: 'me@example.com', failedCount: 1, lastFailedAt: new Date(NOW) },
+    })
+    expect(update).not.toHaveBeenCalled()
+  })
+
+  it('locks the account when the returned count reaches the threshold', async () => {
+    upsert.mockResolvedValue(throttle({ failedCount: LOCKOUT_THRESHOLDS.ACCOUNT }))
+
+    const locked = await recordLoginFailure({ email: 'me@example.com' }, NOW)
+
+    expect(update).toHaveBeenCalledWith({
+      where: { id: 'throttle-1' },
+      data: { lockedUntil: new Date(NOW + LOCKOUT_DURATION_MS) },
+    })
+    expect(locked).toHaveLength(1)
+    expect(locked[0].lockedUntil).toEqual(new Date(NOW + LOCKOUT_DURATION_MS))
+  })
+
+  it('locks only once when concurrent failures go past the threshold', async () => {
+    upsert.mockResolvedValue(throttle({ failedCount: LOCKOUT_THRESHOLDS.ACCOUNT + 1 }))
+
+    await expect(recordLoginFailure({ email: 'me@example.com' }, NOW)).resolves.toEqual([])
+    expect(update).not.toHaveBeenCalled()
+  })
+
+  it('resets expired failures and lockouts before counting', async () => {
+    upsert.mockResolvedValue(throttle({ failedCount: 1 }))
+
+    await recordLoginFailure({ email: 'me@example.com' }, NOW)
+
+    expect(updateMany).toHaveBeenCalledWith({
+      where: {
+        scope: 'ACCOUNT',
+        key: 'me@example.com',
+        OR: [
+          { lockedUntil: { lte: new Date(NOW) } },
+          {
+            lockedUntil: null,
+            OR: [{ lastFailedAt: null }, { lastFailedAt: { lt: new Date(NOW - FAILURE_WINDOW_MS) } }],
+          },
+        ],
+      },
+      data: { failedCount: 0, lockedUntil: null },
+    })
+    expect(updateMany.mock.invocationCallOrder[0]).toBeLessThan(upsert.mock.invocationCallOrder[0])
+  })
+})
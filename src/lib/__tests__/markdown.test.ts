@@ -0,0 +1,154 @@
+/**
+ * Tests for the shared markdown renderer
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { renderMarkdown, sanitizeUrl, highlightCode } from '../markdown'
+
+// Matches any generated tag carrying an inline event handler attribute
+const EVENT_HANDLER_ATTRIBUTE = /<[a-z][^>]*\son[a-z]+\s*=/i
+
+describe('Markdown rendering', () => {
+  describe('Injection protection', () => {
+    it('should escape script tags', () => {
+      const html = renderMarkdown('Hello <script>alert("xss")</script>')
+
+      expect(html).not.toContain('<script')
+      expect(html).toContain('&lt;script&gt;')
+    })
+
+    it('should escape raw HTML carrying event handlers', () => {
+      const inputs = [
+        '<img src="x" onerror="alert(1)">',
+        '<a href="#" onclick="alert(1)">click</a>',
+        '<div onmouseover=alert(1)>hover</div>',
+        '<svg/onload=alert(1)>',
+      ]
+
+      for (const input of inputs) {
+        const html = renderMarkdown(input)
+        expect(html).not.toMatch(EVENT_HANDLER_ATTRIBUTE)
+        expect(html).not.toMatch(/<(img|a|div|svg)\b/)
+      }
+    })
+
+    it('should drop javascript, data and vbscript link targets', () => {
+      const inputs = [
+        '[click](javascript:alert(1))',
+        '[click](JavaScript:alert(1))',
+        '[click](java\tscript:alert(1))',
+        '[click](data:text/html;base64,PHNjcmlwdD4=)',
+        '[click](vbscript:msgbox(1))',
+        '<javascript:alert(1)>',
+      ]
+
+      for (const input of inputs) {
+        const html = renderMarkdown(input)
+        expect(html).not.toMatch(/href="\s*(javascript|data|vbscript)/i)
+        expect(html).not.toContain('<a ')
+      }
+    })
+
+    it('should not allow link titles or URLs to break out of attributes', () => {
+      const html = renderMarkdown('[x](https://example.com "a\\" onmouseover=\\"alert(1)")')
+
+      expect(html).not.toMatch(EVENT_HANDLER_ATTRIBUTE)
+    })
+
+    it('should consume the whole target of a rejected link', () => {
+      expect(renderMarkdown('[x](javascript:alert(1)) done')).toBe('<p>x done</p>')
+      expect(renderMarkdown('![pic](javascript:alert(1)) done')).toBe('<p>pic done</p>')
+    })
+
+    it('should keep code spans and escapes in link targets out of the markup', () => {
+      const html = renderMarkdown('[b](`c`) [d](https://example.com/a\\_b "a `t`") <https://example.com/`e`>')
+
+      expect(html).not.toMatch(/(href|title)="[^"]*</)
+      expect(html).toContain('href="`c`"')
+      expect(html).toContain('href="https://example.com/a_b" title="a `t`"')
+      expect(html).toContain('href="https://example.com/`e`"')
+    })
+
+    it('should drop unsafe image sources', () => {
+      const html = renderMarkdown('![pic](javascript:alert(1)) ![pic](data:image/svg+xml;base64,AAAA)')
+
+      expect(html).not.toContain('<img')
+    })
+
+    it('should escape HTML inside code blocks and code spans', () => {
+      const html = renderMarkdown('`<b onclick="x">`\n\n```html\n<script>alert(1)</script>\n```')
+
+      expect(html).not.toContain('<script')
+      expect(html).not.toMatch(EVENT_HANDLER_ATTRIBUTE)
+      expect(html).toContain('&lt;script&gt;')
+    })
+
+    it('should escape HTML in table cells and headings', () => {
+      const html = renderMarkdown('# <img src=x onerror=alert(1)>\n\n| a | b |\n| - | - |\n| <script>x</script> | ok |')
+
+      expect(html).not.toContain('<script')
+      expect(html).not.toMatch(EVENT_HANDLER_ATTRIBUTE)
+    })
+  })
+
+  describe('sanitizeUrl', () => {
+    it('should allow http, https, mailto and relative URLs', () => {
+      expect(sanitizeUrl('https://example.com')).toBe('https://example.com')
+      expect(sanitizeUrl('mailto:me@example.com')).toBe('mailto:me@example.com')
+      expect(sanitizeUrl('/projects/demo')).toBe('/projects/demo')
+      expect(sanitizeUrl('#section')).toBe('#section')
+    })
+
+    it('should reject other protocols', () => {
+      expect(sanitizeUrl('javascript:alert(1)')).toBeNull()
+      expect(sanitizeUrl(' \u0001javascript:alert(1)')).toBeNull()
+      expect(sanitizeUrl('ftp://example.com')).toBeNull()
+    })
+  })
+
+  describe('Formatting', () => {
+    it('should render headings with anchors and unique ids', () => {
+      const html = renderMarkdown('## Overview\n\n## Overview')
+
+      expect(html).toContain('<h2 id="overview">')
+      expect(html).toContain('<h2 id="overview-1">')
+      expect(html).toContain('href="#overview"')
+    })
+
+    it('should render emphasis, inline code and links', () => {
+      const html = renderMarkdown('**bold** *italic* `code` [site](https://example.com)')
+
+      expect(html).toContain('<strong>bold</strong>')
+      expect(html).toContain('<em>italic</em>')
+      expect(html).toContain('<code>code</code>')
+      expect(html).toContain('<a href="https://example.com" target="_blank" rel="noopener noreferrer">site</a>')
+    })
+
+    it('should render tables with alignment', () => {
+      const html = renderMarkdown('| Metric | Value |\n| :--- | ---: |\n| Users | 1,000 |')
+
+      expect(html).toContain('<table>')
+      expect(html).toContain('<th style="text-align:left">Metric</th>')
+      expect(html).toContain('<td style="text-align:right">1,000</td>')
+    })
+
+    it('should render lists and nested lists', () => {
+      const html = renderMarkdown('- one\n- two\n  - nested\n\n3. three\n4. four')
+
+      expect(html).toContain('<ul><li>one</li><li>two<ul><li>nested</li></ul></li></ul>')
+      expect(html).toContain('<ol start="3"><li>three</li><li>four</li></ol>')
+    })
+
+    it('should keep single line breaks in paragraphs', () => {
+      expect(renderMarkdown('first line\nsecond line')).toBe('<p>first line<br>\nsecond line</p>')
+    })
+
+    it('should highlight code by language', () => {
+      const html = highlightCode('const answer = 42 // comment', 'ts')
+
+      expect(html).toContain('<span class="token keyword">const</span>')
+      expect(html).toContain('<span class="token number">42</span>')
+      expect(html).toContain('<span class="token comment">// comment</span>')
+    })
+  })
+})
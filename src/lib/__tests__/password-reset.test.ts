@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for emailed password reset and invitation links
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    userToken: { deleteMany: jest.fn(), create: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn() },
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    loginThrottle: { deleteMany: jest.fn() },
+    apiToken: { deleteMany: jest.fn() },
+  },
+}))
+
+jest.mock('../admin-sessions', () => ({
+  revokeUserSessions: jest.fn(),
+}))
+
+import { UserToken } from '@prisma/client'
+import { createMemoryTransport, setMailTransport } from '../mail'
+import { requestPasswordReset, setPasswordWithToken } from '../password-reset'
+import { consumeUserToken, findUserToken, hashUserToken, USER_TOKEN_TTL_MS } from '../user-tokens'
+import { ValidationError } from '../error-handler'
+import { revokeUserSessions } from '../admin-sessions'
+import { prisma } from '../prisma'
+
+const userFindUnique = prisma.user.findUnique as unknown as jest.Mock
+const userUpdate = prisma.user.update as unknown as jest.Mock
+const tokenCreate = prisma.userToken.create as unknown as jest.Mock
+const tokenFindUnique = prisma.userToken.findUnique as unknown as jest.Mock
+const tokenUpdateMany = prisma.userToken.updateMany as unknown as jest.Mock
+const apiTokenDeleteMany = prisma.apiToken.deleteMany as unknown as jest.Mock
+const revokeSessions = revokeUserSessions as unknown as jest.Mock
+
+const NOW = Date.parse('2026-10-18T12:00:00Z')
+
+const user = { id: 'user-1', email: 'me@example.com', name: 'Me', role: 'EDITOR' as const }
+
+function storedToken(overrides: Partial<UserToken> = {}): UserToken & { user: typeof user } {
+  return {
+    id: 'token-1',
+    userId: user.id,
+    type: 'PASSWORD_RESET',
+    tokenHash: hashUserToken('secret'),
+    expiresAt: new Date(NOW + USER_TOKEN_TTL_MS.PASSWORD_RESET),
+    usedAt: null,
+    createdAt: new Date(NOW),
+    user,
+    ...overrides,
+  }
+}
+
+let mail: ReturnType<typeof createMemoryTransport>
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  mail = createMemoryTransport()
+  setMailTransport(mail)
+  ;(prisma.$transaction as unknown as jest.Mock).mockImplementation(async (operations: unknown) =>
+    typeof operations === 'function' ? operations(prisma) : operations
+  )
+  process.env.NEXT_PUBLIC_SITE_URL = 'https://example.com'
+})
+
+afterEach(() => {
+  setMailTransport(null)
+  delete process.env.NEXT_PUBLIC_SITE_URL
+})
+
+describe('requestPasswordReset', () => {
+  it('emails a link whose token is stored only as a hash', async () => {
+    userFindUnique.mockResolvedValue(user)
+
+    await requestPasswordReset('me@example.com')
+
+    expect(mail.messages).toHaveLength(1)
+    expect(mail.messages[0].to).toBe('me@example.com')
+
+    const link = mail.messages[0].text.match(/https:\/\/example\.com\/admin\/reset-password\?token=(\S+)/)
+    expect(link).not.toBeNull()
+
+    const token = decodeURIComponent(link![1])
+    const { data } = tokenCreate.mock.calls[0][0] as { data: { tokenHash: string; type: string } }
+    expect(data.type).toBe('PASSWORD_RESET')
+    expect(data.tokenHash).toBe(hashUserToken(token))
+    expect(data.tokenHash).not.toBe(token)
+  })
+
+  it('refuses to email a link without a configured site URL', async () => {
+    userFindUnique.mockResolvedValue(user)
+    delete process.env.NEXT_PUBLIC_SITE_URL
+    const nextAuthUrl = process.env.NEXTAUTH_URL
+    delete process.env.NEXTAUTH_URL
+
+    try {
+      await expect(requestPasswordReset('me@example.com')).rejects.toThrow('must be configured')
+      expect(mail.messages).toHaveLength(0)
+    } finally {
+      if (nextAuthUrl !== undefined) process.env.NEXTAUTH_URL = nextAuthUrl
+    }
+  })
+
+  it('sends nothing for an unknown address', async () => {
+    userFindUnique.mockResolvedValue(null)
+
+    await requestPasswordReset('nobody@example.com')
+
+    expect(mail.messages).toHaveLength(0)
+    expect(tokenCreate).not.toHaveBeenCalled()
+  })
+})
+
+describe('findUserToken', () => {
+  it('returns an unused, unexpired token of the right type', async () => {
+    tokenFindUnique.mockResolvedValue(storedToken())
+    await expect(findUserToken('secret', 'PASSWORD_RESET', NOW)).resolves.toMatchObject({ id: 'token-1' })
+  })
+
+  it('rejects expired, used and mismatched tokens', async () => {
+    tokenFindUnique.mockResolvedValue(storedToken({ expiresAt: new Date(NOW) }))
+    await expect(findUserToken('secret', 'PASSWORD_RESET', NOW)).resolves.toBeNull()
+
+    tokenFindUnique.mockResolvedValue(storedToken({ usedAt: new Date(NOW - 1000) }))
+    await expect(findUserToken('secret', 'PASSWORD_RESET', NOW)).resolves.toBeNull()
+
+    tokenFindUnique.mockResolvedValue(storedToken())
+    await expect(findUserToken('secret', 'INVITATION', NOW)).resolves.toBeNull()
+  })
+})
+
+describe('consumeUserToken', () => {
+  it('fails when another request used the token first', async () => {
+    tokenFindUnique.mockResolvedValue(storedToken())
+    tokenUpdateMany.mockResolvedValue({ count: 0 })
+
+    await expect(consumeUserToken('secret', 'PASSWORD_RESET', NOW)).rejects.toBeInstanceOf(ValidationError)
+  })
+})
+
+describe('setPasswordWithToken', () => {
+  it('marks the token used and stores a new password hash', async () => {
+    tokenFindUnique.mockResolvedValue(storedToken({ expiresAt: new Date(Date.now() + 60000) }))
+    tokenUpdateMany.mockResolvedValue({ count: 1 })
+
+    await expect(setPasswordWithToken('secret', 'A-new-passw0rd!', 'PASSWORD_RESET')).resolves.toEqual(user)
+
+    expect(tokenUpdateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'token-1', usedAt: null } })
+    )
+    const { data } = userUpdate.mock.calls[0][0] as { data: { passwordHash: string } }
+    expect(data.passwordHash).toBeTruthy()
+    expect(data.passwordHash).not.toBe('A-new-passw0rd!')
+  })
+
+  it('revokes API tokens and signs the user out everywhere', async () => {
+    tokenFindUnique.mockResolvedValue(storedToken({ expiresAt: new Date(Date.now() + 60000) }))
+    tokenUpdateMany.mockResolvedValue({ count: 1 })
+
+    await setPasswordWithToken('secret', 'A-new-passw0rd!', 'PASSWORD_RESET')
+
+    expect(prisma.$transaction).toHaveBeenCalledWith(expect.any(Function))
+    expect(apiTokenDeleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } })
+    expect(revokeSessions).toHaveBeenCalledWith('user-1')
+  })
+
+  it('fails without clearing lockouts when the sessions cannot be revoked', async () => {
+    tokenFindUnique.mockResolvedValue(storedToken({ expiresAt: new Date(Date.now() + 60000) }))
+    tokenUpdateMany.mockResolvedValue({ count: 1 })
+    revokeSessions.mockRejectedValueOnce(new Error('database unavailable'))
+
+    await expect(setPasswordWithToken('secret', 'A-new-passw0rd!', 'PASSWORD_RESET')).rejects.toThrow('database unavailable')
+    expect(prisma.loginThrottle.deleteMany).not.toHaveBeenCalled()
+  })
+})
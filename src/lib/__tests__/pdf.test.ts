@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the PDF writer
+ */
+
+import { inflateSync } from 'zlib'
+import { describe, it, expect } from '@jest/globals'
+import { PDFDict, PDFDocument, PDFName, PDFStream } from 'pdf-lib'
+import { PdfDocument } from '../pdf'
+
+/**
+ * Reads the ToUnicode maps of the embedded fonts, which map each glyph back
+ * to the characters it was drawn for
+ */
+async function unicodeMaps(buffer: Buffer): Promise<string> {
+  const pdf = await PDFDocument.load(buffer)
+
+  return pdf.context.enumerateIndirectObjects()
+    .map(([, object]) => object)
+    .filter((object): object is PDFDict => object instanceof PDFDict && object.get(PDFName.of('Subtype')) === PDFName.of('Type0'))
+    .map(font => font.lookup(PDFName.of('ToUnicode'), PDFStream))
+    .map(stream => inflateSync(stream.getContents()).toString('latin1'))
+    .join('\n')
+}
+
+describe('PDF writer', () => {
+  it('should write a document that can be read back with its metadata', async () => {
+    const doc = await PdfDocument.create({ title: 'Resume', author: 'Jane Doe', createdAt: new Date('2026-01-02T03:04:05Z') })
+    doc.text('Hello', 50, 50, { font: 'bold', size: 14 })
+    doc.line(50, 60, 200, 60)
+    doc.rect(50, 70, 100, 20, [0.2, 0.4, 0.6])
+
+    const output = await doc.toBuffer()
+    expect(output.subarray(0, 5).toString('latin1')).toBe('%PDF-')
+
+    const pdf = await PDFDocument.load(output)
+    expect(pdf.getTitle()).toBe('Resume')
+    expect(pdf.getAuthor()).toBe('Jane Doe')
+    expect(pdf.getCreationDate()).toEqual(new Date('2026-01-02T03:04:05Z'))
+  })
+
+  it('should embed fonts that cover non-Latin text', async () => {
+    const doc = await PdfDocument.create()
+    doc.text('Ελένη Παπαδοπούλου', 50, 50)
+    doc.text('Инженер-программист', 50, 70, { font: 'bold' })
+    doc.text('café – naïve', 50, 90, { font: 'italic' })
+
+    expect(doc.measureText('Привет')).toBeGreaterThan(0)
+    expect(doc.measureText('Привет')).not.toBe(doc.measureText('??????'))
+
+    const maps = (await unicodeMaps(await doc.toBuffer())).toLowerCase()
+    // Π, и and ï, one from each face
+    expect(maps).toContain('<03a0>')
+    expect(maps).toContain('<0438>')
+    expect(maps).toContain('<00ef>')
+  })
+
+  it('should wrap text within the given width', async () => {
+    const doc = await PdfDocument.create()
+    const text = 'The quick brown fox jumps over the lazy dog. '.repeat(5)
+    const lines = doc.wrapText(text, 150)
+
+    expect(lines.length).toBeGreaterThan(1)
+    lines.forEach(line => expect(doc.measureText(line)).toBeLessThanOrEqual(150))
+    expect(lines.join(' ')).toBe(text.trim())
+  })
+
+  it('should split words longer than a line', async () => {
+    const doc = await PdfDocument.create()
+    const lines = doc.wrapText('Donaudampfschifffahrtsgesellschaftskapitän', 60)
+
+    expect(lines.length).toBeGreaterThan(1)
+    expect(lines.join('')).toBe('Donaudampfschifffahrtsgesellschaftskapitän')
+  })
+
+  it('should add pages', async () => {
+    const doc = await PdfDocument.create()
+    doc.addPage()
+    doc.addPage()
+
+    const pdf = await PDFDocument.load(await doc.toBuffer())
+    expect(doc.pageCount).toBe(3)
+    expect(pdf.getPageCount()).toBe(3)
+  })
+})
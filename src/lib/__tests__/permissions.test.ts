@@ -0,0 +1,48 @@
+/**
+ * Tests for the admin role permission matrix
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { hasPermission, isAdminRole, pagePermission, permissionsFor, PERMISSIONS } from '../permissions'
+
+describe('hasPermission', () => {
+  it('gives owners every permission', () => {
+    expect(PERMISSIONS.every(permission => hasPermission('OWNER', permission))).toBe(true)
+  })
+
+  it('lets editors edit content but not delete, export or manage users', () => {
+    expect(hasPermission('EDITOR', 'projects:write')).toBe(true)
+    expect(hasPermission('EDITOR', 'profile:write')).toBe(true)
+    expect(hasPermission('EDITOR', 'files:write')).toBe(true)
+    expect(hasPermission('EDITOR', 'files:delete')).toBe(false)
+    expect(hasPermission('EDITOR', 'analytics:export')).toBe(false)
+    expect(hasPermission('EDITOR', 'users:manage')).toBe(false)
+  })
+
+  it('only lets viewers read', () => {
+    expect(permissionsFor('VIEWER').every(permission => permission.endsWith(':read'))).toBe(true)
+    expect(hasPermission('VIEWER', 'audit:read')).toBe(false)
+    expect(hasPermission('VIEWER', 'contacts:read')).toBe(true)
+    expect(hasPermission('VIEWER', 'contacts:write')).toBe(false)
+  })
+
+  it('denies unknown roles', () => {
+    expect(isAdminRole('ADMIN')).toBe(false)
+    expect(hasPermission('ADMIN', 'projects:read')).toBe(false)
+    expect(hasPermission(undefined, 'projects:read')).toBe(false)
+    expect(permissionsFor(null)).toEqual([])
+  })
+})
+
+describe('pagePermission', () => {
+  it('maps admin pages and their subpages to a permission', () => {
+    expect(pagePermission('/admin/analytics')).toBe('analytics:read')
+    expect(pagePermission('/admin/projects/new')).toBe('projects:read')
+    expect(pagePermission('/admin/users')).toBe('users:manage')
+  })
+
+  it('leaves the dashboard open to every role', () => {
+    expect(pagePermission('/admin')).toBeNull()
+    expect(pagePermission('/admin/projectsarchive')).toBeNull()
+  })
+})
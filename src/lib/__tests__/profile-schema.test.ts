@@ -0,0 +1,98 @@
+/**
+ * Tests for profile, experience and education validation
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  educationEntrySchema,
+  experienceEntrySchema,
+  formatSchemaError,
+  profileUpdateSchema,
+  schemaFieldErrors,
+} from '../profile-schema'
+
+const experience = {
+  company: 'Acme',
+  position: 'Engineer',
+  startDate: '2021-03',
+  endDate: '',
+  description: 'Built things',
+}
+
+const basics = {
+  name: 'Siri',
+  title: 'Developer',
+  bio: 'Hello',
+  email: 'me@example.com',
+}
+
+describe('Profile validation', () => {
+  it('should normalise blank end dates and missing technologies', () => {
+    const result = experienceEntrySchema.parse(experience)
+
+    expect(result.endDate).toBeNull()
+    expect(result.technologies).toEqual([])
+  })
+
+  it('should reject malformed dates and entries ending before they start', () => {
+    expect(experienceEntrySchema.safeParse({ ...experience, startDate: 'March 2021' }).success).toBe(false)
+
+    const result = educationEntrySchema.safeParse({
+      institution: 'Uni',
+      degree: 'BSc',
+      field: 'CS',
+      startDate: '2020-09',
+      endDate: '2019-06',
+    })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].path).toEqual(['endDate'])
+  })
+
+  it('should leave omitted optional fields unset and clear blank ones', () => {
+    const result = profileUpdateSchema.parse({ ...basics, phone: '  ' })
+
+    expect(result.phone).toBeNull()
+    expect(result.location).toBeUndefined()
+    expect(result.experience).toBeUndefined()
+  })
+
+  it('should name the entry a validation error belongs to', () => {
+    const result = profileUpdateSchema.safeParse({
+      ...basics,
+      experience: [experience, { ...experience, company: '' }],
+    })
+
+    expect(result.success).toBe(false)
+    expect(formatSchemaError(result.error!)).toBe('Experience entry 2: Company is required')
+  })
+
+  it('should report errors for each invalid field by path', () => {
+    const result = profileUpdateSchema.safeParse({
+      ...basics,
+      name: ' ',
+      email: 'not-an-email',
+      socialLinks: { github: 'github.com/siri', twitter: '', mastodon: 'https://example.social/@siri' },
+      experience: [{ ...experience, position: '' }],
+    })
+
+    expect(result.success).toBe(false)
+    expect(schemaFieldErrors(result.error!)).toEqual({
+      name: 'Name is required',
+      email: 'Please enter a valid email address',
+      'socialLinks.github': 'Please enter a valid URL',
+      'experience.0.position': 'Position is required',
+    })
+  })
+
+  it('should drop blank social links and keep other networks', () => {
+    const result = profileUpdateSchema.parse({
+      ...basics,
+      socialLinks: { github: 'https://github.com/siri', twitter: '', mastodon: 'https://example.social/@siri' },
+    })
+
+    expect(result.socialLinks).toEqual({
+      github: 'https://github.com/siri',
+      mastodon: 'https://example.social/@siri',
+    })
+  })
+})
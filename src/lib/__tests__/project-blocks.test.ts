@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for project content blocks
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { getProjectBlocks, parseProjectBlocks, projectBlocksToText } from '../project-blocks'
+import { ProjectBlock } from '@/types'
+
+const blocks: ProjectBlock[] = [
+  { id: 'block-1', type: 'problem', heading: 'The problem', markdown: 'Slow builds' },
+  { id: 'block-2', type: 'metrics', items: [{ label: 'Build time', value: '-80%' }] },
+  { id: 'block-3', type: 'quote', text: 'Much faster', author: 'A client' },
+  { id: 'block-4', type: 'code', language: 'ts', code: 'build()', caption: '' },
+  { id: 'block-5', type: 'gallery', images: ['https://example.com/one.png'], caption: 'Screenshots' },
+]
+
+describe('parseProjectBlocks', () => {
+  it('accepts valid blocks', () => {
+    expect(parseProjectBlocks(blocks)).toEqual({ blocks })
+  })
+
+  it('treats missing input as no blocks', () => {
+    expect(parseProjectBlocks(undefined)).toEqual({ blocks: [] })
+    expect(parseProjectBlocks(null)).toEqual({ blocks: [] })
+  })
+
+  it('names the block that failed validation', () => {
+    const result = parseProjectBlocks([
+      blocks[0],
+      { id: 'block-2', type: 'gallery', images: ['not a url'] },
+    ])
+
+    expect(result.blocks).toEqual([])
+    expect(result.error).toMatch(/^Block 2: /)
+  })
+
+  it('only accepts http and https image URLs', () => {
+    for (const url of ['javascript:alert(1)', 'data:image/svg+xml;base64,AAAA', 'ftp://example.com/one.png']) {
+      expect(parseProjectBlocks([{ id: 'block-1', type: 'architecture', imageUrl: url }]).error).toMatch(/http/)
+      expect(parseProjectBlocks([{ id: 'block-1', type: 'gallery', images: [url] }]).error).toMatch(/http/)
+    }
+  })
+
+  it('rejects unknown block types and payloads that are not lists', () => {
+    expect(parseProjectBlocks([{ id: 'block-1', type: 'video', url: 'https://example.com' }]).error).toBeDefined()
+    expect(parseProjectBlocks({ type: 'text', markdown: 'Hello' }).error).toBeDefined()
+  })
+})
+
+describe('getProjectBlocks', () => {
+  const project = (contentBlocks: unknown, description = 'Plain text') =>
+    ({ id: 'project-1', description, contentBlocks }) as Parameters<typeof getProjectBlocks>[0]
+
+  it('returns the stored blocks', () => {
+    expect(getProjectBlocks(project(blocks))).toEqual(blocks)
+  })
+
+  it('falls back to the description for projects without valid blocks', () => {
+    const fallback = [{ id: 'block-project-1', type: 'text', markdown: 'Plain text' }]
+
+    expect(getProjectBlocks(project(null))).toEqual(fallback)
+    expect(getProjectBlocks(project([]))).toEqual(fallback)
+    expect(getProjectBlocks(project([{ type: 'text' }]))).toEqual(fallback)
+    expect(getProjectBlocks(project(null, ''))).toEqual([])
+  })
+})
+
+describe('projectBlocksToText', () => {
+  it('flattens blocks into plain text and skips empty ones', () => {
+    expect(projectBlocksToText(blocks)).toBe(
+      'The problem\n\nSlow builds\n\nBuild time: -80%\n\n"Much faster" — A client\n\nScreenshots'
+    )
+  })
+})
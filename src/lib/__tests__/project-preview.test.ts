@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for signed project preview links
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    projectPreviewToken: { findUnique: jest.fn() },
+  },
+}))
+
+import { signPreviewToken, verifyPreviewToken } from '../project-preview'
+import { prisma } from '../prisma'
+
+const findToken = prisma.projectPreviewToken.findUnique as unknown as jest.Mock
+
+const inOneDay = () => new Date(Math.floor(Date.now() / 1000 + 24 * 60 * 60) * 1000)
+
+function previewRecord(overrides: object = {}) {
+  return {
+    id: 'preview-1',
+    projectId: 'project-1',
+    expiresAt: inOneDay(),
+    revokedAt: null,
+    project: { id: 'project-1', slug: 'portfolio' },
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  process.env.PREVIEW_SECRET = 'test-preview-secret'
+})
+
+afterEach(() => {
+  delete process.env.PREVIEW_SECRET
+})
+
+describe('verifyPreviewToken', () => {
+  it('accepts a valid token for its project', async () => {
+    const record = previewRecord()
+    findToken.mockResolvedValue(record)
+
+    await expect(verifyPreviewToken(signPreviewToken(record), 'portfolio')).resolves.toBe(record)
+    expect(findToken).toHaveBeenCalledWith({ where: { id: 'preview-1' }, include: { project: true } })
+  })
+
+  it('rejects a token used for another project', async () => {
+    const record = previewRecord()
+    findToken.mockResolvedValue(record)
+
+    await expect(verifyPreviewToken(signPreviewToken(record), 'another-project')).resolves.toBeNull()
+  })
+
+  it('rejects tampered tokens', async () => {
+    const record = previewRecord()
+    findToken.mockResolvedValue(record)
+    const [id, expires, signature] = signPreviewToken(record).split('.')
+
+    // A later expiry invalidates the signature
+    await expect(verifyPreviewToken(`${id}.${Number(expires) + 3600}.${signature}`, 'portfolio')).resolves.toBeNull()
+    await expect(verifyPreviewToken(`${id}.${expires}.${signature.slice(1)}x`, 'portfolio')).resolves.toBeNull()
+    await expect(verifyPreviewToken('not-a-token', 'portfolio')).resolves.toBeNull()
+  })
+
+  it('rejects tokens signed with another secret', async () => {
+    const record = previewRecord()
+    findToken.mockResolvedValue(record)
+    const token = signPreviewToken(record)
+
+    process.env.PREVIEW_SECRET = 'rotated-secret'
+
+    await expect(verifyPreviewToken(token, 'portfolio')).resolves.toBeNull()
+  })
+
+  it('rejects expired tokens without a lookup', async () => {
+    const record = previewRecord({ expiresAt: new Date(Math.floor(Date.now() / 1000 - 60) * 1000) })
+
+    await expect(verifyPreviewToken(signPreviewToken(record), 'portfolio')).resolves.toBeNull()
+    expect(findToken).not.toHaveBeenCalled()
+  })
+
+  it('rejects revoked tokens', async () => {
+    const record = previewRecord({ revokedAt: new Date() })
+    findToken.mockResolvedValue(record)
+
+    await expect(verifyPreviewToken(signPreviewToken(record), 'portfolio')).resolves.toBeNull()
+  })
+})
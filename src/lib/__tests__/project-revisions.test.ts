@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for project revision diffs and restores
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    projectRevision: { findFirst: jest.fn() },
+  },
+}))
+
+jest.mock('../technologies', () => ({
+  resolveTechnologies: jest.fn(),
+}))
+
+import { diffRevisions, restoreProjectRevision, RevisionSnapshot } from '../project-revisions'
+import { resolveTechnologies } from '../technologies'
+import { ValidationError } from '../error-handler'
+import { prisma } from '../prisma'
+
+const findRevision = prisma.projectRevision.findFirst as unknown as jest.Mock
+const transaction = prisma.$transaction as unknown as jest.Mock
+const resolve = resolveTechnologies as unknown as jest.Mock
+
+const snapshot: RevisionSnapshot = {
+  title: 'Portfolio',
+  description: 'A personal site',
+  shortDescription: 'Site',
+  contentBlocks: [{ type: 'paragraph', text: 'Hello' }],
+  technologies: ['React', 'Prisma'],
+  images: ['one.png'],
+  liveUrl: 'https://example.com',
+  githubUrl: null,
+  status: 'DRAFT',
+}
+
+describe('diffRevisions', () => {
+  it('returns nothing for identical snapshots', () => {
+    expect(diffRevisions(snapshot, { ...snapshot, technologies: ['React', 'Prisma'] })).toEqual([])
+  })
+
+  it('reports changed fields with their values', () => {
+    const changes = diffRevisions(snapshot, { ...snapshot, title: 'Portfolio v2', status: 'PUBLISHED' })
+
+    expect(changes).toEqual([
+      { field: 'title', before: 'Portfolio', after: 'Portfolio v2' },
+      { field: 'status', before: 'DRAFT', after: 'PUBLISHED' },
+    ])
+  })
+
+  it('treats fields that were added or removed as changes', () => {
+    const changes = diffRevisions(snapshot, { ...snapshot, liveUrl: null, githubUrl: 'https://github.com/example' })
+
+    expect(changes.map(change => change.field)).toEqual(['liveUrl', 'githubUrl'])
+    expect(changes[0]).toMatchObject({ before: 'https://example.com', after: null })
+    expect(changes[1]).toMatchObject({ before: null, after: 'https://github.com/example' })
+  })
+
+  it('lists values added to and removed from lists', () => {
+    const [change] = diffRevisions(snapshot, { ...snapshot, technologies: ['React', 'Next.js'] })
+
+    expect(change).toMatchObject({ field: 'technologies', added: ['Next.js'], removed: ['Prisma'] })
+  })
+
+  it('compares content blocks by value', () => {
+    expect(diffRevisions(snapshot, { ...snapshot, contentBlocks: [{ type: 'paragraph', text: 'Hello' }] })).toEqual([])
+    expect(diffRevisions(snapshot, { ...snapshot, contentBlocks: [] })[0]).toMatchObject({ field: 'contentBlocks' })
+  })
+})
+
+describe('restoreProjectRevision', () => {
+  const tx = {
+    project: { findUnique: jest.fn(), update: jest.fn() },
+    projectRevision: { create: jest.fn() },
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    transaction.mockImplementation(async (callback: unknown) => (callback as (client: typeof tx) => unknown)(tx))
+  })
+
+  it('returns null when the revision is not part of the project', async () => {
+    findRevision.mockResolvedValue(null)
+
+    await expect(restoreProjectRevision('revision-1', 'project-1')).resolves.toBeNull()
+    expect(findRevision).toHaveBeenCalledWith({ where: { id: 'revision-1', projectId: 'project-1' } })
+    expect(transaction).not.toHaveBeenCalled()
+  })
+
+  it('copies the snapshot onto the project and records the restore as a new revision', async () => {
+    findRevision.mockResolvedValue({ id: 'revision-1', projectId: 'project-1', ...snapshot })
+    resolve.mockResolvedValue([{ id: 'tech-1', name: 'React' }, { id: 'tech-2', name: 'Prisma' }])
+    const project = { id: 'project-1', ...snapshot }
+    tx.project.update.mockResolvedValue(project)
+    tx.projectRevision.create.mockResolvedValue({ id: 'revision-2' })
+
+    const result = await restoreProjectRevision('revision-1', 'project-1', { id: 'user-1', name: 'Ada' })
+
+    expect(resolve).toHaveBeenCalledWith(['React', 'Prisma'], tx)
+    expect(tx.project.update).toHaveBeenCalledWith({
+      where: { id: 'project-1' },
+      data: {
+        ...snapshot,
+        technologies: ['React', 'Prisma'],
+        technologyRefs: { set: [{ id: 'tech-1' }, { id: 'tech-2' }] },
+      },
+    })
+    expect(tx.projectRevision.create).toHaveBeenCalledWith({
+      data: { ...snapshot, projectId: 'project-1', authorId: 'user-1', authorName: 'Ada' },
+    })
+    expect(result).toEqual({ project, revision: { id: 'revision-2' } })
+  })
+
+  it('restores a scheduled revision while the project has a publish date', async () => {
+    findRevision.mockResolvedValue({ id: 'revision-1', projectId: 'project-1', ...snapshot, status: 'SCHEDULED' })
+    resolve.mockResolvedValue([])
+    tx.project.findUnique.mockResolvedValue({ publishAt: new Date('2026-11-01T09:00:00Z') })
+    tx.project.update.mockResolvedValue({ id: 'project-1', ...snapshot, status: 'SCHEDULED' })
+
+    await restoreProjectRevision('revision-1', 'project-1')
+
+    expect(tx.project.update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ status: 'SCHEDULED' }) }))
+  })
+
+  it('refuses to restore a scheduled revision onto a project without a publish date', async () => {
+    findRevision.mockResolvedValue({ id: 'revision-1', projectId: 'project-1', ...snapshot, status: 'SCHEDULED' })
+    tx.project.findUnique.mockResolvedValue({ publishAt: null })
+
+    await expect(restoreProjectRevision('revision-1', 'project-1')).rejects.toThrow(ValidationError)
+    expect(tx.project.update).not.toHaveBeenCalled()
+  })
+})
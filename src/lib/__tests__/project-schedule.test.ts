@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for scheduled publishing and public project visibility
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    project: { findMany: jest.fn() },
+  },
+}))
+
+jest.mock('../project-revisions', () => ({
+  createProjectRevision: jest.fn(),
+}))
+
+jest.mock('../audit-log', () => ({
+  recordAudit: jest.fn(),
+}))
+
+import { parseProjectSchedule, runProjectSchedule } from '../project-schedule'
+import { isProjectPublic, publicProjectWhere } from '../project-visibility'
+import { createProjectRevision } from '../project-revisions'
+import { recordAudit } from '../audit-log'
+import { prisma } from '../prisma'
+
+const findProjects = prisma.project.findMany as unknown as jest.Mock
+const transaction = prisma.$transaction as unknown as jest.Mock
+const createRevision = createProjectRevision as unknown as jest.Mock
+const audit = recordAudit as unknown as jest.Mock
+
+const now = new Date('2026-10-19T12:00:00Z')
+const past = '2026-10-18T12:00:00Z'
+const future = '2026-10-20T12:00:00Z'
+
+describe('parseProjectSchedule', () => {
+  it('accepts publish dates in the past and the future', () => {
+    expect(parseProjectSchedule({ status: 'SCHEDULED', publishAt: past })).toEqual({
+      publishAt: new Date(past),
+      unpublishAt: null,
+    })
+    expect(parseProjectSchedule({ status: 'SCHEDULED', publishAt: future, unpublishAt: '2026-10-21T12:00:00Z' })).toEqual({
+      publishAt: new Date(future),
+      unpublishAt: new Date('2026-10-21T12:00:00Z'),
+    })
+  })
+
+  it('requires a publish date for scheduled projects', () => {
+    expect(parseProjectSchedule({ status: 'SCHEDULED' }).error).toBe('Scheduled projects require a publish date')
+    expect(parseProjectSchedule({ status: 'DRAFT' }).error).toBeUndefined()
+  })
+
+  it('rejects invalid dates and windows that close before they open', () => {
+    expect(parseProjectSchedule({ publishAt: 'not a date' }).error).toBe('Invalid publish or unpublish date')
+    expect(parseProjectSchedule({ publishAt: future, unpublishAt: past }).error).toBe(
+      'Unpublish date must be after the publish date'
+    )
+  })
+})
+
+describe('runProjectSchedule', () => {
+  const tx = { project: { update: jest.fn() } }
+  const expired = [{ id: 'project-1', slug: 'old', status: 'PUBLISHED', publishAt: null, unpublishAt: new Date(past) }]
+  const due = [{ id: 'project-2', slug: 'new', status: 'SCHEDULED', publishAt: new Date(past), unpublishAt: null }]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    transaction.mockImplementation(async (callback: unknown) => (callback as (client: typeof tx) => unknown)(tx))
+    tx.project.update.mockImplementation(({ where, data }: { where: { id: string }; data: object }) => ({
+      ...[...expired, ...due].find(project => project.id === where.id),
+      ...data,
+    }))
+  })
+
+  it('publishes scheduled projects that are due', async () => {
+    findProjects.mockResolvedValueOnce([]).mockResolvedValueOnce(due)
+
+    const result = await runProjectSchedule(now)
+
+    expect(findProjects).toHaveBeenLastCalledWith({
+      where: { status: 'SCHEDULED', publishAt: { lte: now } },
+    })
+    expect(tx.project.update).toHaveBeenCalledWith({ where: { id: 'project-2' }, data: { status: 'PUBLISHED' } })
+    expect(result).toEqual({ published: ['new'], unpublished: [] })
+  })
+
+  it('records a revision and an audit entry for each change', async () => {
+    findProjects.mockResolvedValueOnce(expired).mockResolvedValueOnce(due)
+
+    await runProjectSchedule(now)
+
+    expect(tx.project.update).toHaveBeenCalledWith({
+      where: { id: 'project-1' },
+      data: { status: 'DRAFT', unpublishAt: null },
+    })
+    expect(createRevision).toHaveBeenCalledTimes(2)
+    expect(createRevision).toHaveBeenCalledWith(expect.objectContaining({ id: 'project-2', status: 'PUBLISHED' }), null, tx)
+    expect(audit).toHaveBeenCalledWith(
+      {
+        action: 'project.status_change',
+        entityType: 'project',
+        entityId: 'project-2',
+        before: { status: 'SCHEDULED', publishAt: new Date(past), unpublishAt: null },
+        after: { status: 'PUBLISHED', publishAt: new Date(past), unpublishAt: null },
+      },
+      null
+    )
+  })
+
+  it('leaves everything alone when nothing is due', async () => {
+    findProjects.mockResolvedValue([])
+
+    await expect(runProjectSchedule(now)).resolves.toEqual({ published: [], unpublished: [] })
+    expect(transaction).not.toHaveBeenCalled()
+    expect(audit).not.toHaveBeenCalled()
+  })
+})
+
+describe('publicProjectWhere', () => {
+  it('includes published and due scheduled projects that have not expired', () => {
+    const notExpired = { OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }] }
+
+    expect(publicProjectWhere(now)).toEqual({
+      OR: [
+        { status: 'PUBLISHED', ...notExpired },
+        { status: 'SCHEDULED', publishAt: { lte: now }, ...notExpired },
+      ],
+    })
+  })
+
+  it('agrees with isProjectPublic', () => {
+    expect(isProjectPublic({ status: 'SCHEDULED', publishAt: new Date(past), unpublishAt: null }, now)).toBe(true)
+    expect(isProjectPublic({ status: 'SCHEDULED', publishAt: new Date(future), unpublishAt: null }, now)).toBe(false)
+    expect(isProjectPublic({ status: 'PUBLISHED', publishAt: null, unpublishAt: new Date(past) }, now)).toBe(false)
+    expect(isProjectPublic({ status: 'DRAFT', publishAt: null, unpublishAt: null }, now)).toBe(false)
+  })
+})
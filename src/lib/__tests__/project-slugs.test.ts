@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for slug conflicts, slug history and redirects from renamed projects
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    project: { findFirst: jest.fn() },
+    projectSlugHistory: { findUnique: jest.fn() },
+  },
+}))
+
+jest.mock('../project-preview', () => ({
+  verifyPreviewToken: jest.fn(),
+}))
+
+import { findSlugConflict, recordSlugChange, resolveHistoricalSlug } from '../project-slugs'
+import { verifyPreviewToken } from '../project-preview'
+import { prisma } from '../prisma'
+
+const findProject = prisma.project.findFirst as unknown as jest.Mock
+const findHistory = prisma.projectSlugHistory.findUnique as unknown as jest.Mock
+const verifyToken = verifyPreviewToken as unknown as jest.Mock
+
+function historyFor(project: object) {
+  return {
+    slug: 'old-name',
+    projectId: 'project-1',
+    project: { slug: 'new-name', publishAt: null, unpublishAt: null, ...project },
+  }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  findProject.mockResolvedValue(null)
+  findHistory.mockResolvedValue(null)
+  verifyToken.mockResolvedValue(null)
+})
+
+describe('findSlugConflict', () => {
+  it('reports a project that currently uses the slug', async () => {
+    findProject.mockResolvedValue({ id: 'project-2', title: 'Other project' })
+
+    await expect(findSlugConflict('taken', 'project-1')).resolves.toEqual({
+      type: 'project',
+      projectId: 'project-2',
+      projectTitle: 'Other project',
+    })
+    expect(findProject).toHaveBeenCalledWith({
+      where: { slug: 'taken', id: { not: 'project-1' } },
+      select: { id: true, title: true },
+    })
+  })
+
+  it('reports a slug another project still redirects from', async () => {
+    findHistory.mockResolvedValue({
+      slug: 'old-name',
+      projectId: 'project-2',
+      project: { id: 'project-2', title: 'Renamed project' },
+    })
+
+    await expect(findSlugConflict('old-name', 'project-1')).resolves.toEqual({
+      type: 'history',
+      projectId: 'project-2',
+      projectTitle: 'Renamed project',
+    })
+  })
+
+  it('lets a project take back one of its own old slugs', async () => {
+    findHistory.mockResolvedValue({
+      slug: 'old-name',
+      projectId: 'project-1',
+      project: { id: 'project-1', title: 'My project' },
+    })
+
+    await expect(findSlugConflict('old-name', 'project-1')).resolves.toBeNull()
+  })
+})
+
+describe('recordSlugChange', () => {
+  const tx = {
+    projectSlugHistory: { deleteMany: jest.fn(), upsert: jest.fn() },
+  }
+
+  const change = (oldSlug: string, newSlug: string) =>
+    recordSlugChange(tx as unknown as Parameters<typeof recordSlugChange>[0], 'project-1', oldSlug, newSlug)
+
+  it('does nothing when the slug is unchanged', async () => {
+    await change('same', 'same')
+
+    expect(tx.projectSlugHistory.upsert).not.toHaveBeenCalled()
+  })
+
+  it('keeps every slug of a rename chain pointing at the project', async () => {
+    await change('first', 'second')
+    await change('second', 'third')
+
+    expect(tx.projectSlugHistory.upsert).toHaveBeenNthCalledWith(1, {
+      where: { slug: 'first' },
+      update: { projectId: 'project-1' },
+      create: { projectId: 'project-1', slug: 'first' },
+    })
+    expect(tx.projectSlugHistory.upsert).toHaveBeenNthCalledWith(2, {
+      where: { slug: 'second' },
+      update: { projectId: 'project-1' },
+      create: { projectId: 'project-1', slug: 'second' },
+    })
+  })
+
+  it('drops a slug from the history when the project takes it back', async () => {
+    await change('third', 'first')
+
+    expect(tx.projectSlugHistory.deleteMany).toHaveBeenCalledWith({
+      where: { projectId: 'project-1', slug: 'first' },
+    })
+    expect(tx.projectSlugHistory.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { slug: 'third' } }))
+  })
+})
+
+describe('resolveHistoricalSlug', () => {
+  it('redirects old slugs of public projects', async () => {
+    findHistory.mockResolvedValue(historyFor({ status: 'PUBLISHED' }))
+
+    await expect(resolveHistoricalSlug('old-name')).resolves.toBe('new-name')
+    expect(verifyToken).not.toHaveBeenCalled()
+  })
+
+  it('returns null for slugs that were never used', async () => {
+    await expect(resolveHistoricalSlug('unknown')).resolves.toBeNull()
+  })
+
+  it('does not reveal the slug of drafts and projects that are not live yet', async () => {
+    findHistory.mockResolvedValueOnce(historyFor({ status: 'DRAFT' }))
+    await expect(resolveHistoricalSlug('old-name')).resolves.toBeNull()
+
+    findHistory.mockResolvedValueOnce(historyFor({ status: 'SCHEDULED', publishAt: new Date(Date.now() + 60000) }))
+    await expect(resolveHistoricalSlug('old-name', 'invalid-token')).resolves.toBeNull()
+    expect(verifyToken).toHaveBeenCalledWith('invalid-token', 'new-name')
+  })
+
+  it('redirects unpublished projects for a valid preview token', async () => {
+    findHistory.mockResolvedValue(historyFor({ status: 'DRAFT' }))
+    verifyToken.mockResolvedValue({ id: 'preview-1' })
+
+    await expect(resolveHistoricalSlug('old-name', 'preview-token')).resolves.toBe('new-name')
+  })
+})
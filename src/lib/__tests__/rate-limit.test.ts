@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the rate limiter, its policies and stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    rateLimit: { deleteMany: jest.fn() },
+  },
+}))
+
+import {
+  createMemoryStore,
+  createPostgresStore,
+  createRateLimiter,
+  deleteExpiredRateLimits,
+  rateLimitHeaders,
+  RateLimitStore,
+  setRateLimitStore,
+  slidingWindow,
+  tokenBucket,
+} from '../rate-limit'
+import { RateLimitError } from '../error-handler'
+import { prisma } from '../prisma'
+
+const transaction = prisma.$transaction as unknown as jest.Mock
+
+describe('slidingWindow', () => {
+  const policy = slidingWindow({ limit: 2, windowMs: 60000 })
+
+  it('allows the limit within the window, then waits for the oldest request to expire', () => {
+    const first = policy.consume(null, 1000)
+    const second = policy.consume(first.state, 21000)
+    const third = policy.consume(second.state, 31000)
+
+    expect(first.result).toMatchObject({ allowed: true, remaining: 1 })
+    expect(second.result).toMatchObject({ allowed: true, remaining: 0, resetMs: 40000 })
+    expect(third.result).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 30000 })
+    expect(third.state).toEqual(second.state)
+
+    expect(policy.consume(third.state, 61001).result).toMatchObject({ allowed: true, remaining: 0 })
+  })
+})
+
+describe('tokenBucket', () => {
+  const policy = tokenBucket({ capacity: 2, refillEveryMs: 10000 })
+
+  it('allows a burst, then refills one token at a time', () => {
+    const first = policy.consume(null, 0)
+    const second = policy.consume(first.state, 0)
+    const third = policy.consume(second.state, 4000)
+
+    expect(second.result).toMatchObject({ allowed: true, remaining: 0, resetMs: 20000 })
+    expect(third.result).toMatchObject({ allowed: false, retryAfterMs: 6000 })
+    expect(policy.consume(third.state, 10000).result).toMatchObject({ allowed: true, remaining: 0 })
+  })
+})
+
+describe('rateLimitHeaders', () => {
+  it('describes the limit, adding Retry-After when denied', () => {
+    const result = {
+      allowed: false,
+      limit: 5,
+      remaining: 0,
+      resetMs: 899500,
+      retryAfterMs: 120200,
+      policy: '5;w=900',
+    }
+
+    expect(rateLimitHeaders(result)).toEqual({
+      'RateLimit-Limit': '5',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '900',
+      'RateLimit-Policy': '5;w=900',
+      'Retry-After': '121',
+    })
+    expect(rateLimitHeaders({ ...result, allowed: true })).not.toHaveProperty('Retry-After')
+  })
+})
+
+describe('createRateLimiter', () => {
+  afterEach(() => {
+    setRateLimitStore(null)
+  })
+
+  it('throws RateLimitError with headers once the limit is reached', async () => {
+    setRateLimitStore(createMemoryStore())
+    const limiter = createRateLimiter({ name: 'test', policy: slidingWindow({ limit: 1, windowMs: 15 * 60 * 1000 }) })
+
+    await limiter.limit('1.2.3.4')
+    const error = await limiter.limit('1.2.3.4').catch(caught => caught)
+
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error.message).toBe('Too many requests. Please try again in 15 minutes.')
+    expect(error.headers).toMatchObject({ 'RateLimit-Remaining': '0', 'Retry-After': '900' })
+    // Other keys have their own count
+    await expect(limiter.limit('5.6.7.8')).resolves.toMatchObject({ allowed: true })
+  })
+
+  it('keeps limiters apart in a shared store', async () => {
+    const store = createMemoryStore()
+    const policy = slidingWindow({ limit: 1, windowMs: 60000 })
+
+    await createRateLimiter({ name: 'a', policy, store }).limit('key')
+
+    await expect(createRateLimiter({ name: 'b', policy, store }).check('key')).resolves.toMatchObject({ allowed: true })
+  })
+
+  it('allows requests when the store fails', async () => {
+    const failing: RateLimitStore = { consume: () => Promise.reject(new Error('database down')) }
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const limiter = createRateLimiter({ name: 'test', policy: tokenBucket({ capacity: 3, refillEveryMs: 1000 }), store: failing })
+
+    await expect(limiter.limit('key')).resolves.toMatchObject({ allowed: true, remaining: 3 })
+    expect(error).toHaveBeenCalled()
+    error.mockRestore()
+  })
+})
+
+describe('createPostgresStore', () => {
+  const tx = {
+    $executeRaw: jest.fn(),
+    $queryRaw: jest.fn(),
+    rateLimit: { update: jest.fn() },
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    transaction.mockImplementation(async (callback: unknown) => (callback as (client: typeof tx) => unknown)(tx))
+  })
+
+  it('applies the policy to the locked row and saves the new state', async () => {
+    const policy = slidingWindow({ limit: 3, windowMs: 60000 })
+    tx.$queryRaw.mockResolvedValue([{ state: { hits: [50000] }, expiresAt: new Date(110000) }])
+
+    const result = await createPostgresStore().consume('contact:1.2.3.4', policy, 100000)
+
+    expect(result).toMatchObject({ allowed: true, remaining: 1 })
+    expect(tx.$executeRaw).toHaveBeenCalled()
+    expect(tx.rateLimit.update).toHaveBeenCalledWith({
+      where: { key: 'contact:1.2.3.4' },
+      data: { state: { hits: [50000, 100000] }, expiresAt: new Date(160000) },
+    })
+  })
+
+  it('ignores expired state', async () => {
+    const policy = tokenBucket({ capacity: 2, refillEveryMs: 1000 })
+    tx.$queryRaw.mockResolvedValue([{ state: { tokens: 0, updatedAt: 0 }, expiresAt: new Date(0) }])
+
+    const result = await createPostgresStore().consume('login:1.2.3.4', policy, 100)
+
+    expect(result).toMatchObject({ allowed: true, remaining: 1 })
+  })
+})
+
+describe('deleteExpiredRateLimits', () => {
+  it('deletes rows that expired before now', async () => {
+    const deleteMany = prisma.rateLimit.deleteMany as unknown as jest.Mock
+    deleteMany.mockResolvedValue({ count: 3 })
+
+    await expect(deleteExpiredRateLimits(new Date(100000))).resolves.toBe(3)
+    expect(deleteMany).toHaveBeenCalledWith({ where: { expiresAt: { lt: new Date(100000) } } })
+  })
+})
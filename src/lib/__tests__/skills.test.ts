@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for skill validation and ordering
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+  },
+}))
+
+jest.mock('../technologies', () => ({
+  resolveTechnologies: jest.fn(),
+}))
+
+import { createSkill, reorderSkills, skillInputSchema, upsertSkills } from '../skills'
+import { resolveTechnologies } from '../technologies'
+import { ValidationError } from '../error-handler'
+import { prisma } from '../prisma'
+
+const transaction = prisma.$transaction as unknown as jest.Mock
+const resolve = resolveTechnologies as unknown as jest.Mock
+
+const tx = {
+  skill: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  profile: { findFirst: jest.fn(), update: jest.fn() },
+}
+
+const react = { id: 'tech-react', name: 'React', icon: null }
+const input = { name: 'React', category: 'Frontend', level: 90 }
+
+function skill(id: string, order: number) {
+  return { id, order, technologyId: `tech-${id}`, technology: { name: id } }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  transaction.mockImplementation(async (callback: unknown) => (callback as (client: typeof tx) => unknown)(tx))
+  resolve.mockResolvedValue([react])
+  tx.skill.findMany.mockResolvedValue([])
+  tx.skill.findFirst.mockResolvedValue(null)
+  tx.profile.findFirst.mockResolvedValue(null)
+})
+
+describe('skillInputSchema', () => {
+  it('accepts a complete skill and trims text', () => {
+    expect(skillInputSchema.parse({ ...input, name: ' React ', yearsOfExperience: 4 })).toEqual({
+      ...input,
+      yearsOfExperience: 4,
+    })
+  })
+
+  it('requires a name and category', () => {
+    expect(skillInputSchema.safeParse({ ...input, name: ' ' }).error?.issues[0].message).toBe('Name is required')
+    expect(skillInputSchema.safeParse({ ...input, category: '' }).error?.issues[0].message).toBe('Category is required')
+  })
+
+  it('keeps proficiency between 0 and 100', () => {
+    expect(skillInputSchema.safeParse({ ...input, level: 101 }).error?.issues[0].message).toBe(
+      'Proficiency must be between 0 and 100'
+    )
+    expect(skillInputSchema.safeParse({ ...input, level: -1 }).success).toBe(false)
+    expect(skillInputSchema.safeParse({ ...input, level: 50.5 }).success).toBe(false)
+  })
+})
+
+describe('createSkill', () => {
+  it('adds the skill at the end of the list', async () => {
+    tx.skill.findFirst.mockImplementation(({ orderBy }: { orderBy?: object }) => (orderBy ? skill('node', 4) : null))
+
+    await createSkill(input)
+
+    expect(tx.skill.create).toHaveBeenCalledWith({
+      data: {
+        technologyId: 'tech-react',
+        category: 'Frontend',
+        level: 90,
+        yearsOfExperience: null,
+        icon: null,
+        order: 5,
+      },
+      include: { technology: true },
+    })
+  })
+
+  it('starts the list at zero', async () => {
+    await createSkill(input)
+
+    expect(tx.skill.create).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ order: 0 }) }))
+  })
+
+  it('refuses a second skill for the same technology', async () => {
+    tx.skill.findFirst.mockResolvedValue({ id: 'skill-1', technology: react })
+
+    await expect(createSkill({ ...input, name: 'ReactJS' })).rejects.toThrow(ValidationError)
+    expect(tx.skill.create).not.toHaveBeenCalled()
+  })
+})
+
+describe('upsertSkills', () => {
+  it('updates known skills and appends new ones in order', async () => {
+    const node = { id: 'tech-node', name: 'Node.js', icon: null }
+    const prismaTech = { id: 'tech-prisma', name: 'Prisma', icon: null }
+    resolve.mockResolvedValueOnce([react]).mockResolvedValueOnce([node]).mockResolvedValueOnce([prismaTech])
+    tx.skill.findFirst.mockResolvedValue(skill('react', 2))
+    tx.skill.findUnique.mockImplementation(({ where }: { where: { technologyId: string } }) =>
+      where.technologyId === 'tech-react' ? { id: 'skill-react' } : null
+    )
+
+    await upsertSkills(tx as unknown as Parameters<typeof upsertSkills>[0], [
+      input,
+      { name: 'Node.js', category: 'Backend', level: 80 },
+      { name: 'Prisma', category: 'Backend', level: 70 },
+    ])
+
+    expect(tx.skill.update).toHaveBeenCalledWith({
+      where: { id: 'skill-react' },
+      data: { category: 'Frontend', level: 90 },
+    })
+    expect(tx.skill.create.mock.calls.map(([call]) => (call as { data: object }).data)).toEqual([
+      { category: 'Backend', level: 80, technologyId: 'tech-node', order: 3 },
+      { category: 'Backend', level: 70, technologyId: 'tech-prisma', order: 4 },
+    ])
+  })
+})
+
+describe('reorderSkills', () => {
+  it('stores the new order and only updates skills that moved', async () => {
+    tx.skill.findMany.mockResolvedValue([skill('a', 0), skill('b', 1), skill('c', 2)])
+
+    await reorderSkills(['c', 'a', 'b'])
+
+    expect(tx.skill.update.mock.calls).toEqual([
+      [{ where: { id: 'c' }, data: { order: 0 } }],
+      [{ where: { id: 'a' }, data: { order: 1 } }],
+      [{ where: { id: 'b' }, data: { order: 2 } }],
+    ])
+  })
+
+  it('keeps skills missing from the list after the given ones', async () => {
+    tx.skill.findMany.mockResolvedValue([skill('a', 0), skill('b', 1), skill('c', 2), skill('d', 3)])
+
+    await reorderSkills(['d', 'b'])
+
+    expect(tx.skill.update.mock.calls).toEqual([
+      [{ where: { id: 'd' }, data: { order: 0 } }],
+      [{ where: { id: 'a' }, data: { order: 2 } }],
+      [{ where: { id: 'c' }, data: { order: 3 } }],
+    ])
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for spam scoring of contact form submissions
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    contact: { count: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+    spamFeedback: { findFirst: jest.fn(), create: jest.fn() },
+  },
+}))
+
+import {
+  blocklistRule,
+  createSpamScorer,
+  DEFAULT_SPAM_RULES,
+  disposableEmailRule,
+  linkRule,
+  markContactSpam,
+  SPAM_THRESHOLD,
+  SpamRule,
+  SpamSubmission,
+  submitTimeRule,
+} from '../spam'
+import { NotFoundError } from '../error-handler'
+import { prisma } from '../prisma'
+
+const countContacts = prisma.contact.count as unknown as jest.Mock
+const findContact = prisma.contact.findUnique as unknown as jest.Mock
+const updateContact = prisma.contact.update as unknown as jest.Mock
+const findFeedback = prisma.spamFeedback.findFirst as unknown as jest.Mock
+const createFeedback = prisma.spamFeedback.create as unknown as jest.Mock
+const transaction = prisma.$transaction as unknown as jest.Mock
+
+const submission: SpamSubmission = {
+  name: 'Ada',
+  email: 'ada@example.com',
+  subject: 'Project question',
+  message: 'Do you take freelance work? My site is https://ada.dev',
+  honeypot: '',
+  elapsedMs: 45000,
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  countContacts.mockResolvedValue(0)
+  findFeedback.mockResolvedValue(null)
+  transaction.mockImplementation(async (operations: unknown) => operations)
+})
+
+afterEach(() => {
+  delete process.env.SPAM_BLOCKLIST
+})
+
+describe('spam rules', () => {
+  it('allows one link but scores each extra one', () => {
+    expect(linkRule.check(submission)).toBeNull()
+
+    const stuffed = { ...submission, message: 'http://a.io http://b.io www.c.io https://d.io' }
+    expect(linkRule.check(stuffed)).toEqual({ score: 45, reason: 'Contains 4 links' })
+  })
+
+  it('matches blocklisted terms, including ones from SPAM_BLOCKLIST', () => {
+    process.env.SPAM_BLOCKLIST = 'rank #1, '
+
+    const result = blocklistRule.check({ ...submission, message: 'Cheap SEO services to rank #1' })
+
+    expect(result).toEqual({ score: 50, reason: 'Blocklisted terms: seo services, rank #1' })
+  })
+
+  it('flags disposable email domains', () => {
+    expect(disposableEmailRule.check(submission)).toBeNull()
+    expect(disposableEmailRule.check({ ...submission, email: 'bot@Mailinator.com' })).toMatchObject({ score: 40 })
+  })
+
+  it('scores forms sent too quickly, or without timing', () => {
+    expect(submitTimeRule.check(submission)).toBeNull()
+    expect(submitTimeRule.check({ ...submission, elapsedMs: 800 })).toEqual({
+      score: 50,
+      reason: 'Sent 0.8s after the form opened',
+    })
+    expect(submitTimeRule.check({ ...submission, elapsedMs: undefined })).toMatchObject({ score: 15 })
+  })
+})
+
+describe('createSpamScorer', () => {
+  it('lets an ordinary message through', async () => {
+    const result = await createSpamScorer().score(submission)
+
+    expect(result).toEqual({ score: 0, reasons: [], isSpam: false })
+  })
+
+  it('quarantines honeypot hits', async () => {
+    const result = await createSpamScorer().score({ ...submission, honeypot: 'http://spam.example' })
+
+    expect(result.isSpam).toBe(true)
+    expect(result.reasons).toContain('Filled in the hidden honeypot field')
+  })
+
+  it('flags a message already sent this week', async () => {
+    countContacts.mockResolvedValue(2)
+
+    const result = await createSpamScorer().score(submission)
+
+    expect(result.isSpam).toBe(true)
+    expect(countContacts).toHaveBeenCalledWith({
+      where: { message: submission.message, createdAt: { gte: expect.any(Date) } },
+    })
+  })
+
+  it('gives senders that were marked as not spam some leeway', async () => {
+    findFeedback.mockResolvedValue({ verdict: 'NOT_SPAM' })
+
+    const result = await createSpamScorer().score({ ...submission, email: 'Ada@Example.com', elapsedMs: 500 })
+
+    expect(result).toMatchObject({ score: 20, isSpam: false })
+    expect(findFeedback).toHaveBeenCalledWith(expect.objectContaining({ where: { email: 'ada@example.com' } }))
+  })
+
+  it('limits how much being marked as not spam can offset', async () => {
+    findFeedback.mockResolvedValue({ verdict: 'NOT_SPAM' })
+
+    const result = await createSpamScorer().score({ ...submission, message: 'Cheap backlinks and seo services', elapsedMs: 500 })
+
+    expect(result).toMatchObject({ score: 70, isSpam: true })
+  })
+
+  it('never lets feedback offset the honeypot', async () => {
+    findFeedback.mockResolvedValue({ verdict: 'NOT_SPAM' })
+    const lenient: SpamRule = { name: 'lenient', check: () => ({ score: -500, reason: 'Lenient' }) }
+
+    const result = await createSpamScorer([...DEFAULT_SPAM_RULES, lenient]).score({ ...submission, honeypot: 'filled' })
+
+    expect(result).toMatchObject({ score: 0, isSpam: true })
+    expect(result.reasons).toContain('Filled in the hidden honeypot field')
+  })
+
+  it('skips rules that fail', async () => {
+    const broken: SpamRule = { name: 'broken', check: () => { throw new Error('down') } }
+    const always: SpamRule = { name: 'always', check: () => ({ score: SPAM_THRESHOLD, reason: 'Always' }) }
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const result = await createSpamScorer([broken, always]).score(submission)
+
+    expect(result).toEqual({ score: SPAM_THRESHOLD, reasons: ['Always'], isSpam: true })
+    expect(error).toHaveBeenCalled()
+    error.mockRestore()
+  })
+})
+
+describe('markContactSpam', () => {
+  const contact = { id: 'contact-1', email: 'Ada@Example.com', status: 'SPAM' }
+
+  it('moves a message out of spam and remembers the sender', async () => {
+    findContact.mockResolvedValue(contact)
+    updateContact.mockReturnValue({ ...contact, status: 'READ' })
+
+    const result = await markContactSpam('contact-1', false)
+
+    expect(updateContact).toHaveBeenCalledWith({ where: { id: 'contact-1' }, data: { status: 'READ' } })
+    expect(createFeedback).toHaveBeenCalledWith({
+      data: { email: 'ada@example.com', verdict: 'NOT_SPAM', contactId: 'contact-1' },
+    })
+    expect(result).toEqual({ contact: { ...contact, status: 'READ' }, previousStatus: 'SPAM' })
+  })
+
+  it('throws NotFoundError for unknown messages', async () => {
+    findContact.mockResolvedValue(null)
+
+    await expect(markContactSpam('missing', true)).rejects.toThrow(NotFoundError)
+    expect(transaction).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for technology normalisation, duplicate detection and merging
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    technology: { findMany: jest.fn() },
+  },
+}))
+
+import { findTechnologyConflict, mergeTechnologies, resolveTechnologies } from '../technologies'
+import { technologyKey } from '../utils'
+import { prisma } from '../prisma'
+
+const findTechnologies = prisma.technology.findMany as unknown as jest.Mock
+const transaction = prisma.$transaction as unknown as jest.Mock
+
+function technology(id: string, name: string, aliases: string[] = []) {
+  return { id, name, slug: technologyKey(name), aliases, icon: null, url: null }
+}
+
+const react = technology('tech-react', 'React', ['ReactJS'])
+const node = technology('tech-node', 'Node.js')
+
+beforeEach(() => {
+  jest.clearAllMocks()
+})
+
+describe('technologyKey', () => {
+  it('ignores case, whitespace and punctuation', () => {
+    expect(technologyKey('  Node.js ')).toBe('nodejs')
+    expect(technologyKey('NODE JS')).toBe('nodejs')
+    expect(technologyKey('Next.js')).toBe(technologyKey('nextjs'))
+  })
+
+  it('keeps the symbols that tell languages apart', () => {
+    expect(technologyKey('C++')).toBe('cplusplus')
+    expect(technologyKey('C#')).toBe('csharp')
+    expect(technologyKey('C')).toBe('c')
+  })
+})
+
+describe('resolveTechnologies', () => {
+  const client = {
+    technology: { findMany: jest.fn(), create: jest.fn() },
+  }
+
+  const resolve = (names: string[]) =>
+    resolveTechnologies(names, client as unknown as Parameters<typeof resolveTechnologies>[1])
+
+  beforeEach(() => {
+    client.technology.findMany.mockResolvedValue([react, node])
+    client.technology.create.mockImplementation(({ data }: { data: { name: string; slug: string } }) => ({
+      id: `tech-${data.slug}`,
+      aliases: [],
+      ...data,
+    }))
+  })
+
+  it('matches names and aliases regardless of spelling', async () => {
+    const resolved = await resolve([' react ', 'NodeJS', 'reactjs'])
+
+    expect(resolved).toEqual([react, node])
+    expect(client.technology.create).not.toHaveBeenCalled()
+  })
+
+  it('creates unknown technologies once, keeping the first spelling', async () => {
+    const resolved = await resolve(['PostgreSQL ', 'postgresql', '', 'React'])
+
+    expect(client.technology.create).toHaveBeenCalledTimes(1)
+    expect(client.technology.create).toHaveBeenCalledWith({ data: { name: 'PostgreSQL', slug: 'postgresql' } })
+    expect(resolved.map(item => item.name)).toEqual(['PostgreSQL', 'React'])
+  })
+})
+
+describe('findTechnologyConflict', () => {
+  it('finds another technology using the name or an alias', async () => {
+    findTechnologies.mockResolvedValue([react, node])
+
+    await expect(findTechnologyConflict({ name: 'node js', aliases: [] })).resolves.toEqual({
+      technology: node,
+      name: 'node js',
+    })
+    await expect(findTechnologyConflict({ name: 'React Native', aliases: ['React.JS'] })).resolves.toEqual({
+      technology: react,
+      name: 'React.JS',
+    })
+  })
+
+  it('leaves out the technology being edited', async () => {
+    findTechnologies.mockResolvedValue([])
+
+    await expect(findTechnologyConflict({ name: 'React', aliases: [] }, 'tech-react')).resolves.toBeNull()
+    expect(findTechnologies).toHaveBeenCalledWith({ where: { id: { not: 'tech-react' } } })
+  })
+})
+
+describe('mergeTechnologies', () => {
+  const tx = {
+    technology: { findUnique: jest.fn(), findMany: jest.fn(), deleteMany: jest.fn(), update: jest.fn() },
+    project: { findMany: jest.fn(), update: jest.fn() },
+    profile: { findMany: jest.fn(), update: jest.fn() },
+    skill: { findUnique: jest.fn(), findFirst: jest.fn(), update: jest.fn() },
+  }
+
+  const duplicate = technology('tech-reactjs', 'React.js', ['React JS'])
+
+  beforeEach(() => {
+    transaction.mockImplementation(async (callback: unknown) => (callback as (client: typeof tx) => unknown)(tx))
+    tx.technology.findUnique.mockResolvedValue(react)
+    tx.technology.findMany.mockResolvedValue([duplicate])
+    tx.project.findMany.mockResolvedValue([{ id: 'project-1', technologies: ['React.js', 'React', 'Prisma'] }])
+    tx.profile.findMany.mockResolvedValue([])
+    tx.skill.findUnique.mockResolvedValue({ id: 'skill-1' })
+    tx.technology.update.mockImplementation(({ data }: { data: object }) => ({ ...react, ...data }))
+  })
+
+  it('moves project references to the surviving technology', async () => {
+    await mergeTechnologies('tech-react', ['tech-reactjs', 'tech-react'])
+
+    expect(tx.technology.findMany).toHaveBeenCalledWith({ where: { id: { in: ['tech-reactjs'] } } })
+    expect(tx.project.update).toHaveBeenCalledWith({
+      where: { id: 'project-1' },
+      data: {
+        technologies: ['React', 'Prisma'],
+        technologyRefs: { disconnect: [{ id: 'tech-reactjs' }], connect: { id: 'tech-react' } },
+      },
+    })
+    expect(tx.technology.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['tech-reactjs'] } } })
+  })
+
+  it("keeps the duplicates' names as aliases of the target", async () => {
+    const merged = await mergeTechnologies('tech-react', ['tech-reactjs'])
+
+    expect(merged?.aliases).toEqual(['ReactJS', 'React.js', 'React JS'])
+  })
+
+  it('returns null when there is nothing to merge', async () => {
+    tx.technology.findMany.mockResolvedValue([])
+
+    await expect(mergeTechnologies('tech-react', ['tech-react'])).resolves.toBeNull()
+    expect(tx.project.update).not.toHaveBeenCalled()
+    expect(tx.technology.deleteMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for TOTP codes against the RFC 6238 reference values, using a fixed clock
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { base32Decode, base32Encode, generateTotp, totpStep, totpUri, verifyTotp } from '../totp'
+
+// The RFC 6238 SHA-1 seed, "12345678901234567890", in base32
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+// RFC 6238 appendix B times (seconds) and the last six digits of each expected code
+const VECTORS: Array<[seconds: number, code: string]> = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+]
+
+describe('base32', () => {
+  it('round-trips bytes', () => {
+    const bytes = Buffer.from('12345678901234567890')
+    expect(base32Encode(bytes)).toBe(SECRET)
+    expect(base32Decode(SECRET)).toEqual(bytes)
+  })
+
+  it('ignores case, spaces and padding when decoding', () => {
+    expect(base32Decode('gezd gnbv====')).toEqual(base32Decode('GEZDGNBV'))
+  })
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character')
+  })
+})
+
+describe('generateTotp', () => {
+  it.each(VECTORS)('matches the RFC 6238 code at %i seconds', (seconds, code) => {
+    expect(generateTotp(SECRET, seconds * 1000)).toBe(code)
+  })
+})
+
+describe('verifyTotp', () => {
+  const now = 1111111111 * 1000
+
+  it('returns the matched step for the current code', () => {
+    expect(verifyTotp(SECRET, '050471', { now })).toBe(totpStep(now))
+  })
+
+  it('accepts codes from the neighbouring steps', () => {
+    const previous = generateTotp(SECRET, now - 30 * 1000)
+    const next = generateTotp(SECRET, now + 30 * 1000)
+
+    expect(verifyTotp(SECRET, previous, { now })).toBe(totpStep(now) - 1)
+    expect(verifyTotp(SECRET, next, { now })).toBe(totpStep(now) + 1)
+  })
+
+  it('rejects codes outside the window', () => {
+    const stale = generateTotp(SECRET, now - 90 * 1000)
+    expect(verifyTotp(SECRET, stale, { now })).toBeNull()
+    expect(verifyTotp(SECRET, generateTotp(SECRET, now - 30 * 1000), { now, window: 0 })).toBeNull()
+  })
+
+  it('ignores spaces and rejects malformed codes', () => {
+    expect(verifyTotp(SECRET, '050 471', { now })).toBe(totpStep(now))
+    expect(verifyTotp(SECRET, '50471', { now })).toBeNull()
+    expect(verifyTotp(SECRET, 'abcdef', { now })).toBeNull()
+  })
+})
+
+describe('totpUri', () => {
+  it('builds an otpauth URI authenticator apps understand', () => {
+    const uri = new URL(totpUri(SECRET, 'me@example.com', 'My Site'))
+
+    expect(uri.protocol).toBe('otpauth:')
+    expect(uri.host).toBe('totp')
+    expect(decodeURIComponent(uri.pathname)).toBe('/My Site:me@example.com')
+    expect(uri.searchParams.get('secret')).toBe(SECRET)
+    expect(uri.searchParams.get('issuer')).toBe('My Site')
+    expect(uri.searchParams.get('digits')).toBe('6')
+    expect(uri.searchParams.get('period')).toBe('30')
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for two-factor secrets, recovery codes and replay protection
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+
+jest.mock('../prisma', () => ({
+  prisma: { user: { update: jest.fn(), findUnique: jest.fn() } },
+}))
+
+jest.mock('qrcode', () => ({ toDataURL: jest.fn() }))
+
+import { generateTotp, totpStep } from '../totp'
+import {
+  decryptTwoFactorSecret,
+  encryptTwoFactorSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  TwoFactorUser,
+  verifySecondFactor,
+} from '../two-factor'
+import { prisma } from '../prisma'
+
+const update = prisma.user.update as unknown as jest.Mock
+
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+const NOW = 1111111111 * 1000
+
+describe('two-factor', () => {
+  const originalSecret = process.env.TWO_FACTOR_SECRET
+  let user: TwoFactorUser
+
+  beforeEach(() => {
+    process.env.TWO_FACTOR_SECRET = 'test-two-factor-secret'
+    update.mockReset()
+    user = {
+      id: 'user-1',
+      twoFactorSecret: encryptTwoFactorSecret(SECRET),
+      twoFactorRecoveryCodes: [hashRecoveryCode('abcde-12345')],
+      twoFactorLastUsedStep: null,
+    }
+  })
+
+  afterEach(() => {
+    process.env.TWO_FACTOR_SECRET = originalSecret
+  })
+
+  it('encrypts secrets so they are not stored in plain text', () => {
+    const encrypted = encryptTwoFactorSecret(SECRET)
+
+    expect(encrypted).not.toContain(SECRET)
+    expect(encrypted).not.toBe(encryptTwoFactorSecret(SECRET))
+    expect(decryptTwoFactorSecret(encrypted)).toBe(SECRET)
+  })
+
+  it('generates distinct recovery codes and hashes them loosely', () => {
+    const codes = generateRecoveryCodes()
+
+    expect(codes).toHaveLength(10)
+    expect(new Set(codes).size).toBe(10)
+    codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/))
+    expect(hashRecoveryCode('ABCDE 12345')).toBe(hashRecoveryCode('abcde-12345'))
+  })
+
+  it('accepts a current TOTP code and records its step', async () => {
+    await expect(verifySecondFactor(user, generateTotp(SECRET, NOW), NOW)).resolves.toBe('totp')
+    expect(update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { twoFactorLastUsedStep: totpStep(NOW) },
+    })
+  })
+
+  it('refuses a TOTP code that was already used', async () => {
+    user.twoFactorLastUsedStep = totpStep(NOW)
+
+    await expect(verifySecondFactor(user, generateTotp(SECRET, NOW), NOW)).resolves.toBeNull()
+    expect(update).not.toHaveBeenCalled()
+  })
+
+  it('consumes a recovery code', async () => {
+    await expect(verifySecondFactor(user, 'ABCDE-12345', NOW)).resolves.toBe('recovery_code')
+    expect(update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { twoFactorRecoveryCodes: [] },
+    })
+  })
+
+  it('rejects unknown codes and users without two-factor', async () => {
+    await expect(verifySecondFactor(user, '000000', NOW)).resolves.toBeNull()
+    await expect(verifySecondFactor(user, 'fffff-fffff', NOW)).resolves.toBeNull()
+    await expect(
+      verifySecondFactor({ ...user, twoFactorSecret: null }, generateTotp(SECRET, NOW), NOW)
+    ).resolves.toBeNull()
+    expect(update).not.toHaveBeenCalled()
+  })
+})
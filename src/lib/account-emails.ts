@@ -0,0 +1,62 @@
+import { escapeHtml } from './markdown'
+import { formatDateTime } from './utils'
+import { MailMessage } from './mail'
+
+type AccountEmail = Omit<MailMessage, 'to'>
+
+function layout(title: string, paragraphs: string[], action: { label: string; url: string }, footer: string): string {
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #333;">${escapeHtml(title)}</h2>
+      ${paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n      ')}
+      <p style="margin: 30px 0;">
+        <a href="${escapeHtml(action.url)}" style="background-color: #007bff; color: #ffffff; padding: 12px 20px; border-radius: 6px; text-decoration: none;">
+          ${escapeHtml(action.label)}
+        </a>
+      </p>
+      <p style="color: #6c757d; font-size: 12px;">${escapeHtml(footer)}</p>
+    </div>
+  `
+}
+
+export function passwordResetEmail({ name, url, expiresAt }: { name: string; url: string; expiresAt: Date }): AccountEmail {
+  const paragraphs = [
+    `Hi ${name},`,
+    'Someone asked to reset the password for your admin account. Use the link below to choose a new one.',
+    `The link works once and expires at ${formatDateTime(expiresAt)}.`,
+  ]
+  const footer = "If you didn't ask for this, you can ignore this email and your password won't change."
+
+  return {
+    subject: 'Reset your admin password',
+    html: layout('Reset your password', paragraphs, { label: 'Choose a new password', url }, footer),
+    text: `${paragraphs.join('\n\n')}\n\n${url}\n\n${footer}`,
+  }
+}
+
+export function invitationEmail({
+  name,
+  inviterName,
+  roleLabel,
+  url,
+  expiresAt,
+}: {
+  name: string
+  inviterName: string
+  roleLabel: string
+  url: string
+  expiresAt: Date
+}): AccountEmail {
+  const paragraphs = [
+    `Hi ${name},`,
+    `${inviterName} has invited you to the portfolio admin panel as ${/^[AEIOU]/.test(roleLabel) ? 'an' : 'a'} ${roleLabel}.`,
+    `Use the link below to choose your password. It works once and expires at ${formatDateTime(expiresAt)}.`,
+  ]
+  const footer = "If you weren't expecting this invitation, you can ignore this email."
+
+  return {
+    subject: `${inviterName} invited you to the portfolio admin`,
+    html: layout("You've been invited", paragraphs, { label: 'Accept invitation', url }, footer),
+    text: `${paragraphs.join('\n\n')}\n\n${url}\n\n${footer}`,
+  }
+}
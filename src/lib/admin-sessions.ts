@@ -0,0 +1,57 @@
+import { auth } from './auth'
+import { parseUserAgent } from './analytics'
+import { NotFoundError } from './error-handler'
+import { ActiveSession } from '@/types'
+
+/**
+ * The signed-in user's unexpired sessions, most recently active first.
+ * Session tokens stay on the server; the client only sees ids.
+ */
+export async function listActiveSessions(headers: Headers, currentSessionId: string): Promise<ActiveSession[]> {
+  const sessions = await auth.api.listSessions({ headers })
+
+  return sessions
+    .map(session => {
+      const { device, browser, os } = parseUserAgent(session.userAgent || '')
+
+      return {
+        id: session.id,
+        device,
+        browser,
+        os,
+        ipAddress: session.ipAddress || null,
+        createdAt: session.createdAt,
+        lastActiveAt: session.updatedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === currentSessionId,
+      }
+    })
+    .sort((a, b) => new Date(b.lastActiveAt).getTime() - new Date(a.lastActiveAt).getTime())
+}
+
+export async function revokeActiveSession(headers: Headers, id: string): Promise<void> {
+  const sessions = await auth.api.listSessions({ headers })
+  const session = sessions.find(candidate => candidate.id === id)
+
+  if (!session) {
+    throw new NotFoundError('Session')
+  }
+
+  await auth.api.revokeSession({ body: { token: session.token }, headers })
+}
+
+/**
+ * Signs the user out on every device, including this one
+ */
+export async function revokeAllSessions(headers: Headers): Promise<void> {
+  await auth.api.revokeSessions({ headers })
+}
+
+/**
+ * Signs a user out on every device without a request from them, such as after
+ * a password reset. Cached session cookies lapse within five minutes.
+ */
+export async function revokeUserSessions(userId: string): Promise<void> {
+  const context = await auth.$context
+  await context.internalAdapter.deleteSessions(userId)
+}
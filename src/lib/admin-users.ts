@@ -0,0 +1,151 @@
+import { randomBytes } from 'crypto'
+import { z } from 'zod'
+import { Role } from '@prisma/client'
+import { prisma } from './prisma'
+import { hashPassword } from './password'
+import { NotFoundError, ValidationError } from './error-handler'
+import { ROLE_LABELS } from './permissions'
+import { createUserToken } from './user-tokens'
+import { sendMail, tokenLinkUrl } from './mail'
+import { invitationEmail } from './account-emails'
+
+// Everything about a user except the password hash and two-factor secrets
+export const adminUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  twoFactorEnabledAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
+
+export const userInviteSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  email: z.email('Please enter a valid email address').transform(email => email.toLowerCase()),
+  role: z.enum(Role),
+})
+
+export const userRoleSchema = z.object({
+  role: z.enum(Role),
+})
+
+export type UserInviteInput = z.infer<typeof userInviteSchema>
+
+// An invitation is pending until its link has been used to set a password
+const pendingInvitationWhere = { type: 'INVITATION', usedAt: null } as const
+
+export async function listAdminUsers() {
+  const users = await prisma.user.findMany({
+    select: {
+      ...adminUserSelect,
+      tokens: { where: pendingInvitationWhere, select: { id: true }, take: 1 },
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  return users.map(({ tokens, ...user }) => ({ ...user, invitationPending: tokens.length > 0 }))
+}
+
+/**
+ * Creates a user who can't sign in until they accept the emailed invitation
+ * and choose a password
+ */
+export async function inviteUser(input: UserInviteInput) {
+  const existing = await prisma.user.findUnique({ where: { email: input.email } })
+
+  if (existing) {
+    throw new ValidationError(`${input.email} already has access`)
+  }
+
+  return prisma.user.create({
+    data: {
+      name: input.name,
+      email: input.email,
+      role: input.role,
+      // Nobody knows this password; the invitation link replaces it
+      passwordHash: await hashPassword(randomBytes(32).toString('base64url')),
+    },
+    select: adminUserSelect,
+  })
+}
+
+/**
+ * Emails a new invitation link, replacing any earlier one. New users get one
+ * straight after inviteUser; owners can resend it while it is pending.
+ */
+export async function sendInvitation(userId: string, inviterName: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { tokens: { where: { type: 'INVITATION' }, select: { usedAt: true } } },
+  })
+
+  if (!user) {
+    throw new NotFoundError('User')
+  }
+
+  if (user.tokens.some(token => token.usedAt)) {
+    throw new ValidationError(`${user.name} has already accepted their invitation`)
+  }
+
+  const { token, expiresAt } = await createUserToken(user.id, 'INVITATION')
+  const url = tokenLinkUrl(`/admin/accept-invitation?token=${encodeURIComponent(token)}`)
+
+  await sendMail({
+    to: user.email,
+    ...invitationEmail({ name: user.name, inviterName, roleLabel: ROLE_LABELS[user.role], url, expiresAt }),
+  })
+
+  return { expiresAt }
+}
+
+/**
+ * The panel always keeps at least one owner, so nobody can lock everyone out
+ */
+async function assertOtherOwnerExists(userId: string) {
+  const owners = await prisma.user.count({
+    where: { role: 'OWNER', id: { not: userId } },
+  })
+
+  if (owners === 0) {
+    throw new ValidationError('There must always be at least one owner')
+  }
+}
+
+export async function changeUserRole(id: string, role: Role) {
+  const user = await prisma.user.findUnique({ where: { id } })
+
+  if (!user) {
+    throw new NotFoundError('User')
+  }
+
+  if (user.role === 'OWNER' && role !== 'OWNER') {
+    await assertOtherOwnerExists(id)
+  }
+
+  const updated = await prisma.user.update({
+    where: { id },
+    data: { role },
+    select: adminUserSelect,
+  })
+
+  return { previousRole: user.role, user: updated }
+}
+
+export async function removeUser(id: string, currentUserId: string) {
+  if (id === currentUserId) {
+    throw new ValidationError('You cannot remove yourself')
+  }
+
+  const user = await prisma.user.findUnique({ where: { id } })
+
+  if (!user) {
+    throw new NotFoundError('User')
+  }
+
+  if (user.role === 'OWNER') {
+    await assertOtherOwnerExists(id)
+  }
+
+  return prisma.user.delete({ where: { id }, select: adminUserSelect })
+}
@@ -85,38 +85,3 @@ function getPageTitle(pathname: string): string {
     .map(segment => segment.charAt(0).toUpperCase() + segment.slice(1))
     .join(' ') || 'Home'
 }
-
-/**
- * Rate limiting for analytics tracking
- */
-const rateLimitMap = new Map<string, number>()
-const RATE_LIMIT_WINDOW = 60 * 1000 // 1 minute
-const MAX_REQUESTS_PER_WINDOW = 100
-
-export function isRateLimited(ipAddress: string): boolean {
-  const now = Date.now()
-  const windowStart = now - RATE_LIMIT_WINDOW
-  
-  // Clean up old entries
-  for (const [ip, timestamp] of rateLimitMap.entries()) {
-    if (timestamp < windowStart) {
-      rateLimitMap.delete(ip)
-    }
-  }
-  
-  // Count requests from this IP in the current window
-  let requestCount = 0
-  for (const [ip, timestamp] of rateLimitMap.entries()) {
-    if (ip === ipAddress && timestamp >= windowStart) {
-      requestCount++
-    }
-  }
-  
-  if (requestCount >= MAX_REQUESTS_PER_WINDOW) {
-    return true
-  }
-  
-  // Add current request
-  rateLimitMap.set(`${ipAddress}-${now}`, now)
-  return false
-}
\ No newline at end of file
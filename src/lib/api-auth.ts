@@ -0,0 +1,145 @@
+import { NextRequest } from 'next/server'
+import { auth, Session } from './auth'
+import { ForbiddenError, UnauthorizedError, withErrorHandler } from './error-handler'
+import { hasPermission, isAdminRole, Permission } from './permissions'
+import { AuditEntry, auditRequestInfo, recordAudit } from './audit-log'
+import { apiTokenAllows, authenticateApiToken, bearerApiToken } from './api-tokens'
+
+export interface AdminRouteOptions {
+  // Without a permission any admin role is let through
+  permission?: Permission
+}
+
+// The API token a request was authenticated with
+export interface RequestApiToken {
+  id: string
+  name: string
+  scopes: string[]
+}
+
+// Route context as Next.js passes it, plus the signed-in session and an audit
+// logger that fills in the actor, IP and user agent
+export interface AdminRouteContext<P = Record<string, string>> {
+  params: Promise<P>
+  session: Session
+  // Set when the request came with a Bearer API token instead of a cookie
+  apiToken: RequestApiToken | null
+  // Whether the caller may also do something the route's permission doesn't
+  // cover, checked against the role and, for API tokens, the token's scopes
+  can: (permission: Permission) => boolean
+  audit: (entry: AuditEntry) => Promise<void>
+}
+
+type AuthenticatedApiToken = NonNullable<Awaited<ReturnType<typeof authenticateApiToken>>>
+
+function isAllowed(role: unknown, permission?: Permission) {
+  return permission ? hasPermission(role, permission) : isAdminRole(role)
+}
+
+/**
+ * Token requests get a session describing the token, so handlers and the
+ * audit log see the token's owner as the actor
+ */
+function apiTokenSession(apiToken: AuthenticatedApiToken, request: NextRequest): Session {
+  const { ipAddress, userAgent } = auditRequestInfo(request)
+
+  return {
+    user: { ...apiToken.user, emailVerified: true, image: null },
+    session: {
+      id: apiToken.id,
+      token: apiToken.prefix,
+      userId: apiToken.userId,
+      expiresAt: apiToken.expiresAt,
+      createdAt: apiToken.createdAt,
+      updatedAt: apiToken.lastUsedAt ?? apiToken.createdAt,
+      ipAddress,
+      userAgent,
+    },
+  }
+}
+
+/**
+ * The session from a Bearer API token when one is sent, otherwise from the
+ * session cookie
+ */
+async function resolveRequest(request: NextRequest) {
+  if (bearerApiToken(request)) {
+    const apiToken = await authenticateApiToken(request)
+    return apiToken ? { session: apiTokenSession(apiToken, request), apiToken } : null
+  }
+
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  })
+
+  return session?.user ? { session, apiToken: null } : null
+}
+
+// API tokens only work on routes that need a permission, and only with that
+// scope. Account routes such as sessions, two-factor and the tokens themselves
+// stay with signed-in users.
+function tokenAllowed(apiToken: AuthenticatedApiToken | null, permission?: Permission) {
+  return !apiToken || (!!permission && apiTokenAllows(apiToken, permission))
+}
+
+/**
+ * Returns the session when the request is signed in, or sends an API token,
+ * with an admin role that has the permission, or null otherwise. For routes
+ * that accept other credentials as well.
+ */
+export async function getAdminSession(
+  request: NextRequest,
+  { permission }: AdminRouteOptions = {}
+): Promise<Session | null> {
+  const resolved = await resolveRequest(request)
+
+  return resolved &&
+    isAllowed(resolved.session.user.role, permission) &&
+    tokenAllowed(resolved.apiToken, permission)
+    ? resolved.session
+    : null
+}
+
+/**
+ * Wraps an admin API route handler: anonymous requests get a 401, signed-in
+ * users whose role lacks the permission a 403, and errors thrown by the
+ * handler are turned into responses by withErrorHandler.
+ */
+export function withAdmin<P = Record<string, string>>(
+  handler: (request: NextRequest, context: AdminRouteContext<P>) => Promise<Response>,
+  { permission }: AdminRouteOptions = {}
+) {
+  return withErrorHandler(async (request: NextRequest, context: { params: Promise<P> }) => {
+    const resolved = await resolveRequest(request)
+
+    if (!resolved) {
+      throw new UnauthorizedError(bearerApiToken(request) ? 'Invalid or expired API token' : undefined)
+    }
+
+    const { session, apiToken } = resolved
+
+    if (!isAdminRole(session.user.role)) {
+      throw new ForbiddenError('Admin access required')
+    }
+
+    if (!isAllowed(session.user.role, permission)) {
+      throw new ForbiddenError('You do not have permission to do this')
+    }
+
+    if (!tokenAllowed(apiToken, permission)) {
+      throw new ForbiddenError(
+        permission ? `This API token does not have the ${permission} scope` : 'API tokens cannot be used here'
+      )
+    }
+
+    const audit = (entry: AuditEntry) => recordAudit(entry, session.user, auditRequestInfo(request))
+
+    return handler(request, {
+      params: context?.params,
+      session,
+      apiToken: apiToken && { id: apiToken.id, name: apiToken.name, scopes: apiToken.scopes },
+      can: (other) => isAllowed(session.user.role, other) && tokenAllowed(apiToken, other),
+      audit,
+    })
+  })
+}
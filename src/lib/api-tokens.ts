@@ -0,0 +1,151 @@
+import { createHash, randomBytes } from 'crypto'
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { ForbiddenError, NotFoundError } from './error-handler'
+import { API_TOKEN_SCOPES, hasPermission, isAdminRole, Permission, PERMISSIONS } from './permissions'
+
+// Tokens start with this so they are easy to spot in logs and secret scanners
+export const API_TOKEN_PREFIX = 'pat_'
+
+// How often lastUsedAt is written for a token in steady use
+const LAST_USED_INTERVAL_MS = 60 * 1000
+
+// Everything about a token except its hash
+export const apiTokenSelect = {
+  id: true,
+  userId: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const
+
+export const apiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z
+    .array(z.enum(PERMISSIONS))
+    .min(1, 'Choose at least one scope')
+    .refine(scopes => scopes.every(scope => API_TOKEN_SCOPES.includes(scope)), 'API tokens cannot manage users'),
+  expiresInDays: z.coerce.number().int().min(1).max(365),
+})
+
+export type ApiTokenInput = z.infer<typeof apiTokenSchema>
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * The token from an `Authorization: Bearer pat_...` header, or null. Other
+ * bearer values, such as the cron secret, are left alone.
+ */
+export function bearerApiToken(request: Request): string | null {
+  const header = request.headers.get('authorization')
+  const match = header?.match(/^Bearer\s+(\S+)$/i)
+
+  return match && match[1].startsWith(API_TOKEN_PREFIX) ? match[1] : null
+}
+
+/**
+ * Creates a token for the user and returns the raw value, which is only shown
+ * this once. A token can't be given permissions its owner's role lacks.
+ */
+export async function createApiToken(
+  owner: { id: string; role: unknown },
+  input: ApiTokenInput,
+  now: number = Date.now()
+) {
+  const denied = input.scopes.filter(scope => !hasPermission(owner.role, scope))
+
+  if (denied.length > 0) {
+    throw new ForbiddenError(`Your role cannot grant ${denied.join(', ')}`)
+  }
+
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      userId: owner.id,
+      name: input.name,
+      prefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+      tokenHash: hashApiToken(token),
+      scopes: [...new Set(input.scopes)],
+      expiresAt: new Date(now + input.expiresInDays * 24 * 60 * 60 * 1000),
+    },
+    select: apiTokenSelect,
+  })
+
+  return { token, apiToken }
+}
+
+/**
+ * The user's tokens, or everyone's when `userId` is null, newest first
+ */
+export async function listApiTokens(userId: string | null) {
+  return prisma.apiToken.findMany({
+    where: userId ? { userId } : undefined,
+    select: { ...apiTokenSelect, user: { select: { name: true, email: true } } },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+/**
+ * Deletes a token. Users revoke their own tokens; user managers can revoke anyone's.
+ */
+export async function revokeApiToken(id: string, actor: { id: string; role: unknown }) {
+  const apiToken = await prisma.apiToken.findUnique({ where: { id }, select: apiTokenSelect })
+
+  if (!apiToken || (apiToken.userId !== actor.id && !hasPermission(actor.role, 'users:manage'))) {
+    throw new NotFoundError('API token')
+  }
+
+  await prisma.apiToken.delete({ where: { id } })
+
+  return apiToken
+}
+
+/**
+ * Looks up the bearer token on a request. Returns the token and its user when
+ * the token exists, hasn't expired and its user still has an admin role.
+ */
+export async function authenticateApiToken(request: Request, now: number = Date.now()) {
+  const token = bearerApiToken(request)
+
+  if (!token) {
+    return null
+  }
+
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: {
+      user: { select: { id: true, email: true, name: true, role: true, createdAt: true, updatedAt: true } },
+    },
+  })
+
+  if (!apiToken || apiToken.expiresAt.getTime() <= now || !isAdminRole(apiToken.user.role)) {
+    return null
+  }
+
+  if (!apiToken.lastUsedAt || now - apiToken.lastUsedAt.getTime() >= LAST_USED_INTERVAL_MS) {
+    try {
+      await prisma.apiToken.update({ where: { id: apiToken.id }, data: { lastUsedAt: new Date(now) } })
+    } catch (error) {
+      console.error('Error updating API token last use:', error)
+    }
+  }
+
+  return apiToken
+}
+
+/**
+ * Whether a token may be used for a permission: it needs the scope, and its
+ * owner's role must still have the permission
+ */
+export function apiTokenAllows(
+  apiToken: { scopes: string[]; user: { role: unknown } },
+  permission: Permission
+): boolean {
+  return apiToken.scopes.includes(permission) && hasPermission(apiToken.user.role, permission)
+}
@@ -0,0 +1,160 @@
+import { z } from 'zod'
+import { AuditLog, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+export interface AuditEntry {
+  action: string
+  entityType: string
+  entityId?: string | null
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditActor {
+  id: string
+  name?: string | null
+  email?: string | null
+}
+
+export interface AuditRequestInfo {
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+export const auditLogFilterSchema = z.object({
+  actorId: z.string().trim().min(1).optional(),
+  action: z.string().trim().min(1).optional(),
+  entityType: z.string().trim().min(1).optional(),
+  entityId: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+})
+
+export type AuditLogFilters = z.infer<typeof auditLogFilterSchema>
+
+// Rows exported to CSV in one go, newest first
+export const MAX_AUDIT_EXPORT_ROWS = 10000
+
+export function auditRequestInfo(request: Request): AuditRequestInfo {
+  const forwarded = request.headers.get('x-forwarded-for')
+
+  return {
+    ipAddress: forwarded ? forwarded.split(',')[0].trim() : request.headers.get('x-real-ip'),
+    userAgent: request.headers.get('user-agent'),
+  }
+}
+
+// Snapshots go through JSON so dates and other values are stored the way the API returns them
+function toSnapshot(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return value === undefined || value === null
+    ? Prisma.DbNull
+    : (JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue)
+}
+
+/**
+ * Records an admin mutation. Failures are logged rather than thrown, since the
+ * change itself has already been made.
+ */
+export async function recordAudit(
+  entry: AuditEntry,
+  actor: AuditActor | null,
+  info: AuditRequestInfo = {}
+): Promise<void> {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        actorId: actor?.id ?? null,
+        actorName: actor?.name ?? null,
+        actorEmail: actor?.email ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        before: toSnapshot(entry.before),
+        after: toSnapshot(entry.after),
+        ipAddress: info.ipAddress || null,
+        userAgent: info.userAgent || null,
+      },
+    })
+  } catch (error) {
+    console.error('Error recording audit log:', error)
+  }
+}
+
+export function auditLogWhere(filters: Omit<AuditLogFilters, 'page' | 'limit'>): Prisma.AuditLogWhereInput {
+  return {
+    actorId: filters.actorId,
+    action: filters.action,
+    entityType: filters.entityType,
+    entityId: filters.entityId,
+    createdAt: filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+  }
+}
+
+export async function listAuditLogs(filters: AuditLogFilters) {
+  const where = auditLogWhere(filters)
+
+  const [logs, totalCount, actors, actions, entityTypes] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (filters.page - 1) * filters.limit,
+      take: filters.limit,
+    }),
+    prisma.auditLog.count({ where }),
+    prisma.auditLog.findMany({
+      where: { actorId: { not: null } },
+      distinct: ['actorId'],
+      select: { actorId: true, actorName: true, actorEmail: true },
+      orderBy: { actorId: 'asc' },
+    }),
+    prisma.auditLog.findMany({ distinct: ['action'], select: { action: true }, orderBy: { action: 'asc' } }),
+    prisma.auditLog.findMany({ distinct: ['entityType'], select: { entityType: true }, orderBy: { entityType: 'asc' } }),
+  ])
+
+  return {
+    logs,
+    pagination: {
+      page: filters.page,
+      limit: filters.limit,
+      totalCount,
+      totalPages: Math.ceil(totalCount / filters.limit),
+      hasNext: filters.page * filters.limit < totalCount,
+      hasPrev: filters.page > 1,
+    },
+    // Values to offer in the filter dropdowns
+    options: {
+      actors: actors.map(actor => ({ id: actor.actorId as string, name: actor.actorName, email: actor.actorEmail })),
+      actions: actions.map(({ action }) => action),
+      entityTypes: entityTypes.map(({ entityType }) => entityType),
+    },
+  }
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'string' ? value : value instanceof Date ? value.toISOString() : JSON.stringify(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const CSV_COLUMNS: Array<[header: string, value: (log: AuditLog) => unknown]> = [
+  ['Time', log => log.createdAt],
+  ['Actor', log => log.actorName],
+  ['Actor Email', log => log.actorEmail],
+  ['Action', log => log.action],
+  ['Entity Type', log => log.entityType],
+  ['Entity ID', log => log.entityId],
+  ['Before', log => log.before],
+  ['After', log => log.after],
+  ['IP Address', log => log.ipAddress],
+  ['User Agent', log => log.userAgent],
+]
+
+export function auditLogsToCsv(logs: AuditLog[]): string {
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header).join(','),
+    ...logs.map(log => CSV_COLUMNS.map(([, value]) => csvCell(value(log))).join(',')),
+  ]
+  return rows.join('\n')
+}
@@ -1,11 +1,15 @@
 'use client'
 
 import { createAuthClient } from 'better-auth/react'
+import { inferAdditionalFields } from 'better-auth/client/plugins'
+import type { auth } from './auth'
 
 export const authClient = createAuthClient({
   baseURL: process.env.NODE_ENV === 'production' 
     ? process.env.NEXTAUTH_URL || 'https://your-domain.com'
-    : 'http://localhost:3000'
+    : 'http://localhost:3000',
+  // Types the role field on session users
+  plugins: [inferAdditionalFields<typeof auth>()],
 })
 
 export const { signIn, signOut, useSession } = authClient
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from './auth'
+import { hasPermission, isAdminRole, pagePermission, PUBLIC_ADMIN_PAGES } from './permissions'
 
 export async function authMiddleware(request: NextRequest) {
   const pathname = request.nextUrl.pathname
@@ -9,7 +10,7 @@ export async function authMiddleware(request: NextRequest) {
     pathname.startsWith('/api/auth') ||
     pathname.startsWith('/_next') ||
     pathname.startsWith('/favicon') ||
-    pathname === '/admin/login' ||
+    PUBLIC_ADMIN_PAGES.includes(pathname) ||
     !pathname.startsWith('/admin')
   ) {
     return NextResponse.next()
@@ -27,13 +28,19 @@ export async function authMiddleware(request: NextRequest) {
       return NextResponse.redirect(loginUrl)
     }
 
-    // Check if user has admin role
-    if (session.user.role !== 'ADMIN') {
+    // Check if user has an admin role
+    if (!isAdminRole(session.user.role)) {
       // Redirect to login if not admin
       const loginUrl = new URL('/admin/login', request.url)
       return NextResponse.redirect(loginUrl)
     }
 
+    // Redirect to the dashboard if the role cannot open this page
+    const permission = pagePermission(pathname)
+    if (permission && !hasPermission(session.user.role, permission)) {
+      return NextResponse.redirect(new URL('/admin', request.url))
+    }
+
     return NextResponse.next()
   } catch (error) {
     console.error('Auth middleware error:', error)
@@ -19,7 +19,7 @@ export const auth = betterAuth({
   },
   session: {
     expiresIn: 60 * 60 * 24 * 7, // 7 days
-    updateAge: 60 * 60 * 24, // 1 day
+    updateAge: 60 * 60, // 1 hour, which also keeps "last active" on the Security page current
     cookieCache: {
       enabled: true,
       maxAge: 60 * 5, // 5 minutes
@@ -29,10 +29,13 @@ export const auth = betterAuth({
     additionalFields: {
       role: {
         type: "string",
-        defaultValue: "ADMIN",
+        defaultValue: "VIEWER",
       },
     },
   },
+  // Password sign-in goes through /api/admin/login so the second factor
+  // can't be skipped; server-side auth.api calls are unaffected
+  disabledPaths: ["/sign-in/email"],
   advanced: {
     generateId: () => crypto.randomUUID(),
   },
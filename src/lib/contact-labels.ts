@@ -0,0 +1,113 @@
+import { z } from 'zod'
+import { ContactStatus } from '@prisma/client'
+import { prisma } from './prisma'
+import { NotFoundError, ValidationError } from './error-handler'
+
+export const contactLabelSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color such as #6366f1'),
+})
+
+export type ContactLabelInput = z.infer<typeof contactLabelSchema>
+
+// Spam is left to the spam route, which also records feedback for the spam check
+export const contactBulkUpdateSchema = z.object({
+  status: z.enum(ContactStatus).exclude(['SPAM']).optional(),
+  addLabelIds: z.array(z.string()).default([]),
+  removeLabelIds: z.array(z.string()).default([]),
+}).refine(
+  input => input.status || input.addLabelIds.length > 0 || input.removeLabelIds.length > 0,
+  'Nothing to update'
+)
+
+export type ContactBulkUpdateInput = z.infer<typeof contactBulkUpdateSchema>
+
+/**
+ * Labels by name, with how many messages have each
+ */
+export async function listContactLabels() {
+  return prisma.contactLabel.findMany({
+    orderBy: { name: 'asc' },
+    include: { _count: { select: { contacts: true } } },
+  })
+}
+
+export async function getContactLabel(id: string) {
+  const label = await prisma.contactLabel.findUnique({ where: { id } })
+
+  if (!label) {
+    throw new NotFoundError('Label')
+  }
+
+  return label
+}
+
+// Label names are unique regardless of case, so "Job lead" and "job lead" can't both exist
+async function assertNameAvailable(name: string, exceptId?: string) {
+  const existing = await prisma.contactLabel.findFirst({
+    where: { name: { equals: name, mode: 'insensitive' }, id: exceptId ? { not: exceptId } : undefined },
+  })
+
+  if (existing) {
+    throw new ValidationError(`There is already a label called "${existing.name}"`)
+  }
+}
+
+export async function createContactLabel(input: ContactLabelInput) {
+  await assertNameAvailable(input.name)
+  return prisma.contactLabel.create({ data: input })
+}
+
+export async function updateContactLabel(id: string, input: ContactLabelInput) {
+  const before = await getContactLabel(id)
+  await assertNameAvailable(input.name, id)
+
+  const label = await prisma.contactLabel.update({ where: { id }, data: input })
+
+  return { before, label }
+}
+
+// Messages keep everything but the label
+export async function deleteContactLabel(id: string) {
+  const label = await getContactLabel(id)
+  await prisma.contactLabel.delete({ where: { id } })
+  return label
+}
+
+/**
+ * Sets the status and adds or removes labels on several messages at once.
+ * Returns each message before and after, for the audit log.
+ */
+export async function bulkUpdateContacts(ids: string[], input: ContactBulkUpdateInput) {
+  const labelIds = [...new Set([...input.addLabelIds, ...input.removeLabelIds])]
+
+  if (labelIds.length > 0) {
+    const found = await prisma.contactLabel.count({ where: { id: { in: labelIds } } })
+    if (found !== labelIds.length) {
+      throw new NotFoundError('Label')
+    }
+  }
+
+  const contacts = await prisma.contact.findMany({
+    where: { id: { in: ids } },
+    include: { labels: { select: { id: true, name: true } } },
+  })
+
+  const updated = await prisma.$transaction(
+    contacts.map(contact =>
+      prisma.contact.update({
+        where: { id: contact.id },
+        data: {
+          status: input.status,
+          labels: {
+            connect: input.addLabelIds.map(id => ({ id })),
+            disconnect: input.removeLabelIds.map(id => ({ id })),
+          },
+        },
+        include: { labels: { select: { id: true, name: true } } },
+      })
+    )
+  )
+
+  return contacts.map((before, index) => ({ before, after: updated[index] }))
+}
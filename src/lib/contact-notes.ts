@@ -0,0 +1,45 @@
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { NotFoundError } from './error-handler'
+
+export const contactNoteSchema = z.object({
+  body: z.string().trim().min(1, 'Note cannot be empty').max(5000),
+})
+
+export type ContactNoteInput = z.infer<typeof contactNoteSchema>
+
+/**
+ * Adds an internal note to a contact message. Notes are only shown in the
+ * admin inbox.
+ */
+export async function addContactNote(
+  contactId: string,
+  input: ContactNoteInput,
+  author: { id: string; name?: string | null }
+) {
+  const contact = await prisma.contact.findUnique({ where: { id: contactId }, select: { id: true } })
+
+  if (!contact) {
+    throw new NotFoundError('Contact')
+  }
+
+  return prisma.contactNote.create({
+    data: {
+      contactId,
+      authorId: author.id,
+      authorName: author.name ?? null,
+      body: input.body,
+    },
+  })
+}
+
+export async function deleteContactNote(contactId: string, noteId: string) {
+  const note = await prisma.contactNote.findFirst({ where: { id: noteId, contactId } })
+
+  if (!note) {
+    throw new NotFoundError('Note')
+  }
+
+  await prisma.contactNote.delete({ where: { id: noteId } })
+  return note
+}
@@ -0,0 +1,94 @@
+import { z } from 'zod'
+import { Contact } from '@prisma/client'
+import { prisma } from './prisma'
+import { NotFoundError } from './error-handler'
+import { escapeHtml } from './markdown'
+import { formatDateTime } from './utils'
+import { MailMessage, sendMail } from './mail'
+
+export const contactReplySchema = z.object({
+  subject: z.string().trim().min(1, 'Subject is required').max(200),
+  body: z.string().trim().min(1, 'Reply cannot be empty').max(10000),
+})
+
+export type ContactReplyInput = z.infer<typeof contactReplySchema>
+
+/**
+ * The reply with the original message quoted underneath, the way mail clients do
+ */
+export function contactReplyEmail(contact: Contact, input: ContactReplyInput): Omit<MailMessage, 'to'> {
+  const quoted = `On ${formatDateTime(contact.createdAt)}, ${contact.name} wrote:`
+
+  return {
+    subject: input.subject,
+    html: `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="white-space: pre-wrap;">${escapeHtml(input.body)}</div>
+      <p style="margin-top: 30px; color: #6c757d;">${escapeHtml(quoted)}</p>
+      <blockquote style="margin: 0; padding-left: 15px; border-left: 4px solid #dee2e6; color: #6c757d; white-space: pre-wrap;">${escapeHtml(contact.message)}</blockquote>
+    </div>
+  `,
+    text: `${input.body}\n\n${quoted}\n${contact.message.split('\n').map(line => `> ${line}`).join('\n')}`,
+  }
+}
+
+/**
+ * A contact message with its replies and internal notes, oldest first, and its labels
+ */
+export async function getContactThread(id: string) {
+  const contact = await prisma.contact.findUnique({
+    where: { id },
+    include: {
+      replies: { orderBy: { sentAt: 'asc' } },
+      notes: { orderBy: { createdAt: 'asc' } },
+      labels: { orderBy: { name: 'asc' } },
+    },
+  })
+
+  if (!contact) {
+    throw new NotFoundError('Contact')
+  }
+
+  return contact
+}
+
+/**
+ * Emails a reply to the sender of a contact message, then stores it in the
+ * thread and marks the message as replied. Nothing is stored when sending
+ * fails. Answers to the reply go to TO_EMAIL, like the contact notifications.
+ */
+export async function replyToContact(
+  contactId: string,
+  input: ContactReplyInput,
+  author: { id: string; name?: string | null }
+) {
+  const contact = await prisma.contact.findUnique({ where: { id: contactId } })
+
+  if (!contact) {
+    throw new NotFoundError('Contact')
+  }
+
+  await sendMail({
+    to: contact.email,
+    replyTo: process.env.TO_EMAIL || undefined,
+    ...contactReplyEmail(contact, input),
+  })
+
+  const [reply, updated] = await prisma.$transaction([
+    prisma.contactReply.create({
+      data: {
+        contactId,
+        authorId: author.id,
+        authorName: author.name ?? null,
+        subject: input.subject,
+        body: input.body,
+      },
+    }),
+    prisma.contact.update({
+      where: { id: contactId },
+      data: { status: 'REPLIED' },
+    }),
+  ])
+
+  return { reply, contact: updated, previousStatus: contact.status }
+}
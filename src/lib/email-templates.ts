@@ -0,0 +1,176 @@
+import { z } from 'zod'
+import { Contact, EmailTemplate, EmailTemplatePurpose } from '@prisma/client'
+import { prisma } from './prisma'
+import { NotFoundError, ValidationError } from './error-handler'
+import { formatDateTime } from './utils'
+import { MailMessage, sendMail, siteUrl } from './mail'
+import {
+  DEFAULT_CONTACT_TEMPLATES,
+  PURPOSE_LABELS,
+  renderTemplate,
+  SENDER_VARIABLES,
+  TemplateValues,
+  templateTextToHtml,
+  unknownTemplateVariables,
+} from './template-render'
+
+type ContactPurpose = keyof typeof DEFAULT_CONTACT_TEMPLATES
+
+export const emailTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  purpose: z.enum(EmailTemplatePurpose).default('REPLY'),
+  subject: z.string().trim().min(1, 'Subject is required').max(200),
+  body: z.string().trim().min(1, 'Body is required').max(10000),
+}).superRefine((input, ctx) => {
+  for (const field of ['subject', 'body'] as const) {
+    const [unknown] = unknownTemplateVariables(input[field], input.purpose)
+    if (!unknown) continue
+
+    ctx.addIssue({
+      code: 'custom',
+      path: [field],
+      message: SENDER_VARIABLES.includes(unknown)
+        ? `The confirmation can't include {{${unknown}}}, since anyone can have it sent to any address`
+        : `Unknown variable {{${unknown}}}`,
+    })
+    return
+  }
+})
+
+export type EmailTemplateInput = z.infer<typeof emailTemplateSchema>
+
+export async function listEmailTemplates(purpose?: EmailTemplatePurpose) {
+  return prisma.emailTemplate.findMany({
+    where: purpose ? { purpose } : undefined,
+    orderBy: [{ purpose: 'asc' }, { name: 'asc' }],
+  })
+}
+
+export async function getEmailTemplate(id: string) {
+  const template = await prisma.emailTemplate.findUnique({ where: { id } })
+
+  if (!template) {
+    throw new NotFoundError('Email template')
+  }
+
+  return template
+}
+
+// The contact form sends one email of each kind, so only one template may have each contact purpose
+async function assertPurposeAvailable(purpose: EmailTemplatePurpose, exceptId?: string) {
+  if (purpose === 'REPLY') return
+
+  const existing = await prisma.emailTemplate.findFirst({
+    where: { purpose, id: exceptId ? { not: exceptId } : undefined },
+  })
+
+  if (existing) {
+    throw new ValidationError(`"${existing.name}" is already the ${PURPOSE_LABELS[purpose].toLowerCase()} template`)
+  }
+}
+
+export async function createEmailTemplate(input: EmailTemplateInput) {
+  await assertPurposeAvailable(input.purpose)
+  return prisma.emailTemplate.create({ data: input })
+}
+
+export async function updateEmailTemplate(id: string, input: EmailTemplateInput) {
+  const before = await getEmailTemplate(id)
+  await assertPurposeAvailable(input.purpose, id)
+
+  const template = await prisma.emailTemplate.update({ where: { id }, data: input })
+
+  return { before, template }
+}
+
+export async function deleteEmailTemplate(id: string) {
+  const template = await getEmailTemplate(id)
+  await prisma.emailTemplate.delete({ where: { id } })
+  return template
+}
+
+/**
+ * The values templates can use for a contact message
+ */
+export async function templateValues(
+  contact: Pick<Contact, 'name' | 'email' | 'subject' | 'message' | 'createdAt'>,
+  { sender, request }: { sender?: { name?: string | null }; request?: Request } = {}
+): Promise<TemplateValues> {
+  const profile = await prisma.profile.findFirst({
+    select: { name: true, title: true, email: true, location: true },
+  })
+
+  return {
+    name: contact.name,
+    email: contact.email,
+    subject: contact.subject || 'Your message',
+    message: contact.message,
+    date: formatDateTime(contact.createdAt),
+    profile: profile ?? {},
+    sender: { name: sender?.name },
+    inboxUrl: siteUrl('/admin/messages', request),
+  }
+}
+
+export function renderEmailTemplate(
+  template: Pick<EmailTemplate, 'subject' | 'body'>,
+  values: TemplateValues
+): Omit<MailMessage, 'to'> {
+  const text = renderTemplate(template.body, values)
+
+  return {
+    // Subjects are a single line, whatever the values contain
+    subject: renderTemplate(template.subject, values).replace(/\s+/g, ' ').trim(),
+    html: templateTextToHtml(text),
+    text,
+  }
+}
+
+// The saved template for a contact form email, or the built-in one
+async function contactTemplate(purpose: ContactPurpose) {
+  const saved = await prisma.emailTemplate.findFirst({ where: { purpose } })
+  return saved ?? DEFAULT_CONTACT_TEMPLATES[purpose]
+}
+
+/**
+ * Tells the site owner at TO_EMAIL about a new contact message. Replying to
+ * the email answers the sender.
+ */
+export async function sendContactNotification(contact: Contact, request?: Request): Promise<void> {
+  const toEmail = process.env.TO_EMAIL
+
+  if (!toEmail) {
+    throw new Error('TO_EMAIL environment variable is not configured')
+  }
+
+  const template = await contactTemplate('CONTACT_NOTIFICATION')
+
+  await sendMail({
+    to: toEmail,
+    replyTo: contact.email,
+    ...renderEmailTemplate(template, await templateValues(contact, { request })),
+  })
+}
+
+/**
+ * Lets the sender know their message arrived. Nothing is sent until an admin
+ * saves a confirmation template, and the email never repeats what the sender
+ * typed, so the form can't be used to mail arbitrary text to any address.
+ */
+export async function sendContactConfirmation(contact: Contact, request?: Request): Promise<void> {
+  const template = await prisma.emailTemplate.findFirst({ where: { purpose: 'CONTACT_CONFIRMATION' } })
+
+  if (!template) {
+    return
+  }
+
+  const values = Object.fromEntries(
+    Object.entries(await templateValues(contact, { request })).filter(([key]) => !SENDER_VARIABLES.includes(key))
+  )
+
+  await sendMail({
+    to: contact.email,
+    replyTo: process.env.TO_EMAIL || undefined,
+    ...renderEmailTemplate(template, values),
+  })
+}
@@ -47,9 +47,13 @@ export class ForbiddenError extends AppError {
 }
 
 export class RateLimitError extends AppError {
-  constructor(message: string = 'Too many requests') {
+  // RateLimit-* and Retry-After headers for the 429 response
+  headers: Record<string, string>
+
+  constructor(message: string = 'Too many requests', headers: Record<string, string> = {}) {
     super(message, 429, 'RATE_LIMIT_EXCEEDED')
     this.name = 'RateLimitError'
+    this.headers = headers
   }
 }
 
@@ -81,7 +85,10 @@ export function handleApiError(error: unknown): NextResponse<ApiResponse> {
         error: error.message,
         code: error.code,
       } as ApiResponse,
-      { status: error.statusCode }
+      {
+        status: error.statusCode,
+        headers: error instanceof RateLimitError ? error.headers : undefined,
+      }
     )
   }
 
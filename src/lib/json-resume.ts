@@ -0,0 +1,394 @@
+/**
+ * Conversion between the profile and the JSON Resume format (https://jsonresume.org/schema)
+ *
+ * basics maps onto the profile fields and social links, work and education onto
+ * the ordered entries, and each skills group onto skills in a category named
+ * after the group. Work entries also carry a non-standard "keywords" list for
+ * the technologies used, which the schema's additional properties allow.
+ */
+
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { ValidationError } from './error-handler'
+import { getProfileWithEntries, profileEntriesInclude, replaceProfileEntries } from './profile-entries'
+import {
+  EducationEntryInput,
+  ExperienceEntryInput,
+  educationEntrySchema,
+  experienceEntrySchema,
+  formatSchemaError,
+  profileUpdateSchema,
+} from './profile-schema'
+import { SkillInput, SkillWithTechnology, getSkills, skillInputSchema, upsertSkills } from './skills'
+import { groupSkillsByCategory, technologyKey } from './utils'
+import { ProfileWithEntries, ShowcaseSkill, SocialLinks } from '@/types'
+
+// Entries are imported separately, so only the profile's own fields are validated here
+const importedProfileSchema = profileUpdateSchema.omit({ experience: true, education: true })
+
+const text = z.string().trim().optional()
+const list = z.array(z.string()).optional()
+
+export const jsonResumeSchema = z.object({
+  basics: z.object({
+    name: text,
+    label: text,
+    image: text,
+    email: text,
+    phone: text,
+    url: text,
+    summary: text,
+    location: z.object({
+      address: text,
+      postalCode: text,
+      city: text,
+      countryCode: text,
+      region: text,
+    }).optional(),
+    profiles: z.array(z.object({
+      network: text,
+      username: text,
+      url: text,
+    })).optional(),
+  }).optional(),
+  work: z.array(z.object({
+    name: text,
+    position: text,
+    url: text,
+    startDate: text,
+    endDate: text,
+    summary: text,
+    highlights: list,
+    keywords: list,
+  })).optional(),
+  education: z.array(z.object({
+    institution: text,
+    url: text,
+    area: text,
+    studyType: text,
+    startDate: text,
+    endDate: text,
+    score: text,
+    courses: list,
+  })).optional(),
+  skills: z.array(z.object({
+    name: text,
+    level: text,
+    keywords: list,
+  })).optional(),
+}, { error: 'A JSON Resume document must be an object' })
+
+export type JsonResume = z.infer<typeof jsonResumeSchema>
+
+// Social link keys for the network names JSON Resume documents commonly use
+const NETWORK_KEYS: Record<string, keyof SocialLinks> = {
+  github: 'github',
+  linkedin: 'linkedin',
+  twitter: 'twitter',
+  x: 'twitter',
+}
+
+const NETWORK_NAMES: Record<string, string> = {
+  github: 'GitHub',
+  linkedin: 'LinkedIn',
+  twitter: 'Twitter',
+}
+
+// JSON Resume levels are free text; these are the usual ones
+const SKILL_LEVELS: { label: string; level: number }[] = [
+  { label: 'Master', level: 95 },
+  { label: 'Expert', level: 90 },
+  { label: 'Advanced', level: 80 },
+  { label: 'Intermediate', level: 60 },
+  { label: 'Beginner', level: 30 },
+]
+
+/**
+ * Converts an ISO 8601 date ("2021", "2021-03" or "2021-03-15") to YYYY-MM
+ */
+function toMonth(date?: string): string | undefined {
+  const match = date?.match(/^(\d{4})(?:-(\d{2}))?/)
+  return match ? `${match[1]}-${match[2] ?? '01'}` : undefined
+}
+
+function toSkillLevel(level?: string): number {
+  if (!level) return 50
+
+  const numeric = Number(level.replace('%', ''))
+  if (!Number.isNaN(numeric)) return Math.min(100, Math.max(0, Math.round(numeric)))
+
+  return SKILL_LEVELS.find(known => known.label.toLowerCase() === level.toLowerCase())?.level ?? 50
+}
+
+function toSkillLevelLabel(level: number): string {
+  return SKILL_LEVELS.find(known => level >= known.level)?.label ?? 'Beginner'
+}
+
+/**
+ * Builds a JSON Resume document from the profile and its skills
+ */
+export function toJsonResume(profile: ProfileWithEntries, skills: ShowcaseSkill[]): JsonResume {
+  const socialLinks = (profile.socialLinks ?? {}) as Record<string, string>
+
+  return {
+    basics: {
+      name: profile.name,
+      label: profile.title,
+      image: profile.profileImage ?? undefined,
+      email: profile.email,
+      phone: profile.phone ?? undefined,
+      url: socialLinks.website || undefined,
+      summary: profile.bio,
+      location: profile.location ? { city: profile.location } : undefined,
+      profiles: Object.entries(socialLinks)
+        .filter(([network, url]) => url && network !== 'website' && network !== 'email')
+        .map(([network, url]) => ({
+          network: NETWORK_NAMES[network] ?? network,
+          url,
+          username: url.replace(/\/+$/, '').split('/').pop(),
+        })),
+    },
+    work: profile.experience.map(entry => ({
+      name: entry.company,
+      position: entry.position,
+      startDate: entry.startDate,
+      endDate: entry.endDate ?? undefined,
+      summary: entry.description,
+      keywords: entry.technologies,
+    })),
+    education: profile.education.map(entry => ({
+      institution: entry.institution,
+      area: entry.field,
+      studyType: entry.degree,
+      startDate: entry.startDate,
+      endDate: entry.endDate ?? undefined,
+      courses: entry.description ? [entry.description] : undefined,
+    })),
+    skills: groupSkillsByCategory(skills).map(({ category, skills: categorySkills }) => ({
+      name: category,
+      level: toSkillLevelLabel(
+        Math.round(categorySkills.reduce((total, skill) => total + skill.level, 0) / categorySkills.length)
+      ),
+      keywords: categorySkills.map(skill => skill.name),
+    })),
+  }
+}
+
+export interface ParsedJsonResume {
+  profile: z.infer<typeof importedProfileSchema>
+  // Lists the document leaves out are undefined and left unchanged on import
+  experience?: ExperienceEntryInput[]
+  education?: EducationEntryInput[]
+  skills: SkillInput[]
+  warnings: string[]
+}
+
+/**
+ * Maps a JSON Resume document onto profile fields, entries and skills.
+ * Basic fields the document leaves out keep their current values, and
+ * entries that cannot be imported are skipped with a warning.
+ */
+export function parseJsonResume(document: unknown, current: ProfileWithEntries | null): ParsedJsonResume {
+  const parsed = jsonResumeSchema.safeParse(document)
+  if (!parsed.success) {
+    throw new ValidationError(`Invalid JSON Resume document: ${parsed.error.issues[0].message}`)
+  }
+
+  const { basics = {}, work, education, skills = [] } = parsed.data
+  const warnings: string[] = []
+
+  // Social links: known networks use their usual key, others their lowercased name
+  const socialLinks: Record<string, string> = { ...((current?.socialLinks ?? {}) as Record<string, string>) }
+  if (basics.url) socialLinks.website = basics.url
+
+  for (const profile of basics.profiles ?? []) {
+    const network = profile.network?.toLowerCase()
+    if (!network) continue
+
+    if (!profile.url) {
+      warnings.push(`The ${profile.network} profile has no URL and was skipped`)
+      continue
+    }
+
+    socialLinks[NETWORK_KEYS[network] ?? technologyKey(network)] = profile.url
+  }
+
+  const location = basics.location &&
+    ([basics.location.city, basics.location.region, basics.location.countryCode].filter(Boolean).join(', ') ||
+      basics.location.address)
+
+  const profile = importedProfileSchema.safeParse({
+    name: basics.name || current?.name,
+    title: basics.label || current?.title,
+    bio: basics.summary || current?.bio,
+    email: basics.email || current?.email,
+    phone: basics.phone,
+    location: location || undefined,
+    profileImage: basics.image,
+    socialLinks,
+  })
+
+  if (!profile.success) {
+    throw new ValidationError(`Cannot import profile: ${formatSchemaError(profile.error)}`)
+  }
+
+  const importEntries = <T>(
+    label: string,
+    entries: unknown[] | undefined,
+    schema: z.ZodType<T>
+  ): T[] | undefined => {
+    if (!entries) return undefined
+
+    return entries.flatMap((entry, index) => {
+      const result = schema.safeParse(entry)
+      if (result.success) return [result.data]
+
+      warnings.push(`${label} ${index + 1} was skipped: ${result.error.issues[0].message}`)
+      return []
+    })
+  }
+
+  const experienceEntries = importEntries('Work entry', work?.map(entry => ({
+    company: entry.name,
+    position: entry.position,
+    startDate: toMonth(entry.startDate),
+    endDate: toMonth(entry.endDate),
+    // Highlights have no field of their own, so they follow the summary as a list
+    description: [entry.summary, ...(entry.highlights ?? []).map(highlight => `- ${highlight}`)]
+      .filter(Boolean)
+      .join('\n'),
+    technologies: entry.keywords,
+  })), experienceEntrySchema)
+
+  const educationEntries = importEntries('Education entry', education?.map(entry => ({
+    institution: entry.institution,
+    degree: entry.studyType,
+    field: entry.area,
+    startDate: toMonth(entry.startDate),
+    endDate: toMonth(entry.endDate),
+    description: (entry.courses ?? []).join('\n') || undefined,
+  })), educationEntrySchema)
+
+  // Each group becomes a category; groups without keywords are a skill of their own
+  const skillInputs = importEntries('Skill', skills.flatMap(group => {
+    const level = toSkillLevel(group.level)
+
+    return group.keywords?.length
+      ? group.keywords.map(name => ({ name, category: group.name || 'Other', level }))
+      : [{ name: group.name, category: 'Other', level }]
+  }), skillInputSchema) ?? []
+
+  return {
+    profile: profile.data,
+    experience: experienceEntries,
+    education: educationEntries,
+    skills: skillInputs,
+    warnings,
+  }
+}
+
+export interface JsonResumeFieldChange {
+  field: string
+  current: string | null
+  imported: string | null
+}
+
+export interface JsonResumePreview {
+  fields: JsonResumeFieldChange[]
+  // Replacement lists, or null when the document leaves the list unchanged
+  experience: { current: number; imported: ExperienceEntryInput[] } | null
+  education: { current: number; imported: EducationEntryInput[] } | null
+  skills: { added: string[]; updated: string[] }
+  warnings: string[]
+}
+
+const PREVIEW_FIELDS = ['name', 'title', 'bio', 'email', 'phone', 'location', 'profileImage'] as const
+
+/**
+ * Describes what importing a parsed document would change
+ */
+export function previewJsonResume(
+  parsed: ParsedJsonResume,
+  current: ProfileWithEntries | null,
+  currentSkills: SkillWithTechnology[]
+): JsonResumePreview {
+  const fields: JsonResumeFieldChange[] = []
+
+  for (const field of PREVIEW_FIELDS) {
+    const imported = parsed.profile[field]
+    const existing = current?.[field] ?? null
+
+    if (imported !== undefined && imported !== existing) {
+      fields.push({ field, current: existing, imported })
+    }
+  }
+
+  const currentLinks = (current?.socialLinks ?? {}) as Record<string, string>
+  for (const [network, url] of Object.entries(parsed.profile.socialLinks ?? {})) {
+    if (url && currentLinks[network] !== url) {
+      fields.push({ field: `socialLinks.${network}`, current: currentLinks[network] ?? null, imported: url })
+    }
+  }
+
+  // Skills are matched the same way the taxonomy matches names: by key, including aliases
+  const skills: JsonResumePreview['skills'] = { added: [], updated: [] }
+  for (const input of parsed.skills) {
+    const key = technologyKey(input.name)
+    const existing = currentSkills.find(skill =>
+      [skill.technology.name, ...skill.technology.aliases].some(name => technologyKey(name) === key)
+    )
+
+    if (!existing) {
+      skills.added.push(input.name)
+    } else if (existing.category !== input.category || existing.level !== input.level) {
+      skills.updated.push(existing.technology.name)
+    }
+  }
+
+  return {
+    fields,
+    experience: parsed.experience
+      ? { current: current?.experience.length ?? 0, imported: parsed.experience }
+      : null,
+    education: parsed.education
+      ? { current: current?.education.length ?? 0, imported: parsed.education }
+      : null,
+    skills,
+    warnings: parsed.warnings,
+  }
+}
+
+/**
+ * Imports a JSON Resume document. With dryRun nothing is written and only
+ * the preview is returned.
+ */
+export async function importJsonResume(
+  document: unknown,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<{ preview: JsonResumePreview; profile: ProfileWithEntries | null }> {
+  const [current, currentSkills] = await Promise.all([getProfileWithEntries(), getSkills()])
+  const parsed = parseJsonResume(document, current)
+  const preview = previewJsonResume(parsed, current, currentSkills)
+
+  if (dryRun) {
+    return { preview, profile: current }
+  }
+
+  const profile = await prisma.$transaction(async (tx) => {
+    const { profile: fields, experience, education } = parsed
+
+    const profileId = current
+      ? (await tx.profile.update({ where: { id: current.id }, data: fields })).id
+      : (await tx.profile.create({ data: { ...fields, socialLinks: fields.socialLinks ?? {} } })).id
+
+    await replaceProfileEntries(tx, profileId, { experience, education })
+    await upsertSkills(tx, parsed.skills)
+
+    return tx.profile.findUniqueOrThrow({
+      where: { id: profileId },
+      include: profileEntriesInclude
+    })
+  }, { timeout: 30000 })
+
+  return { preview, profile }
+}
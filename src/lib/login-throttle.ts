@@ -0,0 +1,229 @@
+import { LoginThrottle, LoginThrottleScope } from '@prisma/client'
+import { prisma } from './prisma'
+import { NotFoundError } from './error-handler'
+import { escapeHtml } from './markdown'
+import { sendMail } from './mail'
+
+// Failures older than this no longer count towards a delay or lockout
+export const FAILURE_WINDOW_MS = 15 * 60 * 1000
+export const LOCKOUT_DURATION_MS = 15 * 60 * 1000
+
+// Failed attempts before a lockout. IPs get more room since several admins
+// may sign in from the same network.
+export const LOCKOUT_THRESHOLDS: Record<LoginThrottleScope, number> = {
+  ACCOUNT: 10,
+  IP: 25,
+}
+
+// Failures allowed before each further attempt has to wait
+const FREE_ATTEMPTS = 3
+const MAX_DELAY_MS = 30 * 1000
+
+export interface LoginThrottleKeys {
+  email: string
+  ipAddress?: string | null
+}
+
+export interface LoginThrottleStatus {
+  allowed: boolean
+  retryAfterMs: number
+  locked: boolean
+}
+
+/**
+ * How long to wait after the latest failure: nothing for the first few, then
+ * 1s, 2s, 4s and so on up to 30s
+ */
+export function loginDelayMs(failedCount: number): number {
+  if (failedCount < FREE_ATTEMPTS) return 0
+  return Math.min(1000 * 2 ** (failedCount - FREE_ATTEMPTS), MAX_DELAY_MS)
+}
+
+function isExpired(throttle: LoginThrottle, now: number): boolean {
+  if (throttle.lockedUntil) {
+    return throttle.lockedUntil.getTime() <= now
+  }
+  return !throttle.lastFailedAt || now - throttle.lastFailedAt.getTime() > FAILURE_WINDOW_MS
+}
+
+export function throttleStatus(throttle: LoginThrottle | null, now: number = Date.now()): LoginThrottleStatus {
+  if (!throttle || isExpired(throttle, now)) {
+    return { allowed: true, retryAfterMs: 0, locked: false }
+  }
+
+  if (throttle.lockedUntil) {
+    return { allowed: false, retryAfterMs: throttle.lockedUntil.getTime() - now, locked: true }
+  }
+
+  const nextAttemptAt = (throttle.lastFailedAt?.getTime() ?? now) + loginDelayMs(throttle.failedCount)
+  return nextAttemptAt > now
+    ? { allowed: false, retryAfterMs: nextAttemptAt - now, locked: false }
+    : { allowed: true, retryAfterMs: 0, locked: false }
+}
+
+function throttleTargets({ email, ipAddress }: LoginThrottleKeys) {
+  const targets: Array<{ scope: LoginThrottleScope; key: string }> = [
+    { scope: 'ACCOUNT', key: email.toLowerCase() },
+  ]
+  // Requests without a known IP are only tracked per account
+  if (ipAddress) targets.push({ scope: 'IP', key: ipAddress })
+  return targets
+}
+
+/**
+ * Whether a sign-in attempt may go ahead, combining the account and IP limits
+ */
+export async function checkLoginThrottle(
+  keys: LoginThrottleKeys,
+  now: number = Date.now()
+): Promise<LoginThrottleStatus> {
+  const throttles = await prisma.loginThrottle.findMany({
+    where: { OR: throttleTargets(keys) },
+  })
+
+  return throttles
+    .map(throttle => throttleStatus(throttle, now))
+    .reduce<LoginThrottleStatus>(
+      (combined, status) => ({
+        allowed: combined.allowed && status.allowed,
+        retryAfterMs: Math.max(combined.retryAfterMs, status.retryAfterMs),
+        locked: combined.locked || status.locked,
+      }),
+      { allowed: true, retryAfterMs: 0, locked: false }
+    )
+}
+
+async function recordFailure(scope: LoginThrottleScope, key: string, now: number) {
+  // Start counting again once earlier failures or a lockout have expired.
+  // Each statement is atomic, so concurrent failures are all counted.
+  await prisma.loginThrottle.updateMany({
+    where: {
+      scope,
+      key,
+      OR: [
+        { lockedUntil: { lte: new Date(now) } },
+        {
+          lockedUntil: null,
+          OR: [{ lastFailedAt: null }, { lastFailedAt: { lt: new Date(now - FAILURE_WINDOW_MS) } }],
+        },
+      ],
+    },
+    data: { failedCount: 0, lockedUntil: null },
+  })
+
+  let throttle = await prisma.loginThrottle.upsert({
+    where: { scope_key: { scope, key } },
+    update: { failedCount: { increment: 1 }, lastFailedAt: new Date(now) },
+    create: { scope, key, failedCount: 1, lastFailedAt: new Date(now) },
+  })
+
+  // Only the attempt that reaches the threshold locks and notifies
+  const lockedNow = throttle.failedCount === LOCKOUT_THRESHOLDS[scope]
+  if (lockedNow) {
+    throttle = await prisma.loginThrottle.update({
+      where: { id: throttle.id },
+      data: { lockedUntil: new Date(now + LOCKOUT_DURATION_MS) },
+    })
+  }
+
+  return { throttle, lockedNow }
+}
+
+/**
+ * Counts a failed attempt against the account and IP, and returns the
+ * throttles that have just been locked
+ */
+export async function recordLoginFailure(
+  keys: LoginThrottleKeys,
+  now: number = Date.now()
+): Promise<LoginThrottle[]> {
+  const results = await Promise.all(
+    throttleTargets(keys).map(({ scope, key }) => recordFailure(scope, key, now))
+  )
+
+  const locked = results.filter(({ lockedNow }) => lockedNow).map(({ throttle }) => throttle)
+
+  await Promise.all(locked.map(throttle => sendLockoutNotification(throttle)))
+
+  return locked
+}
+
+/**
+ * Forgets failed attempts for an account after it signs in. IP counts are
+ * kept so one working login can't reset a spray across many accounts.
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+  await prisma.loginThrottle.deleteMany({
+    where: { scope: 'ACCOUNT', key: email.toLowerCase() },
+  })
+}
+
+/**
+ * Throttles an admin may want to see: current lockouts first, then recent failures
+ */
+export async function listLoginThrottles(now: number = Date.now()) {
+  const throttles = await prisma.loginThrottle.findMany({
+    where: {
+      OR: [
+        { lockedUntil: { gt: new Date(now) } },
+        { lastFailedAt: { gt: new Date(now - FAILURE_WINDOW_MS) } },
+      ],
+    },
+    orderBy: [{ lockedUntil: { sort: 'desc', nulls: 'last' } }, { lastFailedAt: 'desc' }],
+  })
+
+  return throttles.map(throttle => ({
+    ...throttle,
+    locked: throttleStatus(throttle, now).locked,
+  }))
+}
+
+export async function clearLoginThrottle(id: string): Promise<LoginThrottle> {
+  const throttle = await prisma.loginThrottle.findUnique({ where: { id } })
+
+  if (!throttle) {
+    throw new NotFoundError('Lockout')
+  }
+
+  await prisma.loginThrottle.delete({ where: { id } })
+  return throttle
+}
+
+/**
+ * Emails the site owner, and the account holder for account lockouts.
+ * Failures are logged rather than thrown so the login response isn't held up.
+ */
+export async function sendLockoutNotification(throttle: LoginThrottle): Promise<void> {
+  try {
+    const recipients = new Set<string>()
+    if (process.env.TO_EMAIL) recipients.add(process.env.TO_EMAIL)
+
+    if (throttle.scope === 'ACCOUNT') {
+      const user = await prisma.user.findUnique({ where: { email: throttle.key }, select: { email: true } })
+      if (user) recipients.add(user.email)
+    }
+
+    if (recipients.size === 0) {
+      return
+    }
+
+    const target = throttle.scope === 'ACCOUNT' ? `the account ${throttle.key}` : `the IP address ${throttle.key}`
+    const until = throttle.lockedUntil?.toLocaleString() ?? 'later'
+
+    await sendMail({
+      to: [...recipients],
+      subject: 'Admin sign-in locked after repeated failed attempts',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #333;">Sign-in temporarily locked</h2>
+          <p>Sign-in for ${escapeHtml(target)} was locked after ${throttle.failedCount} failed attempts.</p>
+          <p>It will unlock at ${until}. An admin can clear the lockout sooner from the Security page.</p>
+          <p style="color: #6c757d; font-size: 12px;">If this wasn't you, consider changing your password and enabling two-factor authentication.</p>
+        </div>
+      `,
+      text: `Sign-in for ${target} was locked after ${throttle.failedCount} failed attempts.\n\nIt will unlock at ${until}. An admin can clear the lockout sooner from the Security page.\n\nIf this wasn't you, consider changing your password and enabling two-factor authentication.`,
+    })
+  } catch (error) {
+    console.error('Error sending lockout notification:', error)
+  }
+}
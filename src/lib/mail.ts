@@ -0,0 +1,110 @@
+/**
+ * Outgoing email. Everything is sent through a MailTransport so tests and
+ * local development can capture messages instead of calling Resend.
+ */
+
+import { Resend } from 'resend'
+import { ExternalServiceError } from './error-handler'
+
+export interface MailMessage {
+  to: string | string[]
+  subject: string
+  html: string
+  text: string
+  replyTo?: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+export function createResendTransport(apiKey: string): MailTransport {
+  const resend = new Resend(apiKey)
+
+  return {
+    async send(message) {
+      const { error } = await resend.emails.send(message)
+      if (error) {
+        throw new ExternalServiceError('Resend', error.message)
+      }
+    },
+  }
+}
+
+/**
+ * Keeps messages in memory, newest last
+ */
+export function createMemoryTransport(): MailTransport & { messages: Array<MailMessage & { from: string }> } {
+  const messages: Array<MailMessage & { from: string }> = []
+
+  return {
+    messages,
+    async send(message) {
+      messages.push(message)
+    },
+  }
+}
+
+// Prints messages instead of sending them, for local development without an API key
+export const logTransport: MailTransport = {
+  async send(message) {
+    console.info(`[mail] To: ${[message.to].flat().join(', ')}\n[mail] Subject: ${message.subject}\n\n${message.text}`)
+  },
+}
+
+let transport: MailTransport | null = null
+
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next
+}
+
+/**
+ * The transport set with setMailTransport, or one chosen from the environment:
+ * MAIL_TRANSPORT=log prints messages, otherwise Resend is used
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    if (process.env.MAIL_TRANSPORT === 'log') {
+      transport = logTransport
+    } else if (process.env.RESEND_API_KEY) {
+      transport = createResendTransport(process.env.RESEND_API_KEY)
+    } else {
+      throw new Error('RESEND_API_KEY must be configured to send email, or set MAIL_TRANSPORT=log')
+    }
+  }
+  return transport
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({
+    from: process.env.FROM_EMAIL || 'onboarding@resend.dev',
+    ...message,
+  })
+}
+
+function configuredSiteUrl(): string | undefined {
+  return process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXTAUTH_URL
+}
+
+/**
+ * Absolute URL for links in emails, preferring the configured site URL
+ */
+export function siteUrl(path: string, request?: Request): string {
+  const baseUrl = configuredSiteUrl() || (request ? new URL(request.url).origin : '')
+  return `${baseUrl.replace(/\/$/, '')}${path}`
+}
+
+/**
+ * Absolute URL for links that carry a token, such as password resets. Only the
+ * configured site URL is used, since anyone can send a request with their own
+ * Host header and have the token mailed to a link on their server.
+ */
+export function tokenLinkUrl(path: string): string {
+  const baseUrl = configuredSiteUrl()
+
+  if (!baseUrl) {
+    throw new Error('NEXT_PUBLIC_SITE_URL or NEXTAUTH_URL must be configured to email links with tokens')
+  }
+
+  return `${baseUrl.replace(/\/$/, '')}${path}`
+}
@@ -0,0 +1,446 @@
+/**
+ * Markdown rendering shared by the admin editor preview and the public site.
+ *
+ * The source is HTML-escaped before any markup is produced, so raw HTML in
+ * the input is always shown as text. Only the tags generated here reach the
+ * output, and link and image URLs are checked against a protocol allowlist.
+ */
+
+const LINK_PROTOCOLS = ['http:', 'https:', 'mailto:']
+const IMAGE_PROTOCOLS = ['http:', 'https:']
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char])
+}
+
+/**
+ * Returns the URL if it is relative or uses an allowed protocol, otherwise null
+ */
+export function sanitizeUrl(url: string, protocols: string[] = LINK_PROTOCOLS): string | null {
+  const trimmed = url.trim()
+
+  // Browsers ignore whitespace and control characters inside the scheme,
+  // so "java\tscript:" must be treated the same as "javascript:"
+  const normalized = trimmed.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase()
+
+  if (!normalized) {
+    return null
+  }
+
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/)
+  if (scheme) {
+    return protocols.includes(`${scheme[1]}:`) ? trimmed : null
+  }
+
+  // A colon before the first path separator means an unparseable scheme
+  const colon = normalized.indexOf(':')
+  const separator = normalized.search(/[/?#]/)
+  if (colon !== -1 && (separator === -1 || colon < separator)) {
+    return null
+  }
+
+  return trimmed
+}
+
+/**
+ * Turns heading text into an id usable as a URL fragment
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[`*_~[\]()!]/g, '')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+}
+
+// Syntax highlighting
+
+interface LanguageGrammar {
+  keywords: string[]
+  lineComment?: string
+  blockComment?: boolean
+}
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+  'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import',
+  'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch',
+  'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+]
+
+const GRAMMARS: Record<string, LanguageGrammar> = {
+  javascript: { keywords: JS_KEYWORDS, lineComment: '//', blockComment: true },
+  python: {
+    keywords: [
+      'and', 'as', 'async', 'await', 'break', 'class', 'continue', 'def', 'elif', 'else', 'except',
+      'False', 'finally', 'for', 'from', 'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or',
+      'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield',
+    ],
+    lineComment: '#',
+  },
+  bash: {
+    keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'then', 'while'],
+    lineComment: '#',
+  },
+  sql: {
+    keywords: [
+      'AND', 'AS', 'BY', 'CREATE', 'DELETE', 'FROM', 'GROUP', 'INSERT', 'INTO', 'JOIN', 'LEFT', 'LIMIT',
+      'NOT', 'NULL', 'ON', 'OR', 'ORDER', 'SELECT', 'SET', 'TABLE', 'UPDATE', 'VALUES', 'WHERE',
+    ],
+    lineComment: '--',
+    blockComment: true,
+  },
+  go: {
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false', 'for', 'func',
+      'go', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select', 'struct',
+      'switch', 'true', 'type', 'var',
+    ],
+    lineComment: '//',
+    blockComment: true,
+  },
+  css: { keywords: [], blockComment: true },
+  json: { keywords: ['true', 'false', 'null'] },
+}
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  typescript: 'javascript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  postgres: 'sql',
+  postgresql: 'sql',
+  golang: 'go',
+  scss: 'css',
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Wraps comments, strings, numbers and keywords in token spans.
+ * Unknown languages are returned escaped without highlighting.
+ */
+export function highlightCode(code: string, language?: string): string {
+  const name = language?.toLowerCase() || ''
+  const grammar = GRAMMARS[LANGUAGE_ALIASES[name] || name]
+
+  if (!grammar) {
+    return escapeHtml(code)
+  }
+
+  // Groups that can never match keep the token types aligned with the capture indexes
+  const never = '((?!))'
+  const patterns = [
+    grammar.blockComment ? '(\\/\\*[\\s\\S]*?\\*\\/)' : never,
+    grammar.lineComment ? `(${escapeRegExp(grammar.lineComment)}.*)` : never,
+    '("(?:\\\\.|[^"\\\\\\n])*"|\'(?:\\\\.|[^\'\\\\\\n])*\'|`(?:\\\\.|[^`\\\\])*`)',
+    '(\\b\\d+(?:\\.\\d+)?\\b)',
+    grammar.keywords.length > 0
+      ? `(${grammar.keywords.map(keyword => `\\b${escapeRegExp(keyword)}\\b`).join('|')})`
+      : never,
+  ]
+  const tokenizer = new RegExp(patterns.join('|'), 'g')
+  const tokenTypes = ['comment', 'comment', 'string', 'number', 'keyword']
+
+  let html = ''
+  let lastIndex = 0
+
+  for (const match of code.matchAll(tokenizer)) {
+    const index = match.index ?? 0
+    const type = tokenTypes[match.slice(1).findIndex(group => group !== undefined)]
+
+    html += escapeHtml(code.slice(lastIndex, index))
+    html += `<span class="token ${type}">${escapeHtml(match[0])}</span>`
+    lastIndex = index + match[0].length
+  }
+
+  return html + escapeHtml(code.slice(lastIndex))
+}
+
+// Inline content
+
+function renderLink(url: string, label: string, title?: string): string | null {
+  const href = sanitizeUrl(url)
+  if (!href) return null
+
+  const external = /^https?:/i.test(href)
+  return `<a href="${escapeHtml(href)}"${title ? ` title="${escapeHtml(title)}"` : ''}${
+    external ? ' target="_blank" rel="noopener noreferrer"' : ''
+  }>${label}</a>`
+}
+
+function renderEmphasis(html: string): string {
+  return html
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/\*(?=[^\s*])([^*]*?[^\s*])\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=[^\s_])([^_]*?[^\s_])_(?!\w)/g, '$1<em>$2</em>')
+}
+
+// Link and image targets may contain one level of balanced parentheses, so
+// "(javascript:alert(1))" is read as a single target rather than cut short
+const LINK_TARGET = String.raw`\(\s*((?:[^\s()]|\([^\s()]*\))+)(?:\s+"([^"]*)")?\s*\)`
+
+/**
+ * Renders a single line of inline markdown
+ */
+export function renderInline(text: string): string {
+  const stash: string[] = []
+  const sources: string[] = []
+  const hold = (html: string, source: string) => {
+    sources.push(source)
+    return `\u0000${stash.push(html) - 1}\u0000`
+  }
+  // Link targets and titles end up in attributes, so they get the text that
+  // was held rather than its HTML
+  const unhold = (text: string): string =>
+    text.replace(/\u0000(\d+)\u0000/g, (_, index: string) => unhold(sources[Number(index)]))
+
+  let out = text.replace(/\u0000/g, '')
+
+  // Code spans and backslash escapes are taken literally
+  out = out.replace(/(`+)([\s\S]+?)\1(?!`)/g, (match, __, code: string) => hold(`<code>${escapeHtml(code.trim())}</code>`, match))
+  out = out.replace(/\\([\\`*_{}[\]()#+\-.!|~>])/g, (_, char: string) => hold(escapeHtml(char), char))
+
+  // Images, then links, then autolinks
+  out = out.replace(new RegExp(String.raw`!\[([^\]]*)\]` + LINK_TARGET, 'g'), (match, alt: string, url: string, title?: string) => {
+    const src = sanitizeUrl(unhold(url), IMAGE_PROTOCOLS)
+    if (!src) return hold(escapeHtml(alt), match)
+
+    return hold(`<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}"${
+      title ? ` title="${escapeHtml(unhold(title))}"` : ''
+    } loading="lazy">`, match)
+  })
+
+  out = out.replace(new RegExp(String.raw`\[([^\]]+)\]` + LINK_TARGET, 'g'), (match, label: string, url: string, title?: string) => {
+    const labelHtml = renderEmphasis(escapeHtml(label))
+    const link = renderLink(unhold(url), labelHtml, title && unhold(title))
+    return hold(link ?? labelHtml, match)
+  })
+
+  out = out.replace(/<((?:https?:\/\/|mailto:)[^\s<>]+)>/gi, (match, url: string) => {
+    const link = renderLink(unhold(url), escapeHtml(url))
+    return link ? hold(link, match) : match
+  })
+
+  out = out.replace(/(^|\s)(https?:\/\/[^\s<>"']*[^\s<>"'.,:;!?)\]])/gi, (match, before: string, url: string) => {
+    const link = renderLink(unhold(url), escapeHtml(url))
+    return link ? `${before}${hold(link, url)}` : match
+  })
+
+  out = renderEmphasis(escapeHtml(out))
+
+  // Restore held fragments, which may contain other held fragments
+  const restore = (html: string): string =>
+    html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => restore(stash[Number(index)]))
+
+  return restore(out)
+}
+
+// Blocks
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/
+const QUOTE = /^\s{0,3}>\s?/
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim())
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return lines[index].includes('|') &&
+    index + 1 < lines.length &&
+    lines[index + 1].includes('-') &&
+    TABLE_DELIMITER.test(lines[index + 1])
+}
+
+function isBlockStart(lines: string[], index: number): boolean {
+  const line = lines[index]
+  return FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    isTableStart(lines, index)
+}
+
+interface RenderContext {
+  headingIds: Map<string, number>
+}
+
+function renderBlocks(lines: string[], context: RenderContext): string {
+  const html: string[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    // Fenced code
+    const fence = line.match(FENCE)
+    if (fence) {
+      const closing = new RegExp(`^\\s{0,3}${fence[1][0]}{${fence[1].length},}\\s*$`)
+      const code: string[] = []
+      i++
+      while (i < lines.length && !closing.test(lines[i])) {
+        code.push(lines[i])
+        i++
+      }
+      i++
+
+      const language = fence[2]
+      html.push(
+        `<pre><code${language ? ` class="language-${escapeHtml(language)}"` : ''}>${highlightCode(code.join('\n'), language)}</code></pre>`
+      )
+      continue
+    }
+
+    // Headings get an anchor so sections can be linked to
+    const heading = line.match(HEADING)
+    if (heading) {
+      const level = heading[1].length
+      const base = slugifyHeading(heading[2]) || 'section'
+      const count = context.headingIds.get(base) ?? 0
+      const id = count === 0 ? base : `${base}-${count}`
+      context.headingIds.set(base, count + 1)
+
+      html.push(
+        `<h${level} id="${id}">${renderInline(heading[2])} <a href="#${id}" class="heading-anchor" aria-label="Link to this section">#</a></h${level}>`
+      )
+      i++
+      continue
+    }
+
+    if (RULE.test(line)) {
+      html.push('<hr>')
+      i++
+      continue
+    }
+
+    // Blockquotes may contain any other block
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ''))
+        i++
+      }
+      html.push(`<blockquote>${renderBlocks(quoted, context)}</blockquote>`)
+      continue
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line)
+      const alignments = splitTableRow(lines[i + 1]).map(cell => {
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'center'
+        if (cell.endsWith(':')) return 'right'
+        if (cell.startsWith(':')) return 'left'
+        return null
+      })
+      const cell = (tag: 'th' | 'td', content: string, index: number) => {
+        const align = alignments[index]
+        return `<${tag}${align ? ` style="text-align:${align}"` : ''}>${renderInline(content)}</${tag}>`
+      }
+
+      i += 2
+      const rows: string[] = []
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i])
+        rows.push(`<tr>${header.map((_, index) => cell('td', cells[index] ?? '', index)).join('')}</tr>`)
+        i++
+      }
+
+      html.push(
+        `<table><thead><tr>${header.map((content, index) => cell('th', content, index)).join('')}</tr></thead>` +
+        `<tbody>${rows.join('')}</tbody></table>`
+      )
+      continue
+    }
+
+    // Lists, with indented lines belonging to the item above them
+    const listItem = line.match(LIST_ITEM)
+    if (listItem) {
+      const indent = listItem[1].length
+      const ordered = /\d/.test(listItem[2])
+      const items: string[][] = []
+
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM)
+        if (item && item[1].length === indent && /\d/.test(item[2]) === ordered) {
+          items.push([item[3]])
+          i++
+          continue
+        }
+
+        const current = lines[i]
+        const continuation = current.trim() &&
+          (current.length - current.trimStart().length > indent) &&
+          items.length > 0
+        if (!continuation) break
+
+        items[items.length - 1].push(current.slice(Math.min(indent + 2, current.length - current.trimStart().length)))
+        i++
+      }
+
+      const tag = ordered ? 'ol' : 'ul'
+      const start = ordered ? parseInt(listItem[2], 10) : 1
+      html.push(
+        `<${tag}${start !== 1 ? ` start="${start}"` : ''}>` +
+        items.map(([first, ...rest]) =>
+          `<li>${renderInline(first)}${rest.length > 0 ? renderBlocks(rest, context) : ''}</li>`
+        ).join('') +
+        `</${tag}>`
+      )
+      continue
+    }
+
+    // Paragraphs keep single line breaks, matching how descriptions were written
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines, i))) {
+      paragraph.push(lines[i].trim())
+      i++
+    }
+    html.push(`<p>${paragraph.map(renderInline).join('<br>\n')}</p>`)
+  }
+
+  return html.join('\n')
+}
+
+/**
+ * Converts markdown to HTML that is safe to insert with dangerouslySetInnerHTML
+ */
+export function renderMarkdown(markdown: string): string {
+  if (!markdown) return ''
+
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')
+  return renderBlocks(lines, { headingIds: new Map() })
+}
@@ -0,0 +1,71 @@
+import { z } from 'zod'
+import { prisma } from './prisma'
+import { hashPassword, validatePassword } from './password'
+import { consumeUserToken, createUserToken } from './user-tokens'
+import { clearLoginFailures } from './login-throttle'
+import { revokeUserSessions } from './admin-sessions'
+import { sendMail, tokenLinkUrl } from './mail'
+import { passwordResetEmail } from './account-emails'
+
+export const newPasswordSchema = z.string().superRefine((password, ctx) => {
+  const { errors } = validatePassword(password)
+  if (errors.length > 0) ctx.addIssue({ code: 'custom', message: errors[0] })
+})
+
+export const forgotPasswordSchema = z.object({
+  email: z.email('Please enter a valid email address').transform(email => email.toLowerCase()),
+})
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'This link is invalid or has expired'),
+  password: newPasswordSchema,
+})
+
+/**
+ * Emails a reset link when the address belongs to a user. Callers answer the
+ * same way either way so the form can't be used to find accounts.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await prisma.user.findUnique({ where: { email } })
+
+  if (!user) {
+    return
+  }
+
+  const { token, expiresAt } = await createUserToken(user.id, 'PASSWORD_RESET')
+  const url = tokenLinkUrl(`/admin/reset-password?token=${encodeURIComponent(token)}`)
+
+  await sendMail({
+    to: user.email,
+    ...passwordResetEmail({ name: user.name, url, expiresAt }),
+  })
+}
+
+/**
+ * Sets a new password from a reset or invitation link and returns the user.
+ * Existing sessions and API tokens stop working, so whoever had access
+ * before the reset doesn't keep it.
+ */
+export async function setPasswordWithToken(
+  token: string,
+  password: string,
+  type: 'PASSWORD_RESET' | 'INVITATION'
+) {
+  const user = await consumeUserToken(token, type)
+  const passwordHash = await hashPassword(password)
+
+  // Sessions are signed out last, so a failure there rolls back the new password too
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: user.id },
+      data: { passwordHash },
+    })
+    await tx.apiToken.deleteMany({ where: { userId: user.id } })
+    await revokeUserSessions(user.id)
+  })
+
+  // A fresh password shouldn't stay locked out by the attempts that came before it
+  await clearLoginFailures(user.email)
+
+  return user
+}
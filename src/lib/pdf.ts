@@ -0,0 +1,183 @@
+/**
+ * PDF writer for generated documents, built on pdf-lib.
+ *
+ * Supports text, lines and filled rectangles on A4 pages. Text is set in
+ * DejaVu Sans, which is embedded (subset to the glyphs used) so names and
+ * descriptions in Greek, Cyrillic and most other alphabets render as typed.
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { PDFDocument, PDFFont, PDFPage, rgb } from 'pdf-lib'
+import fontkit from '@pdf-lib/fontkit'
+
+export type PdfFont = 'regular' | 'bold' | 'italic'
+
+// RGB components between 0 and 1
+export type PdfColor = [number, number, number]
+
+export interface PdfTextOptions {
+  font?: PdfFont
+  size?: number
+  color?: PdfColor
+}
+
+export interface PdfDocumentInfo {
+  title?: string
+  author?: string
+  createdAt?: Date
+}
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+
+// Font files come from the dejavu-fonts-ttf package. next.config.ts traces
+// them into the server build of the routes that render PDFs.
+const FONT_DIR = path.join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf')
+
+const FONT_FILES: Record<PdfFont, string> = {
+  regular: 'DejaVuSans.ttf',
+  bold: 'DejaVuSans-Bold.ttf',
+  italic: 'DejaVuSans-Oblique.ttf',
+}
+
+// Font files are read once per process
+const fontData = new Map<PdfFont, Promise<Buffer>>()
+
+function loadFont(font: PdfFont): Promise<Buffer> {
+  let data = fontData.get(font)
+  if (!data) {
+    data = readFile(path.join(FONT_DIR, FONT_FILES[font]))
+    // A failed read is retried on the next document rather than cached
+    data.catch(() => fontData.delete(font))
+    fontData.set(font, data)
+  }
+  return data
+}
+
+function toRgb([red, green, blue]: PdfColor) {
+  return rgb(red, green, blue)
+}
+
+/**
+ * Builds a PDF page by page. Coordinates are in points measured from the
+ * top-left corner, and text is positioned by its baseline.
+ */
+export class PdfDocument {
+  readonly width = PAGE_WIDTH
+  readonly height = PAGE_HEIGHT
+
+  private page!: PDFPage
+
+  private constructor(private pdf: PDFDocument, private fonts: Record<PdfFont, PDFFont>) {
+    this.addPage()
+  }
+
+  /**
+   * Creates a document with the fonts embedded and one empty page
+   */
+  static async create(info: PdfDocumentInfo = {}): Promise<PdfDocument> {
+    const pdf = await PDFDocument.create()
+    pdf.registerFontkit(fontkit)
+
+    const [regular, bold, italic] = await Promise.all(
+      (['regular', 'bold', 'italic'] as const).map(async font =>
+        pdf.embedFont(await loadFont(font), { subset: true })
+      )
+    )
+
+    if (info.title) pdf.setTitle(info.title)
+    if (info.author) pdf.setAuthor(info.author)
+    pdf.setCreationDate(info.createdAt ?? new Date())
+    pdf.setModificationDate(info.createdAt ?? new Date())
+
+    return new PdfDocument(pdf, { regular, bold, italic })
+  }
+
+  get pageCount(): number {
+    return this.pdf.getPageCount()
+  }
+
+  addPage() {
+    this.page = this.pdf.addPage([this.width, this.height])
+  }
+
+  /**
+   * Width of a single line of text in points
+   */
+  measureText(text: string, font: PdfFont = 'regular', size: number = 10): number {
+    return this.fonts[font].widthOfTextAtSize(text.replace(/\t/g, ' '), size)
+  }
+
+  /**
+   * Breaks text into lines no wider than maxWidth. Newlines start a new line,
+   * and words longer than a whole line are split.
+   */
+  wrapText(text: string, maxWidth: number, font: PdfFont = 'regular', size: number = 10): string[] {
+    const lines: string[] = []
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = ''
+
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word
+
+        if (this.measureText(candidate, font, size) <= maxWidth) {
+          line = candidate
+          continue
+        }
+
+        if (line) lines.push(line)
+        line = ''
+
+        // Split words that cannot fit on a line of their own
+        for (const char of word) {
+          if (line && this.measureText(line + char, font, size) > maxWidth) {
+            lines.push(line)
+            line = ''
+          }
+          line += char
+        }
+      }
+
+      lines.push(line)
+    }
+
+    return lines
+  }
+
+  text(text: string, x: number, y: number, { font = 'regular', size = 10, color = [0, 0, 0] }: PdfTextOptions = {}) {
+    if (!text) return
+
+    this.page.drawText(text.replace(/\t/g, ' '), {
+      x,
+      y: this.height - y,
+      size,
+      font: this.fonts[font],
+      color: toRgb(color),
+    })
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = [0, 0, 0], lineWidth: number = 1) {
+    this.page.drawLine({
+      start: { x: x1, y: this.height - y1 },
+      end: { x: x2, y: this.height - y2 },
+      thickness: lineWidth,
+      color: toRgb(color),
+    })
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: PdfColor) {
+    this.page.drawRectangle({
+      x,
+      y: this.height - y - height,
+      width,
+      height,
+      color: toRgb(color),
+    })
+  }
+
+  async toBuffer(): Promise<Buffer> {
+    return Buffer.from(await this.pdf.save())
+  }
+}
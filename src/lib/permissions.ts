@@ -0,0 +1,106 @@
+/**
+ * Admin roles and what each of them may do. Kept free of server-only imports
+ * so middleware and client components can check permissions too.
+ */
+
+export const ROLES = ['OWNER', 'EDITOR', 'VIEWER'] as const
+
+export type AdminRole = (typeof ROLES)[number]
+
+export const PERMISSIONS = [
+  'projects:read',
+  'projects:write',
+  'projects:delete',
+  'profile:read',
+  'profile:write',
+  'contacts:read',
+  'contacts:write',
+  'contacts:delete',
+  'analytics:read',
+  'analytics:export',
+  'analytics:manage',
+  'files:read',
+  'files:write',
+  'files:delete',
+  'users:manage',
+  'audit:read',
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+// Permissions an API token can be given. Managing users stays with signed-in
+// owners, so a leaked token can't create accounts.
+export const API_TOKEN_SCOPES: Permission[] = PERMISSIONS.filter(permission => permission !== 'users:manage')
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  OWNER: 'Owner',
+  EDITOR: 'Editor',
+  VIEWER: 'Viewer',
+}
+
+export const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  OWNER: 'Full access, including analytics exports, deleting content, managing users and the audit log',
+  EDITOR: 'Can edit projects, profile, messages and upload files, but not delete or export',
+  VIEWER: 'Read-only access to the admin panel',
+}
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  OWNER: PERMISSIONS,
+  EDITOR: [
+    'projects:read',
+    'projects:write',
+    'profile:read',
+    'profile:write',
+    'contacts:read',
+    'contacts:write',
+    'analytics:read',
+    'files:read',
+    'files:write',
+  ],
+  VIEWER: [
+    'projects:read',
+    'profile:read',
+    'contacts:read',
+    'analytics:read',
+    'files:read',
+  ],
+}
+
+// Admin pages and the permission needed to open them; pages not listed only need a role
+const PAGE_PERMISSIONS: Array<[prefix: string, permission: Permission]> = [
+  ['/admin/projects', 'projects:read'],
+  ['/admin/technologies', 'projects:read'],
+  ['/admin/profile', 'profile:read'],
+  ['/admin/messages', 'contacts:read'],
+  ['/admin/analytics', 'analytics:read'],
+  ['/admin/files', 'files:read'],
+  ['/admin/users', 'users:manage'],
+  ['/admin/audit', 'audit:read'],
+]
+
+// Admin pages signed-out visitors need: signing in and setting a password from an emailed link
+export const PUBLIC_ADMIN_PAGES = [
+  '/admin/login',
+  '/admin/forgot-password',
+  '/admin/reset-password',
+  '/admin/accept-invitation',
+]
+
+export function isAdminRole(role: unknown): role is AdminRole {
+  return typeof role === 'string' && (ROLES as readonly string[]).includes(role)
+}
+
+export function permissionsFor(role: unknown): Permission[] {
+  return isAdminRole(role) ? [...ROLE_PERMISSIONS[role]] : []
+}
+
+export function hasPermission(role: unknown, permission: Permission): boolean {
+  return isAdminRole(role) && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export function pagePermission(pathname: string): Permission | null {
+  const match = PAGE_PERMISSIONS.find(
+    ([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  )
+  return match ? match[1] : null
+}
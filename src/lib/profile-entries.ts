@@ -0,0 +1,52 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { EducationEntryInput, ExperienceEntryInput } from './profile-schema'
+import { ProfileWithEntries } from '@/types'
+
+type PrismaLike = Prisma.TransactionClient | typeof prisma
+
+// Experience and education in display order, for including with a profile
+export const profileEntriesInclude = {
+  experience: { orderBy: [{ order: 'asc' }, { createdAt: 'asc' }] },
+  education: { orderBy: [{ order: 'asc' }, { createdAt: 'asc' }] },
+} satisfies Prisma.ProfileInclude
+
+/**
+ * Loads the profile together with its ordered experience and education
+ */
+export async function getProfileWithEntries(client: PrismaLike = prisma): Promise<ProfileWithEntries | null> {
+  return client.profile.findFirst({ include: profileEntriesInclude })
+}
+
+/**
+ * Replaces a profile's experience and education with the given lists,
+ * storing them in list order. Lists that are not given are left alone.
+ */
+export async function replaceProfileEntries(
+  client: PrismaLike,
+  profileId: string,
+  entries: { experience?: ExperienceEntryInput[]; education?: EducationEntryInput[] }
+) {
+  if (entries.experience) {
+    await client.experienceEntry.deleteMany({ where: { profileId } })
+    await client.experienceEntry.createMany({
+      data: entries.experience.map((entry, order) => ({ ...entry, profileId, order }))
+    })
+  }
+
+  if (entries.education) {
+    await client.educationEntry.deleteMany({ where: { profileId } })
+    await client.educationEntry.createMany({
+      data: entries.education.map((entry, order) => ({ ...entry, profileId, order }))
+    })
+  }
+}
+
+/**
+ * Positions for a reorder request: given ids first, in the order given,
+ * followed by any others in their current order
+ */
+export function orderEntryIds(currentIds: string[], requestedIds: string[]): string[] {
+  const requested = requestedIds.filter(id => currentIds.includes(id))
+  return [...new Set([...requested, ...currentIds])]
+}
@@ -0,0 +1,108 @@
+import { z } from 'zod'
+
+// Entry dates come from <input type="month"> as YYYY-MM
+const monthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Dates must be in YYYY-MM format')
+
+// Optional text: blank clears the value, a missing field leaves it unchanged
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullish().transform(value => (value === undefined ? undefined : value || null))
+
+/**
+ * Rejects entries that end before they start
+ */
+function endsAfterStart(entry: { startDate: string; endDate: string | null }) {
+  return !entry.endDate || entry.endDate >= entry.startDate
+}
+
+export const experienceEntrySchema = z.object({
+  company: z.string().trim().min(1, 'Company is required').max(200),
+  position: z.string().trim().min(1, 'Position is required').max(200),
+  startDate: monthSchema,
+  endDate: monthSchema.or(z.literal('')).nullish().transform(value => value || null),
+  description: z.string().trim().min(1, 'Description is required').max(5000),
+  technologies: z.array(z.string().trim().min(1).max(60)).max(30).default([]),
+}).refine(endsAfterStart, { message: 'End date must be after the start date', path: ['endDate'] })
+
+export const educationEntrySchema = z.object({
+  institution: z.string().trim().min(1, 'Institution is required').max(200),
+  degree: z.string().trim().min(1, 'Degree is required').max(200),
+  field: z.string().trim().min(1, 'Field of study is required').max(200),
+  startDate: monthSchema,
+  endDate: monthSchema.or(z.literal('')).nullish().transform(value => value || null),
+  description: optionalText(5000),
+}).refine(endsAfterStart, { message: 'End date must be after the start date', path: ['endDate'] })
+
+export type ExperienceEntryInput = z.infer<typeof experienceEntrySchema>
+export type EducationEntryInput = z.infer<typeof educationEntrySchema>
+
+// Layouts the resume PDF can be generated with
+export const RESUME_TEMPLATES = [
+  { id: 'modern', label: 'Modern', description: 'Coloured header band and accent headings' },
+  { id: 'classic', label: 'Classic', description: 'Centred header in black and white' },
+] as const
+
+export type ResumeTemplate = typeof RESUME_TEMPLATES[number]['id']
+
+export const resumeTemplateSchema = z.enum(RESUME_TEMPLATES.map(template => template.id) as [ResumeTemplate, ...ResumeTemplate[]])
+
+// Blank links are dropped rather than stored
+const optionalLink = <T extends z.ZodType<string | undefined>>(schema: T) =>
+  z.literal('').transform(() => undefined).or(schema).optional()
+
+const linkUrl = z.url('Please enter a valid URL').trim().max(500)
+
+// Known networks from SocialLinks, plus any other network imported by its lowercased name
+export const socialLinksSchema = z.object({
+  github: optionalLink(linkUrl),
+  linkedin: optionalLink(linkUrl),
+  twitter: optionalLink(linkUrl),
+  website: optionalLink(linkUrl),
+  email: optionalLink(z.email('Please enter a valid email address').trim()),
+}).catchall(optionalLink(linkUrl))
+
+export const profileUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  title: z.string().trim().min(1, 'Title is required').max(150, 'Title must be less than 150 characters'),
+  bio: z.string().trim().min(1, 'Bio is required').max(5000, 'Bio must be less than 5000 characters'),
+  email: z.email('Please enter a valid email address').trim(),
+  phone: optionalText(50),
+  location: optionalText(150),
+  profileImage: optionalText(2000),
+  socialLinks: socialLinksSchema.optional(),
+  resumeUrl: optionalText(2000),
+  resumeTemplate: resumeTemplateSchema.optional(),
+  useUploadedResume: z.boolean().optional(),
+  experience: z.array(experienceEntrySchema).max(50).optional(),
+  education: z.array(educationEntrySchema).max(50).optional(),
+})
+
+export type ProfileUpdateInput = z.infer<typeof profileUpdateSchema>
+
+/**
+ * Describes the first validation issue, naming the entry it belongs to
+ */
+export function formatSchemaError(error: z.ZodError): string {
+  const issue = error.issues[0]
+  const [field, index] = issue.path
+
+  if ((field === 'experience' || field === 'education') && typeof index === 'number') {
+    return `${field === 'experience' ? 'Experience' : 'Education'} entry ${index + 1}: ${issue.message}`
+  }
+
+  return issue.message
+}
+
+/**
+ * Collects the first message for each invalid field, keyed by its path,
+ * e.g. "email" or "experience.1.company"
+ */
+export function schemaFieldErrors(error: z.ZodError): Record<string, string> {
+  const errors: Record<string, string> = {}
+
+  for (const issue of error.issues) {
+    const path = issue.path.join('.') || 'form'
+    errors[path] ??= issue.message
+  }
+
+  return errors
+}
@@ -0,0 +1,151 @@
+import { z } from 'zod'
+import type { Project } from '@prisma/client'
+import { ProjectBlock, ProjectBlockType } from '@/types'
+
+export const PROJECT_BLOCK_TYPES: { type: ProjectBlockType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'problem', label: 'Problem' },
+  { type: 'solution', label: 'Solution' },
+  { type: 'architecture', label: 'Architecture Diagram' },
+  { type: 'metrics', label: 'Metrics' },
+  { type: 'quote', label: 'Quote' },
+  { type: 'code', label: 'Code Snippet' },
+  { type: 'gallery', label: 'Gallery' },
+]
+
+const blockId = z.string().min(1)
+const optionalText = z.string().max(200).optional()
+// Rendered as image sources and links, so other schemes such as javascript: are refused
+const imageUrl = z.url({ protocol: /^https?$/, error: 'Image URLs must start with http:// or https://' })
+
+const projectBlockSchema = z.discriminatedUnion('type', [
+  z.object({ id: blockId, type: z.literal('text'), markdown: z.string().max(50000) }),
+  z.object({ id: blockId, type: z.literal('problem'), heading: optionalText, markdown: z.string().max(20000) }),
+  z.object({ id: blockId, type: z.literal('solution'), heading: optionalText, markdown: z.string().max(20000) }),
+  z.object({
+    id: blockId,
+    type: z.literal('architecture'),
+    imageUrl,
+    alt: optionalText,
+    caption: z.string().max(500).optional(),
+  }),
+  z.object({
+    id: blockId,
+    type: z.literal('metrics'),
+    items: z.array(z.object({
+      label: z.string().min(1).max(100),
+      value: z.string().min(1).max(50),
+      description: optionalText,
+    })).min(1).max(12),
+  }),
+  z.object({
+    id: blockId,
+    type: z.literal('quote'),
+    text: z.string().min(1).max(2000),
+    author: z.string().max(100).optional(),
+    role: z.string().max(100).optional(),
+  }),
+  z.object({
+    id: blockId,
+    type: z.literal('code'),
+    language: z.string().max(30),
+    code: z.string().min(1).max(20000),
+    caption: z.string().max(500).optional(),
+  }),
+  z.object({
+    id: blockId,
+    type: z.literal('gallery'),
+    images: z.array(imageUrl).min(1).max(20),
+    caption: z.string().max(500).optional(),
+  }),
+])
+
+export const projectBlocksSchema = z.array(projectBlockSchema).max(50)
+
+/**
+ * Creates an empty block of the given type for the editor
+ */
+export function createProjectBlock(type: ProjectBlockType): ProjectBlock {
+  const id = `block-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+  switch (type) {
+    case 'text':
+      return { id, type, markdown: '' }
+    case 'problem':
+    case 'solution':
+      return { id, type, heading: '', markdown: '' }
+    case 'architecture':
+      return { id, type, imageUrl: '', alt: '', caption: '' }
+    case 'metrics':
+      return { id, type, items: [{ label: '', value: '' }] }
+    case 'quote':
+      return { id, type, text: '', author: '', role: '' }
+    case 'code':
+      return { id, type, language: 'typescript', code: '', caption: '' }
+    case 'gallery':
+      return { id, type, images: [], caption: '' }
+  }
+}
+
+/**
+ * Returns the blocks to render for a project. Invalid stored content and
+ * projects without blocks fall back to the plain description as one text block.
+ */
+export function getProjectBlocks(project: Pick<Project, 'id' | 'description' | 'contentBlocks'>): ProjectBlock[] {
+  const parsed = projectBlocksSchema.safeParse(project.contentBlocks)
+
+  if (parsed.success && parsed.data.length > 0) {
+    return parsed.data
+  }
+
+  return project.description
+    ? [{ id: `block-${project.id}`, type: 'text', markdown: project.description }]
+    : []
+}
+
+/**
+ * Flattens blocks into plain text, used to keep Project.description in sync
+ * for search, SEO and structured data
+ */
+export function projectBlocksToText(blocks: ProjectBlock[]): string {
+  return blocks
+    .map(block => {
+      switch (block.type) {
+        case 'text':
+          return block.markdown
+        case 'problem':
+        case 'solution':
+          return [block.heading, block.markdown].filter(Boolean).join('\n\n')
+        case 'quote':
+          return `"${block.text}"${block.author ? ` — ${block.author}` : ''}`
+        case 'metrics':
+          return block.items.map(item => `${item.label}: ${item.value}`).join('\n')
+        case 'architecture':
+        case 'gallery':
+          return block.caption || ''
+        case 'code':
+          return block.caption || ''
+      }
+    })
+    .filter(text => text && text.trim())
+    .join('\n\n')
+}
+
+/**
+ * Validates blocks submitted from the admin editor
+ */
+export function parseProjectBlocks(input: unknown): { blocks: ProjectBlock[]; error?: string } {
+  if (input === undefined || input === null) {
+    return { blocks: [] }
+  }
+
+  const parsed = projectBlocksSchema.safeParse(input)
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const position = typeof issue.path[0] === 'number' ? `Block ${issue.path[0] + 1}: ` : ''
+    return { blocks: [], error: `${position}${issue.message}` }
+  }
+
+  return { blocks: parsed.data }
+}
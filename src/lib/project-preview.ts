@@ -0,0 +1,131 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { ProjectPreviewToken } from '@prisma/client'
+import { prisma } from './prisma'
+
+export const DEFAULT_PREVIEW_TTL_HOURS = 72
+export const MAX_PREVIEW_TTL_HOURS = 24 * 30
+
+export interface PreviewTokenAuthor {
+  id: string
+  name?: string | null
+}
+
+export interface PreviewRequestInfo {
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+function getPreviewSecret(): string {
+  const secret = process.env.PREVIEW_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('PREVIEW_SECRET or NEXTAUTH_SECRET must be configured for preview links')
+  }
+  return secret
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getPreviewSecret()).update(payload).digest('base64url')
+}
+
+/**
+ * Builds the public token for a preview record.
+ * Format: <recordId>.<expiresAtSeconds>.<signature>
+ */
+export function signPreviewToken(record: Pick<ProjectPreviewToken, 'id' | 'projectId' | 'expiresAt'>): string {
+  const expires = Math.floor(record.expiresAt.getTime() / 1000)
+  const signature = sign(`${record.id}.${record.projectId}.${expires}`)
+  return `${record.id}.${expires}.${signature}`
+}
+
+/**
+ * Creates a preview record for a project and returns it with its signed token
+ */
+export async function createPreviewToken(
+  projectId: string,
+  options: { ttlHours?: number; label?: string | null; author?: PreviewTokenAuthor | null } = {}
+): Promise<{ record: ProjectPreviewToken; token: string }> {
+  const ttlHours = Math.min(Math.max(options.ttlHours ?? DEFAULT_PREVIEW_TTL_HOURS, 1), MAX_PREVIEW_TTL_HOURS)
+  // Second precision keeps the signed expiry identical to the stored one
+  const expiresAt = new Date(Math.floor((Date.now() + ttlHours * 60 * 60 * 1000) / 1000) * 1000)
+
+  const record = await prisma.projectPreviewToken.create({
+    data: {
+      projectId,
+      label: options.label || null,
+      expiresAt,
+      createdById: options.author?.id ?? null,
+      createdByName: options.author?.name ?? null,
+    },
+  })
+
+  return { record, token: signPreviewToken(record) }
+}
+
+/**
+ * Verifies a preview token for the given project slug.
+ * Returns the token record when the signature is valid, the token has not
+ * expired or been revoked, and it belongs to the project with that slug.
+ */
+export async function verifyPreviewToken(token: string, slug: string) {
+  const [id, expires, signature] = token.split('.')
+  if (!id || !expires || !signature) {
+    return null
+  }
+
+  const expiresAt = Number(expires) * 1000
+  if (!Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+    return null
+  }
+
+  const record = await prisma.projectPreviewToken.findUnique({
+    where: { id },
+    include: { project: true },
+  })
+
+  if (!record || record.revokedAt || record.project.slug !== slug) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(`${record.id}.${record.projectId}.${expires}`))
+  const provided = Buffer.from(signature)
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null
+  }
+
+  if (record.expiresAt.getTime() !== expiresAt) {
+    return null
+  }
+
+  return record
+}
+
+/**
+ * Logs a view of a preview link
+ */
+export async function recordPreviewView(tokenId: string, info: PreviewRequestInfo = {}): Promise<void> {
+  try {
+    await prisma.projectPreviewView.create({
+      data: {
+        tokenId,
+        ipAddress: info.ipAddress || null,
+        userAgent: info.userAgent || null,
+      },
+    })
+  } catch (error) {
+    // A failed log must never block the preview itself
+    console.error('Error recording preview view:', error)
+  }
+}
+
+/**
+ * Resolves a preview token to its project and logs the view
+ */
+export async function getPreviewProject(token: string, slug: string, info: PreviewRequestInfo = {}) {
+  const record = await verifyPreviewToken(token, slug)
+  if (!record) {
+    return null
+  }
+
+  await recordPreviewView(record.id, info)
+  return record.project
+}
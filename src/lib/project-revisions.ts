@@ -0,0 +1,160 @@
+import { Prisma, Project, ProjectRevision } from '@prisma/client'
+import { prisma } from './prisma'
+import { resolveTechnologies } from './technologies'
+import { ValidationError } from './error-handler'
+
+/**
+ * Project fields captured in every revision snapshot
+ */
+export const REVISION_FIELDS = [
+  'title',
+  'description',
+  'shortDescription',
+  'contentBlocks',
+  'technologies',
+  'images',
+  'liveUrl',
+  'githubUrl',
+  'status',
+] as const
+
+export type RevisionField = typeof REVISION_FIELDS[number]
+
+export type RevisionSnapshot = Pick<ProjectRevision, RevisionField>
+
+export interface RevisionAuthor {
+  id: string
+  name?: string | null
+}
+
+export interface RevisionFieldDiff {
+  field: RevisionField
+  before: RevisionSnapshot[RevisionField]
+  after: RevisionSnapshot[RevisionField]
+  added?: string[]
+  removed?: string[]
+}
+
+type PrismaLike = Prisma.TransactionClient | typeof prisma
+
+function toSnapshot(source: RevisionSnapshot): RevisionSnapshot {
+  return {
+    title: source.title,
+    description: source.description,
+    shortDescription: source.shortDescription,
+    contentBlocks: source.contentBlocks ?? [],
+    technologies: [...source.technologies],
+    images: [...source.images],
+    liveUrl: source.liveUrl,
+    githubUrl: source.githubUrl,
+    status: source.status,
+  }
+}
+
+/**
+ * Stores a snapshot of the project's current content
+ */
+export async function createProjectRevision(
+  project: Project,
+  author?: RevisionAuthor | null,
+  client: PrismaLike = prisma
+): Promise<ProjectRevision> {
+  const snapshot = toSnapshot(project)
+
+  return client.projectRevision.create({
+    data: {
+      ...snapshot,
+      contentBlocks: snapshot.contentBlocks as Prisma.InputJsonValue,
+      projectId: project.id,
+      authorId: author?.id ?? null,
+      authorName: author?.name ?? null,
+    },
+  })
+}
+
+/**
+ * Compares two snapshots field by field and returns only the fields that changed
+ */
+export function diffRevisions(from: RevisionSnapshot, to: RevisionSnapshot): RevisionFieldDiff[] {
+  const changes: RevisionFieldDiff[] = []
+
+  for (const field of REVISION_FIELDS) {
+    const before = from[field]
+    const after = to[field]
+
+    if (field === 'contentBlocks') {
+      if (JSON.stringify(before ?? []) !== JSON.stringify(after ?? [])) {
+        changes.push({ field, before, after })
+      }
+      continue
+    }
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+      const beforeValues = before as string[]
+      const afterValues = after as string[]
+      const same = beforeValues.length === afterValues.length &&
+        beforeValues.every((value, index) => value === afterValues[index])
+      if (!same) {
+        changes.push({
+          field,
+          before,
+          after,
+          added: afterValues.filter(value => !beforeValues.includes(value)),
+          removed: beforeValues.filter(value => !afterValues.includes(value)),
+        })
+      }
+      continue
+    }
+
+    if ((before ?? null) !== (after ?? null)) {
+      changes.push({ field, before, after })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Copies a revision back onto its project and records the restore as a new revision.
+ * Revisions don't keep the publish window, so a scheduled revision can only be
+ * restored onto a project that still has a publish date.
+ */
+export async function restoreProjectRevision(
+  revisionId: string,
+  projectId: string,
+  author?: RevisionAuthor | null
+): Promise<{ project: Project; revision: ProjectRevision } | null> {
+  const revision = await prisma.projectRevision.findFirst({
+    where: { id: revisionId, projectId },
+  })
+
+  if (!revision) {
+    return null
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const snapshot = toSnapshot(revision)
+
+    if (snapshot.status === 'SCHEDULED') {
+      const current = await tx.project.findUnique({ where: { id: projectId }, select: { publishAt: true } })
+      if (!current?.publishAt) {
+        throw new ValidationError('Scheduled projects require a publish date. Set one before restoring this revision.')
+      }
+    }
+
+    const technologies = await resolveTechnologies(snapshot.technologies, tx)
+    const project = await tx.project.update({
+      where: { id: projectId },
+      data: {
+        ...snapshot,
+        contentBlocks: snapshot.contentBlocks as Prisma.InputJsonValue,
+        technologies: technologies.map(technology => technology.name),
+        technologyRefs: { set: technologies.map(technology => ({ id: technology.id })) },
+      },
+    })
+
+    const restored = await createProjectRevision(project, author, tx)
+
+    return { project, revision: restored }
+  })
+}
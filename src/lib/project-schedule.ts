@@ -0,0 +1,109 @@
+import type { Prisma, Project } from '@prisma/client'
+import { prisma } from './prisma'
+import { createProjectRevision } from './project-revisions'
+import { recordAudit } from './audit-log'
+
+export interface ProjectScheduleInput {
+  status?: string
+  publishAt?: string | null
+  unpublishAt?: string | null
+}
+
+export interface ParsedProjectSchedule {
+  publishAt: Date | null
+  unpublishAt: Date | null
+  error?: string
+}
+
+export interface ProjectScheduleResult {
+  published: string[]
+  unpublished: string[]
+}
+
+function parseDate(value?: string | null): Date | null | undefined {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Validates the publishAt/unpublishAt pair submitted with a project
+ */
+export function parseProjectSchedule(input: ProjectScheduleInput): ParsedProjectSchedule {
+  const publishAt = parseDate(input.publishAt)
+  const unpublishAt = parseDate(input.unpublishAt)
+
+  if (publishAt === undefined || unpublishAt === undefined) {
+    return { publishAt: null, unpublishAt: null, error: 'Invalid publish or unpublish date' }
+  }
+
+  if (input.status === 'SCHEDULED' && !publishAt) {
+    return { publishAt, unpublishAt, error: 'Scheduled projects require a publish date' }
+  }
+
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    return { publishAt, unpublishAt, error: 'Unpublish date must be after the publish date' }
+  }
+
+  return { publishAt, unpublishAt }
+}
+
+// Runs one scheduled status change and records it like an admin edit, without an author
+async function applyScheduledChange(
+  project: Project,
+  data: Pick<Prisma.ProjectUpdateInput, 'status' | 'unpublishAt'>
+): Promise<Project> {
+  const updated = await prisma.$transaction(async tx => {
+    const result = await tx.project.update({ where: { id: project.id }, data })
+    await createProjectRevision(result, null, tx)
+    return result
+  })
+
+  await recordAudit(
+    {
+      action: 'project.status_change',
+      entityType: 'project',
+      entityId: project.id,
+      before: { status: project.status, publishAt: project.publishAt, unpublishAt: project.unpublishAt },
+      after: { status: updated.status, publishAt: updated.publishAt, unpublishAt: updated.unpublishAt }
+    },
+    null
+  )
+
+  return updated
+}
+
+/**
+ * Moves projects between states according to their publishAt/unpublishAt times.
+ * Expired projects are unpublished first so a schedule whose window has already
+ * closed goes straight back to draft. Each change gets a revision and an audit
+ * entry. Returns the slugs that changed.
+ */
+export async function runProjectSchedule(now: Date = new Date()): Promise<ProjectScheduleResult> {
+  const expired = await prisma.project.findMany({
+    where: {
+      status: { in: ['PUBLISHED', 'SCHEDULED'] },
+      unpublishAt: { lte: now }
+    }
+  })
+
+  for (const project of expired) {
+    await applyScheduledChange(project, { status: 'DRAFT', unpublishAt: null })
+  }
+
+  const due = await prisma.project.findMany({
+    where: {
+      status: 'SCHEDULED',
+      publishAt: { lte: now }
+    }
+  })
+
+  for (const project of due) {
+    await applyScheduledChange(project, { status: 'PUBLISHED' })
+  }
+
+  return {
+    published: due.map(project => project.slug),
+    unpublished: expired.map(project => project.slug)
+  }
+}
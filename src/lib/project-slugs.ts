@@ -0,0 +1,89 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { isProjectPublic } from './project-visibility'
+import { verifyPreviewToken } from './project-preview'
+
+export interface SlugConflict {
+  type: 'project' | 'history'
+  projectId: string
+  projectTitle: string
+}
+
+/**
+ * Finds another project that already uses the slug, either as its current
+ * slug or as one that still redirects to it
+ */
+export async function findSlugConflict(slug: string, excludeProjectId?: string): Promise<SlugConflict | null> {
+  const [project, history] = await Promise.all([
+    prisma.project.findFirst({
+      where: {
+        slug,
+        ...(excludeProjectId && { id: { not: excludeProjectId } })
+      },
+      select: { id: true, title: true }
+    }),
+    prisma.projectSlugHistory.findUnique({
+      where: { slug },
+      include: { project: { select: { id: true, title: true } } }
+    })
+  ])
+
+  if (project) {
+    return { type: 'project', projectId: project.id, projectTitle: project.title }
+  }
+
+  if (history && history.projectId !== excludeProjectId) {
+    return { type: 'history', projectId: history.project.id, projectTitle: history.project.title }
+  }
+
+  return null
+}
+
+/**
+ * Returns the current slug of the project that previously used the given slug.
+ * Only public projects redirect, unless the request carries a valid preview
+ * token for the project, so old URLs never reveal an unpublished slug.
+ */
+export async function resolveHistoricalSlug(slug: string, previewToken?: string | null): Promise<string | null> {
+  const history = await prisma.projectSlugHistory.findUnique({
+    where: { slug },
+    include: { project: { select: { slug: true, status: true, publishAt: true, unpublishAt: true } } }
+  })
+
+  if (!history) {
+    return null
+  }
+
+  if (isProjectPublic(history.project)) {
+    return history.project.slug
+  }
+
+  if (previewToken && await verifyPreviewToken(previewToken, history.project.slug)) {
+    return history.project.slug
+  }
+
+  return null
+}
+
+/**
+ * Keeps the old slug so it can redirect, and drops the new slug from the
+ * project's history when it is reclaimed
+ */
+export async function recordSlugChange(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  oldSlug: string,
+  newSlug: string
+): Promise<void> {
+  if (oldSlug === newSlug) return
+
+  await tx.projectSlugHistory.deleteMany({
+    where: { projectId, slug: newSlug }
+  })
+
+  await tx.projectSlugHistory.upsert({
+    where: { slug: oldSlug },
+    update: { projectId },
+    create: { projectId, slug: oldSlug }
+  })
+}
@@ -0,0 +1,40 @@
+import type { Prisma, Project } from '@prisma/client'
+
+type ScheduleFields = Pick<Project, 'status' | 'publishAt' | 'unpublishAt'>
+
+/**
+ * Where clause for projects that are publicly visible at the given time.
+ * Scheduled projects whose publish time has passed are included even before
+ * the schedule job has flipped their status, so visitors never wait on the cron.
+ */
+export function publicProjectWhere(now: Date = new Date()): Prisma.ProjectWhereInput {
+  const notExpired: Prisma.ProjectWhereInput = {
+    OR: [
+      { unpublishAt: null },
+      { unpublishAt: { gt: now } }
+    ]
+  }
+
+  return {
+    OR: [
+      { status: 'PUBLISHED', ...notExpired },
+      { status: 'SCHEDULED', publishAt: { lte: now }, ...notExpired }
+    ]
+  }
+}
+
+/**
+ * Client-safe equivalent of publicProjectWhere for a single project
+ */
+export function isProjectPublic(project: ScheduleFields, now: Date = new Date()): boolean {
+  const unpublishAt = project.unpublishAt ? new Date(project.unpublishAt) : null
+  if (unpublishAt && unpublishAt <= now) {
+    return false
+  }
+
+  if (project.status === 'PUBLISHED') {
+    return true
+  }
+
+  return project.status === 'SCHEDULED' && !!project.publishAt && new Date(project.publishAt) <= now
+}
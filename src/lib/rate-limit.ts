@@ -0,0 +1,284 @@
+/**
+ * Rate limiting for API routes. A RateLimiter combines a policy (sliding
+ * window or token bucket) with a store that keeps each key's state. The
+ * Postgres store is shared by every server instance and survives deploys;
+ * the memory store is for tests and single-process development.
+ */
+
+import { RateLimitError } from './error-handler'
+import { prisma } from './prisma'
+
+// What a policy keeps per key. Stored as JSON by the Postgres store.
+export type RateLimitState = { [key: string]: number | number[] }
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Until the full limit is available again
+  resetMs: number
+  // Until the next request would be allowed, 0 when this one was
+  retryAfterMs: number
+  // RateLimit-Policy header value, e.g. "5;w=900"
+  policy: string
+}
+
+export interface RateLimitPolicy {
+  limit: number
+  description: string
+  // How long state is worth keeping after the last request
+  ttlMs: number
+  consume(state: RateLimitState | null, now: number): { state: RateLimitState; result: RateLimitResult }
+}
+
+export interface RateLimitStore {
+  /**
+   * Applies the policy to the key's current state and saves the new state.
+   * Concurrent calls for the same key must not see the same state.
+   */
+  consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult>
+}
+
+export interface RateLimiter {
+  // Counts a request and reports whether it was allowed
+  check(key: string): Promise<RateLimitResult>
+  // Counts a request and throws RateLimitError when it's over the limit
+  limit(key: string): Promise<RateLimitResult>
+}
+
+/**
+ * At most `limit` requests in any `windowMs`, counted from the timestamps of
+ * recent requests. Denied requests don't count.
+ */
+export function slidingWindow({ limit, windowMs }: { limit: number; windowMs: number }): RateLimitPolicy {
+  const description = `${limit};w=${Math.ceil(windowMs / 1000)}`
+
+  return {
+    limit,
+    description,
+    ttlMs: windowMs,
+    consume(state, now) {
+      const hits = ((state?.hits as number[] | undefined) ?? []).filter(hit => hit > now - windowMs)
+      const allowed = hits.length < limit
+
+      if (allowed) hits.push(now)
+
+      // The request that has to drop out of the window before another fits
+      const blocking = hits[hits.length - limit]
+
+      return {
+        state: { hits },
+        result: {
+          allowed,
+          limit,
+          remaining: limit - hits.length,
+          resetMs: hits.length > 0 ? hits[0] + windowMs - now : 0,
+          retryAfterMs: allowed ? 0 : blocking + windowMs - now,
+          policy: description,
+        },
+      }
+    },
+  }
+}
+
+/**
+ * Allows bursts of up to `capacity` requests, then one every `refillEveryMs`
+ */
+export function tokenBucket({ capacity, refillEveryMs }: { capacity: number; refillEveryMs: number }): RateLimitPolicy {
+  const description = `${capacity};w=${Math.ceil((capacity * refillEveryMs) / 1000)}`
+
+  return {
+    limit: capacity,
+    description,
+    ttlMs: capacity * refillEveryMs,
+    consume(state, now) {
+      const refilled = state
+        ? Math.min(capacity, (state.tokens as number) + (now - (state.updatedAt as number)) / refillEveryMs)
+        : capacity
+      const allowed = refilled >= 1
+      const tokens = allowed ? refilled - 1 : refilled
+
+      return {
+        state: { tokens, updatedAt: now },
+        result: {
+          allowed,
+          limit: capacity,
+          remaining: Math.floor(tokens),
+          resetMs: Math.ceil((capacity - tokens) * refillEveryMs),
+          retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) * refillEveryMs),
+          policy: description,
+        },
+      }
+    },
+  }
+}
+
+/**
+ * Keeps state in this process only. Expired keys are swept once the map grows.
+ */
+export function createMemoryStore({ maxKeys = 10000 }: { maxKeys?: number } = {}): RateLimitStore {
+  const entries = new Map<string, { state: RateLimitState; expiresAt: number }>()
+
+  return {
+    async consume(key, policy, now) {
+      if (entries.size >= maxKeys) {
+        for (const [existingKey, entry] of entries) {
+          if (entry.expiresAt <= now) entries.delete(existingKey)
+        }
+      }
+
+      const current = entries.get(key)
+      const { state, result } = policy.consume(current && current.expiresAt > now ? current.state : null, now)
+      entries.set(key, { state, expiresAt: now + policy.ttlMs })
+
+      return result
+    },
+  }
+}
+
+/**
+ * Keeps state in the rate_limits table. The row is locked while the policy
+ * runs so instances handling the same key take turns.
+ */
+export function createPostgresStore(): RateLimitStore {
+  return {
+    async consume(key, policy, now) {
+      return prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`
+          INSERT INTO "rate_limits" ("key", "state", "expiresAt", "updatedAt")
+          VALUES (${key}, '{}'::jsonb, to_timestamp(0), now())
+          ON CONFLICT ("key") DO NOTHING
+        `
+        const [row] = await tx.$queryRaw<Array<{ state: RateLimitState; expiresAt: Date }>>`
+          SELECT "state", "expiresAt" FROM "rate_limits" WHERE "key" = ${key} FOR UPDATE
+        `
+
+        const { state, result } = policy.consume(row && row.expiresAt.getTime() > now ? row.state : null, now)
+
+        await tx.rateLimit.update({
+          where: { key },
+          data: { state, expiresAt: new Date(now + policy.ttlMs) },
+        })
+
+        return result
+      })
+    },
+  }
+}
+
+/**
+ * Deletes rate_limits rows whose state has expired. Keys are only read back
+ * by the requests that use them, so without this every IP ever seen keeps a
+ * row. Returns the number of rows deleted.
+ */
+export async function deleteExpiredRateLimits(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.rateLimit.deleteMany({
+    where: { expiresAt: { lt: now } },
+  })
+  return count
+}
+
+let store: RateLimitStore | null = null
+
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next
+}
+
+/**
+ * The store set with setRateLimitStore, or one chosen from the environment:
+ * RATE_LIMIT_STORE=memory keeps state in the process, otherwise Postgres is used
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === 'memory' ? createMemoryStore() : createPostgresStore()
+  }
+  return store
+}
+
+function waitDescription(retryAfterMs: number): string {
+  const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000))
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`
+
+  const minutes = Math.ceil(seconds / 60)
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`
+}
+
+/**
+ * Standard RateLimit-* headers for a result, with Retry-After once it's denied
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(Math.max(0, result.remaining)),
+    'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+    'RateLimit-Policy': result.policy,
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil(result.retryAfterMs / 1000)))
+  }
+
+  return headers
+}
+
+export function withRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value)
+  }
+  return response
+}
+
+/**
+ * A limiter for one kind of request. Keys are prefixed with the name, so
+ * limiters sharing a store don't share counts. When the store fails the
+ * request is allowed, since refusing every request would be worse.
+ */
+export function createRateLimiter({
+  name,
+  policy,
+  store: limiterStore,
+}: {
+  name: string
+  policy: RateLimitPolicy
+  store?: RateLimitStore
+}): RateLimiter {
+  const check = async (key: string): Promise<RateLimitResult> => {
+    try {
+      return await (limiterStore ?? getRateLimitStore()).consume(`${name}:${key}`, policy, Date.now())
+    } catch (error) {
+      console.error(`Rate limiter ${name} failed:`, error)
+      return {
+        allowed: true,
+        limit: policy.limit,
+        remaining: policy.limit,
+        resetMs: 0,
+        retryAfterMs: 0,
+        policy: policy.description,
+      }
+    }
+  }
+
+  return {
+    check,
+    async limit(key) {
+      const result = await check(key)
+
+      if (!result.allowed) {
+        throw new RateLimitError(
+          `Too many requests. Please try again in ${waitDescription(result.retryAfterMs)}.`,
+          rateLimitHeaders(result)
+        )
+      }
+
+      return result
+    },
+  }
+}
+
+/**
+ * The client IP to limit by, from the proxy headers
+ */
+export function clientIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for')
+  return forwarded?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown'
+}
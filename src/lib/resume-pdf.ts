@@ -0,0 +1,195 @@
+import { PdfColor, PdfDocument, PdfFont } from './pdf'
+import { ResumeTemplate } from './profile-schema'
+import { groupSkillsByCategory } from './utils'
+import { ProfileWithEntries, ShowcaseSkill, SocialLinks } from '@/types'
+
+interface TemplateStyle {
+  accent: PdfColor
+  muted: PdfColor
+  headerBand: boolean
+  centeredHeader: boolean
+  uppercaseHeadings: boolean
+}
+
+const TEMPLATE_STYLES: Record<ResumeTemplate, TemplateStyle> = {
+  modern: {
+    accent: [0.31, 0.27, 0.9],
+    muted: [0.42, 0.45, 0.5],
+    headerBand: true,
+    centeredHeader: false,
+    uppercaseHeadings: false,
+  },
+  classic: {
+    accent: [0, 0, 0],
+    muted: [0.35, 0.35, 0.35],
+    headerBand: false,
+    centeredHeader: true,
+    uppercaseHeadings: true,
+  },
+}
+
+const MARGIN = 50
+const BODY_SIZE = 10
+const LINE_HEIGHT = 14
+const WHITE: PdfColor = [1, 1, 1]
+const TEXT: PdfColor = [0.12, 0.12, 0.14]
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/**
+ * Formats a YYYY-MM entry date as "Mar 2021"
+ */
+function formatMonth(value: string): string {
+  const [year, month] = value.split('-').map(Number)
+  return MONTHS[month - 1] ? `${MONTHS[month - 1]} ${year}` : value
+}
+
+function formatDateRange(startDate: string, endDate: string | null): string {
+  return `${formatMonth(startDate)} – ${endDate ? formatMonth(endDate) : 'Present'}`
+}
+
+/**
+ * Renders the profile, experience, education and skills as a PDF resume
+ */
+export async function renderResumePdf(
+  profile: ProfileWithEntries,
+  skills: ShowcaseSkill[],
+  template: ResumeTemplate = 'modern',
+  createdAt?: Date
+): Promise<Buffer> {
+  const style = TEMPLATE_STYLES[template]
+  const doc = await PdfDocument.create({ title: `${profile.name} - Resume`, author: profile.name, createdAt })
+  const contentWidth = doc.width - MARGIN * 2
+  let y = MARGIN
+
+  // Starts a new page when the next block would run past the bottom margin
+  const ensureSpace = (height: number) => {
+    if (y + height > doc.height - MARGIN) {
+      doc.addPage()
+      y = MARGIN
+    }
+  }
+
+  const paragraph = (text: string, font: PdfFont = 'regular', color: PdfColor = TEXT, size: number = BODY_SIZE) => {
+    for (const line of doc.wrapText(text, contentWidth, font, size)) {
+      ensureSpace(LINE_HEIGHT)
+      y += LINE_HEIGHT
+      doc.text(line, MARGIN, y, { font, size, color })
+    }
+  }
+
+  const heading = (text: string) => {
+    ensureSpace(LINE_HEIGHT * 4)
+    y += 24
+    doc.text(style.uppercaseHeadings ? text.toUpperCase() : text, MARGIN, y, {
+      font: 'bold',
+      size: 13,
+      color: style.accent,
+    })
+    y += 6
+    doc.line(MARGIN, y, doc.width - MARGIN, y, style.uppercaseHeadings ? style.muted : style.accent, 0.75)
+    y += 2
+  }
+
+  // Title on the left and dates on the right of the same line
+  const entryTitle = (title: string, dates: string) => {
+    const datesWidth = doc.measureText(dates, 'regular', 9)
+    const titleLines = doc.wrapText(title, contentWidth - datesWidth - 12, 'bold', 11)
+
+    ensureSpace(LINE_HEIGHT * 3)
+    y += 18
+    doc.text(dates, doc.width - MARGIN - datesWidth, y, { size: 9, color: style.muted })
+    titleLines.forEach((line, index) => {
+      if (index > 0) y += LINE_HEIGHT
+      doc.text(line, MARGIN, y, { font: 'bold', size: 11, color: TEXT })
+    })
+  }
+
+  // Header
+  const socialLinks = (profile.socialLinks ?? {}) as SocialLinks
+  const contact = [profile.email, profile.phone, profile.location].filter(Boolean).join('  •  ')
+  const links = [socialLinks.website, socialLinks.linkedin, socialLinks.github]
+    .filter((link): link is string => !!link)
+    .map(link => link.replace(/^https?:\/\//, ''))
+    .join('  •  ')
+
+  if (style.headerBand) {
+    const bandHeight = links ? 104 : 90
+    doc.rect(0, 0, doc.width, bandHeight, style.accent)
+    doc.text(profile.name, MARGIN, 44, { font: 'bold', size: 24, color: WHITE })
+    doc.text(profile.title, MARGIN, 64, { size: 12, color: WHITE })
+    doc.text(contact, MARGIN, 80, { size: 9, color: WHITE })
+    if (links) doc.text(links, MARGIN, 94, { size: 9, color: WHITE })
+    y = bandHeight + 6
+  } else {
+    const centered = (text: string, top: number, font: PdfFont, size: number, color: PdfColor) => {
+      const x = style.centeredHeader ? (doc.width - doc.measureText(text, font, size)) / 2 : MARGIN
+      doc.text(text, x, top, { font, size, color })
+    }
+
+    centered(profile.name, y + 20, 'bold', 24, TEXT)
+    centered(profile.title, y + 38, 'regular', 12, style.muted)
+    centered(contact, y + 54, 'regular', 9, TEXT)
+    if (links) centered(links, y + 67, 'regular', 9, TEXT)
+    y += links ? 72 : 60
+  }
+
+  // Summary
+  if (profile.bio.trim()) {
+    heading('Summary')
+    paragraph(profile.bio)
+  }
+
+  // Experience
+  if (profile.experience.length > 0) {
+    heading('Experience')
+
+    for (const entry of profile.experience) {
+      entryTitle(entry.position, formatDateRange(entry.startDate, entry.endDate))
+      paragraph(entry.company, 'italic', style.accent)
+      paragraph(entry.description)
+      if (entry.technologies.length > 0) {
+        paragraph(`Technologies: ${entry.technologies.join(', ')}`, 'regular', style.muted, 9)
+      }
+    }
+  }
+
+  // Education
+  if (profile.education.length > 0) {
+    heading('Education')
+
+    for (const entry of profile.education) {
+      entryTitle(`${entry.degree} in ${entry.field}`, formatDateRange(entry.startDate, entry.endDate))
+      paragraph(entry.institution, 'italic', style.accent)
+      if (entry.description) paragraph(entry.description)
+    }
+  }
+
+  // Skills
+  if (skills.length > 0) {
+    heading('Skills')
+    y += 4
+
+    for (const { category, skills: categorySkills } of groupSkillsByCategory(skills)) {
+      const label = `${category}: `
+      const labelWidth = doc.measureText(label, 'bold', BODY_SIZE)
+      const lines = doc.wrapText(categorySkills.map(skill => skill.name).join(', '), contentWidth - labelWidth)
+
+      lines.forEach((line, index) => {
+        ensureSpace(LINE_HEIGHT)
+        y += LINE_HEIGHT
+        if (index === 0) doc.text(label, MARGIN, y, { font: 'bold', size: BODY_SIZE, color: TEXT })
+        doc.text(line, MARGIN + labelWidth, y, { size: BODY_SIZE, color: TEXT })
+      })
+    }
+  }
+
+  return doc.toBuffer()
+}
+
+/**
+ * File name for a generated resume, e.g. "jane-doe-resume.pdf"
+ */
+export function resumeFileName(name: string): string {
+  const slug = name.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${slug || 'resume'}-resume.pdf`
+}
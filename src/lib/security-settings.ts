@@ -0,0 +1,27 @@
+import { z } from 'zod'
+import { prisma } from './prisma'
+
+// Settings live in a single row, created with defaults the first time it is read
+const SETTINGS_ID = 'default'
+
+export const securitySettingsSchema = z.object({
+  requireTwoFactor: z.boolean(),
+})
+
+export type SecuritySettingsInput = z.infer<typeof securitySettingsSchema>
+
+export async function getSecuritySettings() {
+  return prisma.securitySettings.upsert({
+    where: { id: SETTINGS_ID },
+    update: {},
+    create: { id: SETTINGS_ID },
+  })
+}
+
+export async function updateSecuritySettings(input: SecuritySettingsInput) {
+  return prisma.securitySettings.upsert({
+    where: { id: SETTINGS_ID },
+    update: input,
+    create: { id: SETTINGS_ID, ...input },
+  })
+}
@@ -0,0 +1,204 @@
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { ValidationError } from './error-handler'
+import { resolveTechnologies } from './technologies'
+import { ShowcaseSkill } from '@/types'
+
+type PrismaLike = Prisma.TransactionClient | typeof prisma
+
+export type SkillWithTechnology = Prisma.SkillGetPayload<{ include: { technology: true } }>
+
+export const skillInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60),
+  category: z.string().trim().min(1, 'Category is required').max(40),
+  level: z.number().int().min(0, 'Proficiency must be between 0 and 100').max(100, 'Proficiency must be between 0 and 100'),
+  yearsOfExperience: z.number().min(0).max(60).nullish(),
+  icon: z.string().trim().max(500).nullish(),
+})
+
+export type SkillInput = z.infer<typeof skillInputSchema>
+
+const skillOrder: Prisma.SkillOrderByWithRelationInput[] = [{ order: 'asc' }, { createdAt: 'asc' }]
+
+/**
+ * Lists skills in display order together with their technology
+ */
+export async function getSkills(client: PrismaLike = prisma): Promise<SkillWithTechnology[]> {
+  return client.skill.findMany({
+    include: { technology: true },
+    orderBy: skillOrder
+  })
+}
+
+/**
+ * Flattens a skill for public display, falling back to the technology's icon
+ */
+export function toShowcaseSkill(skill: SkillWithTechnology): ShowcaseSkill {
+  return {
+    id: skill.id,
+    name: skill.technology.name,
+    category: skill.category,
+    level: skill.level,
+    yearsOfExperience: skill.yearsOfExperience,
+    icon: skill.icon ?? skill.technology.icon,
+  }
+}
+
+/**
+ * Keeps the profile's skill list and technology links in step with the skills table
+ */
+async function syncProfileSkills(client: PrismaLike) {
+  const profile = await client.profile.findFirst({ select: { id: true } })
+  if (!profile) return
+
+  const skills = await getSkills(client)
+
+  await client.profile.update({
+    where: { id: profile.id },
+    data: {
+      skills: skills.map(skill => skill.technology.name),
+      skillRefs: { set: skills.map(skill => ({ id: skill.technologyId })) }
+    }
+  })
+}
+
+/**
+ * Finds the skill already listed for the technology a name refers to
+ */
+async function findDuplicateSkill(client: PrismaLike, technologyId: string, excludeId?: string) {
+  return client.skill.findFirst({
+    where: { technologyId, ...(excludeId && { id: { not: excludeId } }) },
+    include: { technology: true }
+  })
+}
+
+/**
+ * Adds a skill at the end of the list, linking it to its canonical technology
+ */
+export async function createSkill(input: SkillInput): Promise<SkillWithTechnology> {
+  return prisma.$transaction(async (tx) => {
+    const [technology] = await resolveTechnologies([input.name], tx)
+
+    const duplicate = await findDuplicateSkill(tx, technology.id)
+    if (duplicate) {
+      throw new ValidationError(`${duplicate.technology.name} is already in your skills`)
+    }
+
+    const last = await tx.skill.findFirst({ orderBy: { order: 'desc' } })
+
+    const skill = await tx.skill.create({
+      data: {
+        technologyId: technology.id,
+        category: input.category,
+        level: input.level,
+        yearsOfExperience: input.yearsOfExperience ?? null,
+        icon: input.icon || null,
+        order: (last?.order ?? -1) + 1,
+      },
+      include: { technology: true }
+    })
+
+    await syncProfileSkills(tx)
+    return skill
+  })
+}
+
+/**
+ * Updates a skill. Changing the name points it at another technology.
+ */
+export async function updateSkill(id: string, input: SkillInput): Promise<SkillWithTechnology | null> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.skill.findUnique({ where: { id } })
+    if (!existing) return null
+
+    const [technology] = await resolveTechnologies([input.name], tx)
+
+    const duplicate = await findDuplicateSkill(tx, technology.id, id)
+    if (duplicate) {
+      throw new ValidationError(`${duplicate.technology.name} is already in your skills`)
+    }
+
+    const skill = await tx.skill.update({
+      where: { id },
+      data: {
+        technologyId: technology.id,
+        category: input.category,
+        level: input.level,
+        yearsOfExperience: input.yearsOfExperience ?? null,
+        icon: input.icon || null,
+      },
+      include: { technology: true }
+    })
+
+    await syncProfileSkills(tx)
+    return skill
+  })
+}
+
+/**
+ * Adds or updates several skills at once, matching existing skills by
+ * technology. New skills go to the end of the list; others are left alone.
+ */
+export async function upsertSkills(client: PrismaLike, inputs: SkillInput[]): Promise<void> {
+  const last = await client.skill.findFirst({ orderBy: { order: 'desc' } })
+  let order = (last?.order ?? -1) + 1
+
+  for (const input of inputs) {
+    const [technology] = await resolveTechnologies([input.name], client)
+    if (!technology) continue
+
+    const existing = await client.skill.findUnique({ where: { technologyId: technology.id } })
+    const data = {
+      category: input.category,
+      level: input.level,
+      ...(input.yearsOfExperience !== undefined && { yearsOfExperience: input.yearsOfExperience }),
+      ...(input.icon !== undefined && { icon: input.icon || null }),
+    }
+
+    if (existing) {
+      await client.skill.update({ where: { id: existing.id }, data })
+    } else {
+      await client.skill.create({ data: { ...data, technologyId: technology.id, order: order++ } })
+    }
+  }
+
+  await syncProfileSkills(client)
+}
+
+/**
+ * Removes a skill. The technology itself is kept for projects that use it.
+ */
+export async function deleteSkill(id: string): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.skill.deleteMany({ where: { id } })
+    if (count === 0) return false
+
+    await syncProfileSkills(tx)
+    return true
+  })
+}
+
+/**
+ * Stores a new display order. Skills missing from the list keep their
+ * relative order after the ones given.
+ */
+export async function reorderSkills(ids: string[]): Promise<SkillWithTechnology[]> {
+  return prisma.$transaction(async (tx) => {
+    const skills = await getSkills(tx)
+    const position = (skillId: string) => {
+      const index = ids.indexOf(skillId)
+      return index === -1 ? ids.length : index
+    }
+    const ordered = [...skills].sort((a, b) => position(a.id) - position(b.id))
+
+    for (const [order, skill] of ordered.entries()) {
+      if (skill.order !== order) {
+        await tx.skill.update({ where: { id: skill.id }, data: { order } })
+      }
+    }
+
+    await syncProfileSkills(tx)
+    return getSkills(tx)
+  })
+}
@@ -0,0 +1,250 @@
+/**
+ * Spam scoring for contact form submissions. A scorer runs a list of rules,
+ * each adding points for something spammy; submissions at or above the
+ * threshold are quarantined with the SPAM status instead of landing in the
+ * inbox. Decisions made in the inbox are kept as SpamFeedback and scored on
+ * the sender's next message.
+ */
+
+import { SpamVerdict } from '@prisma/client'
+import { prisma } from './prisma'
+import { NotFoundError } from './error-handler'
+
+export interface SpamSubmission {
+  name: string
+  email: string
+  subject?: string | null
+  message: string
+  // The hidden field people never see, so never fill in
+  honeypot?: string | null
+  // How long the form was open before it was sent
+  elapsedMs?: number | null
+}
+
+export interface SpamSignal {
+  score: number
+  reason: string
+  // Quarantines the submission whatever the other rules score
+  conclusive?: boolean
+}
+
+export interface SpamRule {
+  name: string
+  check(submission: SpamSubmission): SpamSignal | null | Promise<SpamSignal | null>
+}
+
+export interface SpamResult {
+  score: number
+  reasons: string[]
+  isSpam: boolean
+}
+
+export interface SpamScorer {
+  score(submission: SpamSubmission): Promise<SpamResult>
+}
+
+export const SPAM_THRESHOLD = 50
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi
+
+export const DEFAULT_BLOCKLIST = [
+  'casino',
+  'crypto investment',
+  'backlinks',
+  'seo services',
+  'viagra',
+  'payday loan',
+  'guest post',
+  'forex',
+]
+
+export const DISPOSABLE_EMAIL_DOMAINS = [
+  'mailinator.com',
+  'guerrillamail.com',
+  '10minutemail.com',
+  'tempmail.com',
+  'temp-mail.org',
+  'yopmail.com',
+  'trashmail.com',
+  'sharklasers.com',
+  'getnada.com',
+  'dispostable.com',
+]
+
+// Anyone typing a real message takes longer than this
+const MIN_SUBMIT_MS = 3000
+
+const DUPLICATE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+function submissionText(submission: SpamSubmission): string {
+  return [submission.name, submission.subject, submission.message].filter(Boolean).join('\n')
+}
+
+// One link is normal ("here's my site"), more than that usually isn't
+export const linkRule: SpamRule = {
+  name: 'links',
+  check(submission) {
+    const links = submissionText(submission).match(LINK_PATTERN)?.length ?? 0
+    if (links <= 1) return null
+    return { score: Math.min((links - 1) * 15, 60), reason: `Contains ${links} links` }
+  },
+}
+
+/**
+ * Flags blocklisted terms. SPAM_BLOCKLIST adds comma-separated terms to the
+ * built-in list.
+ */
+export const blocklistRule: SpamRule = {
+  name: 'blocklist',
+  check(submission) {
+    const extra = (process.env.SPAM_BLOCKLIST || '').split(',').map(term => term.trim()).filter(Boolean)
+    const text = submissionText(submission).toLowerCase()
+    const found = [...DEFAULT_BLOCKLIST, ...extra].filter(term => text.includes(term.toLowerCase()))
+
+    if (found.length === 0) return null
+    return { score: Math.min(found.length * 25, 75), reason: `Blocklisted terms: ${found.join(', ')}` }
+  },
+}
+
+export const disposableEmailRule: SpamRule = {
+  name: 'disposable-email',
+  check(submission) {
+    const domain = submission.email.split('@').pop()?.toLowerCase()
+    if (!domain || !DISPOSABLE_EMAIL_DOMAINS.includes(domain)) return null
+    return { score: 40, reason: `Disposable email domain ${domain}` }
+  },
+}
+
+export const honeypotRule: SpamRule = {
+  name: 'honeypot',
+  check(submission) {
+    if (!submission.honeypot?.trim()) return null
+    return { score: 100, reason: 'Filled in the hidden honeypot field', conclusive: true }
+  },
+}
+
+// Bots post straight away, or skip the form and leave the timing out
+export const submitTimeRule: SpamRule = {
+  name: 'submit-time',
+  check(submission) {
+    if (typeof submission.elapsedMs !== 'number') {
+      return { score: 15, reason: 'Sent without using the contact form' }
+    }
+    if (submission.elapsedMs >= MIN_SUBMIT_MS) return null
+    return { score: 50, reason: `Sent ${(submission.elapsedMs / 1000).toFixed(1)}s after the form opened` }
+  },
+}
+
+export const duplicateRule: SpamRule = {
+  name: 'duplicate',
+  async check(submission) {
+    const duplicates = await prisma.contact.count({
+      where: {
+        message: submission.message,
+        createdAt: { gte: new Date(Date.now() - DUPLICATE_WINDOW_MS) },
+      },
+    })
+
+    if (duplicates === 0) return null
+    return { score: 50, reason: 'Same message was already sent this week' }
+  },
+}
+
+// Taken off the score of senders marked as not spam. Small enough that it
+// can't hide a message that trips several other rules.
+const NOT_SPAM_CREDIT = 30
+
+// The most recent inbox decision about this sender wins
+export const feedbackRule: SpamRule = {
+  name: 'feedback',
+  async check(submission) {
+    const feedback = await prisma.spamFeedback.findFirst({
+      where: { email: submission.email.toLowerCase() },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (!feedback) return null
+    return feedback.verdict === 'NOT_SPAM'
+      ? { score: -NOT_SPAM_CREDIT, reason: 'Sender was marked as not spam before' }
+      : { score: 60, reason: 'Sender was marked as spam before' }
+  },
+}
+
+export const DEFAULT_SPAM_RULES: SpamRule[] = [
+  honeypotRule,
+  linkRule,
+  blocklistRule,
+  disposableEmailRule,
+  submitTimeRule,
+  duplicateRule,
+  feedbackRule,
+]
+
+/**
+ * Adds up the rule scores. A conclusive signal, such as the honeypot, marks
+ * the submission as spam however low the total is. A rule that throws is
+ * logged and skipped so a broken rule never loses a real message.
+ */
+export function createSpamScorer(rules: SpamRule[] = DEFAULT_SPAM_RULES, threshold = SPAM_THRESHOLD): SpamScorer {
+  return {
+    async score(submission) {
+      let score = 0
+      let conclusive = false
+      const reasons: string[] = []
+
+      for (const rule of rules) {
+        try {
+          const signal = await rule.check(submission)
+          if (signal) {
+            score += signal.score
+            conclusive ||= !!signal.conclusive
+            reasons.push(signal.reason)
+          }
+        } catch (error) {
+          console.error(`Spam rule ${rule.name} failed:`, error)
+        }
+      }
+
+      return { score: Math.max(score, 0), reasons, isSpam: conclusive || score >= threshold }
+    },
+  }
+}
+
+let scorer: SpamScorer | null = null
+
+export function setSpamScorer(next: SpamScorer | null): void {
+  scorer = next
+}
+
+export function getSpamScorer(): SpamScorer {
+  if (!scorer) {
+    scorer = createSpamScorer()
+  }
+  return scorer
+}
+
+/**
+ * Moves a message into or out of spam and records the decision for the
+ * sender's next message. Messages let out of spam count as read.
+ */
+export async function markContactSpam(contactId: string, spam: boolean) {
+  const contact = await prisma.contact.findUnique({ where: { id: contactId } })
+
+  if (!contact) {
+    throw new NotFoundError('Contact')
+  }
+
+  const verdict: SpamVerdict = spam ? 'SPAM' : 'NOT_SPAM'
+
+  const [updated] = await prisma.$transaction([
+    prisma.contact.update({
+      where: { id: contactId },
+      data: { status: spam ? 'SPAM' : 'READ' },
+    }),
+    prisma.spamFeedback.create({
+      data: { email: contact.email.toLowerCase(), verdict, contactId },
+    }),
+  ])
+
+  return { contact: updated, previousStatus: contact.status }
+}
@@ -0,0 +1,260 @@
+import { z } from 'zod'
+import { Prisma, Technology, TechnologyCategory } from '@prisma/client'
+import { prisma } from './prisma'
+import { technologyKey } from './utils'
+
+type PrismaLike = Prisma.TransactionClient | typeof prisma
+
+export const technologyInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60),
+  aliases: z.array(z.string().trim().min(1).max(60)).max(20).default([]),
+  category: z.enum(TechnologyCategory).default('OTHER'),
+  icon: z.string().trim().max(500).nullish(),
+  url: z.union([z.url(), z.literal('')]).nullish(),
+})
+
+export type TechnologyInput = z.infer<typeof technologyInputSchema>
+
+/**
+ * Keys a technology can be looked up by: its name followed by its aliases
+ */
+function technologyKeys(technology: Pick<Technology, 'name' | 'aliases'>): string[] {
+  return [technology.name, ...technology.aliases].map(technologyKey).filter(Boolean)
+}
+
+/**
+ * Replaces any of the given names in a list, dropping duplicates but keeping order
+ */
+function replaceNames(names: string[], from: string[], to: string): string[] {
+  return Array.from(new Set(names.map(name => (from.includes(name) ? to : name))))
+}
+
+/**
+ * Finds the technology a name or alias refers to, ignoring case and punctuation
+ */
+export async function findTechnology(name: string, client: PrismaLike = prisma): Promise<Technology | null> {
+  const key = technologyKey(name)
+  if (!key) return null
+
+  const bySlug = await client.technology.findUnique({ where: { slug: key } })
+  if (bySlug) return bySlug
+
+  const withAliases = await client.technology.findMany({
+    where: { aliases: { isEmpty: false } }
+  })
+
+  return withAliases.find(technology => technologyKeys(technology).includes(key)) ?? null
+}
+
+/**
+ * Maps free-form names to technologies, creating any that do not exist yet.
+ * Spelling variants collapse onto one technology, in first-seen order.
+ */
+export async function resolveTechnologies(names: string[], client: PrismaLike = prisma): Promise<Technology[]> {
+  const technologies = await client.technology.findMany()
+  const byKey = new Map<string, Technology>()
+
+  for (const technology of technologies) {
+    for (const key of technologyKeys(technology)) {
+      if (!byKey.has(key)) byKey.set(key, technology)
+    }
+  }
+
+  const resolved: Technology[] = []
+
+  for (const rawName of names) {
+    const name = rawName.trim()
+    const key = technologyKey(name)
+    if (!key) continue
+
+    let technology = byKey.get(key)
+    if (!technology) {
+      technology = await client.technology.create({
+        data: { name, slug: key }
+      })
+      byKey.set(key, technology)
+    }
+
+    if (!resolved.some(existing => existing.id === technology.id)) {
+      resolved.push(technology)
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Finds another technology already using the name or one of the aliases
+ */
+export async function findTechnologyConflict(
+  input: Pick<TechnologyInput, 'name' | 'aliases'>,
+  excludeId?: string
+): Promise<{ technology: Technology; name: string } | null> {
+  const technologies = await prisma.technology.findMany({
+    where: excludeId ? { id: { not: excludeId } } : undefined
+  })
+
+  for (const name of [input.name, ...input.aliases]) {
+    const key = technologyKey(name)
+    const technology = technologies.find(existing => technologyKeys(existing).includes(key))
+    if (technology) {
+      return { technology, name }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Creates a technology from validated admin input
+ */
+export async function createTechnology(input: TechnologyInput): Promise<Technology> {
+  return prisma.technology.create({
+    data: {
+      name: input.name,
+      slug: technologyKey(input.name),
+      aliases: input.aliases,
+      category: input.category,
+      icon: input.icon || null,
+      url: input.url || null,
+    }
+  })
+}
+
+/**
+ * Updates a technology. Renames are written through to every project and
+ * profile listing it, and the old name is kept as an alias.
+ */
+export async function updateTechnology(id: string, input: TechnologyInput): Promise<Technology | null> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.technology.findUnique({ where: { id } })
+    if (!existing) return null
+
+    const renamed = existing.name !== input.name
+    const aliases = Array.from(new Set(renamed ? [...input.aliases, existing.name] : input.aliases))
+      .filter(alias => technologyKey(alias) !== technologyKey(input.name))
+
+    if (renamed) {
+      const projects = await tx.project.findMany({
+        where: { technologies: { has: existing.name } },
+        select: { id: true, technologies: true }
+      })
+      for (const project of projects) {
+        await tx.project.update({
+          where: { id: project.id },
+          data: { technologies: replaceNames(project.technologies, [existing.name], input.name) }
+        })
+      }
+
+      const profiles = await tx.profile.findMany({
+        where: { skills: { has: existing.name } },
+        select: { id: true, skills: true }
+      })
+      for (const profile of profiles) {
+        await tx.profile.update({
+          where: { id: profile.id },
+          data: { skills: replaceNames(profile.skills, [existing.name], input.name) }
+        })
+      }
+    }
+
+    return tx.technology.update({
+      where: { id },
+      data: {
+        name: input.name,
+        slug: technologyKey(input.name),
+        aliases,
+        category: input.category,
+        icon: input.icon || null,
+        url: input.url || null,
+      }
+    })
+  })
+}
+
+/**
+ * Folds duplicate technologies into the target. Projects and profiles are
+ * relinked, and the duplicates' names become aliases of the target.
+ */
+export async function mergeTechnologies(targetId: string, sourceIds: string[]): Promise<Technology | null> {
+  const ids = sourceIds.filter(id => id !== targetId)
+
+  return prisma.$transaction(async (tx) => {
+    const target = await tx.technology.findUnique({ where: { id: targetId } })
+    const sources = await tx.technology.findMany({ where: { id: { in: ids } } })
+
+    if (!target || sources.length === 0) {
+      return null
+    }
+
+    const sourceNames = sources.map(source => source.name)
+    const disconnect = sources.map(source => ({ id: source.id }))
+
+    const projects = await tx.project.findMany({
+      where: {
+        OR: [
+          { technologies: { hasSome: sourceNames } },
+          { technologyRefs: { some: { id: { in: ids } } } }
+        ]
+      },
+      select: { id: true, technologies: true }
+    })
+    for (const project of projects) {
+      await tx.project.update({
+        where: { id: project.id },
+        data: {
+          technologies: replaceNames(project.technologies, sourceNames, target.name),
+          technologyRefs: { disconnect, connect: { id: target.id } }
+        }
+      })
+    }
+
+    const profiles = await tx.profile.findMany({
+      where: {
+        OR: [
+          { skills: { hasSome: sourceNames } },
+          { skillRefs: { some: { id: { in: ids } } } }
+        ]
+      },
+      select: { id: true, skills: true }
+    })
+    for (const profile of profiles) {
+      await tx.profile.update({
+        where: { id: profile.id },
+        data: {
+          skills: replaceNames(profile.skills, sourceNames, target.name),
+          skillRefs: { disconnect, connect: { id: target.id } }
+        }
+      })
+    }
+
+    // A skill listed under a duplicate moves onto the target unless it has one already
+    const targetSkill = await tx.skill.findUnique({ where: { technologyId: target.id } })
+    if (!targetSkill) {
+      const sourceSkill = await tx.skill.findFirst({
+        where: { technologyId: { in: ids } },
+        orderBy: { order: 'asc' }
+      })
+      if (sourceSkill) {
+        await tx.skill.update({ where: { id: sourceSkill.id }, data: { technologyId: target.id } })
+      }
+    }
+
+    await tx.technology.deleteMany({ where: { id: { in: sources.map(source => source.id) } } })
+
+    const targetKey = technologyKey(target.name)
+    const aliases = Array.from(new Set([
+      ...target.aliases,
+      ...sources.flatMap(source => [source.name, ...source.aliases])
+    ])).filter(alias => technologyKey(alias) !== targetKey)
+
+    return tx.technology.update({
+      where: { id: target.id },
+      data: {
+        aliases,
+        icon: target.icon ?? sources.find(source => source.icon)?.icon ?? null,
+        url: target.url ?? sources.find(source => source.url)?.url ?? null,
+      }
+    })
+  })
+}
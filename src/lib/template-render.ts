@@ -0,0 +1,114 @@
+/**
+ * Fills in {{variables}} in email templates. Kept free of server-only imports
+ * so the template editor can show the variables and built-in defaults.
+ */
+
+import { EmailTemplatePurpose } from '@prisma/client'
+import { escapeHtml } from './markdown'
+
+export type TemplateValues = { [key: string]: string | null | undefined | TemplateValues }
+
+// The variables every template can use, as shown in the editor
+export const TEMPLATE_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: 'name', description: "The sender's name" },
+  { name: 'email', description: "The sender's email address" },
+  { name: 'subject', description: 'The subject of their message' },
+  { name: 'message', description: 'Their message' },
+  { name: 'date', description: 'When the message was received' },
+  { name: 'profile.name', description: 'Your name from the profile' },
+  { name: 'profile.title', description: 'Your title from the profile' },
+  { name: 'profile.email', description: 'Your email from the profile' },
+  { name: 'profile.location', description: 'Your location from the profile' },
+  { name: 'sender.name', description: 'The admin sending a reply' },
+  { name: 'inboxUrl', description: 'Link to the message in the admin inbox' },
+]
+
+// Values typed by whoever filled in the contact form. The confirmation goes to
+// an address nobody has verified, so it can't repeat them.
+export const SENDER_VARIABLES = ['name', 'email', 'subject', 'message']
+
+/**
+ * The variables a template for the given purpose can use
+ */
+export function templateVariablesFor(purpose: EmailTemplatePurpose) {
+  return purpose === 'CONTACT_CONFIRMATION'
+    ? TEMPLATE_VARIABLES.filter(variable => !SENDER_VARIABLES.includes(variable.name))
+    : TEMPLATE_VARIABLES
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g
+
+function lookup(values: TemplateValues, path: string): string {
+  let current: TemplateValues[string] = values
+
+  for (const key of path.split('.')) {
+    if (!current || typeof current === 'string') return ''
+    current = current[key]
+  }
+
+  return typeof current === 'string' ? current : ''
+}
+
+/**
+ * Replaces each {{variable}} with its value. Unknown variables become empty.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replace(VARIABLE_PATTERN, (_match, path: string) => lookup(values, path))
+}
+
+/**
+ * Variable names used in a template that a template for the purpose can't use
+ */
+export function unknownTemplateVariables(template: string, purpose: EmailTemplatePurpose = 'REPLY'): string[] {
+  const known = new Set(templateVariablesFor(purpose).map(variable => variable.name))
+  const used = Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1])
+
+  return [...new Set(used.filter(name => !known.has(name)))]
+}
+
+/**
+ * The HTML version of a rendered plain-text email body
+ */
+export function templateTextToHtml(text: string): string {
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; white-space: pre-wrap;">${escapeHtml(text)}</div>
+  `
+}
+
+export const PURPOSE_LABELS: Record<EmailTemplatePurpose, string> = {
+  REPLY: 'Reply',
+  CONTACT_NOTIFICATION: 'New message notification',
+  CONTACT_CONFIRMATION: 'Confirmation to sender',
+}
+
+// What the contact form sends until an admin saves their own version. The
+// confirmation is only sent once an admin has saved one.
+export const DEFAULT_CONTACT_TEMPLATES = {
+  CONTACT_NOTIFICATION: {
+    name: 'New message notification',
+    subject: 'Portfolio Contact: {{subject}}',
+    body: `New contact message
+
+Name: {{name}}
+Email: {{email}}
+Subject: {{subject}}
+Sent: {{date}}
+
+Message:
+{{message}}
+
+---
+This message was sent through your portfolio contact form.
+Reply directly to this email to respond to {{name}}, or answer from the inbox: {{inboxUrl}}`,
+  },
+  CONTACT_CONFIRMATION: {
+    name: 'Message received confirmation',
+    subject: 'Thanks for your message',
+    body: `Hi,
+
+Thanks for getting in touch. I've received your message and will get back to you soon.
+
+{{profile.name}}
+{{profile.title}}`,
+  },
+}
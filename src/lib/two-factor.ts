@@ -0,0 +1,247 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, timingSafeEqual } from 'crypto'
+import { z } from 'zod'
+import QRCode from 'qrcode'
+import { User } from '@prisma/client'
+import { prisma } from './prisma'
+import { generateTotpSecret, totpStep, totpUri, verifyTotp } from './totp'
+import { NotFoundError, ValidationError } from './error-handler'
+
+export const TWO_FACTOR_ISSUER = 'SIRI DEV Portfolio'
+export const RECOVERY_CODE_COUNT = 10
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Enter a code from your authenticator app or a recovery code'),
+})
+
+export type TwoFactorUser = Pick<User, 'id' | 'twoFactorSecret' | 'twoFactorRecoveryCodes' | 'twoFactorLastUsedStep'>
+
+export type SecondFactorMethod = 'totp' | 'recovery_code'
+
+export interface TwoFactorEnrolment {
+  secret: string
+  uri: string
+  qrCode: string
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.TWO_FACTOR_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('TWO_FACTOR_SECRET or NEXTAUTH_SECRET must be configured for two-factor authentication')
+  }
+  return createHash('sha256').update(secret).digest()
+}
+
+/**
+ * TOTP secrets are stored encrypted (AES-256-GCM) so a database dump alone
+ * cannot generate codes. Format: <iv>.<authTag>.<ciphertext>
+ */
+export function encryptTwoFactorSecret(secret: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.')
+}
+
+export function decryptTwoFactorSecret(value: string): string {
+  const [iv, authTag, ciphertext] = value.split('.').map(part => Buffer.from(part, 'base64url'))
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv)
+  decipher.setAuthTag(authTag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+}
+
+// Recovery codes are compared without dashes, spaces or case
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase()
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+/**
+ * Single-use codes shown once, formatted as xxxxx-xxxxx
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = randomBytes(5).toString('hex')
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
+
+export function isTwoFactorEnabled(user: Pick<User, 'twoFactorSecret'>): boolean {
+  return Boolean(user.twoFactorSecret)
+}
+
+async function findUser(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } })
+
+  if (!user) {
+    throw new NotFoundError('User')
+  }
+
+  return user
+}
+
+export async function getTwoFactorStatus(userId: string) {
+  const user = await findUser(userId)
+
+  return {
+    enabled: isTwoFactorEnabled(user),
+    enabledAt: user.twoFactorEnabledAt,
+    recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+  }
+}
+
+/**
+ * Checks a TOTP code or recovery code for a user with two-factor enabled.
+ * TOTP steps at or before the last accepted one are refused so a code cannot
+ * be replayed, and recovery codes are removed once used.
+ */
+export async function verifySecondFactor(
+  user: TwoFactorUser,
+  code: string,
+  now: number = Date.now()
+): Promise<SecondFactorMethod | null> {
+  if (!user.twoFactorSecret) {
+    return null
+  }
+
+  const step = verifyTotp(decryptTwoFactorSecret(user.twoFactorSecret), code, { now })
+
+  if (step !== null) {
+    if (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep) {
+      return null
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorLastUsedStep: step },
+    })
+    return 'totp'
+  }
+
+  const hash = Buffer.from(hashRecoveryCode(code))
+  const match = user.twoFactorRecoveryCodes.find(stored => {
+    const candidate = Buffer.from(stored)
+    return candidate.length === hash.length && timingSafeEqual(candidate, hash)
+  })
+
+  if (!match) {
+    return null
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(stored => stored !== match) },
+  })
+  return 'recovery_code'
+}
+
+/**
+ * Creates a new secret waiting to be confirmed with a first code. Any earlier
+ * unconfirmed secret is replaced.
+ */
+export async function startTwoFactorEnrolment(user: Pick<User, 'id' | 'email'>): Promise<TwoFactorEnrolment> {
+  const existing = await findUser(user.id)
+
+  if (isTwoFactorEnabled(existing)) {
+    throw new ValidationError('Two-factor authentication is already enabled')
+  }
+
+  const secret = generateTotpSecret()
+  const uri = totpUri(secret, user.email, TWO_FACTOR_ISSUER)
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorPendingSecret: encryptTwoFactorSecret(secret) },
+  })
+
+  return { secret, uri, qrCode: await QRCode.toDataURL(uri) }
+}
+
+/**
+ * Turns two-factor on once the user proves their app has the pending secret,
+ * and returns the recovery codes to show them
+ */
+export async function confirmTwoFactorEnrolment(
+  userId: string,
+  code: string,
+  now: number = Date.now()
+): Promise<string[]> {
+  const user = await findUser(userId)
+
+  if (!user.twoFactorPendingSecret) {
+    throw new ValidationError('Start two-factor setup before confirming it')
+  }
+
+  const secret = decryptTwoFactorSecret(user.twoFactorPendingSecret)
+  const step = verifyTotp(secret, code, { now })
+
+  if (step === null) {
+    throw new ValidationError('That code is not valid. Check the time on your device and try again.')
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: user.twoFactorPendingSecret,
+      twoFactorPendingSecret: null,
+      twoFactorEnabledAt: new Date(now),
+      twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      twoFactorLastUsedStep: Math.max(step, totpStep(now)),
+    },
+  })
+
+  return recoveryCodes
+}
+
+async function findEnabledUser(userId: string) {
+  const user = await findUser(userId)
+
+  if (!isTwoFactorEnabled(user)) {
+    throw new ValidationError('Two-factor authentication is not enabled')
+  }
+
+  return user
+}
+
+export async function disableTwoFactor(userId: string, code: string): Promise<void> {
+  const user = await findEnabledUser(userId)
+
+  if (!(await verifySecondFactor(user, code))) {
+    throw new ValidationError('That code is not valid')
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: null,
+      twoFactorPendingSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorRecoveryCodes: [],
+      twoFactorLastUsedStep: null,
+    },
+  })
+}
+
+/**
+ * Replaces every recovery code, e.g. after some have been used or lost
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  const user = await findEnabledUser(userId)
+
+  if (!(await verifySecondFactor(user, code))) {
+    throw new ValidationError('That code is not valid')
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+  })
+
+  return recoveryCodes
+}
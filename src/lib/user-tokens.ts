@@ -0,0 +1,75 @@
+import { createHash, randomBytes } from 'crypto'
+import { UserTokenType } from '@prisma/client'
+import { prisma } from './prisma'
+import { ValidationError } from './error-handler'
+
+// How long each kind of emailed link stays valid
+export const USER_TOKEN_TTL_MS: Record<UserTokenType, number> = {
+  PASSWORD_RESET: 60 * 60 * 1000,
+  INVITATION: 7 * 24 * 60 * 60 * 1000,
+}
+
+export function hashUserToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Creates a token for the user and returns the raw value to put in the link.
+ * Earlier unused tokens of the same type stop working.
+ */
+export async function createUserToken(
+  userId: string,
+  type: UserTokenType,
+  now: number = Date.now()
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('base64url')
+  const expiresAt = new Date(now + USER_TOKEN_TTL_MS[type])
+
+  await prisma.$transaction([
+    prisma.userToken.deleteMany({ where: { userId, type, usedAt: null } }),
+    prisma.userToken.create({
+      data: { userId, type, tokenHash: hashUserToken(token), expiresAt },
+    }),
+  ])
+
+  return { token, expiresAt }
+}
+
+/**
+ * The unused, unexpired token record with its user, or null
+ */
+export async function findUserToken(token: string, type: UserTokenType, now: number = Date.now()) {
+  const record = await prisma.userToken.findUnique({
+    where: { tokenHash: hashUserToken(token) },
+    include: { user: { select: { id: true, email: true, name: true, role: true } } },
+  })
+
+  if (!record || record.type !== type || record.usedAt || record.expiresAt.getTime() <= now) {
+    return null
+  }
+
+  return record
+}
+
+/**
+ * Marks a token as used and returns its user. The update only matches an
+ * unused token, so two requests racing with the same link can't both succeed.
+ */
+export async function consumeUserToken(token: string, type: UserTokenType, now: number = Date.now()) {
+  const record = await findUserToken(token, type, now)
+
+  if (!record) {
+    throw new ValidationError('This link is invalid or has expired')
+  }
+
+  const { count } = await prisma.userToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date(now) },
+  })
+
+  if (count === 0) {
+    throw new ValidationError('This link is invalid or has expired')
+  }
+
+  return record.user
+}
@@ -31,6 +31,26 @@ export function slugify(text: string): string {
     .replace(/^-+|-+$/g, '')
 }
 
+// Project URLs keep their original rules so existing links stay stable
+export function toProjectSlug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '')
+}
+
+/**
+ * Normalises a technology name so spellings like "Next.js", "NextJS" and
+ * "nextjs" compare equal. Also used as the technology slug.
+ */
+export function technologyKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9+#]/g, '')
+    .replace(/\+/g, 'plus')
+    .replace(/#/g, 'sharp')
+}
+
 export function truncate(text: string, length: number): string {
   if (text.length <= length) return text
   return text.slice(0, length) + '...'
@@ -59,4 +79,22 @@ export function throttle<T extends (...args: any[]) => any>(
       setTimeout(() => (inThrottle = false), limit)
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Groups skills by category. Categories appear in the order of their first skill.
+ */
+export function groupSkillsByCategory<T extends { category: string }>(skills: T[]): { category: string; skills: T[] }[] {
+  const groups = new Map<string, T[]>()
+
+  for (const skill of skills) {
+    const group = groups.get(skill.category)
+    if (group) {
+      group.push(skill)
+    } else {
+      groups.set(skill.category, [skill])
+    }
+  }
+
+  return Array.from(groups, ([category, skills]) => ({ category, skills }))
+}
@@ -1,7 +1,7 @@
-import { Project, Profile, Contact, Analytics, Session, User } from '@prisma/client'
+import { Project, Profile, ExperienceEntry, EducationEntry, Contact, Analytics, Session, User, ApiToken, ContactReply, ContactNote, ContactLabel } from '@prisma/client'
 
 // Re-export Prisma types
-export type { Project, Profile, Contact, Analytics, Session, User }
+export type { Project, Profile, ExperienceEntry, EducationEntry, Contact, ContactReply, ContactNote, ContactLabel, Analytics, Session, User }
 
 // Extended types for frontend use
 export interface ProjectWithDetails extends Project {
@@ -44,26 +44,86 @@ export interface SocialLinks {
   website?: string
 }
 
-export interface Experience {
+// Profile with its experience and education in display order
+export interface ProfileWithEntries extends Profile {
+  experience: ExperienceEntry[]
+  education: EducationEntry[]
+}
+
+// A contact message with its labels, as the contacts list returns them
+export interface ContactWithLabels extends Contact {
+  labels: ContactLabel[]
+}
+
+// A contact message with the replies sent from the admin inbox and internal notes, oldest first
+export interface ContactWithReplies extends ContactWithLabels {
+  replies: ContactReply[]
+  notes: ContactNote[]
+}
+
+// A label with how many messages have it
+export interface ContactLabelWithCount extends ContactLabel {
+  _count: { contacts: number }
+}
+
+// A user with access to the admin panel, as the users API returns them
+export type AdminUser = Pick<User, 'id' | 'email' | 'name' | 'role' | 'twoFactorEnabledAt' | 'createdAt' | 'updatedAt'> & {
+  invitationPending?: boolean
+}
+
+// A signed-in browser or device, as the session API lists them
+export interface ActiveSession {
   id: string
-  company: string
-  position: string
-  startDate: string
-  endDate?: string
-  description: string
-  technologies?: string[]
+  device: string
+  browser: string
+  os: string
+  ipAddress: string | null
+  createdAt: Date
+  lastActiveAt: Date
+  expiresAt: Date
+  current: boolean
+}
+
+// An API token as the tokens API lists them; the token itself is only shown once
+export type ApiTokenSummary = Omit<ApiToken, 'tokenHash'> & {
+  user?: Pick<User, 'name' | 'email'>
 }
 
-export interface Education {
+export interface ShowcaseSkill {
   id: string
-  institution: string
-  degree: string
-  field: string
-  startDate: string
-  endDate?: string
+  name: string
+  category: string
+  level: number
+  yearsOfExperience: number | null
+  icon: string | null
+}
+
+export type ProjectBlockType =
+  | 'text'
+  | 'problem'
+  | 'solution'
+  | 'architecture'
+  | 'metrics'
+  | 'quote'
+  | 'code'
+  | 'gallery'
+
+export interface ProjectMetric {
+  label: string
+  value: string
   description?: string
 }
 
+export type ProjectBlock =
+  | { id: string; type: 'text'; markdown: string }
+  | { id: string; type: 'problem'; heading?: string; markdown: string }
+  | { id: string; type: 'solution'; heading?: string; markdown: string }
+  | { id: string; type: 'architecture'; imageUrl: string; alt?: string; caption?: string }
+  | { id: string; type: 'metrics'; items: ProjectMetric[] }
+  | { id: string; type: 'quote'; text: string; author?: string; role?: string }
+  | { id: string; type: 'code'; language: string; code: string; caption?: string }
+  | { id: string; type: 'gallery'; images: string[]; caption?: string }
+
 export interface ApiResponse<T = any> {
   success: boolean
   data?: T